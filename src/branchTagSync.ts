@@ -0,0 +1,157 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
+import { TaskMasterClient } from './taskMasterClient';
+import { TaskProvider } from './taskProvider';
+import { TagStatusBarItem } from './statusBar';
+import { findGitHeadPath, getTagForBranch, parseGitHead } from './gitBranchUtils';
+import { log } from './logger';
+
+/**
+ * Switches to the tag of the checked-out git branch while claudeTaskMaster.followGitBranch is on.
+ * Only .git/HEAD is read, so switching follows `git checkout` without running git.
+ */
+export class BranchTagSync {
+    private watcher: vscode.FileSystemWatcher | undefined;
+    private headPath: string | undefined;
+    private lastBranch: string | undefined;
+    // Branches whose "create a tag?" prompt was dismissed, asked again after a reload
+    private readonly declinedBranches = new Set<string>();
+    private syncing = false;
+    private syncAgain = false;
+
+    constructor(
+        context: vscode.ExtensionContext,
+        private readonly workspaceRoot: string,
+        private readonly taskMasterClient: TaskMasterClient,
+        private readonly taskProvider: TaskProvider,
+        private readonly statusBar: TagStatusBarItem
+    ) {
+        context.subscriptions.push(
+            vscode.workspace.onDidChangeConfiguration(event => {
+                if (event.affectsConfiguration('claudeTaskMaster.followGitBranch') || event.affectsConfiguration('claudeTaskMaster.branchTagMap')) {
+                    this.configure();
+                }
+            }),
+            { dispose: () => this.stopWatching() }
+        );
+        this.configure();
+    }
+
+    /**
+     * Start or stop following the branch to match the settings
+     */
+    private configure(): void {
+        this.stopWatching();
+        this.lastBranch = undefined;
+
+        if (!vscode.workspace.getConfiguration('claudeTaskMaster').get<boolean>('followGitBranch', false)) {
+            this.statusBar.setBranchBinding(undefined);
+            return;
+        }
+
+        this.headPath = findGitHeadPath(this.workspaceRoot);
+        if (!this.headPath) {
+            log(`Following the git branch is enabled, but ${this.workspaceRoot} is not a git repository`);
+            this.statusBar.setBranchBinding(undefined);
+            return;
+        }
+
+        // git replaces HEAD on checkout, so creation counts as a change too
+        this.watcher = vscode.workspace.createFileSystemWatcher(
+            new vscode.RelativePattern(vscode.Uri.file(path.dirname(this.headPath)), 'HEAD')
+        );
+        this.watcher.onDidChange(() => this.sync());
+        this.watcher.onDidCreate(() => this.sync());
+        log(`Following the git branch through ${this.headPath}`);
+        this.sync();
+    }
+
+    private stopWatching(): void {
+        this.watcher?.dispose();
+        this.watcher = undefined;
+    }
+
+    /**
+     * Switch to the current branch's tag when the branch changed since the last check
+     */
+    private async sync(): Promise<void> {
+        // Checkouts can touch HEAD several times, run again once the current switch is done
+        if (this.syncing) {
+            this.syncAgain = true;
+            return;
+        }
+        this.syncing = true;
+        try {
+            do {
+                this.syncAgain = false;
+                await this.syncBranch();
+            } while (this.syncAgain);
+        } finally {
+            this.syncing = false;
+        }
+    }
+
+    private async syncBranch(): Promise<void> {
+        let branch: string | undefined;
+        try {
+            branch = this.headPath ? parseGitHead(fs.readFileSync(this.headPath, 'utf8')) : undefined;
+        } catch (error) {
+            log(`Could not read ${this.headPath}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+        if (branch === this.lastBranch) {
+            return;
+        }
+        this.lastBranch = branch;
+
+        const tagContext = this.taskMasterClient.getTagContext();
+        const mapping = vscode.workspace.getConfiguration('claudeTaskMaster').get<Record<string, string>>('branchTagMap', {});
+        const tag = branch ? getTagForBranch(branch, mapping) : undefined;
+        if (!branch || !tag || !tagContext.isTaggedFormat) {
+            log(branch ? `Branch ${branch} has no tag to follow` : 'HEAD is detached, not following a branch');
+            this.statusBar.setBranchBinding(undefined);
+            return;
+        }
+
+        try {
+            if (!tagContext.availableTags.includes(tag)) {
+                if (this.declinedBranches.has(branch) || !(await this.offerToCreateTag(branch, tag))) {
+                    this.statusBar.setBranchBinding(undefined);
+                    return;
+                }
+            }
+
+            if (tag !== tagContext.currentTag) {
+                await this.taskProvider.switchTag(tag);
+                vscode.window.setStatusBarMessage(`$(git-branch) 已切换到分支 ${branch} 对应的标签 ${tag}`, 5000);
+                log(`Switched to tag ${tag} for branch ${branch}`);
+            }
+            this.statusBar.setBranchBinding({ branch, tag });
+        } catch (error) {
+            log(`Switching to the tag of branch ${branch} failed: ${error}`);
+            vscode.window.showErrorMessage(`切换到分支 ${branch} 对应的标签失败：${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Ask whether to create the tag for a branch that doesn't have one yet
+     * @returns True when the tag was created
+     */
+    private async offerToCreateTag(branch: string, tag: string): Promise<boolean> {
+        const choice = await vscode.window.showInformationMessage(
+            `分支 ${branch} 还没有对应的标签，要创建标签 ${tag} 吗？`,
+            '创建并切换',
+            '不再询问此分支'
+        );
+        if (choice !== '创建并切换') {
+            if (choice === '不再询问此分支') {
+                this.declinedBranches.add(branch);
+            }
+            return false;
+        }
+
+        await this.taskMasterClient.createTag(tag);
+        log(`Created tag ${tag} for branch ${branch}`);
+        return true;
+    }
+}
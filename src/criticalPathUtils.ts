@@ -0,0 +1,208 @@
+import { CriticalPathEntry, CriticalPathResult, Task } from './types';
+import { buildDependencyGraph } from './dependencyGraph';
+import { getFilterStatusLabel, normalizeFilterStatus } from './filterUtils';
+import { escapeMarkdown } from './escapeUtils';
+
+export interface CriticalPathOptions {
+    /** Hours assumed for tasks without a usable estimatedTime */
+    defaultEstimateHours: number;
+    /** Working hours in a day, used for "d" and "w" estimates */
+    hoursPerDay: number;
+}
+
+const epsilon = 1e-9;
+
+/**
+ * Parse an estimatedTime value such as "3h", "1.5 days", "30m", "2-3d", "2天" or a bare number of hours
+ * @param estimate The estimatedTime text
+ * @param hoursPerDay Working hours in a day; a week is five days
+ * @returns The estimate in hours (ranges use their midpoint), or undefined when it can't be parsed
+ */
+export function parseEstimatedHours(estimate: string | undefined, hoursPerDay: number = 8): number | undefined {
+    const match = /^(\d+(?:\.\d+)?)(?:\s*[-~]\s*(\d+(?:\.\d+)?))?\s*([a-z一-龥]*)$/.exec((estimate || '').trim().toLowerCase());
+    if (!match) {
+        return undefined;
+    }
+
+    const low = Number(match[1]);
+    const value = match[2] ? (low + Number(match[2])) / 2 : low;
+    const unit = match[3] || 'h';
+
+    if (['m', 'min', 'mins', 'minute', 'minutes', '分钟'].includes(unit)) {
+        return value / 60;
+    }
+    if (['h', 'hr', 'hrs', 'hour', 'hours', '小时'].includes(unit)) {
+        return value;
+    }
+    if (['d', 'day', 'days', '天'].includes(unit)) {
+        return value * hoursPerDay;
+    }
+    if (['w', 'wk', 'week', 'weeks', '周'].includes(unit)) {
+        return value * hoursPerDay * 5;
+    }
+    return undefined;
+}
+
+/**
+ * Compute earliest start, slack and the critical path of the remaining work in a tag.
+ * Works on main tasks; subtask dependencies count for their parent and a task without its own
+ * estimate uses the sum of its remaining subtasks' estimates.
+ * @param tasks Main tasks with nested subtasks
+ * @param options Default estimate and working hours per day
+ * @returns Entries in dependency order and the chain of remaining tasks that sets the total duration
+ */
+export function computeCriticalPath(tasks: Task[], options: CriticalPathOptions): CriticalPathResult {
+    const graph = buildDependencyGraph(tasks, false);
+    // Edges closing a cycle have no valid schedule; dependency validation reports them instead
+    const edges = graph.edges.filter(edge => !edge.cyclic);
+    const predecessors = new Map<string, string[]>();
+    const successors = new Map<string, string[]>();
+    for (const edge of edges) {
+        predecessors.set(edge.to, [...(predecessors.get(edge.to) || []), edge.from]);
+        successors.set(edge.from, [...(successors.get(edge.from) || []), edge.to]);
+    }
+
+    // Layers follow the non-cyclic edges, so sorting by layer gives a topological order
+    const ordered = [...graph.nodes].sort((a, b) => a.layer - b.layer);
+    const entries = new Map<string, CriticalPathEntry>();
+    for (const node of ordered) {
+        const { duration, estimated } = getRemainingDuration(node.task, options);
+        const earliestStart = Math.max(0, ...(predecessors.get(node.id) || []).map(id => entries.get(id)?.earliestFinish || 0));
+        entries.set(node.id, {
+            id: node.id,
+            task: node.task,
+            duration,
+            estimated,
+            earliestStart,
+            earliestFinish: earliestStart + duration,
+            latestStart: 0,
+            slack: 0,
+            critical: false
+        });
+    }
+
+    const totalDuration = Math.max(0, ...[...entries.values()].map(entry => entry.earliestFinish));
+    for (const node of [...ordered].reverse()) {
+        const entry = entries.get(node.id);
+        if (!entry) {
+            continue;
+        }
+        const latestFinish = Math.min(totalDuration, ...(successors.get(node.id) || []).map(id => entries.get(id)?.latestStart ?? totalDuration));
+        entry.latestStart = latestFinish - entry.duration;
+        entry.slack = Math.max(0, entry.latestStart - entry.earliestStart);
+        entry.critical = entry.duration > 0 && entry.slack < epsilon;
+    }
+
+    const orderedEntries = ordered.map(node => entries.get(node.id)).filter((entry): entry is CriticalPathEntry => !!entry);
+    return { entries: orderedEntries, path: tracePath(orderedEntries, predecessors, entries, totalDuration), totalDuration };
+}
+
+/**
+ * Render the analysis as a Markdown report
+ * @param result The analysis
+ * @param options tagLabel heads the report; hoursPerDay converts the total to days
+ * @returns Markdown text
+ */
+export function generateCriticalPathReport(result: CriticalPathResult, options: { tagLabel: string; hoursPerDay: number }): string {
+    const lines: string[] = [
+        `# 关键路径：${options.tagLabel}`,
+        '',
+        `生成时间：${new Date().toLocaleString()}`,
+        '',
+        `剩余工期：**${formatHours(result.totalDuration)}**（约 ${formatHours(result.totalDuration / options.hoursPerDay, '天')}）`,
+        ''
+    ];
+
+    lines.push('## 关键路径', '');
+    if (result.path.length === 0) {
+        lines.push('没有剩余工作。', '');
+    } else {
+        result.path.forEach((entry, index) => {
+            lines.push(`${index + 1}. **${entry.id}** ${escapeMarkdown(entry.task.title)} — ${formatHours(entry.duration)}，最早开始 +${formatHours(entry.earliestStart)}`);
+        });
+        lines.push('');
+    }
+
+    lines.push(
+        '## 全部任务',
+        '',
+        '| 任务 | 状态 | 工期 | 最早开始 | 最早完成 | 松弛 | 关键 |',
+        '|------|------|------|----------|----------|------|------|'
+    );
+    for (const entry of result.entries) {
+        lines.push(`| ${entry.id} ${escapeMarkdown(entry.task.title)} | ${getFilterStatusLabel(normalizeFilterStatus(entry.task.status))} | `
+            + `${formatHours(entry.duration)}${entry.estimated ? '' : '*'} | +${formatHours(entry.earliestStart)} | +${formatHours(entry.earliestFinish)} | `
+            + `${formatHours(entry.slack)} | ${entry.critical ? '🔴' : ''} |`);
+    }
+
+    const unestimated = result.entries.filter(entry => !entry.estimated);
+    if (unestimated.length > 0) {
+        lines.push('', `\\* ${unestimated.length} 个任务没有可用的 estimatedTime，已使用默认估算。`);
+    }
+
+    return lines.join('\n') + '\n';
+}
+
+/**
+ * Format a number of hours for display, e.g. "4h" or "2.5h"
+ */
+export function formatHours(hours: number, unit: string = 'h'): string {
+    const rounded = Math.round(hours * 10) / 10;
+    return `${rounded}${unit}`;
+}
+
+function getRemainingDuration(task: Task, options: CriticalPathOptions): { duration: number; estimated: boolean } {
+    if (isFinished(task)) {
+        return { duration: 0, estimated: true };
+    }
+
+    const ownEstimate = parseEstimatedHours(task.estimatedTime, options.hoursPerDay);
+    if (ownEstimate !== undefined) {
+        return { duration: ownEstimate, estimated: true };
+    }
+
+    const subtasks = task.subtasks || [];
+    const subtaskEstimates = subtasks.map(subtask => parseEstimatedHours(subtask.estimatedTime, options.hoursPerDay));
+    if (subtaskEstimates.some(estimate => estimate !== undefined)) {
+        let duration = 0;
+        let estimated = true;
+        subtasks.forEach((subtask, index) => {
+            if (isFinished(subtask)) {
+                return;
+            }
+            const estimate = subtaskEstimates[index];
+            estimated = estimated && estimate !== undefined;
+            duration += estimate ?? options.defaultEstimateHours;
+        });
+        return { duration, estimated };
+    }
+
+    return { duration: options.defaultEstimateHours, estimated: false };
+}
+
+function isFinished(task: Task): boolean {
+    const status = normalizeFilterStatus(task.status);
+    return status === 'completed' || status === 'cancelled';
+}
+
+/**
+ * Walk back from the last critical task through critical predecessors that finish exactly when it can start
+ */
+function tracePath(
+    ordered: CriticalPathEntry[],
+    predecessors: Map<string, string[]>,
+    entries: Map<string, CriticalPathEntry>,
+    totalDuration: number
+): CriticalPathEntry[] {
+    let current = [...ordered].reverse().find(entry => entry.critical && Math.abs(entry.earliestFinish - totalDuration) < epsilon);
+    const path: CriticalPathEntry[] = [];
+    while (current) {
+        path.unshift(current);
+        const start = current.earliestStart;
+        current = (predecessors.get(current.id) || [])
+            .map(id => entries.get(id))
+            .filter((entry): entry is CriticalPathEntry => !!entry && entry.critical && Math.abs(entry.earliestFinish - start) < epsilon)
+            .sort((a, b) => b.duration - a.duration)[0];
+    }
+    return path;
+}
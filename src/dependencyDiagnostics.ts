@@ -0,0 +1,308 @@
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import { TaskMasterClient } from './taskMasterClient';
+import { DependencyIssue, Task } from './types';
+import { getParentTaskId, getQualifiedTaskId, resolveDependency, validateDependencies } from './dependencyUtils';
+import { JsonNode, getPropertyNode, parseJsonTree } from './jsonUtils';
+import { log } from './logger';
+
+interface DependencyProblem {
+    issue: DependencyIssue;
+    diagnostic: vscode.Diagnostic;
+    /** Dependency element and the range that removes it together with its comma */
+    elementRange: vscode.Range;
+    removalRange: vscode.Range;
+    /** Replacement text for cross-parent dependencies, unset when there is no safe repair */
+    repair?: { targetId: string; text: string };
+}
+
+/**
+ * Publishes dependency problems of the current tag to the Problems panel and offers quick fixes in tasks.json
+ */
+export class DependencyDiagnostics implements vscode.CodeActionProvider {
+    public static readonly providedCodeActionKinds = [vscode.CodeActionKind.QuickFix];
+
+    private readonly diagnostics: vscode.DiagnosticCollection;
+    private problems: DependencyProblem[] = [];
+    private taskChoices: vscode.QuickPickItem[] = [];
+
+    constructor(
+        context: vscode.ExtensionContext,
+        private readonly taskMasterClient: TaskMasterClient,
+        private readonly tasksJsonPath: string
+    ) {
+        this.diagnostics = vscode.languages.createDiagnosticCollection('claudeTaskMaster.dependencies');
+        context.subscriptions.push(this.diagnostics);
+
+        context.subscriptions.push(
+            vscode.languages.registerCodeActionsProvider(
+                { pattern: '**/.taskmaster/tasks/tasks.json' },
+                this,
+                { providedCodeActionKinds: DependencyDiagnostics.providedCodeActionKinds }
+            ),
+            vscode.workspace.onDidChangeTextDocument(event => {
+                if (this.isTasksDocument(event.document)) {
+                    this.refresh();
+                }
+            }),
+            vscode.workspace.onDidCloseTextDocument(document => {
+                if (this.isTasksDocument(document)) {
+                    this.refresh();
+                }
+            })
+        );
+
+        this.refresh();
+    }
+
+    /**
+     * Re-validate tasks.json, preferring the unsaved editor contents when the file is open
+     */
+    public refresh(): void {
+        const uri = vscode.Uri.file(this.tasksJsonPath);
+        const openDocument = vscode.workspace.textDocuments.find(document => this.isTasksDocument(document));
+
+        let text: string;
+        try {
+            if (openDocument) {
+                text = openDocument.getText();
+            } else if (fs.existsSync(this.tasksJsonPath)) {
+                text = fs.readFileSync(this.tasksJsonPath, 'utf8');
+            } else {
+                this.clear();
+                return;
+            }
+        } catch (error) {
+            log(`Could not read tasks.json for dependency validation: ${error instanceof Error ? error.message : String(error)}`);
+            this.clear();
+            return;
+        }
+
+        let tasksNode: JsonNode | undefined;
+        try {
+            tasksNode = findTasksNode(parseJsonTree(text), this.taskMasterClient.getCurrentTag());
+        } catch (error) {
+            // VS Code's JSON support already reports syntax errors, stale dependency problems would only add noise
+            this.clear();
+            return;
+        }
+        if (!tasksNode) {
+            this.clear();
+            return;
+        }
+
+        const dependencyNodes = new Map<string, JsonNode>();
+        this.taskChoices = [];
+        const tasks = (tasksNode.children || []).map(node => this.toTask(node, dependencyNodes)).filter((task): task is Task => task !== null);
+        const knownIds = new Set(this.taskChoices.map(choice => choice.label));
+        const lineStarts = getLineStarts(text);
+        const toPosition = (offset: number) => offsetToPosition(lineStarts, offset);
+
+        this.problems = [];
+        for (const issue of validateDependencies(tasks)) {
+            const arrayNode = dependencyNodes.get(issue.taskId);
+            const elements = arrayNode?.children || [];
+            const index = elements.findIndex(element => String(element.value) === issue.dependency);
+            const element = elements[index];
+            if (!element) {
+                continue;
+            }
+
+            const elementRange = new vscode.Range(toPosition(element.offset), toPosition(element.offset + element.length));
+            const next = elements[index + 1];
+            const previous = elements[index - 1];
+            const removalRange = next
+                ? new vscode.Range(toPosition(element.offset), toPosition(next.offset))
+                : previous
+                    ? new vscode.Range(toPosition(previous.offset + previous.length), toPosition(element.offset + element.length))
+                    : elementRange;
+
+            const diagnostic = new vscode.Diagnostic(
+                elementRange,
+                issue.message,
+                issue.kind === 'crossParent' ? vscode.DiagnosticSeverity.Warning : vscode.DiagnosticSeverity.Error
+            );
+            diagnostic.source = 'Task Master';
+            diagnostic.code = issue.kind;
+
+            const problem: DependencyProblem = { issue, diagnostic, elementRange, removalRange };
+            if (issue.kind === 'crossParent' && issue.targetId) {
+                const targetId = getParentTaskId(issue.targetId);
+                // A bare ID on a subtask means a sibling first, so only repair when the parent ID still resolves to the parent task
+                if (resolveDependency(targetId, knownIds, getParentTaskId(issue.taskId)) === targetId) {
+                    problem.repair = { targetId, text: element.type === 'number' && /^\d+$/.test(targetId) ? targetId : JSON.stringify(targetId) };
+                }
+            }
+            this.problems.push(problem);
+        }
+
+        this.diagnostics.set(uri, this.problems.map(problem => problem.diagnostic));
+        if (this.problems.length > 0) {
+            log(`Dependency validation found ${this.problems.length} problem(s) in tag '${this.taskMasterClient.getCurrentTag()}'`);
+        }
+    }
+
+    /**
+     * Quick fixes for the dependency problems under the cursor
+     */
+    public provideCodeActions(
+        document: vscode.TextDocument,
+        _range: vscode.Range | vscode.Selection,
+        context: vscode.CodeActionContext
+    ): vscode.CodeAction[] {
+        const actions: vscode.CodeAction[] = [];
+
+        for (const diagnostic of context.diagnostics) {
+            const problem = this.problems.find(candidate =>
+                candidate.diagnostic.range.isEqual(diagnostic.range) && candidate.diagnostic.message === diagnostic.message
+            );
+            if (!problem) {
+                continue;
+            }
+
+            if (problem.repair) {
+                const repairAction = new vscode.CodeAction(`改为依赖任务 ${problem.repair.targetId}`, vscode.CodeActionKind.QuickFix);
+                repairAction.edit = new vscode.WorkspaceEdit();
+                repairAction.edit.replace(document.uri, problem.elementRange, problem.repair.text);
+                repairAction.diagnostics = [diagnostic];
+                repairAction.isPreferred = true;
+                actions.push(repairAction);
+            }
+
+            if (problem.issue.kind === 'missing') {
+                const replaceAction = new vscode.CodeAction('选择其他任务作为依赖…', vscode.CodeActionKind.QuickFix);
+                replaceAction.command = {
+                    title: replaceAction.title,
+                    command: 'claudeTaskMaster.replaceDependency',
+                    arguments: [document.uri, problem.elementRange]
+                };
+                replaceAction.diagnostics = [diagnostic];
+                actions.push(replaceAction);
+            }
+
+            const removeAction = new vscode.CodeAction(`移除依赖 ${problem.issue.dependency}`, vscode.CodeActionKind.QuickFix);
+            removeAction.edit = new vscode.WorkspaceEdit();
+            removeAction.edit.delete(document.uri, problem.removalRange);
+            removeAction.diagnostics = [diagnostic];
+            removeAction.isPreferred = !problem.repair;
+            actions.push(removeAction);
+        }
+
+        return actions;
+    }
+
+    /**
+     * Let the user pick an existing task to replace a dangling dependency
+     * @param uri The tasks.json document
+     * @param range Range of the dependency element
+     */
+    public async replaceDependency(uri: vscode.Uri, range: vscode.Range): Promise<void> {
+        const problem = this.problems.find(candidate => candidate.elementRange.isEqual(range));
+        const choices = this.taskChoices.filter(choice => choice.label !== problem?.issue.taskId);
+        if (choices.length === 0) {
+            vscode.window.showInformationMessage('当前标签下没有可选的任务');
+            return;
+        }
+
+        const selected = await vscode.window.showQuickPick(choices, {
+            placeHolder: problem ? `替换任务 ${problem.issue.taskId} 的依赖 ${problem.issue.dependency}` : '选择要依赖的任务',
+            matchOnDescription: true
+        });
+        if (!selected) {
+            return;
+        }
+
+        const document = await vscode.workspace.openTextDocument(uri);
+        const replacement = /^\d+$/.test(selected.label) && !document.getText(range).startsWith('"')
+            ? selected.label
+            : JSON.stringify(selected.label);
+
+        const edit = new vscode.WorkspaceEdit();
+        edit.replace(uri, range, replacement);
+        if (!await vscode.workspace.applyEdit(edit)) {
+            vscode.window.showErrorMessage('无法更新依赖，请手动修改 tasks.json');
+        }
+    }
+
+    private clear(): void {
+        this.problems = [];
+        this.diagnostics.clear();
+    }
+
+    private isTasksDocument(document: vscode.TextDocument): boolean {
+        return document.uri.scheme === 'file' && document.uri.fsPath === vscode.Uri.file(this.tasksJsonPath).fsPath;
+    }
+
+    /**
+     * Build the validator's view of a raw task node, remembering where each dependency array sits
+     */
+    private toTask(node: JsonNode, dependencyNodes: Map<string, JsonNode>, parentTaskId?: string): Task | null {
+        const idNode = getPropertyNode(node, 'id');
+        if (!idNode || idNode.value === undefined || idNode.value === null) {
+            return null;
+        }
+
+        const task: Task = { id: String(idNode.value), title: '', status: 'pending' };
+        const qualifiedId = getQualifiedTaskId(task, parentTaskId);
+        const titleNode = getPropertyNode(node, 'title');
+        this.taskChoices.push({ label: qualifiedId, description: typeof titleNode?.value === 'string' ? titleNode.value : '' });
+
+        const dependenciesNode = getPropertyNode(node, 'dependencies');
+        if (dependenciesNode?.type === 'array') {
+            dependencyNodes.set(qualifiedId, dependenciesNode);
+            task.dependencies = (dependenciesNode.children || []).map(child => String(child.value));
+        }
+
+        const subtasksNode = getPropertyNode(node, 'subtasks');
+        if (subtasksNode?.type === 'array') {
+            task.subtasks = (subtasksNode.children || [])
+                .map(child => this.toTask(child, dependencyNodes, qualifiedId))
+                .filter((subtask): subtask is Task => subtask !== null);
+        }
+        return task;
+    }
+}
+
+/**
+ * Locate the tasks array of a tag, supporting the same formats as TaskMasterClient
+ */
+function findTasksNode(root: JsonNode, currentTag: string): JsonNode | undefined {
+    if (root.type === 'array') {
+        return root;
+    }
+
+    const tagsNode = getPropertyNode(root, 'tags');
+    const tagContainer = getPropertyNode(getPropertyNode(root, 'master'), 'tasks') ? root : tagsNode?.type === 'object' ? tagsNode : undefined;
+    if (tagContainer) {
+        const tasksNode = getPropertyNode(getPropertyNode(tagContainer, currentTag), 'tasks')
+            || getPropertyNode(getPropertyNode(tagContainer, 'master'), 'tasks');
+        return tasksNode?.type === 'array' ? tasksNode : undefined;
+    }
+
+    const legacyTasks = getPropertyNode(root, 'tasks');
+    return legacyTasks?.type === 'array' ? legacyTasks : undefined;
+}
+
+function getLineStarts(text: string): number[] {
+    const lineStarts = [0];
+    for (let i = 0; i < text.length; i++) {
+        if (text[i] === '\n') {
+            lineStarts.push(i + 1);
+        }
+    }
+    return lineStarts;
+}
+
+function offsetToPosition(lineStarts: number[], offset: number): vscode.Position {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+        const middle = Math.ceil((low + high) / 2);
+        if ((lineStarts[middle] ?? 0) <= offset) {
+            low = middle;
+        } else {
+            high = middle - 1;
+        }
+    }
+    return new vscode.Position(low, offset - (lineStarts[low] ?? 0));
+}
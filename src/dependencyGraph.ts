@@ -0,0 +1,373 @@
+import { DependencyGraph, DependencyGraphEdge, DependencyGraphNode, Task } from './types';
+import { getParentTaskId, getQualifiedTaskId, resolveDependency } from './dependencyUtils';
+import { escapeHtml } from './escapeUtils';
+
+const nodeWidth = 200;
+const nodeHeight = 52;
+const columnGap = 90;
+const rowGap = 24;
+const padding = 24;
+
+/**
+ * Build a layered dependency graph of a tag's tasks
+ * @param tasks Main tasks with nested subtasks
+ * @param includeSubtasks Show subtasks as their own nodes; otherwise their dependencies are drawn on the parent
+ * @returns Nodes with layer/row positions and de-duplicated edges; unresolved and self dependencies are left out
+ */
+export function buildDependencyGraph(tasks: Task[], includeSubtasks: boolean): DependencyGraph {
+    const nodes: DependencyGraphNode[] = [];
+    const allTasks: Array<{ id: string; parentId?: string; task: Task }> = [];
+
+    const collect = (task: Task, parentId?: string) => {
+        const id = getQualifiedTaskId(task, parentId);
+        allTasks.push(parentId ? { id, parentId, task } : { id, task });
+        if (!parentId || includeSubtasks) {
+            nodes.push(parentId ? { id, parentId, task, layer: 0, row: 0 } : { id, task, layer: 0, row: 0 });
+        }
+        for (const subtask of task.subtasks || []) {
+            collect(subtask, id);
+        }
+    };
+    tasks.forEach(task => collect(task));
+
+    const knownIds = new Set(allTasks.map(entry => entry.id));
+    const nodeIds = new Set(nodes.map(node => node.id));
+    const toVisibleId = (id: string): string => {
+        let visibleId = id;
+        while (!nodeIds.has(visibleId) && visibleId.includes('.')) {
+            visibleId = getParentTaskId(visibleId);
+        }
+        return visibleId;
+    };
+
+    const edges: DependencyGraphEdge[] = [];
+    const edgeKeys = new Set<string>();
+    for (const entry of allTasks) {
+        for (const dependency of entry.task.dependencies || []) {
+            const targetId = resolveDependency(String(dependency), knownIds, entry.parentId);
+            if (!targetId) {
+                continue;
+            }
+            const from = toVisibleId(targetId);
+            const to = toVisibleId(entry.id);
+            const key = `${from}>${to}`;
+            if (from === to || edgeKeys.has(key)) {
+                continue;
+            }
+            edgeKeys.add(key);
+            edges.push({ from, to, cyclic: false });
+        }
+    }
+
+    assignLayers(nodes, edges);
+    return { nodes, edges, layerCount: Math.max(0, ...nodes.map(node => node.layer + 1)) };
+}
+
+/**
+ * Place every node one layer after its deepest dependency. Edges that close a cycle are flagged and ignored.
+ */
+function assignLayers(nodes: DependencyGraphNode[], edges: DependencyGraphEdge[]): void {
+    const incoming = new Map<string, DependencyGraphEdge[]>();
+    for (const edge of edges) {
+        incoming.set(edge.to, [...(incoming.get(edge.to) || []), edge]);
+    }
+
+    const layers = new Map<string, number>();
+    const visiting = new Set<string>();
+    const visit = (id: string): number => {
+        const known = layers.get(id);
+        if (known !== undefined) {
+            return known;
+        }
+        visiting.add(id);
+        let layer = 0;
+        for (const edge of incoming.get(id) || []) {
+            if (visiting.has(edge.from)) {
+                edge.cyclic = true;
+                continue;
+            }
+            layer = Math.max(layer, visit(edge.from) + 1);
+        }
+        visiting.delete(id);
+        layers.set(id, layer);
+        return layer;
+    };
+
+    const rowsPerLayer = new Map<number, number>();
+    for (const node of nodes) {
+        node.layer = visit(node.id);
+    }
+    for (const node of nodes) {
+        node.row = rowsPerLayer.get(node.layer) || 0;
+        rowsPerLayer.set(node.layer, node.row + 1);
+    }
+}
+
+/**
+ * Render the graph as an interactive SVG page. Clicking a node posts { command: 'openTask', taskId, parentTaskId }.
+ * @param graph The layered graph
+ * @param options nextTaskId is highlighted; tagLabel is shown in the header
+ */
+export function generateDependencyGraphHtml(
+    graph: DependencyGraph,
+    options: { nextTaskId?: string; includeSubtasks: boolean; tagLabel: string }
+): string {
+    const positions = new Map(graph.nodes.map(node => [node.id, {
+        x: padding + node.layer * (nodeWidth + columnGap),
+        y: padding + node.row * (nodeHeight + rowGap)
+    }]));
+    const width = padding * 2 + Math.max(1, graph.layerCount) * (nodeWidth + columnGap) - columnGap;
+    const height = padding * 2 + Math.max(1, ...graph.nodes.map(node => node.row + 1)) * (nodeHeight + rowGap) - rowGap;
+
+    const edgeMarkup = graph.edges.map(edge => {
+        const from = positions.get(edge.from);
+        const to = positions.get(edge.to);
+        if (!from || !to) {
+            return '';
+        }
+        const startX = from.x + nodeWidth;
+        const startY = from.y + nodeHeight / 2;
+        const endX = to.x;
+        const endY = to.y + nodeHeight / 2;
+        // Cyclic edges run backwards; bend them below the nodes so they stay visible
+        const bend = edge.cyclic ? nodeHeight * 1.5 : 0;
+        const curve = Math.max(40, Math.abs(endX - startX) / 2);
+        return `<path class="edge${edge.cyclic ? ' cyclic' : ''}" data-from="${escapeHtml(edge.from)}" data-to="${escapeHtml(edge.to)}" `
+            + `d="M ${startX} ${startY} C ${startX + curve} ${startY + bend}, ${endX - curve} ${endY + bend}, ${endX} ${endY}" marker-end="url(#arrow)"/>`;
+    }).join('\n');
+
+    const nodeMarkup = graph.nodes.map(node => {
+        const position = positions.get(node.id) || { x: 0, y: 0 };
+        const isNext = node.id === options.nextTaskId;
+        const title = node.task.title.length > 24 ? `${node.task.title.slice(0, 23)}…` : node.task.title;
+        const parentTaskId = node.parentId || '';
+        const taskId = node.parentId ? node.task.id.toString() : node.id;
+        return `<g class="node status-${escapeHtml(node.task.status)}${isNext ? ' next' : ''}${node.parentId ? ' subtask' : ''}" `
+            + `data-id="${escapeHtml(node.id)}" data-task-id="${escapeHtml(taskId)}" data-parent-id="${escapeHtml(parentTaskId)}" `
+            + `transform="translate(${position.x}, ${position.y})">
+    <title>${escapeHtml(`${node.id}: ${node.task.title}\n${getStatusLabel(node.task.status)} · 优先级 ${getPriorityLabel(node.task.priority)}`)}</title>
+    <rect class="box" width="${nodeWidth}" height="${nodeHeight}" rx="6"/>
+    <rect class="priority priority-${escapeHtml(node.task.priority || 'medium')}" width="6" height="${nodeHeight}" rx="3"/>
+    <text class="node-id" x="16" y="20">${escapeHtml(node.id)}${isNext ? ' · 下一个' : ''}</text>
+    <text class="node-title" x="16" y="40">${escapeHtml(title)}</text>
+</g>`;
+    }).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Dependency Graph</title>
+    <style>
+        body {
+            margin: 0;
+            padding: 0;
+            color: var(--vscode-editor-foreground);
+            background: var(--vscode-editor-background);
+            font-family: var(--vscode-font-family);
+        }
+        .toolbar {
+            position: sticky;
+            top: 0;
+            display: flex;
+            align-items: center;
+            gap: 16px;
+            padding: 8px 16px;
+            background: var(--vscode-sideBar-background);
+            border-bottom: 1px solid var(--vscode-panel-border);
+            font-size: 12px;
+            z-index: 1;
+        }
+        .toolbar button {
+            color: var(--vscode-button-secondaryForeground);
+            background: var(--vscode-button-secondaryBackground);
+            border: none;
+            padding: 2px 8px;
+            cursor: pointer;
+        }
+        .legend {
+            display: flex;
+            gap: 10px;
+            margin-left: auto;
+        }
+        .legend span::before {
+            content: '';
+            display: inline-block;
+            width: 10px;
+            height: 10px;
+            margin-right: 4px;
+            border-radius: 2px;
+            background: var(--swatch);
+        }
+        .canvas {
+            overflow: auto;
+        }
+        .empty {
+            padding: 24px;
+            color: var(--vscode-descriptionForeground);
+        }
+        svg {
+            transform-origin: 0 0;
+        }
+        .edge {
+            fill: none;
+            stroke: var(--vscode-descriptionForeground);
+            stroke-width: 1.5;
+            opacity: 0.6;
+        }
+        .edge.cyclic {
+            stroke: var(--vscode-charts-red);
+            stroke-dasharray: 6 4;
+            opacity: 1;
+        }
+        .edge.highlight {
+            stroke: var(--vscode-focusBorder);
+            stroke-width: 2.5;
+            opacity: 1;
+        }
+        .node {
+            cursor: pointer;
+            --status: var(--vscode-charts-yellow);
+        }
+        .node .box {
+            fill: var(--vscode-editorWidget-background);
+            stroke: var(--status);
+            stroke-width: 1.5;
+        }
+        .node:hover .box {
+            stroke-width: 3;
+        }
+        .node.subtask .box {
+            stroke-dasharray: 4 2;
+        }
+        .node.next .box {
+            stroke: var(--vscode-focusBorder);
+            stroke-width: 3;
+            filter: drop-shadow(0 0 6px var(--vscode-focusBorder));
+        }
+        .node.dimmed {
+            opacity: 0.35;
+        }
+        .node-id {
+            font-size: 11px;
+            font-weight: bold;
+            fill: var(--status);
+        }
+        .node-title {
+            font-size: 12px;
+            fill: var(--vscode-editor-foreground);
+        }
+        .status-done, .status-completed { --status: var(--vscode-charts-green); }
+        .status-in-progress { --status: var(--vscode-charts-blue); }
+        .status-blocked, .status-cancelled { --status: var(--vscode-charts-red); }
+        .status-deferred { --status: var(--vscode-charts-orange); }
+        .status-review { --status: var(--vscode-charts-purple); }
+        .priority { fill: var(--vscode-charts-yellow); }
+        .priority-critical { fill: var(--vscode-errorForeground); }
+        .priority-high { fill: var(--vscode-charts-orange); }
+        .priority-low { fill: var(--vscode-disabledForeground); }
+        #arrow path {
+            fill: var(--vscode-descriptionForeground);
+        }
+    </style>
+</head>
+<body>
+    <div class="toolbar">
+        <strong>${escapeHtml(options.tagLabel)}</strong>
+        <label><input type="checkbox" id="includeSubtasks" ${options.includeSubtasks ? 'checked' : ''}> 显示子任务</label>
+        <button onclick="zoom(0.8)">－</button>
+        <button onclick="zoom(1.25)">＋</button>
+        <div class="legend">
+            <span style="--swatch: var(--vscode-charts-yellow)">待办</span>
+            <span style="--swatch: var(--vscode-charts-blue)">进行中</span>
+            <span style="--swatch: var(--vscode-charts-purple)">审核中</span>
+            <span style="--swatch: var(--vscode-charts-green)">已完成</span>
+            <span style="--swatch: var(--vscode-charts-red)">阻塞/取消</span>
+            <span style="--swatch: var(--vscode-charts-orange)">延期</span>
+        </div>
+    </div>
+    <div class="canvas">
+        ${graph.nodes.length === 0 ? '<div class="empty">当前标签下没有任务</div>' : `
+        <svg id="graph" width="${width}" height="${height}" viewBox="0 0 ${width} ${height}">
+            <defs>
+                <marker id="arrow" viewBox="0 0 10 10" refX="10" refY="5" markerWidth="8" markerHeight="8" orient="auto-start-reverse">
+                    <path d="M 0 0 L 10 5 L 0 10 z"/>
+                </marker>
+            </defs>
+            ${edgeMarkup}
+            ${nodeMarkup}
+        </svg>`}
+    </div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+        const graph = document.getElementById('graph');
+        let scale = 1;
+
+        function zoom(factor) {
+            scale = Math.min(3, Math.max(0.2, scale * factor));
+            if (graph) {
+                graph.style.transform = 'scale(' + scale + ')';
+            }
+        }
+
+        document.getElementById('includeSubtasks').addEventListener('change', event => {
+            vscode.postMessage({ command: 'toggleSubtasks', includeSubtasks: event.target.checked });
+        });
+
+        document.querySelectorAll('.node').forEach(node => {
+            node.addEventListener('click', () => {
+                vscode.postMessage({
+                    command: 'openTask',
+                    taskId: node.dataset.taskId,
+                    parentTaskId: node.dataset.parentId || undefined
+                });
+            });
+
+            // Highlight the direct dependencies and dependents of the hovered task
+            node.addEventListener('mouseenter', () => {
+                const id = node.dataset.id;
+                const related = new Set([id]);
+                document.querySelectorAll('.edge').forEach(edge => {
+                    if (edge.dataset.from === id || edge.dataset.to === id) {
+                        edge.classList.add('highlight');
+                        related.add(edge.dataset.from);
+                        related.add(edge.dataset.to);
+                    }
+                });
+                document.querySelectorAll('.node').forEach(other => {
+                    other.classList.toggle('dimmed', !related.has(other.dataset.id));
+                });
+            });
+            node.addEventListener('mouseleave', () => {
+                document.querySelectorAll('.edge.highlight').forEach(edge => edge.classList.remove('highlight'));
+                document.querySelectorAll('.node.dimmed').forEach(other => other.classList.remove('dimmed'));
+            });
+        });
+    </script>
+</body>
+</html>`;
+}
+
+function getStatusLabel(status: string): string {
+    switch (status) {
+        case 'completed':
+        case 'done': return '已完成';
+        case 'in-progress': return '进行中';
+        case 'blocked': return '已阻塞';
+        case 'cancelled': return '已取消';
+        case 'deferred': return '已延期';
+        case 'review': return '审核中';
+        default: return '待办';
+    }
+}
+
+function getPriorityLabel(priority?: string): string {
+    switch (priority) {
+        case 'critical': return '严重';
+        case 'high': return '高';
+        case 'low': return '低';
+        default: return '中';
+    }
+}
@@ -0,0 +1,143 @@
+import { DependencyIssue, Task } from './types';
+
+interface DependencyNode {
+    id: string;
+    parentId?: string;
+    task: Task;
+}
+
+interface DependencyEdge {
+    dependency: string;
+    targetId: string;
+}
+
+/**
+ * Get the ID that identifies a task or subtask across the whole tag ("3" or "3.2")
+ * @param task The task or subtask
+ * @param parentTaskId Qualified ID of the parent when the task is a subtask
+ * @returns The qualified ID
+ */
+export function getQualifiedTaskId(task: Task, parentTaskId?: string): string {
+    const taskId = task.id.toString();
+    return !parentTaskId || taskId.includes('.') ? taskId : `${parentTaskId}.${taskId}`;
+}
+
+/**
+ * Resolve a dependency as written in tasks.json. A bare number on a subtask refers to a sibling
+ * subtask when one exists (Task Master's convention), otherwise to a main task.
+ * @param dependency The dependency as written
+ * @param knownIds Qualified IDs of all tasks and subtasks
+ * @param parentTaskId Qualified parent ID when the dependency belongs to a subtask
+ * @returns The qualified target ID, or undefined when nothing matches
+ */
+export function resolveDependency(dependency: string, knownIds: ReadonlySet<string>, parentTaskId?: string): string | undefined {
+    const dependencyId = dependency.toString();
+    if (parentTaskId && !dependencyId.includes('.')) {
+        const siblingId = `${parentTaskId}.${dependencyId}`;
+        if (knownIds.has(siblingId)) {
+            return siblingId;
+        }
+    }
+    return knownIds.has(dependencyId) ? dependencyId : undefined;
+}
+
+/**
+ * Check task and subtask dependencies for missing targets, self-references,
+ * subtasks depending on subtasks of another parent, and cycles
+ * @param tasks Main tasks with nested subtasks
+ * @returns Problems in task order; each cycle is reported once, on the edge that closes it
+ */
+export function validateDependencies(tasks: Task[]): DependencyIssue[] {
+    const nodes: DependencyNode[] = [];
+    const collect = (task: Task, parentId?: string) => {
+        const id = getQualifiedTaskId(task, parentId);
+        nodes.push(parentId ? { id, parentId, task } : { id, task });
+        for (const subtask of task.subtasks || []) {
+            collect(subtask, id);
+        }
+    };
+    tasks.forEach(task => collect(task));
+
+    const knownIds = new Set(nodes.map(node => node.id));
+    const edges = new Map<string, DependencyEdge[]>();
+    const issues: DependencyIssue[] = [];
+
+    for (const node of nodes) {
+        const nodeEdges: DependencyEdge[] = [];
+        for (const rawDependency of node.task.dependencies || []) {
+            const dependency = String(rawDependency);
+            const targetId = resolveDependency(dependency, knownIds, node.parentId);
+
+            if (!targetId) {
+                issues.push({ kind: 'missing', taskId: node.id, dependency, message: `任务 ${node.id} 依赖的任务 ${dependency} 不存在` });
+                continue;
+            }
+            if (targetId === node.id) {
+                issues.push({ kind: 'self', taskId: node.id, dependency, targetId, message: `任务 ${node.id} 依赖自身` });
+                continue;
+            }
+            if (node.parentId && targetId.includes('.') && getParentTaskId(targetId) !== node.parentId) {
+                issues.push({
+                    kind: 'crossParent',
+                    taskId: node.id,
+                    dependency,
+                    targetId,
+                    message: `子任务 ${node.id} 依赖其他任务下的子任务 ${targetId}，建议改为依赖任务 ${getParentTaskId(targetId)}`
+                });
+            }
+            nodeEdges.push({ dependency, targetId });
+        }
+        edges.set(node.id, nodeEdges);
+    }
+
+    issues.push(...findCycles(nodes.map(node => node.id), edges));
+    return issues;
+}
+
+/**
+ * Get the qualified parent ID of a subtask ("3.2" → "3", "3.2.1" → "3.2")
+ */
+export function getParentTaskId(taskId: string): string {
+    return taskId.split('.').slice(0, -1).join('.');
+}
+
+function findCycles(ids: string[], edges: Map<string, DependencyEdge[]>): DependencyIssue[] {
+    const issues: DependencyIssue[] = [];
+    const reported = new Set<string>();
+    const state = new Map<string, 'visiting' | 'done'>();
+    const stack: string[] = [];
+
+    const visit = (id: string) => {
+        state.set(id, 'visiting');
+        stack.push(id);
+        for (const edge of edges.get(id) || []) {
+            const targetState = state.get(edge.targetId);
+            if (targetState === 'visiting') {
+                const cycle = [...stack.slice(stack.indexOf(edge.targetId)), edge.targetId];
+                const key = [...new Set(cycle)].sort().join('|');
+                if (!reported.has(key)) {
+                    reported.add(key);
+                    issues.push({
+                        kind: 'cycle',
+                        taskId: id,
+                        dependency: edge.dependency,
+                        targetId: edge.targetId,
+                        cycle,
+                        message: `依赖循环：${cycle.join(' → ')}`
+                    });
+                }
+            } else if (!targetState) {
+                visit(edge.targetId);
+            }
+        }
+        stack.pop();
+        state.set(id, 'done');
+    };
+
+    for (const id of ids) {
+        if (!state.has(id)) {
+            visit(id);
+        }
+    }
+    return issues;
+}
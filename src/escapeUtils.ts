@@ -0,0 +1,18 @@
+/**
+ * Escape text for HTML element content and quoted attribute values in webviews and reports
+ */
+export function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&#39;');
+}
+
+/**
+ * Escape text for Markdown reports, including table cells
+ */
+export function escapeMarkdown(text: string): string {
+    return text.replace(/([|*_`[\]\\])/g, '\\$1');
+}
@@ -0,0 +1,365 @@
+import { Task, TaskExportFormat, TaskExportSection } from './types';
+import { getQualifiedTaskId } from './dependencyUtils';
+import { getFilterPriorityLabel, getFilterStatusLabel, normalizeFilterStatus } from './filterUtils';
+import { escapeHtml, escapeMarkdown } from './escapeUtils';
+
+export interface TaskExportOptions {
+    /** Summary of the active filter, left out when nothing is filtered */
+    filterDescription?: string;
+    /** Time shown in the report, defaults to now */
+    exportedAt?: Date;
+}
+
+interface SectionSummary {
+    total: number;
+    done: number;
+    inProgress: number;
+    blocked: number;
+    percent: number;
+}
+
+export const exportFileExtensions: Record<TaskExportFormat, string> = {
+    markdown: 'md',
+    csv: 'csv',
+    json: 'json',
+    html: 'html'
+};
+
+const csvColumns = ['tag', 'id', 'title', 'description', 'status', 'priority', 'dependencies', 'assignee', 'dueDate', 'details', 'testStrategy'] as const;
+
+/**
+ * Palette, page and container styles shared by the task details panel and the HTML report.
+ * The VS Code theme variables fall back to a dark theme outside VS Code.
+ */
+export const taskPageBaseStyles = `        :root {
+            /* Enhanced color palette with better contrast */
+            --tm-bg-primary: var(--vscode-editor-background, #1e1e1e);
+            --tm-bg-secondary: var(--vscode-sideBar-background, #252526);
+            --tm-bg-tertiary: var(--vscode-input-background, #2d2d30);
+            --tm-text-primary: var(--vscode-editor-foreground, #cccccc);
+            --tm-text-secondary: var(--vscode-descriptionForeground, #999999);
+            --tm-text-muted: #6a6a6a;
+            --tm-border: var(--vscode-panel-border, #3c3c3c);
+            --tm-border-hover: var(--vscode-focusBorder, #007acc);
+            --tm-accent: var(--vscode-textLink-foreground, #4fc3f7);
+            --tm-accent-hover: #29b6f6;
+            
+            /* Enhanced status colors with gradients */
+            --tm-status-todo: linear-gradient(135deg, #ff9800, #f57c00);
+            --tm-status-progress: linear-gradient(135deg, #2196f3, #1976d2);
+            --tm-status-done: linear-gradient(135deg, #4caf50, #388e3c);
+            --tm-status-blocked: linear-gradient(135deg, #f44336, #d32f2f);
+            --tm-status-review: linear-gradient(135deg, #9c27b0, #7b1fa2);
+            
+            /* Priority gradients */
+            --tm-priority-critical: linear-gradient(135deg, #ff1744, #d50000);
+            --tm-priority-high: linear-gradient(135deg, #ff5722, #d84315);
+            --tm-priority-medium: linear-gradient(135deg, #ff9800, #f57c00);
+            --tm-priority-low: linear-gradient(135deg, #4caf50, #388e3c);
+            
+            /* Shadow definitions */
+            --tm-shadow-sm: 0 2px 4px rgba(0, 0, 0, 0.1);
+            --tm-shadow-md: 0 4px 12px rgba(0, 0, 0, 0.15);
+            --tm-shadow-lg: 0 8px 24px rgba(0, 0, 0, 0.2);
+            --tm-shadow-hover: 0 8px 32px rgba(0, 0, 0, 0.25);
+        }
+
+        body {
+            font-family: var(--vscode-font-family, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif);
+            color: var(--tm-text-primary);
+            background: linear-gradient(135deg, var(--tm-bg-primary) 0%, color-mix(in srgb, var(--tm-bg-primary) 95%, var(--tm-accent) 5%) 100%);
+            padding: 0;
+            margin: 0;
+            line-height: 1.6;
+            overflow-x: hidden;
+            font-size: 14px;
+            min-height: 100vh;
+        }
+
+        .container {
+            max-width: 1200px;
+            margin: 0 auto;
+            padding: 24px;
+        }`;
+
+/**
+ * Write tasks in an export format
+ * @param format markdown, csv, json or html
+ * @param sections Tags to export with their (filtered) tasks
+ * @param options Filter summary and export time
+ * @returns File contents
+ */
+export function exportTasks(format: TaskExportFormat, sections: TaskExportSection[], options: TaskExportOptions = {}): string {
+    switch (format) {
+        case 'markdown': return generateMarkdownReport(sections, options);
+        case 'csv': return generateCsvExport(sections);
+        case 'json': return generateJsonExport(sections, options);
+        case 'html': return generateHtmlReport(sections, options);
+    }
+}
+
+/**
+ * Status report with a summary per tag and a checklist of tasks and subtasks, for pasting into weekly reports
+ */
+export function generateMarkdownReport(sections: TaskExportSection[], options: TaskExportOptions = {}): string {
+    const lines = ['# 任务状态报告', '', getReportSubtitle(options), ''];
+
+    for (const section of sections) {
+        const summary = summarizeTasks(section.tasks);
+        lines.push(`## 标签：${escapeMarkdown(section.tag)}`, '', formatSummary(summary), '');
+        if (section.tasks.length === 0) {
+            lines.push('没有任务。', '');
+            continue;
+        }
+        for (const task of section.tasks) {
+            lines.push(formatChecklistItem(task));
+            for (const subtask of task.subtasks || []) {
+                lines.push(`  ${formatChecklistItem(subtask, task.id)}`);
+            }
+        }
+        lines.push('');
+    }
+
+    return lines.join('\n');
+}
+
+/**
+ * One row per task and subtask, with qualified IDs ("3.1") so the file can be imported again
+ */
+export function generateCsvExport(sections: TaskExportSection[]): string {
+    const rows: string[][] = [[...csvColumns]];
+    for (const section of sections) {
+        for (const task of section.tasks) {
+            for (const [item, parentId] of [[task, undefined], ...(task.subtasks || []).map(subtask => [subtask, task.id])] as Array<[Task, string | undefined]>) {
+                rows.push([
+                    section.tag,
+                    getQualifiedTaskId(item, parentId),
+                    item.title,
+                    item.description || '',
+                    item.status,
+                    item.priority || '',
+                    (item.dependencies || []).join(', '),
+                    item.assignee || '',
+                    item.dueDate || '',
+                    item.details || '',
+                    item.testStrategy || ''
+                ]);
+            }
+        }
+    }
+    // The byte order mark makes spreadsheet apps read the file as UTF-8
+    return '\uFEFF' + rows.map(row => row.map(escapeCsv).join(',')).join('\r\n') + '\r\n';
+}
+
+/**
+ * Tasks as the extension sees them (string IDs, normalized statuses), grouped by tag
+ */
+export function generateJsonExport(sections: TaskExportSection[], options: TaskExportOptions = {}): string {
+    const tags: Record<string, { tasks: Task[] }> = {};
+    for (const section of sections) {
+        tags[section.tag] = { tasks: section.tasks };
+    }
+    return JSON.stringify({
+        exportedAt: (options.exportedAt || new Date()).toISOString(),
+        ...(options.filterDescription ? { filter: options.filterDescription } : {}),
+        tags
+    }, null, 2) + '\n';
+}
+
+/**
+ * Self-contained HTML report in the style of the task details panel, readable outside VS Code
+ */
+export function generateHtmlReport(sections: TaskExportSection[], options: TaskExportOptions = {}): string {
+    const sectionHtml = sections.map(section => {
+        const summary = summarizeTasks(section.tasks);
+        const rows = section.tasks.flatMap(task => [
+            formatHtmlRow(task),
+            ...(task.subtasks || []).map(subtask => formatHtmlRow(subtask, task.id))
+        ]);
+        return `
+        <section class="content-section">
+            <h2 class="section-title">🏷️ ${escapeHtml(section.tag)}</h2>
+            <div class="progress-bar"><div class="progress-fill" style="width: ${summary.percent}%"></div></div>
+            <p class="summary">${escapeHtml(formatSummary(summary))}</p>
+            ${rows.length > 0 ? `<table>
+                <thead><tr><th>ID</th><th>任务</th><th>状态</th><th>优先级</th><th>负责人</th><th>截止日期</th></tr></thead>
+                <tbody>${rows.join('')}
+                </tbody>
+            </table>` : '<p class="summary">没有任务。</p>'}
+        </section>`;
+    }).join('');
+
+    return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>任务状态报告</title>
+    <style>
+${taskPageBaseStyles}
+
+        .report-header, .content-section {
+            background: var(--tm-bg-secondary);
+            border: 2px solid var(--tm-border);
+            border-radius: 16px;
+            padding: 32px;
+            margin-bottom: 32px;
+            box-shadow: var(--tm-shadow-md);
+        }
+
+        .report-header h1 {
+            margin: 0 0 8px 0;
+            font-size: 32px;
+            font-weight: 800;
+        }
+
+        .section-title {
+            font-size: 22px;
+            font-weight: 700;
+            margin: 0 0 24px 0;
+            border-bottom: 2px solid var(--tm-border);
+            padding-bottom: 16px;
+        }
+
+        .summary {
+            color: var(--tm-text-secondary);
+        }
+
+        .progress-bar {
+            height: 12px;
+            background: var(--tm-bg-primary);
+            border: 2px solid var(--tm-border);
+            border-radius: 12px;
+            overflow: hidden;
+        }
+
+        .progress-fill {
+            height: 100%;
+            background: linear-gradient(90deg, #2196f3, #4caf50);
+        }
+
+        table {
+            width: 100%;
+            border-collapse: collapse;
+        }
+
+        th, td {
+            text-align: left;
+            padding: 10px 12px;
+            border-bottom: 1px solid var(--tm-border);
+            vertical-align: top;
+        }
+
+        th {
+            color: var(--tm-text-secondary);
+            font-size: 12px;
+            text-transform: uppercase;
+            letter-spacing: 0.5px;
+        }
+
+        tr.subtask td:nth-child(2) {
+            padding-left: 32px;
+        }
+
+        .task-id {
+            color: var(--tm-accent);
+            font-weight: 700;
+            white-space: nowrap;
+        }
+
+        .description {
+            color: var(--tm-text-secondary);
+            font-size: 13px;
+        }
+
+        .status-badge {
+            display: inline-block;
+            padding: 4px 10px;
+            border-radius: 8px;
+            font-size: 12px;
+            font-weight: 700;
+            color: #ffffff;
+            white-space: nowrap;
+            background: var(--tm-text-muted);
+        }
+
+        .status-todo { background: var(--tm-status-todo); }
+        .status-in-progress { background: var(--tm-status-progress); }
+        .status-completed { background: var(--tm-status-done); }
+        .status-blocked { background: var(--tm-status-blocked); }
+        .status-review { background: var(--tm-status-review); }
+    </style>
+</head>
+<body>
+    <div class="container">
+        <header class="report-header">
+            <h1>📋 任务状态报告</h1>
+            <div class="summary">${escapeHtml(getReportSubtitle(options))}</div>
+        </header>${sectionHtml}
+    </div>
+</body>
+</html>
+`;
+}
+
+/**
+ * Count main tasks and subtasks together
+ */
+function summarizeTasks(tasks: Task[]): SectionSummary {
+    const items = tasks.flatMap(task => [task, ...(task.subtasks || [])]);
+    const count = (status: string) => items.filter(item => normalizeFilterStatus(item.status) === status).length;
+    const done = count('completed');
+    return {
+        total: items.length,
+        done,
+        inProgress: count('in-progress'),
+        blocked: count('blocked'),
+        percent: items.length > 0 ? Math.round(done / items.length * 100) : 0
+    };
+}
+
+function formatSummary(summary: SectionSummary): string {
+    return `完成 ${summary.done}/${summary.total}（${summary.percent}%）• 进行中 ${summary.inProgress} • 已阻塞 ${summary.blocked}`;
+}
+
+function getReportSubtitle(options: TaskExportOptions): string {
+    const parts = [`导出时间：${(options.exportedAt || new Date()).toLocaleString()}`];
+    if (options.filterDescription) {
+        parts.push(`筛选：${options.filterDescription}`);
+    }
+    return parts.join(' • ');
+}
+
+function formatChecklistItem(task: Task, parentId?: string): string {
+    const status = normalizeFilterStatus(task.status);
+    const meta = [getFilterStatusLabel(status)];
+    if (task.priority && !parentId) {
+        meta.push(`优先级${getFilterPriorityLabel(task.priority)}`);
+    }
+    if (task.assignee) {
+        meta.push(`@${task.assignee}`);
+    }
+    if (task.dueDate) {
+        meta.push(`截止 ${task.dueDate}`);
+    }
+    return `- [${status === 'completed' ? 'x' : ' '}] **${getQualifiedTaskId(task, parentId)}** ${escapeMarkdown(task.title)} — ${meta.join(' · ')}`;
+}
+
+function formatHtmlRow(task: Task, parentId?: string): string {
+    const status = normalizeFilterStatus(task.status);
+    return `
+                    <tr${parentId ? ' class="subtask"' : ''}>
+                        <td class="task-id">${escapeHtml(getQualifiedTaskId(task, parentId))}</td>
+                        <td>${escapeHtml(task.title)}${task.description ? `<div class="description">${escapeHtml(task.description)}</div>` : ''}</td>
+                        <td><span class="status-badge status-${escapeHtml(status)}">${escapeHtml(getFilterStatusLabel(status))}</span></td>
+                        <td>${task.priority ? escapeHtml(getFilterPriorityLabel(task.priority)) : ''}</td>
+                        <td>${escapeHtml(task.assignee || '')}</td>
+                        <td>${escapeHtml(task.dueDate || '')}</td>
+                    </tr>`;
+}
+
+function escapeCsv(value: string): string {
+    // Spreadsheet apps run a cell starting with one of these as a formula; parseCsvTasks drops the quote again
+    const cell = /^[=+\-@]/.test(value) ? `'${value}` : value;
+    return /[",\r\n]|^\s|\s$/.test(cell) ? `"${cell.replace(/"/g, '""')}"` : cell;
+}
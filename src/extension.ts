@@ -1,7 +1,8 @@
 import * as vscode from 'vscode';
-import { TaskProvider } from './taskProvider';
+import { TaskItem, TaskProvider } from './taskProvider';
 import { TaskMasterClient } from './taskMasterClient';
 import { TagStatusBarItem } from './statusBar';
+import { tagColorPalette } from './tagManager';
 import * as path from 'path';
 import * as fs from 'fs';
 import { exec } from 'child_process';
@@ -18,18 +19,53 @@ import {
     UserInteractionDetails, 
     CommandResult, 
     SubtaskStats, 
-    ExpandItemResult 
+    ExpandItemResult,
+    TaskFilter,
+    SavedTaskView,
+    TaskRecommendation,
+    TagContextInfo,
+    TaskTemplate,
+    TaskExportFormat
 } from './types';
 import { 
     getTagContext, 
     getTagAwarePlaceholder, 
     logTagOperation, 
-    formatTagSuccessMessage 
+    formatTagSuccessMessage,
+    createTagSelectionOptions
 } from './tagUtils';
+import { 
+    isFilterActive, 
+    applyTaskFilter,
+    describeFilter, 
+    getFilterStatusLabel, 
+    getFilterPriorityLabel 
+} from './filterUtils';
+import { parseTaskQuery } from './queryUtils';
+import { parseTaskImport } from './importUtils';
+import { exportFileExtensions, exportTasks, taskPageBaseStyles } from './exportUtils';
+import { fillTemplatePlaceholders, findTemplatePlaceholders } from './templateUtils';
+import { isTaskFileArtifact } from './fileUtils';
+import { DependencyDiagnostics } from './dependencyDiagnostics';
+import { buildDependencyGraph, generateDependencyGraphHtml } from './dependencyGraph';
+import { generateCriticalPathReport } from './criticalPathUtils';
+import { buildKanbanBoard, generateKanbanHtml } from './kanbanBoard';
+import { BurnChartMeasure, BurnChartMode, buildBurnChart, generateBurnChartHtml } from './progressHistory';
+import { buildEstimateReport, formatTrackedHours, generateEstimateReport, getTimerElapsedMs } from './timeTrackingUtils';
+import { TaskTimer } from './taskTimer';
+import { TaskJournalEntry } from './undoJournal';
+import { TaskDragAndDropController } from './taskDragAndDrop';
+import { BranchTagSync } from './branchTagSync';
+import { getQualifiedTaskId } from './dependencyUtils';
 
 let taskProvider: TaskProvider;
 let taskMasterClient: TaskMasterClient;
 let tagStatusBar: TagStatusBarItem;
+let taskTimer: TaskTimer;
+let dependencyDiagnostics: DependencyDiagnostics;
+let dependencyGraphPanel: vscode.WebviewPanel | undefined;
+let kanbanPanel: vscode.WebviewPanel | undefined;
+let burndownPanel: vscode.WebviewPanel | undefined;
 
 // Enhanced logging utilities
 function logUserInteraction(action: string, details?: UserInteractionDetails | null, context?: string) {
@@ -281,17 +317,38 @@ export function activate(context: vscode.ExtensionContext) {
 
     // Initialize task master client and provider
     taskMasterClient = new TaskMasterClient(taskmasterPath);
-    taskProvider = new TaskProvider(taskMasterClient);
+    taskProvider = new TaskProvider(taskMasterClient, context.workspaceState);
     log('TaskMasterClient and TaskProvider initialized.');
+    vscode.commands.executeCommand('setContext', 'claudeTaskMaster.filterActive', isFilterActive(taskProvider.getFilter()));
 
     // Initialize status bar for tag management
     tagStatusBar = new TagStatusBarItem(context, taskMasterClient);
     log('TagStatusBarItem initialized.');
 
+    // Time tracking for "开始工作", shown next to the tag
+    taskTimer = new TaskTimer(context, context.workspaceState);
+
+    // Switch tags along with the git branch when claudeTaskMaster.followGitBranch is on
+    new BranchTagSync(context, workspaceFolder.uri.fsPath, taskMasterClient, taskProvider, tagStatusBar);
+
+    // Report dependency problems of the current tag in the Problems panel
+    dependencyDiagnostics = new DependencyDiagnostics(context, taskMasterClient, path.join(taskmasterPath, 'tasks', 'tasks.json'));
+    context.subscriptions.push(taskProvider.onDidChangeTreeData(() => dependencyDiagnostics.refresh()));
+    log('DependencyDiagnostics initialized.');
+
+    // Keep a daily progress snapshot per tag in .taskmaster/history for the burndown chart
+    context.subscriptions.push(taskProvider.onDidChangeTreeData(() => recordProgressSnapshot()));
+    recordProgressSnapshot();
+
     // Register tree data provider
     const treeView = vscode.window.createTreeView('claudeTaskMasterMainView', {
         treeDataProvider: taskProvider,
-        showCollapseAll: true
+        showCollapseAll: true,
+        canSelectMany: true,
+        dragAndDropController: new TaskDragAndDropController(taskMasterClient, (message, undoTop) => {
+            taskProvider.refresh();
+            showUndoableMessage(message, undoTop);
+        })
     });
     log('Tree view created and registered.');
 
@@ -301,6 +358,8 @@ export function activate(context: vscode.ExtensionContext) {
             const cmdInfo = logCommandStart('claudeTaskMaster.refresh');
             logUserInteraction('Refresh button clicked', null, 'tree-view');
             try {
+                // Manual refresh always re-reads, even if tasks.json looks unchanged
+                taskMasterClient.invalidateSnapshot();
             taskProvider.refresh();
                 logCommandEnd(cmdInfo, true, undefined, { success: true, message: 'Tree view refreshed' });
             } catch (error) {
@@ -377,6 +436,46 @@ export function activate(context: vscode.ExtensionContext) {
             await showNextTask(context);
         }),
 
+        vscode.commands.registerCommand('claudeTaskMaster.showDependencyGraph', async () => {
+            log('Executing command: claudeTaskMaster.showDependencyGraph');
+            await showDependencyGraph(context);
+        }),
+
+        vscode.commands.registerCommand('claudeTaskMaster.showKanbanBoard', async () => {
+            log('Executing command: claudeTaskMaster.showKanbanBoard');
+            await showKanbanBoard(context);
+        }),
+
+        vscode.commands.registerCommand('claudeTaskMaster.showBurndownChart', async () => {
+            log('Executing command: claudeTaskMaster.showBurndownChart');
+            await showBurndownChart(context);
+        }),
+
+        vscode.commands.registerCommand('claudeTaskMaster.showEstimateReport', async () => {
+            log('Executing command: claudeTaskMaster.showEstimateReport');
+            await showEstimateReport();
+        }),
+
+        vscode.commands.registerCommand('claudeTaskMaster.showCriticalPath', async () => {
+            log('Executing command: claudeTaskMaster.showCriticalPath');
+            await showCriticalPathReport();
+        }),
+
+        vscode.commands.registerCommand('claudeTaskMaster.renumberTasks', async () => {
+            log('Executing command: claudeTaskMaster.renumberTasks');
+            await renumberTasks();
+        }),
+
+        vscode.commands.registerCommand('claudeTaskMaster.importTasks', async () => {
+            log('Executing command: claudeTaskMaster.importTasks');
+            await importTasks();
+        }),
+
+        vscode.commands.registerCommand('claudeTaskMaster.exportTasks', async () => {
+            log('Executing command: claudeTaskMaster.exportTasks');
+            await exportTasksToFile();
+        }),
+
         vscode.commands.registerCommand('claudeTaskMaster.openPRD', async () => {
             log('Executing command: claudeTaskMaster.openPRD');
             await openPRD();
@@ -391,6 +490,30 @@ export function activate(context: vscode.ExtensionContext) {
             }
         }),
 
+        vscode.commands.registerCommand('claudeTaskMaster.startTimer', async (taskItem) => {
+            if (taskItem && taskItem.task) {
+                log(`Executing command: claudeTaskMaster.startTimer for task ID ${taskItem.task.id}, parentTaskId: ${taskItem.parentTaskId || 'none'}`);
+                await startTaskTimer(taskItem.task, taskItem.parentTaskId);
+            } else {
+                log('claudeTaskMaster.startTimer command called without a valid task item.');
+            }
+        }),
+
+        vscode.commands.registerCommand('claudeTaskMaster.pauseTimer', async () => {
+            log('Executing command: claudeTaskMaster.pauseTimer');
+            await taskTimer.pause();
+        }),
+
+        vscode.commands.registerCommand('claudeTaskMaster.resumeTimer', async () => {
+            log('Executing command: claudeTaskMaster.resumeTimer');
+            await taskTimer.resume();
+        }),
+
+        vscode.commands.registerCommand('claudeTaskMaster.stopTimer', async () => {
+            log('Executing command: claudeTaskMaster.stopTimer');
+            await stopTaskTimer();
+        }),
+
         vscode.commands.registerCommand('claudeTaskMaster.addTask', async (categoryItem) => {
             log(`Executing command: claudeTaskMaster.addTask for category: ${categoryItem?.label || 'none'}`);
             await addNewTask(categoryItem);
@@ -451,6 +574,50 @@ export function activate(context: vscode.ExtensionContext) {
             }
         }),
 
+        vscode.commands.registerCommand('claudeTaskMaster.renameTag', async () => {
+            const cmdInfo = logCommandStart('claudeTaskMaster.renameTag');
+            logUserInteraction('Rename tag initiated', null, 'tag-management');
+            try {
+                await renameTagHandler();
+                logCommandEnd(cmdInfo, true, undefined, { success: true, action: 'tag-rename-dialog-opened' });
+            } catch (error) {
+                logCommandEnd(cmdInfo, false, error instanceof Error ? error : new Error(String(error)));
+            }
+        }),
+
+        vscode.commands.registerCommand('claudeTaskMaster.duplicateTag', async () => {
+            const cmdInfo = logCommandStart('claudeTaskMaster.duplicateTag');
+            logUserInteraction('Duplicate tag initiated', null, 'tag-management');
+            try {
+                await duplicateTagHandler();
+                logCommandEnd(cmdInfo, true, undefined, { success: true, action: 'tag-duplicate-dialog-opened' });
+            } catch (error) {
+                logCommandEnd(cmdInfo, false, error instanceof Error ? error : new Error(String(error)));
+            }
+        }),
+
+        vscode.commands.registerCommand('claudeTaskMaster.mergeTags', async () => {
+            const cmdInfo = logCommandStart('claudeTaskMaster.mergeTags');
+            logUserInteraction('Merge tags initiated', null, 'tag-management');
+            try {
+                await mergeTagsHandler();
+                logCommandEnd(cmdInfo, true, undefined, { success: true, action: 'tag-merge-dialog-opened' });
+            } catch (error) {
+                logCommandEnd(cmdInfo, false, error instanceof Error ? error : new Error(String(error)));
+            }
+        }),
+
+        vscode.commands.registerCommand('claudeTaskMaster.editTagProperties', async () => {
+            const cmdInfo = logCommandStart('claudeTaskMaster.editTagProperties');
+            logUserInteraction('Edit tag properties initiated', null, 'tag-management');
+            try {
+                await editTagPropertiesHandler();
+                logCommandEnd(cmdInfo, true, undefined, { success: true, action: 'tag-properties-dialog-opened' });
+            } catch (error) {
+                logCommandEnd(cmdInfo, false, error instanceof Error ? error : new Error(String(error)));
+            }
+        }),
+
         vscode.commands.registerCommand('claudeTaskMaster.deleteTag', async () => {
             const cmdInfo = logCommandStart('claudeTaskMaster.deleteTag');
             logUserInteraction('Delete tag initiated', null, 'tag-management');
@@ -500,8 +667,12 @@ export function activate(context: vscode.ExtensionContext) {
             }
         }),
 
-        vscode.commands.registerCommand('claudeTaskMaster.deleteTask', async (taskItem) => {
-            if (taskItem && taskItem.task) {
+        vscode.commands.registerCommand('claudeTaskMaster.deleteTask', async (taskItem, selectedItems) => {
+            const items = getSelectedTaskItems(taskItem, selectedItems);
+            if (items.length > 1) {
+                log(`Executing command: claudeTaskMaster.deleteTask for ${items.length} tasks`);
+                await deleteTasksInBulk(items);
+            } else if (taskItem && taskItem.task) {
                 log(`Executing command: claudeTaskMaster.deleteTask for task ID ${taskItem.task.id}`);
                 await deleteTask(taskItem.task);
             } else {
@@ -509,9 +680,33 @@ export function activate(context: vscode.ExtensionContext) {
             }
         }),
 
+        vscode.commands.registerCommand('claudeTaskMaster.moveToTag', async (taskItem, selectedItems) => {
+            const items = getSelectedTaskItems(taskItem, selectedItems);
+            if (items.length > 0) {
+                log(`Executing command: claudeTaskMaster.moveToTag for ${items.length} tasks`);
+                await transferTasksToTag(items, false);
+            } else {
+                log('claudeTaskMaster.moveToTag command called without a valid task item.');
+            }
+        }),
+
+        vscode.commands.registerCommand('claudeTaskMaster.copyToTag', async (taskItem, selectedItems) => {
+            const items = getSelectedTaskItems(taskItem, selectedItems);
+            if (items.length > 0) {
+                log(`Executing command: claudeTaskMaster.copyToTag for ${items.length} tasks`);
+                await transferTasksToTag(items, true);
+            } else {
+                log('claudeTaskMaster.copyToTag command called without a valid task item.');
+            }
+        }),
+
         // Quick status change commands
-        vscode.commands.registerCommand('claudeTaskMaster.markCompleted', async (taskItem) => {
-            if (taskItem && taskItem.task) {
+        vscode.commands.registerCommand('claudeTaskMaster.markCompleted', async (taskItem, selectedItems) => {
+            const items = getSelectedTaskItems(taskItem, selectedItems);
+            if (items.length > 1) {
+                log(`Executing command: claudeTaskMaster.markCompleted for ${items.length} tasks`);
+                await setStatusInBulk(items, 'completed');
+            } else if (taskItem && taskItem.task) {
                 log(`Executing command: claudeTaskMaster.markCompleted for task ID ${taskItem.task.id}`);
                 await setTaskStatusWithContext(taskItem.task, 'completed', taskItem.parentTaskId);
             } else {
@@ -519,8 +714,12 @@ export function activate(context: vscode.ExtensionContext) {
             }
         }),
 
-        vscode.commands.registerCommand('claudeTaskMaster.markInProgress', async (taskItem) => {
-            if (taskItem && taskItem.task) {
+        vscode.commands.registerCommand('claudeTaskMaster.markInProgress', async (taskItem, selectedItems) => {
+            const items = getSelectedTaskItems(taskItem, selectedItems);
+            if (items.length > 1) {
+                log(`Executing command: claudeTaskMaster.markInProgress for ${items.length} tasks`);
+                await setStatusInBulk(items, 'in-progress');
+            } else if (taskItem && taskItem.task) {
                 log(`Executing command: claudeTaskMaster.markInProgress for task ID ${taskItem.task.id}`);
                 await setTaskStatusWithContext(taskItem.task, 'in-progress', taskItem.parentTaskId);
             } else {
@@ -528,8 +727,12 @@ export function activate(context: vscode.ExtensionContext) {
             }
         }),
 
-        vscode.commands.registerCommand('claudeTaskMaster.markTodo', async (taskItem) => {
-            if (taskItem && taskItem.task) {
+        vscode.commands.registerCommand('claudeTaskMaster.markTodo', async (taskItem, selectedItems) => {
+            const items = getSelectedTaskItems(taskItem, selectedItems);
+            if (items.length > 1) {
+                log(`Executing command: claudeTaskMaster.markTodo for ${items.length} tasks`);
+                await setStatusInBulk(items, 'todo');
+            } else if (taskItem && taskItem.task) {
                 log(`Executing command: claudeTaskMaster.markTodo for task ID ${taskItem.task.id}`);
                 await setTaskStatusWithContext(taskItem.task, 'todo', taskItem.parentTaskId);
             } else {
@@ -537,8 +740,12 @@ export function activate(context: vscode.ExtensionContext) {
             }
         }),
 
-        vscode.commands.registerCommand('claudeTaskMaster.markBlocked', async (taskItem) => {
-            if (taskItem && taskItem.task) {
+        vscode.commands.registerCommand('claudeTaskMaster.markBlocked', async (taskItem, selectedItems) => {
+            const items = getSelectedTaskItems(taskItem, selectedItems);
+            if (items.length > 1) {
+                log(`Executing command: claudeTaskMaster.markBlocked for ${items.length} tasks`);
+                await setStatusInBulk(items, 'blocked');
+            } else if (taskItem && taskItem.task) {
                 log(`Executing command: claudeTaskMaster.markBlocked for task ID ${taskItem.task.id}`);
                 await setTaskStatusWithContext(taskItem.task, 'blocked', taskItem.parentTaskId);
             } else {
@@ -547,8 +754,12 @@ export function activate(context: vscode.ExtensionContext) {
         }),
 
         // Property management commands
-        vscode.commands.registerCommand('claudeTaskMaster.changePriority', async (taskItem) => {
-            if (taskItem && taskItem.task) {
+        vscode.commands.registerCommand('claudeTaskMaster.changePriority', async (taskItem, selectedItems) => {
+            const items = getSelectedTaskItems(taskItem, selectedItems);
+            if (items.length > 1) {
+                log(`Executing command: claudeTaskMaster.changePriority for ${items.length} tasks`);
+                await changePriorityInBulk(items);
+            } else if (taskItem && taskItem.task) {
                 log(`Executing command: claudeTaskMaster.changePriority for task ID ${taskItem.task.id}`);
                 await changePriority(taskItem.task);
             } else {
@@ -565,6 +776,24 @@ export function activate(context: vscode.ExtensionContext) {
             }
         }),
 
+        vscode.commands.registerCommand('claudeTaskMaster.promoteSubtask', async (taskItem) => {
+            if (taskItem && taskItem.task && taskItem.parentTaskId) {
+                log(`Executing command: claudeTaskMaster.promoteSubtask for subtask ${taskItem.parentTaskId}.${taskItem.task.id}`);
+                await promoteSubtask(taskItem.task, taskItem.parentTaskId);
+            } else {
+                log('claudeTaskMaster.promoteSubtask command called without a valid subtask item.');
+            }
+        }),
+
+        vscode.commands.registerCommand('claudeTaskMaster.demoteTask', async (taskItem) => {
+            if (taskItem && taskItem.task && !taskItem.parentTaskId) {
+                log(`Executing command: claudeTaskMaster.demoteTask for task ID ${taskItem.task.id}`);
+                await demoteTask(taskItem.task);
+            } else {
+                log('claudeTaskMaster.demoteTask command called without a valid task item.');
+            }
+        }),
+
         vscode.commands.registerCommand('claudeTaskMaster.copyTaskDetails', async (taskItem) => {
             if (taskItem && taskItem.task) {
                 log(`Executing command: claudeTaskMaster.copyTaskDetails for task ID ${taskItem.task.id}`);
@@ -580,9 +809,52 @@ export function activate(context: vscode.ExtensionContext) {
             await showSearchDialog();
         }),
 
+        vscode.commands.registerCommand('claudeTaskMaster.clearSearch', async () => {
+            log('Executing command: claudeTaskMaster.clearSearch');
+            await clearSearch();
+        }),
+
         vscode.commands.registerCommand('claudeTaskMaster.filterByStatus', async () => {
             log('Executing command: claudeTaskMaster.filterByStatus');
             await showStatusFilterDialog();
+        }),
+
+        vscode.commands.registerCommand('claudeTaskMaster.clearFilter', async () => {
+            log('Executing command: claudeTaskMaster.clearFilter');
+            await clearFilter();
+        }),
+
+        // Saved view commands
+        vscode.commands.registerCommand('claudeTaskMaster.switchView', async () => {
+            log('Executing command: claudeTaskMaster.switchView');
+            await switchViewHandler();
+        }),
+
+        vscode.commands.registerCommand('claudeTaskMaster.saveView', async () => {
+            log('Executing command: claudeTaskMaster.saveView');
+            await saveViewHandler();
+        }),
+
+        vscode.commands.registerCommand('claudeTaskMaster.deleteView', async () => {
+            log('Executing command: claudeTaskMaster.deleteView');
+            await deleteViewHandler();
+        }),
+
+        // Undo/redo commands
+        vscode.commands.registerCommand('claudeTaskMaster.undo', async () => {
+            log('Executing command: claudeTaskMaster.undo');
+            await undoLastChange();
+        }),
+
+        vscode.commands.registerCommand('claudeTaskMaster.redo', async () => {
+            log('Executing command: claudeTaskMaster.redo');
+            await redoLastChange();
+        }),
+
+        // Dependency quick fix
+        vscode.commands.registerCommand('claudeTaskMaster.replaceDependency', async (uri: vscode.Uri, range: vscode.Range) => {
+            log('Executing command: claudeTaskMaster.replaceDependency');
+            await dependencyDiagnostics.replaceDependency(uri, range);
         })
 
     ];
@@ -598,15 +870,25 @@ export function activate(context: vscode.ExtensionContext) {
             new vscode.RelativePattern(workspaceFolder, '.taskmaster/**/*')
         );
         
-        watcher.onDidChange(() => {
+        // Lock and temp files come and go around every save, the rename that follows triggers the refresh
+        watcher.onDidChange(uri => {
+            if (isTaskFileArtifact(uri.fsPath)) {
+                return;
+            }
             log('File change detected in .taskmaster directory, refreshing view.');
             taskProvider.refresh();
         });
-        watcher.onDidCreate(() => {
+        watcher.onDidCreate(uri => {
+            if (isTaskFileArtifact(uri.fsPath)) {
+                return;
+            }
             log('File creation detected in .taskmaster directory, refreshing view.');
             taskProvider.refresh();
         });
-        watcher.onDidDelete(() => {
+        watcher.onDidDelete(uri => {
+            if (isTaskFileArtifact(uri.fsPath)) {
+                return;
+            }
             log('File deletion detected in .taskmaster directory, refreshing view.');
             taskProvider.refresh();
         });
@@ -665,7 +947,7 @@ async function getTaskDetailsImproved(taskId: string, parentTaskId?: string): Pr
     }
 }
 
-async function showTaskDetails(task: Task, context: vscode.ExtensionContext, parentTaskId?: string) {
+async function showTaskDetails(task: Task, context: vscode.ExtensionContext, parentTaskId?: string, recommendation?: TaskRecommendation) {
     try {
         log(`Showing task details for ID: ${task.id} (type: ${typeof task.id}), Title: "${task.title}", ParentTaskId: ${parentTaskId || 'none'}`);
         
@@ -712,7 +994,7 @@ async function showTaskDetails(task: Task, context: vscode.ExtensionContext, par
             }
         );
 
-        panel.webview.html = generateTaskDetailsHtml(details || task, parentTaskId);
+        panel.webview.html = generateTaskDetailsHtml(details || task, parentTaskId, recommendation);
 
         // Handle messages from the webview
         panel.webview.onDidReceiveMessage(
@@ -827,12 +1109,10 @@ async function showNextTask(context: vscode.ExtensionContext) {
         const tagContext = getTagContext(taskMasterClient);
         logTagOperation('Show Next Task', tagContext);
         
-        const nextTask = await taskMasterClient.getNextTask();
-        if (nextTask) {
-            // Determine if this is a subtask and extract parent ID if needed
-            const parentTaskId = extractParentTaskId(nextTask.id);
-            log(`showNextTask: nextTask.id="${nextTask.id}", extracted parentTaskId="${parentTaskId || 'none'}"`);
-            await showTaskDetails(nextTask, context, parentTaskId);
+        const recommendation = await taskMasterClient.getNextRecommendation();
+        if (recommendation) {
+            log(`showNextTask: next task "${recommendation.id}", parentTaskId="${recommendation.parentTaskId || 'none'}"`);
+            await showTaskDetails(recommendation.task, context, recommendation.parentTaskId, recommendation);
         } else {
             const message = formatTagSuccessMessage('没有可用的下一个任务', tagContext);
             vscode.window.showInformationMessage(message);
@@ -842,6 +1122,323 @@ async function showNextTask(context: vscode.ExtensionContext) {
     }
 }
 
+async function showDependencyGraph(context: vscode.ExtensionContext) {
+    if (dependencyGraphPanel) {
+        dependencyGraphPanel.reveal();
+        return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+        'dependencyGraph',
+        '任务依赖图',
+        vscode.ViewColumn.One,
+        {
+            enableScripts: true,
+            retainContextWhenHidden: true
+        }
+    );
+    dependencyGraphPanel = panel;
+    let includeSubtasks = false;
+
+    const render = async () => {
+        try {
+            const tagContext = getTagContext(taskMasterClient);
+            const tasks = await taskMasterClient.getTasks();
+            const recommendation = await taskMasterClient.getNextRecommendation();
+            const graph = buildDependencyGraph(tasks, includeSubtasks);
+            panel.webview.html = generateDependencyGraphHtml(graph, {
+                ...(recommendation ? { nextTaskId: recommendation.id } : {}),
+                includeSubtasks,
+                tagLabel: tagContext.isTaggedFormat ? `标签：${tagContext.currentTag}` : '任务依赖图'
+            });
+            log(`Rendered dependency graph with ${graph.nodes.length} nodes and ${graph.edges.length} edges`);
+        } catch (error) {
+            log(`Error rendering dependency graph: ${error}`);
+            vscode.window.showErrorMessage(`加载依赖图失败：${error instanceof Error ? error.message : String(error)}`);
+        }
+    };
+
+    // Keep the graph in sync with task changes while the panel is open
+    const refreshSubscription = taskProvider.onDidChangeTreeData(() => render());
+    panel.onDidDispose(() => {
+        refreshSubscription.dispose();
+        dependencyGraphPanel = undefined;
+    }, undefined, context.subscriptions);
+
+    panel.webview.onDidReceiveMessage(async (message) => {
+        log(`Received message from dependency graph: ${message.command}`);
+        switch (message.command) {
+            case 'openTask': {
+                const task = await getTaskDetailsImproved(message.taskId, message.parentTaskId);
+                if (task) {
+                    await showTaskDetails(task, context, message.parentTaskId);
+                } else {
+                    vscode.window.showWarningMessage(`未找到任务 ${message.taskId}`);
+                }
+                break;
+            }
+            case 'toggleSubtasks':
+                includeSubtasks = !!message.includeSubtasks;
+                await render();
+                break;
+        }
+    }, undefined, context.subscriptions);
+
+    await render();
+}
+
+async function showKanbanBoard(context: vscode.ExtensionContext) {
+    if (kanbanPanel) {
+        kanbanPanel.reveal();
+        return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+        'kanbanBoard',
+        '任务看板',
+        vscode.ViewColumn.One,
+        {
+            enableScripts: true,
+            retainContextWhenHidden: true
+        }
+    );
+    kanbanPanel = panel;
+    let includeSubtasks = false;
+
+    const render = async () => {
+        try {
+            const tagContext = getTagContext(taskMasterClient);
+            const tasks = await taskMasterClient.getTasks();
+            const recommendation = await taskMasterClient.getNextRecommendation();
+            const columns = buildKanbanBoard(tasks, includeSubtasks);
+            panel.webview.html = generateKanbanHtml(columns, {
+                ...(recommendation ? { nextTaskId: recommendation.id } : {}),
+                includeSubtasks,
+                tagLabel: tagContext.isTaggedFormat ? `标签：${tagContext.currentTag}` : '任务看板'
+            });
+            log(`Rendered kanban board with ${columns.reduce((count, column) => count + column.cards.length, 0)} cards`);
+        } catch (error) {
+            log(`Error rendering kanban board: ${error}`);
+            vscode.window.showErrorMessage(`加载看板失败：${error instanceof Error ? error.message : String(error)}`);
+        }
+    };
+
+    // The file watcher refreshes the tree, follow it so the board stays current
+    const refreshSubscription = taskProvider.onDidChangeTreeData(() => render());
+    panel.onDidDispose(() => {
+        refreshSubscription.dispose();
+        kanbanPanel = undefined;
+    }, undefined, context.subscriptions);
+
+    panel.webview.onDidReceiveMessage(async (message) => {
+        log(`Received message from kanban board: ${message.command}`);
+        switch (message.command) {
+            case 'moveCard': {
+                const task = await getTaskDetailsImproved(message.taskId, message.parentTaskId);
+                if (!task) {
+                    vscode.window.showWarningMessage(`未找到任务 ${message.taskId}`);
+                    await render();
+                    break;
+                }
+                try {
+                    await setTaskStatusWithContext(task, message.status, message.parentTaskId);
+                } catch (error) {
+                    // setTaskStatusWithContext already reported the error, put the card back where it was
+                    await render();
+                }
+                break;
+            }
+            case 'openTask': {
+                const task = await getTaskDetailsImproved(message.taskId, message.parentTaskId);
+                if (task) {
+                    await showTaskDetails(task, context, message.parentTaskId);
+                } else {
+                    vscode.window.showWarningMessage(`未找到任务 ${message.taskId}`);
+                }
+                break;
+            }
+            case 'toggleSubtasks':
+                includeSubtasks = !!message.includeSubtasks;
+                await render();
+                break;
+        }
+    }, undefined, context.subscriptions);
+
+    await render();
+}
+
+async function recordProgressSnapshot() {
+    try {
+        await taskMasterClient.recordProgressSnapshot();
+    } catch (error) {
+        log(`Error recording progress snapshot: ${error}`);
+    }
+}
+
+async function showBurndownChart(context: vscode.ExtensionContext) {
+    if (burndownPanel) {
+        burndownPanel.reveal();
+        return;
+    }
+
+    const panel = vscode.window.createWebviewPanel(
+        'burndownChart',
+        '燃尽图',
+        vscode.ViewColumn.One,
+        {
+            enableScripts: true,
+            retainContextWhenHidden: true
+        }
+    );
+    burndownPanel = panel;
+    let mode: BurnChartMode = 'burndown';
+    let measure: BurnChartMeasure = 'allItems';
+
+    const render = async () => {
+        try {
+            const tagContext = getTagContext(taskMasterClient);
+            // Bring today's snapshot up to date before drawing, the tree change that recorded it may still be pending
+            await taskMasterClient.recordProgressSnapshot();
+            const points = buildBurnChart(taskMasterClient.getProgressHistory(), measure);
+            panel.webview.html = generateBurnChartHtml(points, {
+                tagLabel: tagContext.isTaggedFormat ? `标签：${tagContext.currentTag}` : '全部任务',
+                mode,
+                measure
+            });
+            log(`Rendered ${mode} chart with ${points.length} days`);
+        } catch (error) {
+            log(`Error rendering burndown chart: ${error}`);
+            vscode.window.showErrorMessage(`加载燃尽图失败：${error instanceof Error ? error.message : String(error)}`);
+        }
+    };
+
+    const refreshSubscription = taskProvider.onDidChangeTreeData(() => render());
+    panel.onDidDispose(() => {
+        refreshSubscription.dispose();
+        burndownPanel = undefined;
+    }, undefined, context.subscriptions);
+
+    panel.webview.onDidReceiveMessage(async (message) => {
+        log(`Received message from burndown chart: ${message.command}`);
+        if (message.command === 'changeView') {
+            mode = message.mode === 'burnup' ? 'burnup' : 'burndown';
+            measure = message.measure === 'mainTasks' ? 'mainTasks' : 'allItems';
+            await render();
+        }
+    }, undefined, context.subscriptions);
+
+    await render();
+}
+
+/**
+ * Start timing a task. A timer running for another task is stopped first and its time recorded.
+ */
+async function startTaskTimer(task: Task, parentTaskId?: string) {
+    const taskId = getQualifiedTaskId(task, parentTaskId);
+    const tag = taskMasterClient.getCurrentTag();
+    const running = taskTimer.getState();
+    if (running?.taskId === taskId && running.tag === tag) {
+        await taskTimer.resume();
+        return;
+    }
+    if (running) {
+        await stopTaskTimer();
+        if (taskTimer.getState()) {
+            // The previous timer was kept, e.g. its time couldn't be recorded
+            return;
+        }
+    }
+    await taskTimer.start(taskId, tag, task.title);
+    vscode.window.setStatusBarMessage(`$(watch) 开始为任务 ${taskId} 计时`, 3000);
+}
+
+/**
+ * Stop the timer and add its time to the task's actualTime. When the time can't be saved the user can
+ * discard it or keep the timer running.
+ */
+async function stopTaskTimer() {
+    const timer = taskTimer.getState();
+    if (!timer) {
+        vscode.window.showInformationMessage('没有正在计时的任务');
+        return;
+    }
+
+    const switchTag = getTagContext(taskMasterClient).isTaggedFormat && timer.tag !== taskMasterClient.getCurrentTag();
+    if (switchTag) {
+        const choice = await vscode.window.showWarningMessage(
+            `正在计时的任务 ${timer.taskId} 属于标签 ${timer.tag}，要切换到该标签并记录用时吗？`,
+            '切换并记录',
+            '放弃用时'
+        );
+        if (choice === '放弃用时') {
+            await taskTimer.stop();
+            return;
+        }
+        if (choice !== '切换并记录') {
+            return;
+        }
+    }
+
+    if (getTimerElapsedMs(timer) < 60000) {
+        await taskTimer.stop();
+        vscode.window.showInformationMessage(`任务 ${timer.taskId} 的计时不到 1 分钟，未记录用时`);
+        return;
+    }
+
+    const undoTop = getUndoTop();
+    const recorded = await taskTimer.stopAndRecord(async stopped => {
+        if (switchTag) {
+            await taskProvider.switchTag(stopped.tag);
+        }
+        const hours = stopped.elapsedMs / 3600000;
+        return { hours, ...await taskMasterClient.recordActualTime(stopped.taskId, hours, stopped.title) };
+    });
+    if (!recorded) {
+        return;
+    }
+    taskProvider.refresh();
+    showUndoableMessage(formatTagSuccessMessage(
+        `⏱️ 已为任务 ${recorded.taskId} 记录 ${formatTrackedHours(recorded.hours)}，实际用时共 ${recorded.actualTime}`,
+        getTagContext(taskMasterClient)
+    ), undoTop);
+}
+
+async function showEstimateReport() {
+    try {
+        const tagContext = getTagContext(taskMasterClient);
+        logTagOperation('Show Estimate Report', tagContext);
+
+        const hoursPerDay = vscode.workspace.getConfiguration('claudeTaskMaster').get<number>('hoursPerDay', 8);
+        const entries = buildEstimateReport(await taskMasterClient.getTasks(), hoursPerDay);
+        const report = generateEstimateReport(entries, {
+            tagLabel: tagContext.isTaggedFormat ? tagContext.currentTag : '全部任务'
+        });
+        const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: report });
+        await vscode.window.showTextDocument(document, { preview: true });
+    } catch (error) {
+        log(`Error generating estimate report: ${error}`);
+        vscode.window.showErrorMessage(`生成估算对比报告失败：${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+async function showCriticalPathReport() {
+    try {
+        const tagContext = getTagContext(taskMasterClient);
+        logTagOperation('Show Critical Path', tagContext);
+
+        const criticalPath = await taskProvider.getCriticalPath();
+        const report = generateCriticalPathReport(criticalPath, {
+            tagLabel: tagContext.isTaggedFormat ? tagContext.currentTag : '全部任务',
+            hoursPerDay: vscode.workspace.getConfiguration('claudeTaskMaster').get<number>('hoursPerDay', 8)
+        });
+        const document = await vscode.workspace.openTextDocument({ language: 'markdown', content: report });
+        await vscode.window.showTextDocument(document, { preview: true });
+    } catch (error) {
+        log(`Error generating critical path report: ${error}`);
+        vscode.window.showErrorMessage(`生成关键路径报告失败：${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
 async function openPRD() {
     const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
     if (!workspaceFolder) {
@@ -888,6 +1485,7 @@ async function startWorkingOnTask(task: Task, context: vscode.ExtensionContext,
         
         if (confirmed === '开始工作') {
             await setTaskStatusWithContext(task, 'in-progress', parentTaskId);
+            await startTaskTimer(task, parentTaskId);
             
             const successMessage = formatTagSuccessMessage(
                 `🎯 Started working on Task ${task.id}: ${task.title}`,
@@ -900,7 +1498,7 @@ async function startWorkingOnTask(task: Task, context: vscode.ExtensionContext,
     }
 }
 
-function generateTaskDetailsHtml(task: Task, parentTaskId?: string): string {
+function generateTaskDetailsHtml(task: Task, parentTaskId?: string, recommendation?: TaskRecommendation): string {
     // Determine if it's a subtask based on parentTaskId presence
     const isSubtask = !!parentTaskId;
     
@@ -978,56 +1576,7 @@ function generateTaskDetailsHtml(task: Task, parentTaskId?: string): string {
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
     <title>Task Details</title>
     <style>
-        :root {
-            /* Enhanced color palette with better contrast */
-            --tm-bg-primary: var(--vscode-editor-background, #1e1e1e);
-            --tm-bg-secondary: var(--vscode-sideBar-background, #252526);
-            --tm-bg-tertiary: var(--vscode-input-background, #2d2d30);
-            --tm-text-primary: var(--vscode-editor-foreground, #cccccc);
-            --tm-text-secondary: var(--vscode-descriptionForeground, #999999);
-            --tm-text-muted: #6a6a6a;
-            --tm-border: var(--vscode-panel-border, #3c3c3c);
-            --tm-border-hover: var(--vscode-focusBorder, #007acc);
-            --tm-accent: var(--vscode-textLink-foreground, #4fc3f7);
-            --tm-accent-hover: #29b6f6;
-            
-            /* Enhanced status colors with gradients */
-            --tm-status-todo: linear-gradient(135deg, #ff9800, #f57c00);
-            --tm-status-progress: linear-gradient(135deg, #2196f3, #1976d2);
-            --tm-status-done: linear-gradient(135deg, #4caf50, #388e3c);
-            --tm-status-blocked: linear-gradient(135deg, #f44336, #d32f2f);
-            --tm-status-review: linear-gradient(135deg, #9c27b0, #7b1fa2);
-            
-            /* Priority gradients */
-            --tm-priority-critical: linear-gradient(135deg, #ff1744, #d50000);
-            --tm-priority-high: linear-gradient(135deg, #ff5722, #d84315);
-            --tm-priority-medium: linear-gradient(135deg, #ff9800, #f57c00);
-            --tm-priority-low: linear-gradient(135deg, #4caf50, #388e3c);
-            
-            /* Shadow definitions */
-            --tm-shadow-sm: 0 2px 4px rgba(0, 0, 0, 0.1);
-            --tm-shadow-md: 0 4px 12px rgba(0, 0, 0, 0.15);
-            --tm-shadow-lg: 0 8px 24px rgba(0, 0, 0, 0.2);
-            --tm-shadow-hover: 0 8px 32px rgba(0, 0, 0, 0.25);
-        }
-
-        body {
-            font-family: var(--vscode-font-family, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Helvetica, Arial, sans-serif);
-            color: var(--tm-text-primary);
-            background: linear-gradient(135deg, var(--tm-bg-primary) 0%, color-mix(in srgb, var(--tm-bg-primary) 95%, var(--tm-accent) 5%) 100%);
-            padding: 0;
-            margin: 0;
-            line-height: 1.6;
-            overflow-x: hidden;
-            font-size: 14px;
-            min-height: 100vh;
-        }
-
-        .container {
-            max-width: 1200px;
-            margin: 0 auto;
-            padding: 24px;
-        }
+${taskPageBaseStyles}
 
         /* Animated background pattern */
         .container::before {
@@ -1776,6 +2325,17 @@ function generateTaskDetailsHtml(task: Task, parentTaskId?: string): string {
             <div class="task-description">${task.description || '未提供描述。'}</div>
         </div>
 
+        ${recommendation ? `
+        <div class="content-section">
+            <h2 class="section-title">💡 推荐理由（得分 ${recommendation.score}）</h2>
+            <div class="dependencies-list">
+                ${recommendation.reasons.map(reason => `
+                    <div class="dependency-item">${reason}</div>
+                `).join('')}
+            </div>
+        </div>
+        ` : ''}
+
         ${!isSubtask && task.dependencies && task.dependencies.length > 0 ? `
         <div class="content-section">
             <h2 class="section-title">🔗 依赖</h2>
@@ -1936,40 +2496,38 @@ async function addNewTask(_categoryItem?: vscode.TreeItem): Promise<void> {
             return; // User cancelled
         }
 
-        // Generate next task ID
-        const tasks = await taskMasterClient.getTasks();
-        const maxId = Math.max(...tasks.map(t => parseInt(t.id)), 0);
-        const newTaskId = (maxId + 1).toString();
+        if (taskData.template) {
+            const undoTop = getUndoTop();
+            const newTaskId = await taskMasterClient.addTaskFromTemplate(taskData.template, taskData.templateValues || {}, {
+                ...(taskData.tagContext ? { tag: taskData.tagContext } : {}),
+                dependencies: taskData.dependencies || []
+            });
+            taskProvider.refresh();
+            showUndoableMessage(`✅ 已从模板 ${taskData.template.name} 创建任务 ${newTaskId}："${taskData.title}"`, undoTop);
+            return;
+        }
 
-        // Create the new task object
-        const newTaskForSave: TaskFormData = {
+        const newTask = {
             title: taskData.title,
             description: taskData.description || '',
             status: taskData.status || 'todo',
             priority: taskData.priority || 'medium',
-            dependencies: taskData.dependencies || []
+            dependencies: Array.isArray(taskData.dependencies) ? taskData.dependencies : 
+                          (taskData.dependencies ? [taskData.dependencies] : [])
         };
 
         // Try CLI method first, then fallback to file-based creation
         try {
-            await taskMasterClient.addTask({
-                title: taskData.title,
-                description: taskData.description || '',
-                status: taskData.status || 'todo',
-                priority: taskData.priority || 'medium',
-                dependencies: Array.isArray(taskData.dependencies) ? taskData.dependencies : 
-                              (taskData.dependencies ? [taskData.dependencies] : [])
-            }, true, taskData.tagContext); // Force CLI usage, pass selected tag
+            await taskMasterClient.addTask(newTask, true, taskData.tagContext); // Force CLI usage, pass selected tag
             
             vscode.window.showInformationMessage(
                 `✅ Task "${taskData.title}" created via CLI!`
             );
         } catch (cliError) {
             log(`CLI task creation failed, trying file creation: ${cliError}`);
-            await saveNewTask(newTaskForSave);
-        vscode.window.showInformationMessage(
-            `✅ Task ${newTaskId}: "${taskData.title}" created successfully!`
-        );
+            const undoTop = getUndoTop();
+            const newTaskId = await taskMasterClient.addTaskToFile(newTask, taskData.tagContext);
+            showUndoableMessage(`✅ Task ${newTaskId}: "${taskData.title}" created successfully!`, undoTop);
         }
         
         // Refresh the tree view after a short delay
@@ -2095,6 +2653,15 @@ async function expandTaskWithFallback(task: Task): Promise<void> {
 }
 
 async function createTaskInputForm(): Promise<TaskFormData | undefined> {
+    // Step 0: Template, only offered when .taskmaster/templates has any
+    const template = await pickTaskTemplate();
+    if (template === null) {
+        return undefined;
+    }
+    if (template) {
+        return createTemplateTaskInputForm(template);
+    }
+
     // Step 1: Task title (required)
     const title = await vscode.window.showInputBox({
         prompt: '输入任务标题（必填）',
@@ -2144,21 +2711,86 @@ async function createTaskInputForm(): Promise<TaskFormData | undefined> {
         }
     );
 
-    // Step 5: Tag Context Selection
-    const tagContext = taskMasterClient.getTagContext();
-    let selectedTag = tagContext.currentTag; // Default to current tag
-    
-    if (tagContext.isTaggedFormat && tagContext.availableTags.length > 1) {
-        const tagOptions = tagContext.availableTags.map(tag => ({
-            label: tag,
-            detail: tag === tagContext.currentTag ? '当前标签' : '可用标签',
-            picked: tag === tagContext.currentTag
-        }));
-        
-        const selectedTagOption = await vscode.window.showQuickPick(
-            tagOptions,
-            {
-                placeHolder: `选择新任务的标签上下文（当前：${tagContext.currentTag}）`,
+    const { tagContext: selectedTag, dependencies } = await promptForTaskTagAndDependencies();
+
+    return {
+        title: title.trim(),
+        description: description?.trim() || '',
+        priority: (priority?.label.toLowerCase() as TaskPriority) || 'medium',
+        status: (status?.label as TaskStatus) || 'todo',
+        dependencies,
+        tagContext: selectedTag
+    };
+}
+
+/**
+ * Offer a blank task or one of the task templates
+ * @returns The chosen template, undefined for a blank task, or null when cancelled
+ */
+async function pickTaskTemplate(): Promise<TaskTemplate | undefined | null> {
+    const templates = taskMasterClient.getTaskTemplates();
+    if (templates.length === 0) {
+        return undefined;
+    }
+
+    const choice = await vscode.window.showQuickPick([
+        { label: '$(add) 空白任务', detail: '逐项填写标题、描述和优先级' },
+        ...templates.map(template => ({
+            label: `$(file-code) 从模板：${template.name}`,
+            detail: `${template.title}${template.subtasks ? `（${template.subtasks.length} 个子任务）` : ''}`,
+            template
+        }))
+    ], { placeHolder: '新建任务' });
+    if (!choice) {
+        return null;
+    }
+    return 'template' in choice ? choice.template : undefined;
+}
+
+/**
+ * Ask for a template's placeholder values, then for the tag and dependencies like a blank task
+ */
+async function createTemplateTaskInputForm(template: TaskTemplate): Promise<TaskFormData | undefined> {
+    const templateValues: Record<string, string> = {};
+    for (const placeholder of findTemplatePlaceholders(template)) {
+        const value = await vscode.window.showInputBox({
+            prompt: `模板 ${template.name}：输入 \${${placeholder}} 的值`,
+            placeHolder: placeholder
+        });
+        if (value === undefined) {
+            return undefined;
+        }
+        templateValues[placeholder] = value.trim();
+    }
+
+    const { tagContext, dependencies } = await promptForTaskTagAndDependencies();
+    return {
+        title: fillTemplatePlaceholders(template.title, templateValues),
+        description: fillTemplatePlaceholders(template.description || '', templateValues),
+        priority: template.priority || 'medium',
+        status: 'todo',
+        dependencies,
+        tagContext,
+        template,
+        templateValues
+    };
+}
+
+/**
+ * Last steps of the new task form: the tag to create it in and the tasks it depends on
+ */
+async function promptForTaskTagAndDependencies(): Promise<{ tagContext: string; dependencies: string[] }> {
+    // Step 5: Tag Context Selection
+    const tagContext = taskMasterClient.getTagContext();
+    let selectedTag = tagContext.currentTag; // Default to current tag
+    
+    // Archived tags are left out, like in the other tag pickers
+    const tagOptions = createTagSelectionOptions(tagContext);
+    if (tagContext.isTaggedFormat && tagOptions.length > 1) {
+        const selectedTagOption = await vscode.window.showQuickPick(
+            tagOptions,
+            {
+                placeHolder: `选择新任务的标签上下文（当前：${tagContext.currentTag}）`,
                 canPickMany: false
             }
         );
@@ -2168,8 +2800,10 @@ async function createTaskInputForm(): Promise<TaskFormData | undefined> {
         }
     }
 
-    // Step 6: Dependencies (optional)
-    const tasks = await taskMasterClient.getTasks();
+    // Step 6: Dependencies (optional), from the tag the task goes to
+    const tasks = selectedTag === tagContext.currentTag
+        ? await taskMasterClient.getTasks()
+        : (await taskMasterClient.getTasksOfAllTags()).get(selectedTag) || [];
     const availableTasks = tasks.map(task => ({
         label: `${task.id}: ${task.title}`,
         detail: `状态：${task.status}，优先级：${task.priority}`,
@@ -2191,14 +2825,7 @@ async function createTaskInputForm(): Promise<TaskFormData | undefined> {
         }
     }
 
-    return {
-        title: title.trim(),
-        description: description?.trim() || '',
-        priority: (priority?.label.toLowerCase() as TaskPriority) || 'medium',
-        status: (status?.label as TaskStatus) || 'todo',
-        dependencies,
-        tagContext: selectedTag
-    };
+    return { tagContext: selectedTag, dependencies };
 }
 
 async function createSubtaskInputForm(): Promise<SubtaskFormData | undefined> {
@@ -2250,34 +2877,6 @@ async function createSubtaskInputForm(): Promise<SubtaskFormData | undefined> {
     };
 }
 
-async function saveNewTask(task: TaskFormData): Promise<void> {
-    try {
-        // Read current tasks.json
-        const tasksJsonPath = path.join(taskMasterClient.getTaskmasterPath(), 'tasks', 'tasks.json');
-        
-        if (fs.existsSync(tasksJsonPath)) {
-            const tasksData = fs.readFileSync(tasksJsonPath, 'utf8');
-            const parsed = JSON.parse(tasksData);
-            const tasks = Array.isArray(parsed) ? parsed : parsed.tasks || [];
-            
-            // Add the new task
-            tasks.push(task);
-            
-            // Write back to file
-            const updatedData = Array.isArray(parsed) ? tasks : { ...parsed, tasks };
-            fs.writeFileSync(tasksJsonPath, JSON.stringify(updatedData, null, 2));
-        } else {
-            // Create new tasks.json file
-            const newTasksFile = {
-                tasks: [task]
-            };
-            fs.writeFileSync(tasksJsonPath, JSON.stringify(newTasksFile, null, 2));
-        }
-    } catch (error) {
-        throw new Error(`Failed to save task: ${error}`);
-    }
-}
-
 async function editTask(task: Task): Promise<void> {
     try {
         const tagContext = getTagContext(taskMasterClient);
@@ -2369,6 +2968,7 @@ async function deleteTask(task: Task): Promise<void> {
             return;
         }
 
+        const undoTop = getUndoTop();
         // Check if this is a subtask (contains dot)
         if (task.id?.toString().includes('.')) {
             // Handle subtask deletion
@@ -2393,7 +2993,7 @@ async function deleteTask(task: Task): Promise<void> {
             `🗑️ Task ${task.id}: "${task.title}" deleted successfully`,
             tagContext
         );
-        vscode.window.showInformationMessage(successMessage);
+        showUndoableMessage(successMessage, undoTop);
 
     } catch (error) {
         vscode.window.showErrorMessage(`Failed to delete task: ${error}`);
@@ -2587,12 +3187,11 @@ async function setTaskStatusWithContext(task: Task, newStatus: TaskStatus, paren
         }
         logUserInteraction('Status change executing', executeLogDetails, 'status-update');
 
+        const undoTop = getUndoTop();
         try {
             // Determine if this is a subtask and use the appropriate method
-            // Check if this task ID contains a dot AND we have a parentTaskId
-            const isSubtask = parentTaskId && task.id?.toString().includes('.');
-            
-            if (isSubtask) {
+            // Subtask IDs from getTasks are bare ("1"), so the parent task ID alone marks a subtask
+            if (parentTaskId) {
                 // This is a subtask - use the new setSubtaskStatus method
                 log(`Setting subtask status: subtaskId=${task.id}, parentTaskId=${parentTaskId}, status=${newStatus}`);
                 await taskMasterClient.setSubtaskStatus(parentTaskId, task.id, newStatus);
@@ -2624,7 +3223,7 @@ async function setTaskStatusWithContext(task: Task, newStatus: TaskStatus, paren
             message = message.replace(`Task ${task.id}`, `Subtask ${task.id} (in Task ${parentTaskId})`);
         }
         
-        vscode.window.showInformationMessage(message);
+        showUndoableMessage(message, undoTop);
         
         const completedLogDetails: UserInteractionDetails = { 
             taskId: task.id, 
@@ -2793,6 +3392,371 @@ async function setTaskStatusInteractive(task: Task): Promise<void> {
     }
 }
 
+/**
+ * Make a subtask a main task of its own, right after its former parent
+ */
+async function promoteSubtask(task: Task, parentTaskId: string): Promise<void> {
+    const tagContext = getTagContext(taskMasterClient);
+    const subtaskId = getQualifiedTaskId(task, parentTaskId);
+    logTagOperation('Promote Subtask', tagContext, { taskId: subtaskId });
+
+    try {
+        const undoTop = getUndoTop();
+        const newId = await taskMasterClient.promoteSubtask(subtaskId);
+        taskProvider.refresh();
+        showUndoableMessage(formatTagSuccessMessage(`⬆️ 子任务 ${subtaskId}："${task.title}" 已提升为任务 ${newId}`, tagContext), undoTop);
+    } catch (error) {
+        log(`Promoting subtask ${subtaskId} failed: ${error}`);
+        vscode.window.showErrorMessage(`提升子任务失败：${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Make a main task a subtask of another main task chosen by the user
+ */
+async function demoteTask(task: Task): Promise<void> {
+    const tagContext = getTagContext(taskMasterClient);
+    if (task.subtasks && task.subtasks.length > 0) {
+        vscode.window.showWarningMessage(`任务 ${task.id} 有 ${task.subtasks.length} 个子任务，不能降级为子任务`);
+        return;
+    }
+
+    const candidates = (await taskMasterClient.getTasks()).filter(candidate => candidate.id.toString() !== task.id.toString());
+    if (candidates.length === 0) {
+        vscode.window.showInformationMessage('没有其他任务可以作为父任务');
+        return;
+    }
+
+    const parent = await vscode.window.showQuickPick(
+        candidates.map(candidate => ({
+            label: `${candidate.id}: ${candidate.title}`,
+            description: getFilterStatusLabel(candidate.status),
+            taskId: candidate.id.toString()
+        })),
+        {
+            placeHolder: getTagAwarePlaceholder(tagContext, `将任务 ${task.id} 降级为哪个任务的子任务？`),
+            matchOnDescription: true
+        }
+    );
+    if (!parent) {
+        return;
+    }
+
+    try {
+        logTagOperation('Demote Task', tagContext, { taskId: task.id, parentTaskId: parent.taskId });
+        const undoTop = getUndoTop();
+        const newId = await taskMasterClient.demoteTask(task.id.toString(), parent.taskId);
+        taskProvider.refresh();
+        showUndoableMessage(formatTagSuccessMessage(`⬇️ 任务 ${task.id}："${task.title}" 已降级为子任务 ${newId}`, tagContext), undoTop);
+    } catch (error) {
+        log(`Demoting task ${task.id} failed: ${error}`);
+        vscode.window.showErrorMessage(`降级任务失败：${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Tree commands receive the clicked item and, with multi-select, all selected items
+ */
+function getSelectedTaskItems(taskItem?: TaskItem, selectedItems?: TaskItem[]): TaskItem[] {
+    const items = selectedItems && selectedItems.length > 0 ? selectedItems : taskItem ? [taskItem] : [];
+    return items.filter(item => item && item.task);
+}
+
+function getSelectedTaskIds(items: TaskItem[]): string[] {
+    return [...new Set(items.map(item => getQualifiedTaskId(item.task as Task, item.parentTaskId)))];
+}
+
+/**
+ * Set the status of all selected tasks with one write and one notification
+ */
+async function setStatusInBulk(items: TaskItem[], status: TaskStatus): Promise<void> {
+    const tagContext = getTagContext(taskMasterClient);
+    const taskIds = getSelectedTaskIds(items.filter(item => item.task?.status !== status));
+    logTagOperation('Bulk Status Change', tagContext, { taskIds: taskIds.join(', '), status });
+    if (taskIds.length === 0) {
+        vscode.window.showInformationMessage(`选中的任务已经是${getFilterStatusLabel(status)}状态`);
+        return;
+    }
+
+    try {
+        const undoTop = getUndoTop();
+        await taskMasterClient.setTasksStatus(taskIds, status);
+        taskProvider.refresh();
+        showUndoableMessage(formatTagSuccessMessage(`已将 ${taskIds.length} 个任务标记为${getFilterStatusLabel(status)}：${taskIds.join(', ')}`, tagContext), undoTop);
+    } catch (error) {
+        log(`Bulk status change failed: ${error}`);
+        vscode.window.showErrorMessage(`批量修改状态失败：${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Give all selected tasks the same priority with one write and one notification
+ */
+async function changePriorityInBulk(items: TaskItem[]): Promise<void> {
+    const tagContext = getTagContext(taskMasterClient);
+    const taskIds = getSelectedTaskIds(items);
+
+    const priority = await vscode.window.showQuickPick([
+        { label: '严重', detail: '阻塞其他工作', value: 'critical' },
+        { label: '高', detail: '重要且紧急', value: 'high' },
+        { label: '中', detail: '正常优先级', value: 'medium' },
+        { label: '低', detail: '可以等待', value: 'low' }
+    ], {
+        placeHolder: getTagAwarePlaceholder(tagContext, `为 ${taskIds.length} 个任务选择新优先级：`)
+    });
+    if (!priority) {
+        return;
+    }
+
+    try {
+        logTagOperation('Bulk Priority Change', tagContext, { taskIds: taskIds.join(', '), priority: priority.value });
+        const undoTop = getUndoTop();
+        await taskMasterClient.updateTasks(taskIds, {
+            priority: priority.value as TaskPriority,
+            updated: new Date().toISOString()
+        });
+        taskProvider.refresh();
+        showUndoableMessage(formatTagSuccessMessage(`⭐ 已将 ${taskIds.length} 个任务的优先级改为${priority.label}：${taskIds.join(', ')}`, tagContext), undoTop);
+    } catch (error) {
+        log(`Bulk priority change failed: ${error}`);
+        vscode.window.showErrorMessage(`批量修改优先级失败：${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Delete all selected tasks after one confirmation, with one write and one notification
+ */
+async function deleteTasksInBulk(items: TaskItem[]): Promise<void> {
+    const tagContext = getTagContext(taskMasterClient);
+    const taskIds = getSelectedTaskIds(items);
+
+    const confirmMessage = tagContext.isTaggedFormat
+        ? `[标签：${tagContext.currentTag}] 确定要删除选中的 ${taskIds.length} 个任务吗？（${taskIds.join(', ')}）`
+        : `确定要删除选中的 ${taskIds.length} 个任务吗？（${taskIds.join(', ')}）`;
+    const confirm = await vscode.window.showWarningMessage(confirmMessage, { modal: true }, '删除', '取消');
+    if (confirm !== '删除') {
+        return;
+    }
+
+    try {
+        logTagOperation('Bulk Delete', tagContext, { taskIds: taskIds.join(', ') });
+        const undoTop = getUndoTop();
+        const removed = await taskMasterClient.deleteTasks(taskIds);
+        taskProvider.refresh();
+        showUndoableMessage(formatTagSuccessMessage(`🗑️ 已删除 ${removed.length} 个任务：${removed.join(', ')}`, tagContext), undoTop);
+    } catch (error) {
+        log(`Bulk delete failed: ${error}`);
+        vscode.window.showErrorMessage(`批量删除失败：${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Move or copy the selected tasks, with their subtasks, to another tag
+ */
+async function transferTasksToTag(items: TaskItem[], copy: boolean): Promise<void> {
+    const action = copy ? '复制' : '移动';
+    const tagContext = getTagContext(taskMasterClient);
+    if (!tagContext.isTaggedFormat) {
+        vscode.window.showWarningMessage(`当前 tasks.json 没有使用标签格式，无法在标签之间${action}任务`);
+        return;
+    }
+
+    const otherTags = taskMasterClient.getAvailableTags().filter(tag => tag !== tagContext.currentTag);
+    if (otherTags.length === 0) {
+        vscode.window.showInformationMessage(`没有其他标签可以${action}到`);
+        return;
+    }
+
+    const taskIds = getSelectedTaskIds(items);
+    const targetTag = await vscode.window.showQuickPick(otherTags, {
+        placeHolder: `将 ${taskIds.length} 个任务从标签 ${tagContext.currentTag} ${action}到…`
+    });
+    if (!targetTag) {
+        return;
+    }
+
+    try {
+        // Tags have no way to refer to each other's tasks, so ask what to do with dependencies that would cross
+        let keepCrossTagDependencies = false;
+        const crossTagDependencies = await taskMasterClient.getCrossTagDependencies(taskIds, copy);
+        if (crossTagDependencies.length > 0) {
+            const choice = await vscode.window.showQuickPick([
+                { label: '$(trash) 移除跨标签依赖', detail: '只保留这些任务之间的依赖', keep: false },
+                { label: '$(link) 保留跨标签依赖', detail: '按原样保留依赖 ID，在目标标签中它们可能指向其他任务或不存在', keep: true }
+            ], { placeHolder: `${crossTagDependencies.length} 个依赖会跨越标签：${crossTagDependencies.join('，')}` });
+            if (!choice) {
+                return;
+            }
+            keepCrossTagDependencies = choice.keep;
+        }
+
+        logTagOperation(copy ? 'Copy To Tag' : 'Move To Tag', tagContext, { taskIds: taskIds.join(', '), targetTag, keepCrossTagDependencies });
+        const transferred = copy
+            ? await taskMasterClient.copyTasksToTag(taskIds, targetTag, keepCrossTagDependencies)
+            : await taskMasterClient.moveTasksToTag(taskIds, targetTag, keepCrossTagDependencies);
+        taskProvider.refresh();
+        const renumbered = taskIds.filter(taskId => transferred.has(taskId) && transferred.get(taskId) !== taskId);
+        vscode.window.showInformationMessage(
+            `已将 ${taskIds.length} 个任务${action}到标签 ${targetTag}`
+            + (renumbered.length > 0 ? `，重新编号：${renumbered.map(taskId => `${taskId} → ${transferred.get(taskId)}`).join('，')}` : '')
+        );
+    } catch (error) {
+        log(`${copy ? 'Copying' : 'Moving'} tasks to tag ${targetTag} failed: ${error}`);
+        vscode.window.showErrorMessage(`${action}到标签失败：${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+/**
+ * Renumber the current tag's tasks after showing which IDs would change
+ */
+async function renumberTasks(): Promise<void> {
+    const tagContext = getTagContext(taskMasterClient);
+    try {
+        const preview = await taskMasterClient.previewRenumbering();
+        if (preview.renamed.size === 0) {
+            vscode.window.showInformationMessage('任务编号已经是连续的，无需重新编号');
+            return;
+        }
+
+        // Keep the dialog readable for large tags
+        const changes = [...preview.renamed].map(([oldId, newId]) => `${oldId} → ${newId}`);
+        const shown = changes.slice(0, 30);
+        let detail = shown.join('\n') + (changes.length > shown.length ? `\n…另外 ${changes.length - shown.length} 个` : '')
+            + '\n\n所有依赖都会同步改写。';
+        if (preview.droppedDependencies.length > 0) {
+            detail += `\n以下子任务对主任务的依赖会被同级子任务的新 ID 遮蔽，将被移除：${preview.droppedDependencies.join('，')}`;
+        }
+        const confirmMessage = tagContext.isTaggedFormat
+            ? `[标签：${tagContext.currentTag}] 重新编号将改变 ${preview.renamed.size} 个任务 ID`
+            : `重新编号将改变 ${preview.renamed.size} 个任务 ID`;
+        const confirm = await vscode.window.showWarningMessage(confirmMessage, { modal: true, detail }, '重新编号');
+        if (confirm !== '重新编号') {
+            return;
+        }
+
+        logTagOperation('Renumber Tasks', tagContext, { changes: preview.renamed.size });
+        const undoTop = getUndoTop();
+        const result = await taskMasterClient.renumberTasks();
+        taskProvider.refresh();
+        showUndoableMessage(formatTagSuccessMessage(`🔢 已重新编号 ${result.renamed.size} 个任务`, tagContext), undoTop);
+    } catch (error) {
+        log(`Renumbering tasks failed: ${error}`);
+        vscode.window.showErrorMessage(`重新编号失败：${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+async function importTasks(): Promise<void> {
+    const tagContext = getTagContext(taskMasterClient);
+    const files = await vscode.window.showOpenDialog({
+        canSelectMany: false,
+        filters: { '任务清单': ['md', 'markdown', 'csv'], '所有文件': ['*'] },
+        openLabel: '导入',
+        ...(vscode.workspace.workspaceFolders?.[0] ? { defaultUri: vscode.workspace.workspaceFolders[0].uri } : {})
+    });
+    const file = files?.[0];
+    if (!file) {
+        return;
+    }
+
+    try {
+        const content = Buffer.from(await vscode.workspace.fs.readFile(file)).toString('utf8');
+        const { tasks, warnings } = parseTaskImport(file.fsPath, content);
+        warnings.forEach(warning => log(`Import of ${file.fsPath}: ${warning}`));
+        if (tasks.length === 0) {
+            vscode.window.showWarningMessage(`${path.basename(file.fsPath)} 中没有找到任务。Markdown 文件需要 "- [ ]" 清单项，CSV 文件需要 title 列`);
+            return;
+        }
+
+        // Keep the dialog readable for long plans
+        const subtaskCount = tasks.reduce((count, task) => count + (task.subtasks?.length || 0), 0);
+        const lines = tasks.map(task => `• ${task.title}${task.subtasks?.length ? `（${task.subtasks.length} 个子任务）` : ''}`);
+        let detail = lines.slice(0, 30).join('\n') + (lines.length > 30 ? `\n…另外 ${lines.length - 30} 个任务` : '');
+        if (warnings.length > 0) {
+            detail += `\n\n以下内容未能导入：\n${warnings.slice(0, 10).join('\n')}${warnings.length > 10 ? `\n…另外 ${warnings.length - 10} 条，详见输出日志` : ''}`;
+        }
+        const summary = `${tasks.length} 个任务${subtaskCount > 0 ? `和 ${subtaskCount} 个子任务` : ''}`;
+        const confirmMessage = tagContext.isTaggedFormat
+            ? `[标签：${tagContext.currentTag}] 从 ${path.basename(file.fsPath)} 导入 ${summary}？`
+            : `从 ${path.basename(file.fsPath)} 导入 ${summary}？`;
+        const confirm = await vscode.window.showInformationMessage(confirmMessage, { modal: true, detail }, '导入');
+        if (confirm !== '导入') {
+            return;
+        }
+
+        logTagOperation('Import Tasks', tagContext, { file: file.fsPath, tasks: tasks.length, subtasks: subtaskCount });
+        const undoTop = getUndoTop();
+        const imported = await taskMasterClient.importTasks(tasks);
+        taskProvider.refresh();
+        const newIds = [...imported.values()].filter(id => !id.includes('.'));
+        showUndoableMessage(formatTagSuccessMessage(`📥 已导入 ${summary}（任务 ${newIds.length > 1 ? `${newIds[0]}–${newIds[newIds.length - 1]}` : newIds[0]}）`, tagContext), undoTop);
+    } catch (error) {
+        log(`Importing tasks failed: ${error}`);
+        vscode.window.showErrorMessage(`导入任务失败：${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
+async function exportTasksToFile(): Promise<void> {
+    const tagContext = getTagContext(taskMasterClient);
+    try {
+        let allTags = false;
+        if (tagContext.isTaggedFormat && tagContext.availableTags.length > 1) {
+            const scope = await vscode.window.showQuickPick([
+                { label: `$(tag) 当前标签：${tagContext.currentTag}`, allTags: false },
+                { label: `$(tags) 所有标签（${tagContext.availableTags.length} 个）`, allTags: true }
+            ], { placeHolder: '导出哪些任务？' });
+            if (!scope) {
+                return;
+            }
+            allTags = scope.allTags;
+        }
+
+        const formats: Array<{ label: string; detail: string; format: TaskExportFormat }> = [
+            { label: '$(markdown) Markdown 状态报告', detail: '每个标签的完成情况和任务清单，适合粘贴到周报', format: 'markdown' },
+            { label: '$(table) CSV', detail: '每行一个任务或子任务，可用表格软件打开，也可再次导入', format: 'csv' },
+            { label: '$(json) JSON', detail: '按标签分组的规范化任务数据', format: 'json' },
+            { label: '$(globe) HTML 报告', detail: '独立的网页报告，可直接在浏览器中打开或发送', format: 'html' }
+        ];
+        const choice = await vscode.window.showQuickPick(formats, { placeHolder: '选择导出格式' });
+        if (!choice) {
+            return;
+        }
+
+        // The export shows what the tree shows, so the active filter applies
+        const filter = taskProvider.getFilter();
+        const tasksByTag = allTags
+            ? await taskMasterClient.getTasksOfAllTags()
+            : new Map([[tagContext.currentTag, await taskMasterClient.getTasks()]]);
+        const sections = [...tasksByTag].map(([tag, tasks]) => ({ tag, tasks: applyTaskFilter(tasks, filter) }));
+        const content = exportTasks(choice.format, sections, isFilterActive(filter) ? { filterDescription: describeFilter(filter) } : {});
+
+        const extension = exportFileExtensions[choice.format];
+        const fileName = `tasks-${allTags ? 'all-tags' : tagContext.currentTag}-${new Date().toISOString().slice(0, 10)}.${extension}`;
+        const workspaceFolder = vscode.workspace.workspaceFolders?.[0];
+        const target = await vscode.window.showSaveDialog({
+            filters: { [choice.label.replace(/^\$\([^)]*\)\s*/, '')]: [extension] },
+            saveLabel: '导出',
+            ...(workspaceFolder ? { defaultUri: vscode.Uri.joinPath(workspaceFolder.uri, fileName) } : {})
+        });
+        if (!target) {
+            return;
+        }
+
+        await vscode.workspace.fs.writeFile(target, Buffer.from(content, 'utf8'));
+        logTagOperation('Export Tasks', tagContext, { format: choice.format, allTags, file: target.fsPath });
+        const action = await vscode.window.showInformationMessage(`📤 已导出到 ${path.basename(target.fsPath)}`, '打开');
+        if (action === '打开') {
+            if (choice.format === 'html') {
+                await vscode.env.openExternal(target);
+            } else {
+                await vscode.window.showTextDocument(target);
+            }
+        }
+    } catch (error) {
+        log(`Exporting tasks failed: ${error}`);
+        vscode.window.showErrorMessage(`导出任务失败：${error instanceof Error ? error.message : String(error)}`);
+    }
+}
+
 async function changePriority(task: Task): Promise<void> {
     try {
         const tagContext = getTagContext(taskMasterClient);
@@ -2961,28 +3925,311 @@ ${details}`;
 // Search and Filter Functions
 async function showSearchDialog(): Promise<void> {
     const searchTerm = await vscode.window.showInputBox({
-        placeHolder: 'Enter search term (task title, description, or ID)',
-        prompt: 'Search tasks'
-        });
+        placeHolder: '输入搜索词（标题、描述、实现详情、测试策略、编号或标签）',
+        prompt: '搜索任务',
+        value: taskProvider.getSearchQuery() || ''
+    });
 
-    if (searchTerm) {
-        // For now, just show the search term and refresh
-        taskProvider.refresh();
-        vscode.window.showInformationMessage(`🔍 Searching for: ${searchTerm}`);
+    // An undefined query means the input box was dismissed, an empty one that the user cleared it
+    if (searchTerm === undefined) {
+        return;
     }
+
+    if (!searchTerm.trim()) {
+        await clearSearch();
+        return;
+    }
+
+    taskProvider.setSearchQuery(searchTerm);
+    await vscode.commands.executeCommand('setContext', 'claudeTaskMaster.searchActive', true);
+
+    const results = await taskProvider.getSearchResults();
+    log(`Search for '${searchTerm}' matched ${results.length} items.`);
+    if (results.length === 0) {
+        vscode.window.showInformationMessage(`🔍 没有找到匹配“${searchTerm.trim()}”的任务`);
+    } else {
+        vscode.window.showInformationMessage(`🔍 找到 ${results.length} 个匹配“${searchTerm.trim()}”的任务`);
+    }
+}
+
+async function clearSearch(): Promise<void> {
+    taskProvider.clearSearch();
+    await vscode.commands.executeCommand('setContext', 'claudeTaskMaster.searchActive', false);
+}
+
+interface FilterQuickPickItem extends vscode.QuickPickItem {
+    dimension?: keyof TaskFilter;
+    value?: string;
 }
 
 async function showStatusFilterDialog(): Promise<void> {
-    const statuses = ['pending', 'in-progress', 'completed', 'blocked', 'cancelled'];
-    const selected = await vscode.window.showQuickPick(statuses, {
-        placeHolder: 'Select status to filter by',
+    const currentFilter = taskProvider.getFilter();
+    const tasks = await taskMasterClient.getTasks();
+    const allItems = tasks.flatMap(task => [task, ...(task.subtasks || [])]);
+
+    const collectValues = (getValues: (task: Task) => string[] | undefined): string[] =>
+        Array.from(new Set(allItems.flatMap(task => getValues(task) || []))).sort();
+
+    const sections: Array<{ title: string; dimension: keyof TaskFilter; values: string[]; getLabel: (value: string) => string }> = [
+        { title: '状态', dimension: 'statuses', values: ['todo', 'in-progress', 'review', 'blocked', 'deferred', 'completed', 'cancelled'], getLabel: getFilterStatusLabel },
+        { title: '优先级', dimension: 'priorities', values: ['critical', 'high', 'medium', 'low'], getLabel: getFilterPriorityLabel },
+        { title: '分类', dimension: 'categories', values: collectValues(task => task.category ? [task.category] : undefined), getLabel: value => value },
+        { title: '负责人', dimension: 'assignees', values: collectValues(task => task.assignee ? [task.assignee] : undefined), getLabel: value => value },
+        { title: '标签', dimension: 'tags', values: collectValues(task => task.tags), getLabel: value => value }
+    ];
+
+    const pickItems: FilterQuickPickItem[] = [];
+    for (const section of sections) {
+        if (section.values.length === 0) {
+            continue;
+        }
+        pickItems.push({ label: section.title, kind: vscode.QuickPickItemKind.Separator });
+        const selectedValues = (currentFilter[section.dimension] || []) as string[];
+        for (const value of section.values) {
+            pickItems.push({
+                label: section.getLabel(value),
+                description: value,
+                picked: selectedValues.includes(value),
+                dimension: section.dimension,
+                value
+            });
+        }
+    }
+
+    const selected = await vscode.window.showQuickPick(pickItems, {
+        placeHolder: '选择筛选条件（同一类别内任一匹配，不同类别需同时满足）',
         canPickMany: true
-        });
+    });
 
-    if (selected && selected.length > 0) {
-        // For now, just show the filter and refresh
-    taskProvider.refresh();
-        vscode.window.showInformationMessage(`📊 Filtering by status: ${selected.join(', ')}`);
+    if (!selected) {
+        return;
+    }
+
+    const newFilter: TaskFilter = {};
+    for (const item of selected) {
+        if (!item.dimension || !item.value) {
+            continue;
+        }
+        const values = (newFilter[item.dimension] || []) as string[];
+        values.push(item.value);
+        (newFilter as Record<string, string[]>)[item.dimension] = values;
+    }
+
+    await taskProvider.setFilter(newFilter);
+    const filterActive = isFilterActive(newFilter);
+    await vscode.commands.executeCommand('setContext', 'claudeTaskMaster.filterActive', filterActive);
+
+    if (filterActive) {
+        log(`Filter applied: ${JSON.stringify(newFilter)}`);
+        vscode.window.showInformationMessage(`🔽 已筛选：${describeFilter(newFilter)}`);
+    } else {
+        vscode.window.showInformationMessage('🔽 已清除筛选条件');
+    }
+}
+
+async function clearFilter(): Promise<void> {
+    await taskProvider.clearFilter();
+    await vscode.commands.executeCommand('setContext', 'claudeTaskMaster.filterActive', false);
+}
+
+function getSavedViews(): SavedTaskView[] {
+    const views = vscode.workspace.getConfiguration('claudeTaskMaster').get<SavedTaskView[]>('savedViews', []);
+    return views.filter(view => view && typeof view.name === 'string' && typeof view.query === 'string');
+}
+
+async function updateSavedViews(views: SavedTaskView[]): Promise<void> {
+    const target = vscode.workspace.workspaceFolders ? vscode.ConfigurationTarget.Workspace : vscode.ConfigurationTarget.Global;
+    await vscode.workspace.getConfiguration('claudeTaskMaster').update('savedViews', views, target);
+}
+
+async function switchViewHandler(): Promise<void> {
+    const views = getSavedViews();
+    const activeView = taskProvider.getActiveView();
+
+    const items: Array<vscode.QuickPickItem & { view?: SavedTaskView; action?: 'default' | 'new' }> = [
+        {
+            label: '$(list-tree) 默认分组',
+            description: activeView ? '' : '当前',
+            detail: '当前工作、下一步工作、状态、优先级和分类分组',
+            action: 'default'
+        },
+        ...views.map(view => ({
+            label: `$(eye) ${view.name}`,
+            description: activeView?.name === view.name ? '当前' : '',
+            detail: view.query,
+            view
+        })),
+        {
+            label: '$(add) 新建视图…',
+            detail: '例如：status:pending priority:>=high assignee:me due:<7d has:subtasks -tag:spike',
+            action: 'new'
+        }
+    ];
+
+    const selected = await vscode.window.showQuickPick(items, {
+        placeHolder: '选择任务视图'
+    });
+
+    if (!selected) {
+        return;
+    }
+
+    if (selected.action === 'new') {
+        await saveViewHandler();
+        return;
+    }
+
+    await taskProvider.setActiveView(selected.view || null);
+    log(`Switched to view: ${selected.view ? selected.view.name : 'default'}`);
+}
+
+async function saveViewHandler(): Promise<void> {
+    const activeView = taskProvider.getActiveView();
+
+    const query = await vscode.window.showInputBox({
+        prompt: '输入视图查询',
+        placeHolder: 'status:pending priority:>=high assignee:me due:<7d has:subtasks -tag:spike',
+        value: activeView?.query || '',
+        validateInput: (value) => {
+            if (!value || value.trim().length === 0) {
+                return '查询不能为空';
+            }
+            try {
+                parseTaskQuery(value);
+                return null;
+            } catch (error) {
+                return error instanceof Error ? error.message : String(error);
+            }
+        }
+    });
+
+    if (!query) {
+        return;
+    }
+
+    const name = await vscode.window.showInputBox({
+        prompt: '输入视图名称',
+        placeHolder: '例如：本周高优先级',
+        value: activeView?.name || '',
+        validateInput: (value) => {
+            if (!value || value.trim().length === 0) {
+                return '视图名称不能为空';
+            }
+            return null;
+        }
+    });
+
+    if (!name) {
+        return;
+    }
+
+    const view: SavedTaskView = { name: name.trim(), query: query.trim() };
+    const views = getSavedViews().filter(existing => existing.name !== view.name);
+    views.push(view);
+
+    try {
+        await updateSavedViews(views);
+        await taskProvider.setActiveView(view);
+        vscode.window.showInformationMessage(`✅ 已保存视图“${view.name}”`);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        log(`Failed to save view '${view.name}': ${errorMessage}`);
+        vscode.window.showErrorMessage(`保存视图失败：${errorMessage}`);
+    }
+}
+
+async function deleteViewHandler(): Promise<void> {
+    const views = getSavedViews();
+    if (views.length === 0) {
+        vscode.window.showInformationMessage('没有已保存的视图');
+        return;
+    }
+
+    const selected = await vscode.window.showQuickPick(
+        views.map(view => ({ label: view.name, detail: view.query, view })),
+        { placeHolder: '选择要删除的视图' }
+    );
+
+    if (!selected) {
+        return;
+    }
+
+    try {
+        await updateSavedViews(views.filter(view => view.name !== selected.view.name));
+        if (taskProvider.getActiveView()?.name === selected.view.name) {
+            await taskProvider.setActiveView(null);
+        }
+        vscode.window.showInformationMessage(`🗑️ 已删除视图“${selected.view.name}”`);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        log(`Failed to delete view '${selected.view.name}': ${errorMessage}`);
+        vscode.window.showErrorMessage(`删除视图失败：${errorMessage}`);
+    }
+}
+
+/**
+ * The latest undo entry, taken before a change so showUndoableMessage can tell whether the change recorded one
+ */
+function getUndoTop(): TaskJournalEntry | undefined {
+    return taskMasterClient.getUndoJournal().peekUndo();
+}
+
+/**
+ * Show a success message with an "撤销" button that undoes the change that was just journaled
+ */
+function showUndoableMessage(message: string, undoTop: TaskJournalEntry | undefined): void {
+    const entry = taskMasterClient.getUndoJournal().peekUndo();
+    // A change that recorded nothing must not offer to undo an older, unrelated one
+    if (!entry || entry === undoTop) {
+        vscode.window.showInformationMessage(message);
+        return;
+    }
+
+    vscode.window.showInformationMessage(message, '撤销').then(async selection => {
+        if (selection !== '撤销') {
+            return;
+        }
+        // The button belongs to this change; later changes have to be undone first
+        if (taskMasterClient.getUndoJournal().peekUndo() !== entry) {
+            vscode.window.showWarningMessage(`“${entry.label}”之后还有其他修改，请使用“撤销”命令逐步撤销`);
+            return;
+        }
+        await undoLastChange();
+    });
+}
+
+async function undoLastChange(): Promise<void> {
+    try {
+        const entry = await taskMasterClient.undo();
+        if (!entry) {
+            vscode.window.showInformationMessage('没有可撤销的操作');
+            return;
+        }
+        taskProvider.refresh();
+        const selection = await vscode.window.showInformationMessage(`↩️ 已撤销：${entry.label}`, '重做');
+        if (selection === '重做') {
+            await redoLastChange();
+        }
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        log(`Undo failed: ${errorMessage}`);
+        vscode.window.showErrorMessage(`撤销失败：${errorMessage}`);
+    }
+}
+
+async function redoLastChange(): Promise<void> {
+    try {
+        const entry = await taskMasterClient.redo();
+        if (!entry) {
+            vscode.window.showInformationMessage('没有可重做的操作');
+            return;
+        }
+        taskProvider.refresh();
+        vscode.window.showInformationMessage(`↪️ 已重做：${entry.label}`);
+    } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        log(`Redo failed: ${errorMessage}`);
+        vscode.window.showErrorMessage(`重做失败：${errorMessage}`);
     }
 }
 
@@ -3077,12 +4324,14 @@ async function switchTagHandler(): Promise<void> {
             return;
         }
         
-        if (tagContext.availableTags.length <= 1) {
+        // Archived tags stay out of the picker, they can be restored from the tag properties editor
+        const switchableTags = tagContext.availableTags.filter(tag => tag === tagContext.currentTag || !tagContext.archivedTags?.includes(tag));
+        if (switchableTags.length <= 1) {
             vscode.window.showInformationMessage('只有一个可用标签。创建更多标签以在它们之间切换。');
             return;
         }
         
-        const tagOptions = tagContext.availableTags.map(tag => ({
+        const tagOptions = switchableTags.map(tag => ({
             label: tag,
             detail: tag === tagContext.currentTag ? '✓ 当前标签' : '可用标签',
             description: tag === 'master' ? '默认标签' : ''
@@ -3252,6 +4501,261 @@ async function deleteTagHandler(): Promise<void> {
     }
 }
 
+/**
+ * Ask for a tag name that is valid and not taken yet
+ */
+async function promptForNewTagName(tagContext: TagContextInfo, prompt: string, value?: string): Promise<string | undefined> {
+    const tagName = await vscode.window.showInputBox({
+        prompt,
+        placeHolder: '输入新标签名称（例如：feature-branch、sprint-2）',
+        ...(value ? { value } : {}),
+        validateInput: (input: string) => {
+            const trimmed = input.trim();
+            if (!trimmed) {
+                return '标签名称不能为空';
+            }
+            if (tagContext.availableTags.includes(trimmed)) {
+                return '标签已存在。请选择不同的名称。';
+            }
+            if (!taskMasterClient.validateTagName(trimmed)) {
+                return '标签名称只能包含字母、数字、连字符和下划线，且不超过 50 个字符。';
+            }
+            return null;
+        }
+    });
+    return tagName?.trim() || undefined;
+}
+
+async function renameTagHandler(): Promise<void> {
+    try {
+        const tagContext = getTagContext(taskMasterClient);
+        logTagOperation('Rename Tag Handler', tagContext);
+
+        if (!tagContext.isTaggedFormat) {
+            vscode.window.showInformationMessage('此项目未使用标签任务格式。没有可重命名的标签。');
+            return;
+        }
+
+        const renamableTags = tagContext.availableTags.filter(tag => tag !== 'master');
+        if (renamableTags.length === 0) {
+            vscode.window.showInformationMessage('没有可重命名的标签。主标签不能被重命名。');
+            return;
+        }
+
+        const oldName = await vscode.window.showQuickPick(renamableTags, { placeHolder: '选择要重命名的标签（主标签不能重命名）' });
+        if (!oldName) {
+            return;
+        }
+        const newName = await promptForNewTagName(tagContext, `重命名标签 '${oldName}'`, oldName);
+        if (!newName || newName === oldName) {
+            return;
+        }
+
+        await taskMasterClient.renameTag(oldName, newName);
+        taskProvider.refresh();
+        tagStatusBar.forceUpdate();
+        vscode.window.showInformationMessage(`✏️ 标签 '${oldName}' 已重命名为 '${newName}'`);
+        log(`Successfully renamed tag '${oldName}' to '${newName}'`);
+    } catch (error) {
+        vscode.window.showErrorMessage(`重命名标签失败：${error instanceof Error ? error.message : String(error)}`);
+        log(`Error in renameTagHandler: ${error}`);
+    }
+}
+
+async function duplicateTagHandler(): Promise<void> {
+    try {
+        const tagContext = getTagContext(taskMasterClient);
+        logTagOperation('Duplicate Tag Handler', tagContext);
+
+        if (!tagContext.isTaggedFormat) {
+            vscode.window.showInformationMessage('此项目未使用标签任务格式。请先初始化标签格式。');
+            return;
+        }
+
+        const sourceName = await vscode.window.showQuickPick(
+            tagContext.availableTags.map(tag => ({ label: tag, description: tag === tagContext.currentTag ? '当前标签' : '' })),
+            { placeHolder: '选择要复制的标签' }
+        );
+        if (!sourceName) {
+            return;
+        }
+        const newName = await promptForNewTagName(tagContext, `新标签将包含 '${sourceName.label}' 中所有任务的副本`, `${sourceName.label}-copy`);
+        if (!newName) {
+            return;
+        }
+
+        await taskMasterClient.duplicateTag(sourceName.label, newName);
+        tagStatusBar.forceUpdate();
+
+        const switchToNew = await vscode.window.showInformationMessage(
+            `✅ 已将标签 '${sourceName.label}' 复制为 '${newName}'`,
+            '切换到新标签',
+            '保持当前标签'
+        );
+        if (switchToNew === '切换到新标签') {
+            await taskProvider.switchTag(newName);
+        }
+        log(`Successfully duplicated tag '${sourceName.label}' as '${newName}'`);
+    } catch (error) {
+        vscode.window.showErrorMessage(`复制标签失败：${error instanceof Error ? error.message : String(error)}`);
+        log(`Error in duplicateTagHandler: ${error}`);
+    }
+}
+
+async function mergeTagsHandler(): Promise<void> {
+    try {
+        const tagContext = getTagContext(taskMasterClient);
+        logTagOperation('Merge Tags Handler', tagContext);
+
+        if (!tagContext.isTaggedFormat || tagContext.availableTags.length < 2) {
+            vscode.window.showInformationMessage('至少需要两个标签才能合并。');
+            return;
+        }
+
+        const sourceName = await vscode.window.showQuickPick(
+            tagContext.availableTags.filter(tag => tag !== 'master'),
+            { placeHolder: '选择要并入其他标签的标签（合并后将被删除，主标签除外）' }
+        );
+        if (!sourceName) {
+            return;
+        }
+        const targetName = await vscode.window.showQuickPick(
+            tagContext.availableTags.filter(tag => tag !== sourceName),
+            { placeHolder: `将 '${sourceName}' 的任务合并到…` }
+        );
+        if (!targetName) {
+            return;
+        }
+
+        const confirmation = await vscode.window.showWarningMessage(
+            `将标签 '${sourceName}' 的所有任务合并到 '${targetName}' 并删除 '${sourceName}'？`,
+            { modal: true, detail: '与目标标签冲突的任务 ID 会被重新编号，依赖会同步改写。此操作无法撤销。' },
+            '合并'
+        );
+        if (confirmation !== '合并') {
+            return;
+        }
+
+        const merged = await taskMasterClient.mergeTags(sourceName, targetName);
+        taskProvider.refresh();
+        tagStatusBar.forceUpdate();
+
+        const renumbered = [...merged].filter(([oldId, newId]) => !oldId.includes('.') && oldId !== newId);
+        vscode.window.showInformationMessage(
+            `🔀 已将标签 '${sourceName}' 合并到 '${targetName}'`
+            + (renumbered.length > 0 ? `，重新编号：${renumbered.map(([oldId, newId]) => `${oldId} → ${newId}`).join('，')}` : '')
+        );
+        log(`Successfully merged tag '${sourceName}' into '${targetName}'`);
+    } catch (error) {
+        vscode.window.showErrorMessage(`合并标签失败：${error instanceof Error ? error.message : String(error)}`);
+        log(`Error in mergeTagsHandler: ${error}`);
+    }
+}
+
+/**
+ * Edit a tag's description, color and archive state; each change is saved right away and the menu
+ * stays open until dismissed
+ */
+async function editTagPropertiesHandler(): Promise<void> {
+    const tagContext = getTagContext(taskMasterClient);
+    logTagOperation('Edit Tag Properties Handler', tagContext);
+
+    if (!tagContext.isTaggedFormat) {
+        vscode.window.showInformationMessage('此项目未使用标签任务格式。没有可编辑的标签。');
+        return;
+    }
+
+    const picked = await vscode.window.showQuickPick(
+        tagContext.availableTags.map(tag => ({
+            label: tag,
+            description: [
+                tag === tagContext.currentTag ? '当前标签' : '',
+                tagContext.archivedTags?.includes(tag) ? '已归档' : ''
+            ].filter(Boolean).join(' • ')
+        })),
+        { placeHolder: '选择要编辑的标签（包括已归档的标签）' }
+    );
+    if (!picked) {
+        return;
+    }
+    const tagName = picked.label;
+
+    for (;;) {
+        const info = taskMasterClient.getTagInfo(tagName);
+        if (!info) {
+            vscode.window.showErrorMessage(`标签 '${tagName}' 不存在`);
+            return;
+        }
+        const color = taskMasterClient.getTagColor(tagName);
+        const canArchive = tagName !== 'master' && tagName !== getTagContext(taskMasterClient).currentTag;
+
+        const actions = [
+            { label: '$(note) 描述', detail: info.description || '（无）', action: 'description' },
+            { label: '$(symbol-color) 颜色', detail: color || `默认（${info.color}）`, action: 'color' },
+            ...(info.archived
+                ? [{ label: '$(inbox) 取消归档', detail: '重新在标签选择列表中显示', action: 'unarchive' }]
+                : canArchive ? [{ label: '$(archive) 归档', detail: '从标签选择列表中隐藏，任务保留', action: 'archive' }] : [])
+        ];
+        const choice = await vscode.window.showQuickPick(actions, { placeHolder: `标签 '${tagName}' 的属性（按 Esc 完成）` });
+        if (!choice) {
+            return;
+        }
+
+        try {
+            if (choice.action === 'description') {
+                const description = await vscode.window.showInputBox({
+                    prompt: `标签 '${tagName}' 的描述`,
+                    value: info.description || ''
+                });
+                if (description !== undefined) {
+                    await taskMasterClient.updateTagProperties(tagName, { description: description.trim() });
+                }
+            } else if (choice.action === 'color') {
+                const newColor = await pickTagColor(color);
+                if (newColor !== undefined) {
+                    await taskMasterClient.updateTagProperties(tagName, { color: newColor });
+                }
+            } else {
+                await taskMasterClient.updateTagProperties(tagName, { archived: choice.action === 'archive' });
+                vscode.window.showInformationMessage(choice.action === 'archive'
+                    ? `📦 标签 '${tagName}' 已归档，不再出现在标签选择列表中`
+                    : `📤 标签 '${tagName}' 已取消归档`);
+            }
+            taskProvider.refresh();
+            tagStatusBar.forceUpdate();
+        } catch (error) {
+            vscode.window.showErrorMessage(`保存标签属性失败：${error instanceof Error ? error.message : String(error)}`);
+            log(`Error in editTagPropertiesHandler: ${error}`);
+        }
+    }
+}
+
+/**
+ * Pick a tag color from the palette or enter one
+ * @returns "#RRGGBB", an empty string for the default color, or undefined when cancelled
+ */
+async function pickTagColor(currentColor?: string): Promise<string | undefined> {
+    const choice = await vscode.window.showQuickPick([
+        { label: '$(discard) 默认颜色', description: '根据标签名称自动选择', color: '' },
+        ...tagColorPalette.map(color => ({
+            label: `$(circle-filled) ${color}`,
+            description: color === currentColor?.toUpperCase() ? '当前' : '',
+            color
+        })),
+        { label: '$(edit) 自定义…', description: '输入 #RRGGBB', color: 'custom' }
+    ], { placeHolder: '选择标签颜色' });
+    if (!choice || choice.color !== 'custom') {
+        return choice?.color;
+    }
+
+    return vscode.window.showInputBox({
+        prompt: '输入标签颜色',
+        placeHolder: '#RRGGBB',
+        ...(currentColor ? { value: currentColor } : {}),
+        validateInput: value => /^#[0-9a-fA-F]{6}$/.test(value.trim()) ? null : '请使用 #RRGGBB 格式，例如 #007ACC'
+    }).then(value => value?.trim());
+}
+
 async function listTagsHandler(): Promise<void> {
     try {
         const tagContext = getTagContext(taskMasterClient);
@@ -0,0 +1,112 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { log } from './logger';
+
+/** How long to wait for another writer to release the lock */
+const lockTimeoutMs = 5000;
+
+/** A lock older than this is assumed to belong to a crashed process */
+const staleLockMs = 30000;
+
+const lockRetryIntervalMs = 50;
+
+/**
+ * Get the advisory lock file that guards tasks.json
+ * @param taskmasterPath The .taskmaster directory
+ * @returns Path of .taskmaster/tasks.lock
+ */
+export function getTasksLockPath(taskmasterPath: string): string {
+    return path.join(taskmasterPath, 'tasks.lock');
+}
+
+/**
+ * Write a file by writing a temp file next to it and renaming it over the target,
+ * so readers never see a truncated file
+ * @param filePath The file to replace
+ * @param content The new content
+ */
+export function writeFileAtomic(filePath: string, content: string): void {
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    fs.writeFileSync(tempPath, content, 'utf8');
+    try {
+        fs.renameSync(tempPath, filePath);
+    } catch (error) {
+        try {
+            fs.unlinkSync(tempPath);
+        } catch {
+            // Temp file was never created or is already gone
+        }
+        throw error;
+    }
+}
+
+/**
+ * Run an action while holding an advisory lock file. Waits for other holders and
+ * takes over locks left behind by crashed processes.
+ * @param lockPath The lock file to create
+ * @param action The work to do while holding the lock
+ * @returns The action's result
+ * @throws Error when the lock can't be acquired in time
+ */
+export async function withFileLock<T>(lockPath: string, action: () => T | Promise<T>): Promise<T> {
+    await acquireLock(lockPath);
+    try {
+        return await action();
+    } finally {
+        try {
+            fs.unlinkSync(lockPath);
+        } catch (error) {
+            log(`Could not remove lock ${lockPath}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+}
+
+/**
+ * Check whether a path is a lock or temp file written by this module, or progress history written after
+ * tasks change (ignored by the file watcher)
+ * @param filePath The changed file
+ * @returns True for lock, temp and progress history files
+ */
+export function isTaskFileArtifact(filePath: string): boolean {
+    return filePath.endsWith('.lock') || filePath.endsWith('.tmp') || /[\\/]\.taskmaster[\\/]history[\\/]/.test(filePath);
+}
+
+async function acquireLock(lockPath: string): Promise<void> {
+    const deadline = Date.now() + lockTimeoutMs;
+    const owner = JSON.stringify({ pid: process.pid, owner: 'vscode-extension', created: new Date().toISOString() });
+
+    for (;;) {
+        try {
+            fs.writeFileSync(lockPath, owner, { flag: 'wx' });
+            return;
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+                throw error;
+            }
+        }
+
+        if (isStaleLock(lockPath)) {
+            log(`Removing stale lock ${lockPath}`);
+            try {
+                fs.unlinkSync(lockPath);
+            } catch {
+                // Another process removed it first
+            }
+            continue;
+        }
+
+        if (Date.now() >= deadline) {
+            throw new Error(`tasks.json is locked by another process (${lockPath})`);
+        }
+        await new Promise(resolve => setTimeout(resolve, lockRetryIntervalMs));
+    }
+}
+
+function isStaleLock(lockPath: string): boolean {
+    try {
+        return Date.now() - fs.statSync(lockPath).mtimeMs > staleLockMs;
+    } catch {
+        // The lock disappeared between the failed create and the stat, retry right away
+        return true;
+    }
+}
@@ -0,0 +1,153 @@
+import { Task, TaskFilter, TaskPredicate, TaskStatus } from './types';
+
+const statusLabels: Record<string, string> = {
+    'todo': '待办',
+    'in-progress': '进行中',
+    'completed': '已完成',
+    'blocked': '已阻塞',
+    'deferred': '已延期',
+    'cancelled': '已取消',
+    'review': '审核中'
+};
+
+const priorityLabels: Record<string, string> = {
+    'critical': '严重',
+    'high': '高',
+    'medium': '中',
+    'low': '低'
+};
+
+/**
+ * Map status aliases onto the names used by the tree groups (pending→todo, done→completed)
+ * @param status The task status
+ * @returns The normalized status
+ */
+export function normalizeFilterStatus(status: TaskStatus): TaskStatus {
+    if (status === 'pending') {
+        return 'todo';
+    }
+    if (status === 'done') {
+        return 'completed';
+    }
+    return status;
+}
+
+/**
+ * Check whether a filter restricts anything
+ * @param filter The filter to check
+ * @returns True when at least one dimension has values
+ */
+export function isFilterActive(filter: TaskFilter): boolean {
+    return !!(filter.statuses?.length || filter.priorities?.length || filter.categories?.length ||
+        filter.assignees?.length || filter.tags?.length);
+}
+
+/**
+ * Check a single task against a filter. Subtasks inherit priority, category and assignee
+ * from their parent when they don't set their own.
+ * @param task The task or subtask
+ * @param filter The filter to apply
+ * @param parent The parent task when checking a subtask
+ * @returns True when the task satisfies every active dimension
+ */
+export function matchesFilter(task: Task, filter: TaskFilter, parent?: Task): boolean {
+    if (filter.statuses?.length && !filter.statuses.map(normalizeFilterStatus).includes(normalizeFilterStatus(task.status))) {
+        return false;
+    }
+
+    const priority = task.priority || parent?.priority;
+    if (filter.priorities?.length && (!priority || !filter.priorities.includes(priority))) {
+        return false;
+    }
+
+    const category = task.category || parent?.category;
+    if (filter.categories?.length && (!category || !filter.categories.includes(category))) {
+        return false;
+    }
+
+    const assignee = task.assignee || parent?.assignee;
+    if (filter.assignees?.length && (!assignee || !filter.assignees.includes(assignee))) {
+        return false;
+    }
+
+    if (filter.tags?.length && !task.tags?.some(tag => filter.tags?.includes(tag))) {
+        return false;
+    }
+
+    return true;
+}
+
+/**
+ * Apply a filter to the task tree. A main task stays when it matches or when any of its
+ * subtasks match; in the latter case only the matching subtasks are kept.
+ * @param tasks The main tasks
+ * @param filter The filter to apply
+ * @returns Filtered tasks (unchanged objects where no subtask was removed)
+ */
+export function applyTaskFilter(tasks: Task[], filter: TaskFilter): Task[] {
+    if (!isFilterActive(filter)) {
+        return tasks;
+    }
+    return applyTaskPredicate(tasks, (task, parent) => matchesFilter(task, filter, parent));
+}
+
+/**
+ * Narrow the task tree with an arbitrary predicate, keeping parents of matching subtasks
+ * @param tasks The main tasks
+ * @param predicate Called with the task and, for subtasks, the parent task
+ * @returns Matching main tasks; parents kept for context only carry their matching subtasks
+ */
+export function applyTaskPredicate(tasks: Task[], predicate: TaskPredicate): Task[] {
+    const filtered: Task[] = [];
+    for (const task of tasks) {
+        if (predicate(task)) {
+            filtered.push(task);
+            continue;
+        }
+
+        const matchingSubtasks = (task.subtasks || []).filter(subtask => predicate(subtask, task));
+        if (matchingSubtasks.length > 0) {
+            filtered.push({ ...task, subtasks: matchingSubtasks });
+        }
+    }
+    return filtered;
+}
+
+/**
+ * Describe the active filter dimensions for the filter chip
+ * @param filter The active filter
+ * @returns Chinese summary such as "状态：待办, 进行中 • 优先级：高"
+ */
+export function describeFilter(filter: TaskFilter): string {
+    const parts: string[] = [];
+    if (filter.statuses?.length) {
+        parts.push(`状态：${filter.statuses.map(status => statusLabels[status] || status).join(', ')}`);
+    }
+    if (filter.priorities?.length) {
+        parts.push(`优先级：${filter.priorities.map(priority => priorityLabels[priority] || priority).join(', ')}`);
+    }
+    if (filter.categories?.length) {
+        parts.push(`分类：${filter.categories.join(', ')}`);
+    }
+    if (filter.assignees?.length) {
+        parts.push(`负责人：${filter.assignees.join(', ')}`);
+    }
+    if (filter.tags?.length) {
+        parts.push(`标签：${filter.tags.join(', ')}`);
+    }
+    return parts.join(' • ');
+}
+
+/**
+ * Get the Chinese label for a status, used by the filter picker
+ */
+export function getFilterStatusLabel(status: string): string {
+    return statusLabels[status] || status;
+}
+
+/**
+ * Get the Chinese label for a priority, used by the filter picker
+ */
+export function getFilterPriorityLabel(priority: string): string {
+    return priorityLabels[priority] || priority;
+}
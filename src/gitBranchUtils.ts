@@ -0,0 +1,68 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+// Branches that follow the default tag instead of getting one of their own
+const defaultBranches = ['main', 'master'];
+
+const maxTagNameLength = 50;
+
+/**
+ * Find the HEAD file of a repository, following the "gitdir:" file used by worktrees and submodules
+ * @param workspaceRoot Folder that contains .git
+ * @returns Path of HEAD, or undefined when the folder isn't a git repository
+ */
+export function findGitHeadPath(workspaceRoot: string): string | undefined {
+    const dotGit = path.join(workspaceRoot, '.git');
+    try {
+        const stat = fs.statSync(dotGit);
+        if (stat.isDirectory()) {
+            return path.join(dotGit, 'HEAD');
+        }
+        const match = /^gitdir:\s*(.+)$/m.exec(fs.readFileSync(dotGit, 'utf8'));
+        return match?.[1] ? path.join(path.resolve(workspaceRoot, match[1].trim()), 'HEAD') : undefined;
+    } catch {
+        return undefined;
+    }
+}
+
+/**
+ * Read the checked-out branch from the contents of HEAD
+ * @param content Contents of .git/HEAD
+ * @returns Branch name, or undefined for a detached HEAD
+ */
+export function parseGitHead(content: string): string | undefined {
+    const match = /^ref:\s*refs\/heads\/(.+)$/m.exec(content.trim());
+    return match?.[1]?.trim() || undefined;
+}
+
+/**
+ * Work out the tag a branch belongs to. The mapping is checked first, its keys may use * as a wildcard;
+ * main and master follow the master tag; any other branch uses its name with characters a tag can't
+ * contain replaced by hyphens ("feature/login" becomes "feature-login").
+ * @param branch Branch name
+ * @param mapping Branch names or patterns to tag names, from the claudeTaskMaster.branchTagMap setting
+ * @returns Tag name, or undefined when the branch name has nothing usable
+ */
+export function getTagForBranch(branch: string, mapping: Record<string, string> = {}): string | undefined {
+    for (const [pattern, tag] of Object.entries(mapping)) {
+        if (tag && matchesBranchPattern(branch, pattern)) {
+            return tag;
+        }
+    }
+    if (defaultBranches.includes(branch)) {
+        return 'master';
+    }
+
+    const tag = branch
+        .replace(/[^a-zA-Z0-9_-]+/g, '-')
+        .replace(/-{2,}/g, '-')
+        .replace(/^-+|-+$/g, '')
+        .slice(0, maxTagNameLength)
+        .replace(/-+$/, '');
+    return tag || undefined;
+}
+
+function matchesBranchPattern(branch: string, pattern: string): boolean {
+    const expression = pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*');
+    return new RegExp(`^${expression}$`).test(branch);
+}
@@ -0,0 +1,287 @@
+import * as path from 'path';
+import { RawTask, TaskImport, TaskPriority } from './types';
+import { resolveDependency } from './dependencyUtils';
+
+const checklistPattern = /^(\s*)[-*+]\s+\[([ xX])\]\s+(.*)$/;
+
+const priorities: TaskPriority[] = ['low', 'medium', 'high', 'critical'];
+
+// CSV status values to the ones Task Master writes
+const csvStatuses: Record<string, string> = {
+    'todo': 'pending',
+    'pending': 'pending',
+    'in-progress': 'in-progress',
+    'in_progress': 'in-progress',
+    'in progress': 'in-progress',
+    'done': 'done',
+    'completed': 'done',
+    'blocked': 'blocked',
+    'deferred': 'deferred',
+    'cancelled': 'cancelled',
+    'review': 'review'
+};
+
+// Column headers understood in a CSV file, in English or Chinese
+const csvColumns: Record<string, string> = {
+    'id': 'id',
+    'title': 'title',
+    '标题': 'title',
+    'description': 'description',
+    '描述': 'description',
+    'details': 'details',
+    '详情': 'details',
+    'teststrategy': 'testStrategy',
+    'test strategy': 'testStrategy',
+    'priority': 'priority',
+    '优先级': 'priority',
+    'status': 'status',
+    '状态': 'status',
+    'dependencies': 'dependencies',
+    '依赖': 'dependencies'
+};
+
+/**
+ * Read tasks from a file, picking the format from its extension: .csv is CSV, anything else a Markdown checklist
+ * @param fileName Name or path of the file
+ * @param content Contents of the file
+ */
+export function parseTaskImport(fileName: string, content: string): TaskImport {
+    return path.extname(fileName).toLowerCase() === '.csv' ? parseCsvTasks(content) : parseMarkdownTasks(content);
+}
+
+/**
+ * Read tasks from a Markdown checklist. The least indented `- [ ]` items become tasks and items nested under
+ * them subtasks; deeper items are added to their subtask's details. Indented text under an item becomes its
+ * description, and checked items are imported as done.
+ * @param content Markdown text
+ * @returns Tasks numbered from 1 in file order
+ */
+export function parseMarkdownTasks(content: string): TaskImport {
+    const tasks: RawTask[] = [];
+    const warnings: string[] = [];
+    let baseIndent: number | undefined;
+    let task: RawTask | undefined;
+    let subtask: RawTask | undefined;
+    let subtaskIndent = 0;
+    let last: RawTask | undefined;
+
+    content.split(/\r?\n/).forEach((line, index) => {
+        const match = checklistPattern.exec(line);
+        if (!match) {
+            // Text indented under an item describes it; headings and unindented text end the item
+            if (last && /^\s+\S/.test(line) && !/^\s*[-*+]\s/.test(line)) {
+                last.description = last.description ? `${last.description}\n${line.trim()}` : line.trim();
+            } else if (line.trim()) {
+                last = undefined;
+            }
+            return;
+        }
+
+        const indent = getIndentWidth(match[1] as string);
+        const done = match[2] !== ' ';
+        const title = (match[3] as string).trim();
+        if (!title) {
+            warnings.push(`第 ${index + 1} 行的清单项没有标题，已跳过`);
+            return;
+        }
+
+        if (baseIndent === undefined || indent <= baseIndent || !task) {
+            baseIndent = baseIndent === undefined ? indent : Math.min(baseIndent, indent);
+            task = createImportedTask(tasks.length + 1, title, done);
+            tasks.push(task);
+            subtask = undefined;
+            last = task;
+        } else if (!subtask || indent <= subtaskIndent) {
+            task.subtasks = task.subtasks || [];
+            subtask = createImportedTask(task.subtasks.length + 1, title, done);
+            delete subtask.priority;
+            subtaskIndent = indent;
+            task.subtasks.push(subtask);
+            last = subtask;
+        } else {
+            subtask.details = `${subtask.details ? `${subtask.details}\n` : ''}- [${done ? 'x' : ' '}] ${title}`;
+            last = undefined;
+        }
+    });
+
+    return { tasks, warnings };
+}
+
+/**
+ * Read tasks from CSV with a header row. Only the title column is required; description, details, testStrategy,
+ * priority, status and dependencies are optional. An id column of "3.1" makes the row a subtask of the row with
+ * id 3, and dependencies (separated by spaces, commas or semicolons) refer to those ids. Rows without an id
+ * are numbered after the highest id so far. Dependencies that name no row are dropped with a warning.
+ * @param content CSV text, separated by commas, semicolons or tabs
+ * @returns Tasks with the ids from the file
+ * @throws Error with a user-facing message when there is no title column
+ */
+export function parseCsvTasks(content: string): TaskImport {
+    const [header, ...rows] = parseCsv(content.replace(/^\uFEFF/, ''));
+    const columns = (header || []).map(name => csvColumns[name.trim().toLowerCase()]);
+    if (!columns.includes('title')) {
+        throw new Error('CSV 文件缺少 title（标题）列');
+    }
+
+    const tasks: RawTask[] = [];
+    const warnings: string[] = [];
+    let nextId = 1;
+
+    rows.forEach((row, index) => {
+        const rowNumber = index + 2;
+        const cells: Record<string, string> = {};
+        columns.forEach((column, columnIndex) => {
+            if (column) {
+                // The CSV export quotes cells that a spreadsheet would take for a formula
+                cells[column] = (row[columnIndex] || '').trim().replace(/^'(?=[=+\-@])/, '');
+            }
+        });
+        if (row.every(cell => !cell.trim())) {
+            return;
+        }
+        if (!cells['title']) {
+            warnings.push(`第 ${rowNumber} 行没有标题，已跳过`);
+            return;
+        }
+
+        const task = createImportedTask(0, cells['title'], false);
+        task.description = cells['description'] || '';
+        for (const field of ['details', 'testStrategy'] as const) {
+            if (cells[field]) {
+                task[field] = cells[field];
+            }
+        }
+        if (cells['priority']) {
+            const priority = cells['priority'].toLowerCase() as TaskPriority;
+            if (priorities.includes(priority)) {
+                task.priority = priority;
+            } else {
+                warnings.push(`第 ${rowNumber} 行的优先级 ${cells['priority']} 无法识别，已使用 medium`);
+            }
+        }
+        if (cells['status']) {
+            const status = csvStatuses[cells['status'].toLowerCase()];
+            if (status) {
+                task.status = status;
+            } else {
+                warnings.push(`第 ${rowNumber} 行的状态 ${cells['status']} 无法识别，已使用 pending`);
+            }
+        }
+        task.dependencies = (cells['dependencies'] || '').split(/[\s,;]+/).filter(Boolean)
+            .map(dependency => /^\d+$/.test(dependency) ? Number(dependency) : dependency);
+
+        const id = cells['id'] || String(nextId);
+        if (!/^\d+(\.\d+)?$/.test(id)) {
+            warnings.push(`第 ${rowNumber} 行的 id ${id} 不是 "3" 或 "3.1" 这样的编号，已跳过`);
+            return;
+        }
+        const [parentId, subtaskId] = id.split('.');
+        if (subtaskId === undefined) {
+            if (tasks.some(existing => String(existing.id) === id)) {
+                warnings.push(`第 ${rowNumber} 行的 id ${id} 重复，已跳过`);
+                return;
+            }
+            task.id = Number(id);
+            tasks.push(task);
+            nextId = Math.max(nextId, Number(id) + 1);
+            return;
+        }
+
+        const parent = tasks.find(existing => String(existing.id) === parentId);
+        if (!parent || parent.subtasks?.some(existing => String(existing.id) === subtaskId)) {
+            warnings.push(parent ? `第 ${rowNumber} 行的 id ${id} 重复，已跳过` : `第 ${rowNumber} 行的父任务 ${parentId} 不在它之前，已跳过`);
+            return;
+        }
+        task.id = Number(subtaskId);
+        if (!cells['priority']) {
+            delete task.priority;
+        }
+        parent.subtasks = parent.subtasks || [];
+        parent.subtasks.push(task);
+    });
+
+    // Dependencies may name later rows, so check them once every row is read. One that names no row
+    // would otherwise bind to whatever task has that ID in the tag, or dangle
+    const knownIds = new Set(tasks.flatMap(task => [String(task.id), ...(task.subtasks || []).map(subtask => `${task.id}.${subtask.id}`)]));
+    const dropUnknownDependencies = (task: RawTask, id: string, parentId?: string) => {
+        task.dependencies = (task.dependencies || []).filter(dependency => {
+            if (resolveDependency(String(dependency), knownIds, parentId)) {
+                return true;
+            }
+            warnings.push(`任务 ${id} 的依赖 ${dependency} 不是文件中的任务，已去掉`);
+            return false;
+        });
+    };
+    for (const task of tasks) {
+        dropUnknownDependencies(task, String(task.id));
+        (task.subtasks || []).forEach(subtask => dropUnknownDependencies(subtask, `${task.id}.${subtask.id}`, String(task.id)));
+    }
+
+    return { tasks, warnings };
+}
+
+/**
+ * Split CSV text into rows of cells, handling quoted cells with commas, newlines and doubled quotes
+ */
+function parseCsv(content: string): string[][] {
+    const firstLine = content.split(/\r?\n/, 1)[0] || '';
+    // Spreadsheets save with semicolons or tabs in some locales
+    const delimiter = [',', ';', '\t'].reduce((best, candidate) =>
+        firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best);
+
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let cell = '';
+    let quoted = false;
+    for (let i = 0; i < content.length; i++) {
+        const char = content[i];
+        if (quoted) {
+            if (char === '"' && content[i + 1] === '"') {
+                cell += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                cell += char;
+            }
+        } else if (char === '"' && !cell) {
+            quoted = true;
+        } else if (char === delimiter) {
+            row.push(cell);
+            cell = '';
+        } else if (char === '\n' || char === '\r') {
+            if (char === '\r' && content[i + 1] === '\n') {
+                i++;
+            }
+            row.push(cell);
+            rows.push(row);
+            row = [];
+            cell = '';
+        } else {
+            cell += char;
+        }
+    }
+    if (cell || row.length > 0) {
+        row.push(cell);
+        rows.push(row);
+    }
+    return rows;
+}
+
+function createImportedTask(id: number, title: string, done: boolean): RawTask {
+    const now = new Date().toISOString();
+    return {
+        id,
+        title,
+        description: '',
+        status: done ? 'done' : 'pending',
+        priority: 'medium',
+        dependencies: [],
+        created: now,
+        updated: now
+    };
+}
+
+function getIndentWidth(indent: string): number {
+    return indent.replace(/\t/g, '    ').length;
+}
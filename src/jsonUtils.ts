@@ -0,0 +1,161 @@
+/**
+ * A parsed JSON value with its position in the source text
+ */
+export interface JsonNode {
+    type: 'object' | 'array' | 'string' | 'number' | 'boolean' | 'null';
+    offset: number;
+    length: number;
+    /** Value of strings, numbers, booleans and null */
+    value?: string | number | boolean | null;
+    /** Array elements, or object property values in source order */
+    children?: JsonNode[];
+    /** Object property names, parallel to children */
+    keys?: string[];
+}
+
+/**
+ * Parse JSON keeping the offset of every value, so diagnostics can point at exact lines
+ * @param text The JSON text
+ * @returns The root node
+ * @throws Error when the text is not valid JSON
+ */
+export function parseJsonTree(text: string): JsonNode {
+    const parser = new JsonTreeParser(text);
+    const root = parser.parseValue();
+    parser.expectEnd();
+    return root;
+}
+
+/**
+ * Get the value of an object property
+ * @param node An object node
+ * @param key The property name
+ * @returns The property's value node, or undefined when the node isn't an object or lacks the key
+ */
+export function getPropertyNode(node: JsonNode | undefined, key: string): JsonNode | undefined {
+    if (!node || node.type !== 'object' || !node.keys || !node.children) {
+        return undefined;
+    }
+    const index = node.keys.indexOf(key);
+    return index === -1 ? undefined : node.children[index];
+}
+
+class JsonTreeParser {
+    private position = 0;
+
+    constructor(private readonly text: string) {}
+
+    parseValue(): JsonNode {
+        this.skipWhitespace();
+        const start = this.position;
+        const char = this.text[this.position];
+
+        if (char === '{') {
+            return this.parseObject(start);
+        }
+        if (char === '[') {
+            return this.parseArray(start);
+        }
+        if (char === '"') {
+            const value = this.parseString();
+            return { type: 'string', offset: start, length: this.position - start, value };
+        }
+
+        const numberMatch = /^-?\d+(\.\d+)?([eE][+-]?\d+)?/.exec(this.text.slice(start, start + 64));
+        if (numberMatch) {
+            this.position += numberMatch[0].length;
+            return { type: 'number', offset: start, length: numberMatch[0].length, value: Number(numberMatch[0]) };
+        }
+        for (const [literal, value] of [['true', true], ['false', false], ['null', null]] as const) {
+            if (this.text.startsWith(literal, start)) {
+                this.position += literal.length;
+                return { type: value === null ? 'null' : 'boolean', offset: start, length: literal.length, value };
+            }
+        }
+        throw this.error('Unexpected token');
+    }
+
+    expectEnd(): void {
+        this.skipWhitespace();
+        if (this.position < this.text.length) {
+            throw this.error('Unexpected content after JSON value');
+        }
+    }
+
+    private parseObject(start: number): JsonNode {
+        const keys: string[] = [];
+        const children: JsonNode[] = [];
+        this.position++;
+        this.skipWhitespace();
+        if (this.text[this.position] === '}') {
+            this.position++;
+            return { type: 'object', offset: start, length: this.position - start, keys, children };
+        }
+
+        for (;;) {
+            this.skipWhitespace();
+            if (this.text[this.position] !== '"') {
+                throw this.error('Expected property name');
+            }
+            keys.push(this.parseString());
+            this.skipWhitespace();
+            this.expect(':');
+            children.push(this.parseValue());
+            this.skipWhitespace();
+            if (this.text[this.position] === ',') {
+                this.position++;
+                continue;
+            }
+            this.expect('}');
+            return { type: 'object', offset: start, length: this.position - start, keys, children };
+        }
+    }
+
+    private parseArray(start: number): JsonNode {
+        const children: JsonNode[] = [];
+        this.position++;
+        this.skipWhitespace();
+        if (this.text[this.position] === ']') {
+            this.position++;
+            return { type: 'array', offset: start, length: this.position - start, children };
+        }
+
+        for (;;) {
+            children.push(this.parseValue());
+            this.skipWhitespace();
+            if (this.text[this.position] === ',') {
+                this.position++;
+                continue;
+            }
+            this.expect(']');
+            return { type: 'array', offset: start, length: this.position - start, children };
+        }
+    }
+
+    private parseString(): string {
+        const start = this.position;
+        this.position++;
+        while (this.position < this.text.length && this.text[this.position] !== '"') {
+            this.position += this.text[this.position] === '\\' ? 2 : 1;
+        }
+        this.expect('"');
+        return JSON.parse(this.text.slice(start, this.position));
+    }
+
+    private expect(char: string): void {
+        if (this.text[this.position] !== char) {
+            throw this.error(`Expected '${char}'`);
+        }
+        this.position++;
+    }
+
+    private skipWhitespace(): void {
+        while (this.position < this.text.length && /\s/.test(this.text[this.position] || '')) {
+            this.position++;
+        }
+    }
+
+    private error(message: string): Error {
+        return new Error(`${message} at offset ${this.position}`);
+    }
+}
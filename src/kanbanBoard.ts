@@ -0,0 +1,312 @@
+import { KanbanCard, KanbanColumn, Task, TaskStatus } from './types';
+import { getQualifiedTaskId, resolveDependency } from './dependencyUtils';
+import { getFilterPriorityLabel, getFilterStatusLabel, normalizeFilterStatus } from './filterUtils';
+import { escapeHtml } from './escapeUtils';
+
+// Column order of the board, using the statuses TaskMasterClient normalizes to
+const boardStatuses: TaskStatus[] = ['todo', 'in-progress', 'review', 'blocked', 'completed', 'deferred', 'cancelled'];
+
+/**
+ * Sort a tag's tasks into one column per status
+ * @param tasks Main tasks with nested subtasks
+ * @param includeSubtasks Give subtasks their own cards; otherwise they only count towards their parent's progress
+ * @returns Columns in board order, cards in task order
+ */
+export function buildKanbanBoard(tasks: Task[], includeSubtasks: boolean): KanbanColumn[] {
+    const entries: Array<{ id: string; parentTaskId?: string; task: Task }> = [];
+    const collect = (task: Task, parentTaskId?: string) => {
+        const id = getQualifiedTaskId(task, parentTaskId);
+        entries.push(parentTaskId ? { id, parentTaskId, task } : { id, task });
+        (task.subtasks || []).forEach(subtask => collect(subtask, id));
+    };
+    tasks.forEach(task => collect(task));
+
+    const tasksById = new Map(entries.map(entry => [entry.id, entry.task]));
+    const knownIds = new Set(tasksById.keys());
+    const columns: KanbanColumn[] = boardStatuses.map(status => ({ status, label: getFilterStatusLabel(status), cards: [] }));
+
+    for (const entry of entries) {
+        if (entry.parentTaskId && !includeSubtasks) {
+            continue;
+        }
+
+        const waitingFor = (entry.task.dependencies || [])
+            .map(dependency => String(dependency))
+            .filter(dependency => {
+                const targetId = resolveDependency(dependency, knownIds, entry.parentTaskId);
+                const target = targetId ? tasksById.get(targetId) : undefined;
+                return !target || normalizeFilterStatus(target.status) !== 'completed';
+            });
+        const subtasks = entry.task.subtasks || [];
+        const card: KanbanCard = {
+            id: entry.id,
+            ...(entry.parentTaskId ? { parentTaskId: entry.parentTaskId } : {}),
+            task: entry.task,
+            waitingFor,
+            subtasksDone: subtasks.filter(subtask => normalizeFilterStatus(subtask.status) === 'completed').length,
+            subtasksTotal: subtasks.length
+        };
+
+        const status = normalizeFilterStatus(entry.task.status);
+        const column = columns.find(candidate => candidate.status === status) || columns[0];
+        column?.cards.push(card);
+    }
+
+    return columns;
+}
+
+/**
+ * Render the board. Dropping a card on another column posts { command: 'moveCard', taskId, parentTaskId, status },
+ * clicking it posts { command: 'openTask', taskId, parentTaskId }.
+ * @param columns The board columns
+ * @param options nextTaskId is highlighted; tagLabel is shown in the header
+ */
+export function generateKanbanHtml(
+    columns: KanbanColumn[],
+    options: { nextTaskId?: string; includeSubtasks: boolean; tagLabel: string }
+): string {
+    const columnMarkup = columns.map(column => `
+        <section class="column" data-status="${escapeHtml(column.status)}">
+            <header class="status-${escapeHtml(column.status)}">
+                <span>${escapeHtml(column.label)}</span>
+                <span class="count">${column.cards.length}</span>
+            </header>
+            <div class="cards">
+                ${column.cards.map(card => renderCard(card, column.status, card.id === options.nextTaskId)).join('\n')}
+            </div>
+        </section>`).join('\n');
+
+    return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Kanban Board</title>
+    <style>
+        body {
+            margin: 0;
+            padding: 0;
+            color: var(--vscode-editor-foreground);
+            background: var(--vscode-editor-background);
+            font-family: var(--vscode-font-family);
+        }
+        .toolbar {
+            position: sticky;
+            top: 0;
+            display: flex;
+            align-items: center;
+            gap: 16px;
+            padding: 8px 16px;
+            background: var(--vscode-sideBar-background);
+            border-bottom: 1px solid var(--vscode-panel-border);
+            font-size: 12px;
+            z-index: 1;
+        }
+        .hint {
+            margin-left: auto;
+            color: var(--vscode-descriptionForeground);
+        }
+        .board {
+            display: flex;
+            gap: 12px;
+            padding: 12px 16px;
+            overflow-x: auto;
+            align-items: flex-start;
+        }
+        .column {
+            flex: 0 0 240px;
+            background: var(--vscode-sideBar-background);
+            border: 1px solid var(--vscode-panel-border);
+            border-radius: 6px;
+        }
+        .column.drop-target {
+            border-color: var(--vscode-focusBorder);
+            background: var(--vscode-list-hoverBackground);
+        }
+        .column header {
+            display: flex;
+            justify-content: space-between;
+            padding: 8px 10px;
+            font-weight: bold;
+            border-top: 3px solid var(--status);
+            border-radius: 6px 6px 0 0;
+            --status: var(--vscode-charts-yellow);
+        }
+        .count {
+            color: var(--vscode-descriptionForeground);
+            font-weight: normal;
+        }
+        .cards {
+            display: flex;
+            flex-direction: column;
+            gap: 8px;
+            min-height: 60px;
+            padding: 0 8px 8px;
+        }
+        .card {
+            padding: 8px 8px 8px 12px;
+            background: var(--vscode-editorWidget-background);
+            border: 1px solid var(--vscode-panel-border);
+            border-left: 4px solid var(--priority);
+            border-radius: 4px;
+            cursor: grab;
+            font-size: 12px;
+            --priority: var(--vscode-charts-yellow);
+        }
+        .card:hover {
+            border-color: var(--vscode-focusBorder);
+            border-left-color: var(--priority);
+        }
+        .card.dragging {
+            opacity: 0.4;
+        }
+        .card.next {
+            box-shadow: 0 0 6px var(--vscode-focusBorder);
+        }
+        .card-id {
+            font-weight: bold;
+            color: var(--vscode-descriptionForeground);
+        }
+        .card-title {
+            margin: 4px 0 6px;
+        }
+        .card-meta {
+            display: flex;
+            flex-wrap: wrap;
+            gap: 6px;
+            color: var(--vscode-descriptionForeground);
+        }
+        .waiting {
+            color: var(--vscode-charts-orange);
+        }
+        .ready {
+            color: var(--vscode-charts-green);
+        }
+        .progress {
+            height: 4px;
+            margin-top: 6px;
+            background: var(--vscode-progressBar-background);
+            opacity: 0.3;
+            border-radius: 2px;
+        }
+        .progress div {
+            height: 100%;
+            background: var(--vscode-progressBar-background);
+            border-radius: 2px;
+        }
+        .status-completed { --status: var(--vscode-charts-green); }
+        .status-in-progress { --status: var(--vscode-charts-blue); }
+        .status-blocked, .status-cancelled { --status: var(--vscode-charts-red); }
+        .status-deferred { --status: var(--vscode-charts-orange); }
+        .status-review { --status: var(--vscode-charts-purple); }
+        .priority-critical { --priority: var(--vscode-errorForeground); }
+        .priority-high { --priority: var(--vscode-charts-orange); }
+        .priority-low { --priority: var(--vscode-disabledForeground); }
+    </style>
+</head>
+<body>
+    <div class="toolbar">
+        <strong>${escapeHtml(options.tagLabel)}</strong>
+        <label><input type="checkbox" id="includeSubtasks" ${options.includeSubtasks ? 'checked' : ''}> 显示子任务</label>
+        <span class="hint">拖动卡片到其他列即可修改状态，点击卡片查看详情</span>
+    </div>
+    <div class="board">
+        ${columnMarkup}
+    </div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+        let dragged = null;
+
+        document.getElementById('includeSubtasks').addEventListener('change', event => {
+            vscode.postMessage({ command: 'toggleSubtasks', includeSubtasks: event.target.checked });
+        });
+
+        document.querySelectorAll('.card').forEach(card => {
+            card.addEventListener('click', () => {
+                vscode.postMessage({
+                    command: 'openTask',
+                    taskId: card.dataset.taskId,
+                    parentTaskId: card.dataset.parentId || undefined
+                });
+            });
+            card.addEventListener('dragstart', event => {
+                dragged = card;
+                card.classList.add('dragging');
+                event.dataTransfer.effectAllowed = 'move';
+                event.dataTransfer.setData('text/plain', card.dataset.id);
+            });
+            card.addEventListener('dragend', () => {
+                card.classList.remove('dragging');
+                dragged = null;
+                document.querySelectorAll('.drop-target').forEach(column => column.classList.remove('drop-target'));
+            });
+        });
+
+        document.querySelectorAll('.column').forEach(column => {
+            column.addEventListener('dragover', event => {
+                if (dragged && dragged.dataset.status !== column.dataset.status) {
+                    event.preventDefault();
+                    column.classList.add('drop-target');
+                }
+            });
+            column.addEventListener('dragleave', event => {
+                if (!column.contains(event.relatedTarget)) {
+                    column.classList.remove('drop-target');
+                }
+            });
+            column.addEventListener('drop', event => {
+                event.preventDefault();
+                column.classList.remove('drop-target');
+                if (!dragged || dragged.dataset.status === column.dataset.status) {
+                    return;
+                }
+                // Move the card right away, the board is re-rendered once the status change is saved
+                column.querySelector('.cards').appendChild(dragged);
+                dragged.dataset.status = column.dataset.status;
+                vscode.postMessage({
+                    command: 'moveCard',
+                    taskId: dragged.dataset.taskId,
+                    parentTaskId: dragged.dataset.parentId || undefined,
+                    status: column.dataset.status
+                });
+            });
+        });
+    </script>
+</body>
+</html>`;
+}
+
+function renderCard(card: KanbanCard, status: TaskStatus, isNext: boolean): string {
+    const taskId = card.parentTaskId ? card.task.id.toString() : card.id;
+    const priority = card.task.priority || 'medium';
+    const meta: string[] = [`优先级 ${escapeHtml(getFilterPriorityLabel(priority))}`];
+
+    // Readiness only matters for work that hasn't started yet
+    if (status === 'todo' || status === 'blocked') {
+        if (card.waitingFor.length > 0) {
+            meta.push(`<span class="waiting" title="未完成的依赖">⏳ 等待 ${escapeHtml(card.waitingFor.join(', '))}</span>`);
+        } else {
+            meta.push('<span class="ready">✓ 可以开始</span>');
+        }
+    }
+    if (card.subtasksTotal > 0) {
+        meta.push(`子任务 ${card.subtasksDone}/${card.subtasksTotal}`);
+    }
+    if (card.parentTaskId) {
+        meta.push(`属于任务 ${escapeHtml(card.parentTaskId)}`);
+    }
+
+    const progress = card.subtasksTotal > 0
+        ? `<div class="progress"><div style="width: ${Math.round(card.subtasksDone / card.subtasksTotal * 100)}%"></div></div>`
+        : '';
+
+    return `<div class="card priority-${escapeHtml(priority)}${isNext ? ' next' : ''}" draggable="true" `
+        + `data-id="${escapeHtml(card.id)}" data-task-id="${escapeHtml(taskId)}" data-parent-id="${escapeHtml(card.parentTaskId || '')}" `
+        + `data-status="${escapeHtml(status)}" title="${escapeHtml(card.task.description || card.task.title)}">
+                    <div class="card-id">#${escapeHtml(card.id)}${isNext ? ' · 下一个' : ''}</div>
+                    <div class="card-title">${escapeHtml(card.task.title)}</div>
+                    <div class="card-meta">${meta.map(item => `<span>${item}</span>`).join('')}</div>
+                    ${progress}
+                </div>`;
+}
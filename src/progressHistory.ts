@@ -0,0 +1,311 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { BurnChartPoint, ProgressSnapshot, TaskProgress } from './types';
+import { writeFileAtomic } from './fileUtils';
+import { escapeHtml } from './escapeUtils';
+
+export type BurnChartMode = 'burndown' | 'burnup';
+
+// Which counts of TaskProgress the chart follows
+export type BurnChartMeasure = 'allItems' | 'mainTasks';
+
+const chartWidth = 760;
+const chartHeight = 300;
+const chartPadding = { top: 24, right: 24, bottom: 40, left: 44 };
+
+/**
+ * File that holds a tag's snapshots, .taskmaster/history/<tag>.json
+ * @param historyDir Usually .taskmaster/history
+ */
+export function getProgressHistoryFile(historyDir: string, tag: string): string {
+    return path.join(historyDir, `${tag.replace(/[^a-zA-Z0-9_.-]/g, '_')}.json`);
+}
+
+/**
+ * Read the snapshots recorded for a tag
+ * @returns Snapshots oldest first, empty when nothing was recorded yet
+ * @throws Error when the history file isn't valid JSON
+ */
+export function readProgressHistory(historyDir: string, tag: string): ProgressSnapshot[] {
+    const file = getProgressHistoryFile(historyDir, tag);
+    if (!fs.existsSync(file)) {
+        return [];
+    }
+
+    const data = JSON.parse(fs.readFileSync(file, 'utf8'));
+    const snapshots: unknown[] = Array.isArray(data?.snapshots) ? data.snapshots : [];
+    return snapshots
+        .filter(isProgressSnapshot)
+        .sort((a, b) => a.date.localeCompare(b.date));
+}
+
+/**
+ * Record a tag's progress for today. Each day keeps one snapshot, replaced while the day lasts, and nothing
+ * is written when the progress is the same as the last snapshot (the chart carries it forward).
+ * @param historyDir Usually .taskmaster/history, created when missing
+ * @param progress Counts from TaskMasterClient.getTaskProgress
+ * @param now Time of the snapshot; the local date decides the day
+ * @returns True when the history file was written
+ */
+export function recordProgressSnapshot(historyDir: string, tag: string, progress: TaskProgress, now: Date = new Date()): boolean {
+    const snapshots = readProgressHistory(historyDir, tag);
+    const last = snapshots[snapshots.length - 1];
+    if (last ? JSON.stringify(last.progress) === JSON.stringify(progress) : progress.allItems.total === 0) {
+        return false;
+    }
+
+    const date = formatLocalDate(now);
+    const snapshot: ProgressSnapshot = { date, recordedAt: now.toISOString(), progress };
+    if (last && last.date === date) {
+        snapshots[snapshots.length - 1] = snapshot;
+    } else {
+        snapshots.push(snapshot);
+    }
+
+    fs.mkdirSync(historyDir, { recursive: true });
+    writeFileAtomic(getProgressHistoryFile(historyDir, tag), JSON.stringify({ tag, snapshots }, null, 2) + '\n');
+    return true;
+}
+
+/**
+ * Turn snapshots into one chart point per day. Days without a snapshot repeat the day before, and
+ * scopeChange is the change in the total number of items since the previous day.
+ * @param snapshots Snapshots oldest first
+ * @param until Last day of the chart, today by default, so the line reaches the present
+ */
+export function buildBurnChart(snapshots: ProgressSnapshot[], measure: BurnChartMeasure, until: Date = new Date()): BurnChartPoint[] {
+    const first = snapshots[0];
+    if (!first) {
+        return [];
+    }
+
+    const byDate = new Map(snapshots.map(snapshot => [snapshot.date, snapshot]));
+    const latestDate = (snapshots[snapshots.length - 1] as ProgressSnapshot).date;
+    const lastDate = formatLocalDate(until) > latestDate ? formatLocalDate(until) : latestDate;
+    const points: BurnChartPoint[] = [];
+    let current = first;
+    for (let day = parseLocalDate(first.date); formatLocalDate(day) <= lastDate; day.setDate(day.getDate() + 1)) {
+        const date = formatLocalDate(day);
+        current = byDate.get(date) || current;
+        const stats = current.progress[measure];
+        const previous = points[points.length - 1];
+        points.push({
+            date,
+            total: stats.total,
+            completed: stats.completed,
+            remaining: stats.total - stats.completed,
+            scopeChange: previous ? stats.total - previous.total : 0
+        });
+    }
+    return points;
+}
+
+/**
+ * Render the chart as inline SVG. Days where the scope changed get a dashed marker labelled with the change.
+ * Changing the mode or measure in the toolbar posts { command: 'changeView', mode, measure }.
+ * @param points Points from buildBurnChart
+ * @param options tagLabel is shown in the header
+ */
+export function generateBurnChartHtml(
+    points: BurnChartPoint[],
+    options: { tagLabel: string; mode: BurnChartMode; measure: BurnChartMeasure }
+): string {
+    const latest = points[points.length - 1];
+    const first = points[0];
+    const scopeAdded = points.reduce((sum, point) => sum + Math.max(point.scopeChange, 0), 0);
+    const scopeRemoved = points.reduce((sum, point) => sum + Math.max(-point.scopeChange, 0), 0);
+    const summary = latest && first
+        ? `剩余 ${latest.remaining} / 共 ${latest.total} • 完成 ${latest.total > 0 ? Math.round(latest.completed / latest.total * 100) : 0}%`
+            + ` • 自 ${first.date} 起范围 +${scopeAdded} / −${scopeRemoved}`
+        : '';
+    const chart = points.length < 2
+        ? '<p class="empty">历史记录还不足两天。任务每次变化时都会记录当天的进度，之后这里会显示图表。</p>'
+        : renderChartSvg(points, options.mode);
+
+    const option = (value: string, label: string, selected: string) =>
+        `<option value="${value}"${value === selected ? ' selected' : ''}>${label}</option>`;
+
+    return `<!DOCTYPE html>
+<html lang="zh-CN">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Burndown Chart</title>
+    <style>
+        body {
+            margin: 0;
+            padding: 0;
+            color: var(--vscode-editor-foreground);
+            background: var(--vscode-editor-background);
+            font-family: var(--vscode-font-family);
+        }
+        .toolbar {
+            display: flex;
+            align-items: center;
+            gap: 16px;
+            padding: 8px 16px;
+            background: var(--vscode-sideBar-background);
+            border-bottom: 1px solid var(--vscode-panel-border);
+            font-size: 12px;
+        }
+        select {
+            color: var(--vscode-dropdown-foreground);
+            background: var(--vscode-dropdown-background);
+            border: 1px solid var(--vscode-dropdown-border);
+        }
+        .summary {
+            margin-left: auto;
+            color: var(--vscode-descriptionForeground);
+        }
+        .chart {
+            padding: 16px;
+        }
+        .empty {
+            color: var(--vscode-descriptionForeground);
+        }
+        svg {
+            max-width: 100%;
+            height: auto;
+            font-size: 11px;
+        }
+        .grid {
+            stroke: var(--vscode-panel-border);
+        }
+        .axis-label {
+            fill: var(--vscode-descriptionForeground);
+        }
+        .line {
+            fill: none;
+            stroke-width: 2;
+        }
+        .remaining {
+            stroke: var(--vscode-charts-blue);
+        }
+        .completed {
+            stroke: var(--vscode-charts-green);
+        }
+        .scope {
+            stroke: var(--vscode-charts-purple);
+        }
+        .scope-marker line {
+            stroke: var(--vscode-charts-orange);
+            stroke-dasharray: 4 3;
+        }
+        .scope-marker text {
+            fill: var(--vscode-charts-orange);
+        }
+        .legend {
+            display: flex;
+            gap: 16px;
+            margin-top: 8px;
+            font-size: 12px;
+            color: var(--vscode-descriptionForeground);
+        }
+        .legend span::before {
+            content: '';
+            display: inline-block;
+            width: 12px;
+            height: 3px;
+            margin-right: 6px;
+            vertical-align: middle;
+            background: var(--color);
+        }
+    </style>
+</head>
+<body>
+    <div class="toolbar">
+        <strong>${escapeHtml(options.tagLabel)}</strong>
+        <select id="mode">
+            ${option('burndown', '燃尽图', options.mode)}
+            ${option('burnup', '燃起图', options.mode)}
+        </select>
+        <select id="measure">
+            ${option('allItems', '任务和子任务', options.measure)}
+            ${option('mainTasks', '仅主任务', options.measure)}
+        </select>
+        <span class="summary">${escapeHtml(summary)}</span>
+    </div>
+    <div class="chart">
+        ${chart}
+    </div>
+
+    <script>
+        const vscode = acquireVsCodeApi();
+        const changeView = () => vscode.postMessage({
+            command: 'changeView',
+            mode: document.getElementById('mode').value,
+            measure: document.getElementById('measure').value
+        });
+        document.getElementById('mode').addEventListener('change', changeView);
+        document.getElementById('measure').addEventListener('change', changeView);
+    </script>
+</body>
+</html>`;
+}
+
+function renderChartSvg(points: BurnChartPoint[], mode: BurnChartMode): string {
+    const plotWidth = chartWidth - chartPadding.left - chartPadding.right;
+    const plotHeight = chartHeight - chartPadding.top - chartPadding.bottom;
+    const maxValue = Math.max(1, ...points.map(point => point.total));
+    const x = (index: number) => chartPadding.left + index / (points.length - 1) * plotWidth;
+    const y = (value: number) => chartPadding.top + plotHeight - value / maxValue * plotHeight;
+    const line = (className: string, value: (point: BurnChartPoint) => number) =>
+        `<polyline class="line ${className}" points="${points.map((point, index) => `${x(index).toFixed(1)},${y(value(point)).toFixed(1)}`).join(' ')}"/>`;
+
+    const tickStep = Math.max(1, Math.ceil(maxValue / 5));
+    const yTicks: string[] = [];
+    for (let value = 0; value <= maxValue; value += tickStep) {
+        yTicks.push(`<line class="grid" x1="${chartPadding.left}" x2="${chartWidth - chartPadding.right}" y1="${y(value).toFixed(1)}" y2="${y(value).toFixed(1)}"/>`
+            + `<text class="axis-label" x="${chartPadding.left - 6}" y="${(y(value) + 4).toFixed(1)}" text-anchor="end">${value}</text>`);
+    }
+
+    // Label at most about eight days so the dates don't overlap
+    const labelStep = Math.ceil(points.length / 8);
+    const xLabels = points
+        .map((point, index) => index % labelStep === 0 || index === points.length - 1
+            ? `<text class="axis-label" x="${x(index).toFixed(1)}" y="${chartHeight - chartPadding.bottom + 18}" text-anchor="middle">${escapeHtml(point.date.slice(5))}</text>`
+            : '')
+        .join('');
+
+    const markers = points
+        .map((point, index) => {
+            if (point.scopeChange === 0) {
+                return '';
+            }
+            const label = point.scopeChange > 0 ? `+${point.scopeChange}` : `−${-point.scopeChange}`;
+            return `<g class="scope-marker"><title>${escapeHtml(`${point.date} 范围 ${label}，共 ${point.total} 项`)}</title>`
+                + `<line x1="${x(index).toFixed(1)}" x2="${x(index).toFixed(1)}" y1="${chartPadding.top}" y2="${chartHeight - chartPadding.bottom}"/>`
+                + `<text x="${(x(index) + 3).toFixed(1)}" y="${chartPadding.top - 6}">${label}</text></g>`;
+        })
+        .join('');
+
+    const lines = mode === 'burndown'
+        ? line('remaining', point => point.remaining)
+        : line('scope', point => point.total) + line('completed', point => point.completed);
+    const legend = mode === 'burndown'
+        ? '<span style="--color: var(--vscode-charts-blue)">剩余</span>'
+        : '<span style="--color: var(--vscode-charts-purple)">范围</span><span style="--color: var(--vscode-charts-green)">已完成</span>';
+
+    return `<svg viewBox="0 0 ${chartWidth} ${chartHeight}" width="${chartWidth}" height="${chartHeight}">
+            ${yTicks.join('')}
+            ${xLabels}
+            ${markers}
+            ${lines}
+        </svg>
+        <div class="legend">${legend}<span style="--color: var(--vscode-charts-orange)">范围变化</span></div>`;
+}
+
+function isProgressSnapshot(value: unknown): value is ProgressSnapshot {
+    const snapshot = value as Partial<ProgressSnapshot> | null;
+    return !!snapshot && typeof snapshot.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(snapshot.date)
+        && !!snapshot.progress?.allItems && !!snapshot.progress.mainTasks;
+}
+
+function formatLocalDate(date: Date): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function parseLocalDate(date: string): Date {
+    const [year, month, day] = date.split('-').map(Number);
+    return new Date(year as number, (month as number) - 1, day as number);
+}
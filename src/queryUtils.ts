@@ -0,0 +1,208 @@
+import { Task, TaskPredicate, TaskPriority, TaskQueryContext, TaskQueryOperator, TaskQueryTerm } from './types';
+import { normalizeFilterStatus } from './filterUtils';
+
+const priorityRanks: Record<TaskPriority, number> = {
+    'low': 1,
+    'medium': 2,
+    'high': 3,
+    'critical': 4
+};
+
+const hasFieldGetters: Record<string, (task: Task) => boolean> = {
+    'subtasks': task => !!task.subtasks?.length,
+    'dependencies': task => !!task.dependencies?.length,
+    'deps': task => !!task.dependencies?.length,
+    'due': task => !!task.dueDate,
+    'assignee': task => !!task.assignee,
+    'details': task => !!task.details?.trim(),
+    'tags': task => !!task.tags?.length,
+    'estimate': task => !!task.estimatedTime
+};
+
+const supportedFields = ['status', 'priority', 'assignee', 'category', 'tag', 'id', 'due', 'has'];
+
+const dayInMs = 24 * 60 * 60 * 1000;
+
+/**
+ * Split a query into terms. Supports "-" negation, comparison operators after the colon,
+ * comma-separated alternatives and double-quoted values.
+ * @param query Query text such as `status:pending priority:>=high -tag:spike`
+ * @returns Parsed terms
+ * @throws Error with a user-facing message when the query is malformed
+ */
+export function parseTaskQuery(query: string): TaskQueryTerm[] {
+    const tokens = query.match(/(?:[^\s"]+|"[^"]*")+/g) || [];
+    if (query.split('"').length % 2 === 0) {
+        throw new Error('查询中的引号未闭合');
+    }
+
+    return tokens.map(token => {
+        let rest = token;
+        let negated = false;
+        if (rest.startsWith('-') && rest.length > 1) {
+            negated = true;
+            rest = rest.slice(1);
+        }
+
+        const colonIndex = rest.indexOf(':');
+        if (colonIndex <= 0) {
+            return { field: '', operator: '=' as TaskQueryOperator, values: [unquote(rest)], negated };
+        }
+
+        const field = rest.slice(0, colonIndex).toLowerCase();
+        if (!supportedFields.includes(field)) {
+            throw new Error(`不支持的查询字段：${field}（可用：${supportedFields.join(', ')}）`);
+        }
+
+        let valueText = rest.slice(colonIndex + 1);
+        let operator: TaskQueryOperator = '=';
+        const operatorMatch = valueText.match(/^(>=|<=|>|<|=)/);
+        if (operatorMatch?.[1]) {
+            operator = operatorMatch[1] as TaskQueryOperator;
+            valueText = valueText.slice(operatorMatch[1].length);
+        }
+
+        const values = unquote(valueText).split(',').map(value => value.trim()).filter(value => value.length > 0);
+        if (values.length === 0) {
+            throw new Error(`查询字段 ${field} 缺少值`);
+        }
+        if (operator !== '=' && field !== 'priority' && field !== 'due') {
+            throw new Error(`查询字段 ${field} 不支持比较运算符 ${operator}`);
+        }
+        if (field === 'priority') {
+            const invalid = values.find(value => !(value.toLowerCase() in priorityRanks));
+            if (invalid) {
+                throw new Error(`无效的优先级：${invalid}`);
+            }
+        }
+        if (field === 'has') {
+            const invalid = values.find(value => !(value.toLowerCase() in hasFieldGetters));
+            if (invalid) {
+                throw new Error(`不支持的 has 条件：${invalid}（可用：${Object.keys(hasFieldGetters).join(', ')}）`);
+            }
+        }
+        if (field === 'due') {
+            const invalid = values.find(value => value.toLowerCase() !== 'overdue' && parseDueValue(value, new Date()) === null);
+            if (invalid) {
+                throw new Error(`无效的截止日期：${invalid}（示例：7d、2w、2025-01-31、overdue）`);
+            }
+        }
+
+        return { field, operator, values, negated };
+    });
+}
+
+/**
+ * Compile a query into a predicate over tasks. All terms must match; values within a term are alternatives.
+ * Subtasks inherit priority, category and assignee from their parent when unset.
+ * @param query Query text
+ * @param context Current user and reference time
+ * @returns Predicate called with a task and, for subtasks, its parent
+ * @throws Error with a user-facing message when the query is malformed
+ */
+export function compileTaskQuery(query: string, context: TaskQueryContext = {}): TaskPredicate {
+    const terms = parseTaskQuery(query);
+    const now = context.now || new Date();
+
+    return (task: Task, parent?: Task) => terms.every(term => {
+        const matched = term.values.some(value => matchTerm(task, parent, term.field, term.operator, value, context, now));
+        return term.negated ? !matched : matched;
+    });
+}
+
+function matchTerm(task: Task, parent: Task | undefined, field: string, operator: TaskQueryOperator, value: string, context: TaskQueryContext, now: Date): boolean {
+    const normalizedValue = value.toLowerCase();
+
+    switch (field) {
+        case '': {
+            const text = [task.title, task.description, task.details].filter(Boolean).join('\n').toLowerCase();
+            return text.includes(normalizedValue);
+        }
+        case 'status':
+            return normalizeFilterStatus(task.status) === normalizeFilterStatus(normalizedValue as Task['status']);
+        case 'priority': {
+            // Missing priorities count as medium, like in the tree
+            const priority = task.priority || parent?.priority || 'medium';
+            return compare(priorityRanks[priority], priorityRanks[normalizedValue as TaskPriority], operator);
+        }
+        case 'assignee': {
+            const assignee = (task.assignee || parent?.assignee || '').toLowerCase();
+            const expected = normalizedValue === 'me' ? (context.currentUser || '').toLowerCase() : normalizedValue;
+            return !!assignee && assignee === expected;
+        }
+        case 'category':
+            return (task.category || parent?.category || '').toLowerCase() === normalizedValue;
+        case 'tag':
+            return !!task.tags?.some(tag => tag.toLowerCase() === normalizedValue);
+        case 'id': {
+            const taskId = task.id.toString();
+            const qualifiedId = parent && !taskId.includes('.') ? `${parent.id}.${taskId}` : taskId;
+            return qualifiedId.toLowerCase() === normalizedValue;
+        }
+        case 'due':
+            return matchDue(task, operator, normalizedValue, now);
+        case 'has':
+            return hasFieldGetters[normalizedValue]?.(task) ?? false;
+        default:
+            return false;
+    }
+}
+
+function matchDue(task: Task, operator: TaskQueryOperator, value: string, now: Date): boolean {
+    if (!task.dueDate) {
+        return false;
+    }
+    const dueTime = new Date(task.dueDate).getTime();
+    if (isNaN(dueTime)) {
+        return false;
+    }
+    if (value === 'overdue') {
+        return dueTime < now.getTime();
+    }
+
+    const limit = parseDueValue(value, now);
+    if (limit === null) {
+        return false;
+    }
+    // A bare relative value ("due:7d") reads as "due within", so it behaves like "<="
+    const effectiveOperator = operator === '=' && /^\d+[dw]$/.test(value) ? '<=' : operator;
+    if (effectiveOperator === '=') {
+        return new Date(dueTime).toDateString() === new Date(limit).toDateString();
+    }
+    return compare(dueTime, limit, effectiveOperator);
+}
+
+/**
+ * Turn "7d", "2w", "today" or an ISO date into a timestamp
+ */
+function parseDueValue(value: string, now: Date): number | null {
+    const relativeMatch = value.match(/^(\d+)([dw])$/i);
+    if (relativeMatch?.[1] && relativeMatch[2]) {
+        const amount = parseInt(relativeMatch[1], 10) * (relativeMatch[2].toLowerCase() === 'w' ? 7 : 1);
+        return now.getTime() + amount * dayInMs;
+    }
+    if (value.toLowerCase() === 'today') {
+        return now.getTime();
+    }
+    const absolute = new Date(value).getTime();
+    return isNaN(absolute) ? null : absolute;
+}
+
+function compare(actual: number, expected: number, operator: TaskQueryOperator): boolean {
+    switch (operator) {
+        case '>=':
+            return actual >= expected;
+        case '<=':
+            return actual <= expected;
+        case '>':
+            return actual > expected;
+        case '<':
+            return actual < expected;
+        default:
+            return actual === expected;
+    }
+}
+
+function unquote(value: string): string {
+    return value.replace(/"/g, '');
+}
@@ -0,0 +1,216 @@
+import { RecommendationWeights, Task, TaskPriority, TaskRecommendation } from './types';
+import { getQualifiedTaskId, resolveDependency } from './dependencyUtils';
+import { getFilterPriorityLabel, normalizeFilterStatus } from './filterUtils';
+
+export const defaultRecommendationWeights: RecommendationWeights = {
+    priority: 40,
+    dueDate: 25,
+    unblocks: 20,
+    inProgress: 15
+};
+
+const priorityRanks: Record<TaskPriority, number> = {
+    'low': 1,
+    'medium': 2,
+    'high': 3,
+    'critical': 4
+};
+
+// Due dates further away than this don't add to the score
+const dueHorizonDays = 14;
+// Unblocking this many unfinished tasks gives the full unblocks weight
+const unblocksForFullScore = 5;
+const dayInMs = 24 * 60 * 60 * 1000;
+
+interface WorkItem {
+    id: string;
+    task: Task;
+    parent?: WorkItem;
+}
+
+/**
+ * Fill in missing or invalid weights with the defaults
+ * @param weights Weights from the claudeTaskMaster.recommendationWeights setting
+ * @returns Complete, non-negative weights
+ */
+export function resolveRecommendationWeights(weights?: Partial<RecommendationWeights>): RecommendationWeights {
+    const resolved = { ...defaultRecommendationWeights };
+    for (const key of Object.keys(resolved) as Array<keyof RecommendationWeights>) {
+        const value = weights?.[key];
+        if (typeof value === 'number' && Number.isFinite(value) && value >= 0) {
+            resolved[key] = value;
+        }
+    }
+    return resolved;
+}
+
+/**
+ * Score every task and subtask that can be worked on now. An item is ready when it is todo/pending or in progress,
+ * every dependency is done (status aliases included), it has no unfinished subtasks of its own and,
+ * for subtasks, the parent's dependencies are done and the parent isn't blocked, deferred or cancelled.
+ * @param tasks Main tasks with nested subtasks
+ * @param weights Score weights
+ * @param now Reference time for due dates
+ * @returns Ready items, best first
+ */
+export function recommendTasks(
+    tasks: Task[],
+    weights: RecommendationWeights = defaultRecommendationWeights,
+    now: Date = new Date()
+): TaskRecommendation[] {
+    const items: WorkItem[] = [];
+    const collect = (task: Task, parent?: WorkItem) => {
+        const item: WorkItem = parent ? { id: getQualifiedTaskId(task, parent.id), task, parent } : { id: task.id.toString(), task };
+        items.push(item);
+        (task.subtasks || []).forEach(subtask => collect(subtask, item));
+    };
+    tasks.forEach(task => collect(task));
+
+    const itemsById = new Map(items.map(item => [item.id, item]));
+    const knownIds = new Set(itemsById.keys());
+    const resolveDependencies = (item: WorkItem) => (item.task.dependencies || [])
+        .map(dependency => resolveDependency(String(dependency), knownIds, item.parent?.id));
+
+    const dependents = new Map<string, WorkItem[]>();
+    for (const item of items) {
+        for (const targetId of resolveDependencies(item)) {
+            if (targetId) {
+                dependents.set(targetId, [...(dependents.get(targetId) || []), item]);
+            }
+        }
+    }
+
+    const dependenciesDone = (item: WorkItem): boolean =>
+        resolveDependencies(item).every(targetId => !!targetId && isFinished(itemsById.get(targetId)?.task))
+        && (!item.parent || dependenciesDone(item.parent));
+    const parentAllowsWork = (item: WorkItem): boolean =>
+        !item.parent || (!['blocked', 'deferred', 'cancelled'].includes(normalizeFilterStatus(item.parent.task.status)) && parentAllowsWork(item.parent));
+
+    const recommendations: TaskRecommendation[] = [];
+    for (const item of items) {
+        const ready = ['todo', 'in-progress'].includes(normalizeFilterStatus(item.task.status))
+            && !(item.task.subtasks || []).some(isOpen)
+            && parentAllowsWork(item)
+            && dependenciesDone(item);
+        if (ready) {
+            recommendations.push(scoreItem(item, weights, now, countUnblocked(item, dependents)));
+        }
+    }
+
+    return recommendations.sort((a, b) => b.score - a.score || compareTaskIds(a.id, b.id));
+}
+
+/**
+ * Pick the best task or subtask to work on next
+ * @returns The top recommendation, or null when nothing is ready
+ */
+export function recommendNextTask(
+    tasks: Task[],
+    weights: RecommendationWeights = defaultRecommendationWeights,
+    now: Date = new Date()
+): TaskRecommendation | null {
+    return recommendTasks(tasks, weights, now)[0] || null;
+}
+
+function scoreItem(item: WorkItem, weights: RecommendationWeights, now: Date, unblocked: number): TaskRecommendation {
+    const reasons: string[] = [];
+    let score = 0;
+    const add = (points: number, reason: string) => {
+        if (points > 0) {
+            score += points;
+            reasons.push(`${reason}（+${Math.round(points * 10) / 10}）`);
+        }
+    };
+
+    // Subtasks without their own priority or due date inherit them from the parent
+    const priority = findInherited(item, task => task.priority) || 'medium';
+    add(weights.priority * (priorityRanks[priority] || priorityRanks.medium) / priorityRanks.critical, `优先级：${getFilterPriorityLabel(priority)}`);
+
+    const dueDate = findInherited(item, task => task.dueDate);
+    const dueTime = dueDate ? new Date(dueDate).getTime() : NaN;
+    if (!Number.isNaN(dueTime)) {
+        const daysLeft = Math.ceil((dueTime - now.getTime()) / dayInMs);
+        const urgency = daysLeft <= 0 ? 1 : Math.max(0, 1 - daysLeft / dueHorizonDays);
+        add(weights.dueDate * urgency, daysLeft < 0 ? `已逾期 ${-daysLeft} 天` : daysLeft === 0 ? '今天到期' : `${daysLeft} 天后到期`);
+    }
+
+    add(weights.unblocks * Math.min(1, unblocked / unblocksForFullScore), `完成后可解锁 ${unblocked} 个任务`);
+
+    const parent = item.parent;
+    if (normalizeFilterStatus(item.task.status) === 'in-progress') {
+        add(weights.inProgress, '已在进行中');
+    } else if (parent) {
+        const parentStarted = normalizeFilterStatus(parent.task.status) === 'in-progress';
+        const siblingStarted = (parent.task.subtasks || []).some(subtask =>
+            subtask !== item.task && ['in-progress', 'completed'].includes(normalizeFilterStatus(subtask.status))
+        );
+        if (parentStarted || siblingStarted) {
+            add(weights.inProgress, `所属任务 ${parent.id} 已在进行中`);
+        }
+    }
+
+    if (reasons.length === 0) {
+        reasons.push('依赖已满足，可以开始');
+    }
+
+    return {
+        task: item.task,
+        id: item.id,
+        ...(parent ? { parentTaskId: parent.id } : {}),
+        score: Math.round(score * 10) / 10,
+        reasons
+    };
+}
+
+/**
+ * Count the unfinished tasks that directly or transitively wait for an item
+ */
+function countUnblocked(item: WorkItem, dependents: Map<string, WorkItem[]>): number {
+    const seen = new Set<string>([item.id]);
+    const queue = [item.id];
+    let count = 0;
+    while (queue.length > 0) {
+        const id = queue.shift() as string;
+        for (const dependent of dependents.get(id) || []) {
+            if (seen.has(dependent.id)) {
+                continue;
+            }
+            seen.add(dependent.id);
+            queue.push(dependent.id);
+            if (isOpen(dependent.task)) {
+                count++;
+            }
+        }
+    }
+    return count;
+}
+
+function findInherited<T>(item: WorkItem, getValue: (task: Task) => T | undefined): T | undefined {
+    for (let current: WorkItem | undefined = item; current; current = current.parent) {
+        const value = getValue(current.task);
+        if (value) {
+            return value;
+        }
+    }
+    return undefined;
+}
+
+function isFinished(task: Task | undefined): boolean {
+    return !!task && normalizeFilterStatus(task.status) === 'completed';
+}
+
+function isOpen(task: Task): boolean {
+    return !isFinished(task) && task.status !== 'cancelled';
+}
+
+function compareTaskIds(a: string, b: string): number {
+    const aParts = a.split('.').map(Number);
+    const bParts = b.split('.').map(Number);
+    for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+        const difference = (aParts[i] ?? -1) - (bParts[i] ?? -1);
+        if (difference !== 0 && !Number.isNaN(difference)) {
+            return difference;
+        }
+    }
+    return a.localeCompare(b);
+}
@@ -0,0 +1,388 @@
+import { RawTask, RenumberResult, TaskMoveDestination } from './types';
+import { getParentTaskId, resolveDependency } from './dependencyUtils';
+
+interface RawEntry {
+    id: string;
+    parentId?: string;
+    task: RawTask;
+}
+
+interface DependencyState {
+    parentId?: string;
+    targets: Array<string | undefined>;
+}
+
+/**
+ * Move a raw task or subtask within a tag's task list. Reordering within a list keeps IDs; a task that
+ * changes parent gets the next free ID in its new list. Dependencies anywhere in the tag are rewritten
+ * so they keep pointing at the same tasks, and a subtask's dependency on its new parent is dropped.
+ * @param tasks Raw main tasks as stored in tasks.json, changed in place
+ * @param sourceId Qualified ID of the task to move ("3" or "3.2")
+ * @param destination New parent and position
+ * @returns Old to new qualified IDs of every task whose ID changed
+ */
+export function moveRawTask(tasks: RawTask[], sourceId: string, destination: TaskMoveDestination): Map<string, string> {
+    const entries = collectEntries(tasks);
+    const source = entries.find(entry => entry.id === sourceId);
+    if (!source) {
+        throw new Error(`Task ${sourceId} not found`);
+    }
+
+    const parentId = destination.parentId;
+    const parent = parentId !== undefined ? entries.find(entry => entry.id === parentId) : undefined;
+    if (parentId !== undefined) {
+        if (!parent) {
+            throw new Error(`Task ${parentId} not found`);
+        }
+        if (parentId === sourceId || parentId.startsWith(`${sourceId}.`)) {
+            throw new Error(`Task ${sourceId} cannot be moved into itself`);
+        }
+        if (parentId.includes('.')) {
+            throw new Error(`Subtask ${parentId} cannot have subtasks`);
+        }
+        if ((source.task.subtasks || []).length > 0) {
+            throw new Error(`Task ${sourceId} has subtasks and cannot become a subtask`);
+        }
+    }
+
+    // Resolve every dependency before anything moves, so the targets can be followed through the move
+    const before = resolveAllDependencies(entries);
+
+    const sourceList = getList(tasks, entries, source.parentId);
+    const targetList = parent ? (parent.task.subtasks = parent.task.subtasks || []) : tasks;
+    sourceList.splice(sourceList.indexOf(source.task), 1);
+
+    const renamed = new Map<string, string>();
+    if (sourceList !== targetList) {
+        const localIds = targetList.map(task => Number(String(task.id).split('.').pop()));
+        let nextId = Math.max(0, ...localIds.filter(id => Number.isFinite(id))) + 1;
+        // A bare dependency on a subtask prefers a sibling, so don't take an ID siblings use to reach a main task
+        const mainTaskReferences = new Set(targetList.flatMap(task =>
+            (before.get(task)?.targets || []).filter(id => id && !id.includes('.'))
+        ));
+        while (parentId !== undefined && mainTaskReferences.has(String(nextId))) {
+            nextId++;
+        }
+        const newId = parentId !== undefined ? `${parentId}.${nextId}` : String(nextId);
+        source.task.id = typeof source.task.id === 'number' ? nextId : String(nextId);
+        if ('parentTaskId' in source.task) {
+            if (parent) {
+                source.task['parentTaskId'] = parent.task.id;
+            } else {
+                delete source.task['parentTaskId'];
+            }
+        }
+        for (const entry of entries) {
+            if (entry.id === sourceId || entry.id.startsWith(`${sourceId}.`)) {
+                renamed.set(entry.id, newId + entry.id.slice(sourceId.length));
+            }
+        }
+    }
+
+    const sibling = entries.find(entry => entry.id === destination.siblingId);
+    const siblingIndex = sibling ? targetList.indexOf(sibling.task) : -1;
+    const insertAt = siblingIndex === -1 ? targetList.length : siblingIndex + (destination.after ? 1 : 0);
+    targetList.splice(insertAt, 0, source.task);
+
+    rewriteDependencies(tasks, before, target => renamed.get(target) || target);
+    return renamed;
+}
+
+/**
+ * Move or copy raw tasks from one tag's list to another's. Selected subtasks become main tasks; subtasks of a
+ * selected task go along with it. Transferred tasks keep their ID unless the target tag already uses it.
+ * Dependencies between transferred tasks are rewritten; dependencies that would cross tags are dropped
+ * unless keepCrossTagDependencies is set, in which case they are left as written.
+ * @param sourceTasks Raw main tasks of the source tag, changed in place unless copying
+ * @param targetTasks Raw main tasks of the target tag, changed in place
+ * @param taskIds Qualified IDs of the tasks to transfer
+ * @param options copy leaves the source tag untouched
+ * @returns Qualified IDs in the source tag to qualified IDs in the target tag, for every transferred task and subtask
+ */
+export function transferRawTasks(
+    sourceTasks: RawTask[],
+    targetTasks: RawTask[],
+    taskIds: string[],
+    options: { copy?: boolean; keepCrossTagDependencies?: boolean } = {}
+): Map<string, string> {
+    const entries = collectEntries(sourceTasks);
+    const selected = getTransferredEntries(entries, taskIds);
+    const before = resolveAllDependencies(entries);
+    const usedIds = new Set(targetTasks.map(task => String(task.id)));
+    const renamed = new Map<string, string>();
+    const transferred: RawTask[] = [];
+
+    for (const entry of selected) {
+        const task: RawTask = options.copy ? JSON.parse(JSON.stringify(entry.task)) : entry.task;
+        if (!options.copy) {
+            const list = getList(sourceTasks, entries, entry.parentId);
+            list.splice(list.indexOf(entry.task), 1);
+        }
+
+        const localId = String(entry.task.id).split('.').pop() || '';
+        let newId = localId;
+        if (!/^\d+$/.test(newId) || usedIds.has(newId)) {
+            newId = String(Math.max(0, ...[...usedIds].map(Number).filter(id => Number.isFinite(id))) + 1);
+        }
+        usedIds.add(newId);
+        task.id = typeof task.id === 'number' ? Number(newId) : newId;
+        delete task['parentTaskId'];
+        targetTasks.push(task);
+        transferred.push(task);
+
+        for (const other of entries) {
+            if (other.id === entry.id || other.id.startsWith(`${entry.id}.`)) {
+                renamed.set(other.id, newId + other.id.slice(entry.id.length));
+            }
+        }
+    }
+
+    // Copies are new objects, so give them the dependency state of the task they were copied from
+    const targetState = new Map<RawTask, DependencyState>();
+    const copiedEntries = collectEntries(transferred);
+    selected.flatMap(entry => entries.filter(other => other.id === entry.id || other.id.startsWith(`${entry.id}.`)))
+        .forEach((entry, index) => {
+            const state = before.get(entry.task);
+            const copy = copiedEntries[index];
+            if (state && copy) {
+                // A dependency without a target is left as written
+                const targets = options.keepCrossTagDependencies ? state.targets.map(id => id && renamed.has(id) ? id : undefined) : state.targets;
+                targetState.set(copy.task, { ...state, targets });
+            }
+        });
+
+    if (!options.copy) {
+        const sourceState = options.keepCrossTagDependencies ? new Map<RawTask, DependencyState>() : before;
+        rewriteDependencies(sourceTasks, sourceState, id => renamed.has(id) ? undefined : id);
+    }
+    rewriteDependencies(targetTasks, targetState, id => renamed.get(id));
+    return renamed;
+}
+
+/**
+ * List the dependencies that would cross tags if the given tasks were transferred to another tag
+ * @param tasks Raw main tasks of the source tag
+ * @param taskIds Qualified IDs of the tasks to transfer
+ * @param copy When copying, tasks that stay behind keep their dependencies on the originals
+ * @returns "taskId → dependency" for each such dependency, using the source tag's IDs
+ */
+export function findCrossTagDependencies(tasks: RawTask[], taskIds: string[], copy: boolean): string[] {
+    const entries = collectEntries(tasks);
+    const transferredIds = new Set(getTransferredEntries(entries, taskIds)
+        .flatMap(entry => entries.filter(other => other.id === entry.id || other.id.startsWith(`${entry.id}.`)))
+        .map(entry => entry.id));
+    const before = resolveAllDependencies(entries);
+
+    return entries.flatMap(entry => {
+        const transferred = transferredIds.has(entry.id);
+        if (!transferred && copy) {
+            return [];
+        }
+        const state = before.get(entry.task);
+        return (entry.task.dependencies || [])
+            .filter((_dependency, index) => {
+                const target = state?.targets[index];
+                return target !== undefined && transferredIds.has(target) !== transferred;
+            })
+            .map(dependency => `${entry.id} → ${dependency}`);
+    });
+}
+
+/**
+ * Give main tasks sequential IDs from 1 in list order, and the subtasks of each task sequential IDs
+ * from 1 as well. Every dependency, bare or "parent.sub", is rewritten to the new IDs.
+ * @param tasks Raw main tasks, changed in place
+ * @returns The renamed IDs, and the dependencies that had to be dropped
+ */
+export function renumberRawTasks(tasks: RawTask[]): RenumberResult {
+    const before = resolveAllDependencies(collectEntries(tasks));
+    const renamed = new Map<string, string>();
+
+    const renumber = (list: RawTask[], oldParentId?: string, newParentId?: string) => {
+        list.forEach((task, index) => {
+            const taskId = String(task.id);
+            const oldId = !oldParentId || taskId.includes('.') ? taskId : `${oldParentId}.${taskId}`;
+            const newId = newParentId ? `${newParentId}.${index + 1}` : String(index + 1);
+            if (oldId !== newId) {
+                renamed.set(oldId, newId);
+            }
+            task.id = typeof task.id === 'number' ? index + 1 : String(index + 1);
+            if (typeof task['parentTaskId'] === 'number' || typeof task['parentTaskId'] === 'string') {
+                task['parentTaskId'] = typeof task['parentTaskId'] === 'number' ? Number(newParentId) : newParentId;
+            }
+            renumber(task.subtasks || [], oldId, newId);
+        });
+    };
+    renumber(tasks);
+
+    const dropped = rewriteDependencies(tasks, before, target => renamed.get(target) || target);
+    const oldIds = new Map([...renamed].map(([oldId, newId]) => [newId, oldId]));
+    return {
+        renamed,
+        droppedDependencies: dropped.map(([taskId, dependency]) => `${oldIds.get(taskId) || taskId} → ${dependency}`)
+    };
+}
+
+/**
+ * Append tasks from outside the tag, such as an import, giving each the next free main task ID.
+ * Dependencies between the new tasks follow their new IDs; any other dependency is kept as written.
+ * @param tasks Raw main tasks of the tag, changed in place
+ * @param newTasks Tasks to append, with their subtasks; changed and added to `tasks`
+ * @returns IDs in `newTasks` to qualified IDs in the tag, for every appended task and subtask
+ */
+export function appendRawTasks(tasks: RawTask[], newTasks: RawTask[]): Map<string, string> {
+    const entries = collectEntries(newTasks);
+    const before = resolveAllDependencies(entries);
+    let nextId = Math.max(0, ...tasks.map(task => Number(task.id)).filter(id => Number.isFinite(id))) + 1;
+    const renamed = new Map<string, string>();
+
+    for (const task of newTasks) {
+        const oldId = String(task.id);
+        for (const entry of entries) {
+            if (entry.id === oldId || entry.id.startsWith(`${oldId}.`)) {
+                renamed.set(entry.id, nextId + entry.id.slice(oldId.length));
+            }
+        }
+        task.id = nextId++;
+        tasks.push(task);
+    }
+
+    rewriteDependencies(tasks, before, target => renamed.get(target));
+    return renamed;
+}
+
+/**
+ * Find a raw task or subtask by its qualified ID
+ * @param tasks Raw main tasks
+ * @param taskId Qualified ID ("3" or "3.2")
+ * @returns The raw task, or undefined when it doesn't exist
+ */
+export function findRawTask(tasks: RawTask[], taskId: string): RawTask | undefined {
+    return collectEntries(tasks).find(entry => entry.id === taskId)?.task;
+}
+
+/**
+ * Find raw tasks and subtasks by title
+ * @param tasks Raw main tasks
+ * @returns Qualified IDs of the tasks with exactly this title, in list order
+ */
+export function findRawTaskIdsByTitle(tasks: RawTask[], title: string): string[] {
+    return collectEntries(tasks).filter(entry => entry.task.title === title).map(entry => entry.id);
+}
+
+/**
+ * Remove raw tasks and subtasks. A subtask whose parent is removed as well is skipped. Dependencies of the
+ * remaining tasks on a removed task, or on one of its subtasks, are dropped.
+ * @param tasks Raw main tasks, changed in place
+ * @param taskIds Qualified IDs of the tasks to remove
+ * @returns Qualified IDs that were removed
+ */
+export function removeRawTasks(tasks: RawTask[], taskIds: string[]): string[] {
+    const entries = collectEntries(tasks);
+    const before = resolveAllDependencies(entries);
+    const removed: string[] = [];
+    for (const taskId of [...new Set(taskIds)].filter(id => !taskIds.some(other => id.startsWith(`${other}.`)))) {
+        const entry = entries.find(candidate => candidate.id === taskId);
+        if (!entry) {
+            throw new Error(`Task ${taskId} not found`);
+        }
+        const list = getList(tasks, entries, entry.parentId);
+        list.splice(list.indexOf(entry.task), 1);
+        removed.push(taskId);
+    }
+
+    rewriteDependencies(tasks, before, id => removed.some(taskId => id === taskId || id.startsWith(`${taskId}.`)) ? undefined : id);
+    return removed;
+}
+
+/**
+ * Re-point dependencies after tasks were renamed or moved. Only tasks recorded in `before` are visited,
+ * and a dependency is only rewritten when, as written, it would no longer reach its new target.
+ * @param tasks Raw main tasks after the change
+ * @param before Parent and resolved dependency targets of each task before the change
+ * @param mapTarget New qualified ID of a previous target, undefined to drop the dependency
+ * @returns [new task ID, dependency as written before] of dependencies dropped because no spelling reaches the target
+ */
+function rewriteDependencies(
+    tasks: RawTask[],
+    before: Map<RawTask, DependencyState>,
+    mapTarget: (target: string) => string | undefined
+): Array<[string, string]> {
+    const entries = collectEntries(tasks);
+    const knownIds = new Set(entries.map(entry => entry.id));
+    const unwritable: Array<[string, string]> = [];
+
+    for (const entry of entries) {
+        const dependencies = entry.task.dependencies;
+        const state = before.get(entry.task);
+        if (!dependencies || !state) {
+            continue;
+        }
+
+        // A parent that was only renumbered doesn't count as a new parent
+        const reparented = (state.parentId !== undefined ? mapTarget(state.parentId) : undefined) !== entry.parentId;
+        entry.task.dependencies = dependencies.flatMap((dependency, index) => {
+            const oldTarget = state.targets[index];
+            if (!oldTarget) {
+                return [dependency];
+            }
+            const target = mapTarget(oldTarget);
+            if (!target || target === entry.id || (reparented && target === entry.parentId)) {
+                return [];
+            }
+            if (resolveDependency(String(dependency), knownIds, entry.parentId) === target) {
+                return [dependency];
+            }
+            const written = entry.parentId && getParentTaskId(target) === entry.parentId
+                ? target.slice(entry.parentId.length + 1)
+                : target;
+            // A bare main task ID on a subtask resolves to a sibling with that ID first, and there's no other way to write it
+            if (resolveDependency(written, knownIds, entry.parentId) !== target) {
+                unwritable.push([entry.id, String(dependency)]);
+                return [];
+            }
+            return [typeof dependency === 'number' && /^\d+$/.test(written) ? Number(written) : written];
+        });
+    }
+    return unwritable;
+}
+
+function resolveAllDependencies(entries: RawEntry[]): Map<RawTask, DependencyState> {
+    const knownIds = new Set(entries.map(entry => entry.id));
+    return new Map(entries.map(entry => [entry.task, {
+        ...(entry.parentId ? { parentId: entry.parentId } : {}),
+        targets: (entry.task.dependencies || []).map(dependency => resolveDependency(String(dependency), knownIds, entry.parentId))
+    }]));
+}
+
+/**
+ * Entries of the selected tasks, leaving out subtasks whose parent is selected as well
+ */
+function getTransferredEntries(entries: RawEntry[], taskIds: string[]): RawEntry[] {
+    return [...new Set(taskIds)]
+        .filter(id => !taskIds.some(other => id.startsWith(`${other}.`)))
+        .map(id => {
+            const entry = entries.find(candidate => candidate.id === id);
+            if (!entry) {
+                throw new Error(`Task ${id} not found`);
+            }
+            return entry;
+        });
+}
+
+function collectEntries(tasks: RawTask[]): RawEntry[] {
+    const entries: RawEntry[] = [];
+    const collect = (task: RawTask, parentId?: string) => {
+        const taskId = String(task.id);
+        const id = !parentId || taskId.includes('.') ? taskId : `${parentId}.${taskId}`;
+        entries.push(parentId ? { id, parentId, task } : { id, task });
+        (task.subtasks || []).forEach(subtask => collect(subtask, id));
+    };
+    tasks.forEach(task => collect(task));
+    return entries;
+}
+
+function getList(tasks: RawTask[], entries: RawEntry[], parentId?: string): RawTask[] {
+    const parent = parentId !== undefined ? entries.find(entry => entry.id === parentId) : undefined;
+    return parent ? parent.task.subtasks || [] : tasks;
+}
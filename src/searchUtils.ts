@@ -0,0 +1,129 @@
+import { Task, TaskSearchResult } from './types';
+
+/**
+ * Fields checked by the search, in the order that decides the reported matchType
+ */
+const searchFields: Array<{ matchType: TaskSearchResult['matchType']; getValue: (task: Task) => string | undefined }> = [
+    { matchType: 'title', getValue: task => task.title },
+    { matchType: 'description', getValue: task => task.description },
+    { matchType: 'details', getValue: task => task.details },
+    { matchType: 'testStrategy', getValue: task => task.testStrategy }
+];
+
+/** Number of characters kept on each side of a match in matchText */
+const snippetContextLength = 30;
+
+/**
+ * Get the key that identifies a task or subtask in search results.
+ * Subtask IDs are only unique within their parent, so they are qualified as "parent.sub".
+ * @param task The task or subtask
+ * @param parentTaskId The parent task ID when the task is a subtask
+ * @returns The qualified task key
+ */
+export function getSearchKey(task: Task, parentTaskId?: string): string {
+    const taskId = task.id.toString();
+    if (!parentTaskId || taskId.includes('.')) {
+        return taskId;
+    }
+    return `${parentTaskId}.${taskId}`;
+}
+
+/**
+ * Search tasks and their subtasks by title, description, details, testStrategy, ID and tags
+ * @param tasks The main tasks to search
+ * @param query The search text (case-insensitive)
+ * @returns One result per matching task or subtask, parents before their subtasks
+ */
+export function searchTasks(tasks: Task[], query: string): TaskSearchResult[] {
+    const normalizedQuery = query.trim().toLowerCase();
+    if (!normalizedQuery) {
+        return [];
+    }
+
+    const results: TaskSearchResult[] = [];
+    for (const task of tasks) {
+        const taskMatch = matchTask(task, normalizedQuery);
+        if (taskMatch) {
+            results.push(taskMatch);
+        }
+
+        for (const subtask of task.subtasks || []) {
+            const subtaskMatch = matchTask(subtask, normalizedQuery, task.id.toString());
+            if (subtaskMatch) {
+                results.push(subtaskMatch);
+            }
+        }
+    }
+
+    return results;
+}
+
+/**
+ * Get a short human readable label for a match type
+ * @param matchType The match type
+ * @returns Chinese label used in the tree
+ */
+export function getMatchTypeLabel(matchType: TaskSearchResult['matchType']): string {
+    switch (matchType) {
+        case 'title':
+            return '标题';
+        case 'description':
+            return '描述';
+        case 'details':
+            return '实现详情';
+        case 'testStrategy':
+            return '测试策略';
+        case 'id':
+            return '编号';
+        case 'tag':
+            return '标签';
+        default:
+            return matchType;
+    }
+}
+
+/**
+ * Match a single task against an already normalized query
+ */
+function matchTask(task: Task, normalizedQuery: string, parentTaskId?: string): TaskSearchResult | null {
+    const key = getSearchKey(task, parentTaskId);
+    if (key.toLowerCase() === normalizedQuery) {
+        return createResult(task, 'id', key, parentTaskId);
+    }
+
+    for (const field of searchFields) {
+        const value = field.getValue(task);
+        if (!value) {
+            continue;
+        }
+        const index = value.toLowerCase().indexOf(normalizedQuery);
+        if (index !== -1) {
+            return createResult(task, field.matchType, extractSnippet(value, index, normalizedQuery.length), parentTaskId);
+        }
+    }
+
+    const matchedTag = task.tags?.find(tag => tag.toLowerCase().includes(normalizedQuery));
+    if (matchedTag) {
+        return createResult(task, 'tag', matchedTag, parentTaskId);
+    }
+
+    return null;
+}
+
+function createResult(task: Task, matchType: TaskSearchResult['matchType'], matchText: string, parentTaskId?: string): TaskSearchResult {
+    const result: TaskSearchResult = { task, matchType, matchText };
+    if (parentTaskId) {
+        result.parentTaskId = parentTaskId;
+    }
+    return result;
+}
+
+/**
+ * Cut the text around a match so long details fields stay readable in the tree
+ */
+function extractSnippet(text: string, index: number, length: number): string {
+    const start = Math.max(0, index - snippetContextLength);
+    const end = Math.min(text.length, index + length + snippetContextLength);
+    const snippet = text.slice(start, end).replace(/\s+/g, ' ').trim();
+    return `${start > 0 ? '…' : ''}${snippet}${end < text.length ? '…' : ''}`;
+}
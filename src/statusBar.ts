@@ -6,6 +6,8 @@ export class TagStatusBarItem {
     private statusBarItem: vscode.StatusBarItem;
     private taskMasterClient: TaskMasterClient;
     private updateInterval: NodeJS.Timeout | undefined;
+    // Branch being followed and the tag it maps to, set while claudeTaskMaster.followGitBranch is on
+    private branchBinding: { branch: string; tag: string } | undefined;
 
     constructor(context: vscode.ExtensionContext, taskMasterClient: TaskMasterClient) {
         this.taskMasterClient = taskMasterClient;
@@ -53,8 +55,10 @@ export class TagStatusBarItem {
                 const currentTag = tagContext.currentTag || 'master';
                 const tagCount = tagContext.availableTags?.length || 1;
                 
-                // Show current tag with tag icon
-                this.statusBarItem.text = `$(tag) ${currentTag}`;
+                // Show current tag with tag icon, and a branch icon while it follows the git branch
+                const branchBound = this.branchBinding?.tag === currentTag;
+                this.statusBarItem.text = `$(tag) ${currentTag}${branchBound ? ' $(git-branch)' : ''}`;
+                this.statusBarItem.color = this.taskMasterClient.getTagColor(currentTag);
                 
                 // Detailed tooltip with available tags
                 if (tagCount > 1) {
@@ -63,6 +67,11 @@ export class TagStatusBarItem {
                 } else {
                     this.statusBarItem.tooltip = `当前标签：${currentTag}\n点击管理标签`;
                 }
+                if (this.branchBinding) {
+                    this.statusBarItem.tooltip += branchBound
+                        ? `\n跟随 Git 分支：${this.branchBinding.branch}`
+                        : `\nGit 分支 ${this.branchBinding.branch} 对应标签 ${this.branchBinding.tag}，当前未跟随`;
+                }
                 
                 // Show the status bar item
                 this.statusBarItem.show();
@@ -83,6 +92,14 @@ export class TagStatusBarItem {
         }
     }
 
+    /**
+     * Record which git branch the tag follows, undefined when not following a branch
+     */
+    public setBranchBinding(binding: { branch: string; tag: string } | undefined): void {
+        this.branchBinding = binding;
+        this.update();
+    }
+
     /**
      * Force an immediate update of the status bar
      */
@@ -1,7 +1,9 @@
-import { Tag, TagMetadata, TagValidationResult } from './types';
+import { Tag, TagContextInfo, TagMetadata, TagValidationResult } from './types';
 import * as fs from 'fs';
 import * as path from 'path';
 import { log } from './logger';
+import { getTasksLockPath, withFileLock, writeFileAtomic } from './fileUtils';
+import { transferRawTasks } from './restructureUtils';
 
 /**
  * Core Tag class implementation for multi-context task management
@@ -324,8 +326,30 @@ export interface TagInfo {
     isMaster: boolean;
     taskCount: number;
     color?: string;
+    archived?: boolean;
 }
 
+// Editable tag properties, stored in the tag block's metadata in tasks.json
+export interface TagProperties {
+    description?: string;
+    color?: string;       // "#RRGGBB", empty to go back to the default color
+    archived?: boolean;   // Archived tags are left out of tag pickers
+}
+
+// Colors offered for tags, also used to pick a default color from the tag name
+export const tagColorPalette: string[] = [
+    '#007ACC', // VS Code Blue
+    '#68217A', // VS Code Purple
+    '#0E639C', // VS Code Dark Blue
+    '#B5200D', // VS Code Red
+    '#0F7B0F', // VS Code Green
+    '#795E26', // VS Code Yellow
+    '#A31515', // VS Code Dark Red
+    '#0000FF', // Blue
+    '#008000', // Green
+    '#800080'  // Purple
+];
+
 export interface TagState {
     currentTag: string;
     migrationCompleted: boolean;
@@ -340,6 +364,7 @@ export class TagManager {
     private projectRoot: string;
     private stateFilePath: string;
     private currentState: TagState;
+    private tagBlocks: { key: string; tags: Record<string, any> | null } | null = null; // Parsed tag blocks, see readTagBlocks()
 
     constructor(projectRoot: string) {
         this.projectRoot = projectRoot;
@@ -375,7 +400,11 @@ export class TagManager {
             currentTag: 'master',
             migrationCompleted: false
         };
-        this.saveState(defaultState);
+        try {
+            this.saveState(defaultState);
+        } catch {
+            // Already logged; the default works from memory until a tag switch saves it again
+        }
         return defaultState;
     }
 
@@ -384,7 +413,7 @@ export class TagManager {
      */
     private saveState(state: TagState): void {
         try {
-            fs.writeFileSync(this.stateFilePath, JSON.stringify(state, null, 2), 'utf8');
+            writeFileAtomic(this.stateFilePath, JSON.stringify(state, null, 2));
             this.currentState = state;
             log(`Saved tag state: currentTag=${state.currentTag}`);
         } catch (error) {
@@ -503,7 +532,8 @@ export class TagManager {
                 creationDate: tagData?.metadata?.created ? new Date(tagData.metadata.created) : new Date(),
                 isMaster: tagName === 'master',
                 taskCount: taskCount,
-                color: tagData?.metadata?.color || this.getDefaultTagColor(tagName)
+                color: tagData?.metadata?.color || this.getDefaultTagColor(tagName),
+                archived: tagData?.metadata?.archived === true
             };
         } catch (error) {
             log(`Error getting tag info for ${tagName}: ${error}`);
@@ -524,7 +554,7 @@ export class TagManager {
     /**
      * Validate tag name
      */
-    private validateTagName(tagName: string): boolean {
+    validateTagName(tagName: string): boolean {
         // Tag names should be alphanumeric with hyphens and underscores
         const tagPattern = /^[a-zA-Z0-9_-]+$/;
         return tagPattern.test(tagName) && tagName.length > 0 && tagName.length <= 50;
@@ -534,26 +564,66 @@ export class TagManager {
      * Get default color for a tag
      */
     private getDefaultTagColor(tagName: string): string {
-        const colors: string[] = [
-            '#007ACC', // VS Code Blue
-            '#68217A', // VS Code Purple
-            '#0E639C', // VS Code Dark Blue
-            '#B5200D', // VS Code Red
-            '#0F7B0F', // VS Code Green
-            '#795E26', // VS Code Yellow
-            '#A31515', // VS Code Dark Red
-            '#0000FF', // Blue
-            '#008000', // Green
-            '#800080'  // Purple
-        ];
-
         // Use tag name to consistently assign colors
         let hash = 0;
         for (let i = 0; i < tagName.length; i++) {
             hash = tagName.charCodeAt(i) + ((hash << 5) - hash);
         }
-        const colorIndex = Math.abs(hash) % colors.length;
-        return colors[colorIndex]!; // Use non-null assertion since we know the array has elements
+        const colorIndex = Math.abs(hash) % tagColorPalette.length;
+        return tagColorPalette[colorIndex]!; // Use non-null assertion since we know the array has elements
+    }
+
+    /**
+     * Get the color chosen for a tag
+     * @returns "#RRGGBB", or undefined when the tag uses its default color
+     */
+    getTagColor(tagName: string): string | undefined {
+        const color = this.readTagBlocks()?.[tagName]?.metadata?.color;
+        return typeof color === 'string' && color ? color : undefined;
+    }
+
+    /**
+     * Get the tags that were archived
+     */
+    getArchivedTags(): string[] {
+        const tags = this.readTagBlocks() || {};
+        return Object.keys(tags).filter(tagName => tags[tagName]?.metadata?.archived === true);
+    }
+
+    /**
+     * Read the tag blocks of tasks.json for their metadata. The parsed blocks are kept until tasks.json's
+     * mtime or size changes, since tag pickers and the tree ask for the tag context on every refresh.
+     */
+    private readTagBlocks(): Record<string, any> | null {
+        try {
+            const tasksJsonPath = path.join(this.projectRoot, 'tasks', 'tasks.json');
+            if (!fs.existsSync(tasksJsonPath)) {
+                return null;
+            }
+            const key = this.getFileKey(tasksJsonPath);
+            if (key && this.tagBlocks?.key === key) {
+                return this.tagBlocks.tags;
+            }
+            const parsed = JSON.parse(fs.readFileSync(tasksJsonPath, 'utf8'));
+            const tags = parsed.tags ? parsed.tags : parsed.master ? parsed : null;
+            this.tagBlocks = key ? { key, tags } : null;
+            return tags;
+        } catch (error) {
+            log(`Error reading tag metadata: ${error}`);
+            return null;
+        }
+    }
+
+    /**
+     * Fingerprint a file by mtime and size, or null when it can't be stat'ed
+     */
+    private getFileKey(filePath: string): string | null {
+        try {
+            const stat = fs.statSync(filePath);
+            return `${stat.mtimeMs}:${stat.size}`;
+        } catch {
+            return null;
+        }
     }
 
     /**
@@ -580,11 +650,12 @@ export class TagManager {
     /**
      * Get tag context information for display
      */
-    getTagContext(): { currentTag: string; availableTags: string[]; isTaggedFormat: boolean } {
+    getTagContext(): TagContextInfo {
         return {
             currentTag: this.getCurrentTag(),
             availableTags: this.getAvailableTags(),
-            isTaggedFormat: this.isTaggedFormat()
+            isTaggedFormat: this.isTaggedFormat(),
+            archivedTags: this.getArchivedTags()
         };
     }
 
@@ -629,4 +700,170 @@ export class TagManager {
         log(`Deleting tag: ${tagName}`);
         throw new Error('Tag deletion not yet implemented');
     }
+
+    /**
+     * Rename a tag, keeping its position in tasks.json; state.json follows when it is the current tag
+     * @param oldName Existing tag, not master
+     * @param newName Unused, valid tag name
+     */
+    async renameTag(oldName: string, newName: string): Promise<void> {
+        if (oldName === 'master') {
+            throw new Error('Cannot rename the master tag');
+        }
+        this.assertNewTagName(newName);
+
+        await this.modifyTags(tags => {
+            if (!tags[oldName]) {
+                throw new Error(`Tag does not exist: ${oldName}`);
+            }
+            // Rebuild the object so the renamed tag keeps its place in the file
+            for (const key of Object.keys(tags)) {
+                const value = tags[key];
+                delete tags[key];
+                tags[key === oldName ? newName : key] = value;
+            }
+        });
+
+        if (this.getCurrentTag() === oldName) {
+            this.setCurrentTag(newName);
+        }
+        log(`Renamed tag ${oldName} to ${newName}`);
+    }
+
+    /**
+     * Create a tag holding a copy of another tag's tasks
+     * @param sourceName Existing tag to copy
+     * @param newName Unused, valid tag name
+     */
+    async duplicateTag(sourceName: string, newName: string): Promise<void> {
+        this.assertNewTagName(newName);
+
+        await this.modifyTags(tags => {
+            const source = tags[sourceName];
+            if (!source) {
+                throw new Error(`Tag does not exist: ${sourceName}`);
+            }
+            const copy = JSON.parse(JSON.stringify(source));
+            const now = new Date().toISOString();
+            copy.metadata = {
+                ...copy.metadata,
+                created: now,
+                updated: now,
+                description: copy.metadata?.description || `Copy of ${sourceName}`
+            };
+            tags[newName] = copy;
+        });
+        log(`Duplicated tag ${sourceName} as ${newName}`);
+    }
+
+    /**
+     * Move every task of one tag into another and delete the emptied tag. Tasks whose ID is already
+     * used in the target tag are renumbered, with their dependencies (see transferRawTasks).
+     * @param sourceName Tag to fold in, not master
+     * @param targetName Tag that receives the tasks
+     * @returns Qualified IDs in the source tag to qualified IDs in the target tag
+     */
+    async mergeTags(sourceName: string, targetName: string): Promise<Map<string, string>> {
+        if (sourceName === 'master') {
+            throw new Error('Cannot merge the master tag into another tag');
+        }
+        if (sourceName === targetName) {
+            throw new Error('Cannot merge a tag into itself');
+        }
+
+        let merged = new Map<string, string>();
+        await this.modifyTags(tags => {
+            const source = tags[sourceName];
+            const target = tags[targetName];
+            if (!source) {
+                throw new Error(`Tag does not exist: ${sourceName}`);
+            }
+            if (!target) {
+                throw new Error(`Tag does not exist: ${targetName}`);
+            }
+            const sourceTasks = Array.isArray(source.tasks) ? source.tasks : [];
+            target.tasks = Array.isArray(target.tasks) ? target.tasks : [];
+            merged = transferRawTasks(sourceTasks, target.tasks, sourceTasks.map((task: { id: string | number }) => String(task.id)));
+            target.metadata = { ...target.metadata, updated: new Date().toISOString() };
+            delete tags[sourceName];
+        });
+
+        if (this.getCurrentTag() === sourceName) {
+            this.setCurrentTag(targetName);
+        }
+        log(`Merged tag ${sourceName} into ${targetName} (${merged.size} tasks and subtasks)`);
+        return merged;
+    }
+
+    /**
+     * Save a tag's description, color and archive state to its metadata in tasks.json
+     * @param tagName Existing tag
+     * @param properties Properties to change, others are kept
+     */
+    async updateTagProperties(tagName: string, properties: TagProperties): Promise<void> {
+        if (properties.color && !/^#[0-9a-fA-F]{6}$/.test(properties.color)) {
+            throw new Error(`Invalid color: ${properties.color}, expected #RRGGBB`);
+        }
+        if (properties.archived && tagName === 'master') {
+            throw new Error('Cannot archive the master tag');
+        }
+        if (properties.archived && tagName === this.getCurrentTag()) {
+            throw new Error('Cannot archive the currently active tag');
+        }
+
+        await this.modifyTags(tags => {
+            const tag = tags[tagName];
+            if (!tag) {
+                throw new Error(`Tag does not exist: ${tagName}`);
+            }
+            const metadata = { ...tag.metadata, updated: new Date().toISOString() };
+            if (properties.description !== undefined) {
+                metadata.description = properties.description;
+            }
+            if (properties.color !== undefined) {
+                if (properties.color) {
+                    metadata.color = properties.color.toUpperCase();
+                } else {
+                    delete metadata.color;
+                }
+            }
+            if (properties.archived !== undefined) {
+                if (properties.archived) {
+                    metadata.archived = true;
+                } else {
+                    delete metadata.archived;
+                }
+            }
+            tag.metadata = metadata;
+        });
+        log(`Updated properties of tag ${tagName}: ${Object.keys(properties).join(', ')}`);
+    }
+
+    private assertNewTagName(tagName: string): void {
+        if (!this.validateTagName(tagName)) {
+            throw new Error(`Invalid tag name: ${tagName}`);
+        }
+        if (this.getAvailableTags().includes(tagName)) {
+            throw new Error(`Tag already exists: ${tagName}`);
+        }
+    }
+
+    /**
+     * Change the tags object of a tagged tasks.json while holding the tasks.json lock
+     */
+    private async modifyTags(mutate: (tags: Record<string, any>) => void): Promise<void> {
+        const tasksJsonPath = path.join(this.projectRoot, 'tasks', 'tasks.json');
+        await withFileLock(getTasksLockPath(this.projectRoot), () => {
+            if (!fs.existsSync(tasksJsonPath)) {
+                throw new Error('tasks.json not found');
+            }
+            const parsed = JSON.parse(fs.readFileSync(tasksJsonPath, 'utf8'));
+            if (!parsed.master && !parsed.tags) {
+                throw new Error('tasks.json does not use the tagged format');
+            }
+            // Nested tag format keeps the tags under "tags", the direct format at the top level
+            mutate(parsed.tags && typeof parsed.tags === 'object' ? parsed.tags : parsed);
+            writeFileAtomic(tasksJsonPath, JSON.stringify(parsed, null, 2));
+        });
+    }
 } 
\ No newline at end of file
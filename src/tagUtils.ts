@@ -90,13 +90,17 @@ export function createTagSelectionOptions(
     options: TagUIOptions = {}
 ): TagSelectionOptions[] {
     const { showCurrentTag = true } = options;
+    const archivedTags = tagContext.archivedTags || [];
     
-    return tagContext.availableTags.map(tag => ({
-        label: tag,
-        detail: tag === tagContext.currentTag ? '当前标签' : '可用标签',
-        picked: showCurrentTag && tag === tagContext.currentTag,
-        tagName: tag
-    }));
+    // Archived tags are hidden, unless one is somehow still the current tag
+    return tagContext.availableTags
+        .filter(tag => tag === tagContext.currentTag || !archivedTags.includes(tag))
+        .map(tag => ({
+            label: tag,
+            detail: tag === tagContext.currentTag ? '当前标签' : '可用标签',
+            picked: showCurrentTag && tag === tagContext.currentTag,
+            tagName: tag
+        }));
 }
 
 /**
@@ -114,13 +118,13 @@ export async function showTagSelectionPicker(
         allowMultipleSelection = false 
     } = options;
     
+    const tagOptions = createTagSelectionOptions(tagContext, options);
+    
     // Don't show picker if only one tag available or not in tagged format
-    if (!tagContext.isTaggedFormat || tagContext.availableTags.length <= 1) {
+    if (!tagContext.isTaggedFormat || tagOptions.length <= 1) {
         return tagContext.currentTag;
     }
     
-    const tagOptions = createTagSelectionOptions(tagContext, options);
-    
     const selectedOption = await vscode.window.showQuickPick(
         tagOptions,
         {
@@ -0,0 +1,423 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { writeFileAtomic } from './fileUtils';
+import { log } from './logger';
+import { Task, TaskStatus } from './types';
+
+export type TaskBackendName = 'MCP' | 'CLI' | 'File';
+
+export type NewTask = Omit<Task, 'id'>;
+
+export type NewSubtask = Omit<Task, 'id'> & { id?: string };
+
+/**
+ * Write operations that TaskMasterClient routes to a backend.
+ * Operations that act on the current tag receive it explicitly so every backend targets the same tag.
+ */
+export interface TaskBackendOperations {
+    setTaskStatus(taskId: string, status: TaskStatus, tag: string): Promise<void>;
+    setSubtaskStatus(parentTaskId: string, subtaskId: string, status: TaskStatus, tag: string): Promise<void>;
+    updateTask(taskId: string, updates: Partial<Task>): Promise<void>;
+    updateTaskWithPrompt(taskId: string, prompt: string, tag: string): Promise<void>;
+    addTask(task: NewTask, tag: string): Promise<void>;
+    addSubtask(parentTaskId: string, subtask: NewSubtask, tag: string): Promise<void>;
+    updateSubtask(parentTaskId: string, subtaskId: string, updates: Partial<Task>): Promise<void>;
+    removeSubtask(parentTaskId: string, subtaskId: string, tag: string): Promise<void>;
+    deleteTask(taskId: string, tag: string): Promise<void>;
+    expandTask(taskId: string, force: boolean, tag: string): Promise<void>;
+}
+
+export type TaskOperation = keyof TaskBackendOperations;
+
+/**
+ * A way of changing tasks (MCP server, task-master CLI or tasks.json directly).
+ * A backend implements the operations listed in its capabilities and nothing else.
+ */
+export interface TaskBackend extends Partial<TaskBackendOperations> {
+    readonly name: TaskBackendName;
+    readonly capabilities: readonly TaskOperation[];
+    isAvailable(): Promise<boolean>;
+}
+
+/**
+ * Parsed tasks.json together with what is needed to write it back in the same format
+ */
+export interface TasksFile {
+    tasks: any[];
+    isTaggedFormat: boolean;
+    currentTag: string;
+    container: any;
+    filePath: string;
+}
+
+/**
+ * The parts of TaskMasterClient the backends rely on
+ */
+export interface TaskBackendHost {
+    getTasksPath(): string;
+    isMCPServerAvailable(): Promise<boolean>;
+    getMCPClient(): Promise<any>;
+    isCLIInstalled(): Promise<boolean>;
+    executeCLI(command: string, args: string[]): Promise<string>;
+    /**
+     * Apply a mutation to tasks.json and save it; the mutation may run again if the file changes underneath.
+     * Throws when tasks.json doesn't exist.
+     */
+    modifyTasksFile(mutate: (file: TasksFile) => void): Promise<void>;
+    normalizeStatus(status: string): TaskStatus;
+    denormalizeStatus(status: TaskStatus): string;
+}
+
+export const backendNames: readonly TaskBackendName[] = ['MCP', 'CLI', 'File'];
+
+export const defaultBackendOrder: readonly TaskBackendName[] = ['MCP', 'File', 'CLI'];
+
+/**
+ * Create one backend of each kind for a client
+ * @param host The client the backends act for
+ * @returns Backends by name
+ */
+export function createTaskBackends(host: TaskBackendHost): Record<TaskBackendName, TaskBackend> {
+    return {
+        'MCP': new MCPTaskBackend(host),
+        'CLI': new CLITaskBackend(host),
+        'File': new FileTaskBackend(host)
+    };
+}
+
+/**
+ * Normalize a configured backend order: unknown names and duplicates are dropped,
+ * an empty result falls back to the default order
+ * @param order Backend names from the settings
+ * @returns A usable backend order
+ */
+export function resolveBackendOrder(order: readonly string[] | undefined): TaskBackendName[] {
+    const resolved: TaskBackendName[] = [];
+    for (const name of order || []) {
+        const backendName = backendNames.find(candidate => candidate.toLowerCase() === String(name).toLowerCase());
+        if (backendName && !resolved.includes(backendName)) {
+            resolved.push(backendName);
+        }
+    }
+    return resolved.length > 0 ? resolved : [...defaultBackendOrder];
+}
+
+/**
+ * Task Master MCP server
+ */
+export class MCPTaskBackend implements TaskBackend {
+    readonly name = 'MCP';
+    // add_subtask drops the priority, so subtasks entered in the form are left to the file backend
+    readonly capabilities: readonly TaskOperation[] = ['setTaskStatus', 'setSubtaskStatus', 'updateTaskWithPrompt', 'addTask', 'expandTask'];
+
+    constructor(private host: TaskBackendHost) {}
+
+    isAvailable(): Promise<boolean> {
+        return this.host.isMCPServerAvailable();
+    }
+
+    async setTaskStatus(taskId: string, status: TaskStatus, tag: string): Promise<void> {
+        const mcpClient = await this.host.getMCPClient();
+        await mcpClient.setTaskStatus(taskId, status, tag);
+    }
+
+    async setSubtaskStatus(parentTaskId: string, subtaskId: string, status: TaskStatus, tag: string): Promise<void> {
+        const mcpClient = await this.host.getMCPClient();
+        await mcpClient.setTaskStatus(getQualifiedSubtaskId(parentTaskId, subtaskId), status, tag);
+    }
+
+    async updateTaskWithPrompt(taskId: string, prompt: string, tag: string): Promise<void> {
+        const mcpClient = await this.host.getMCPClient();
+        await mcpClient.updateTask(taskId, prompt, tag);
+    }
+
+    async addTask(task: NewTask, tag: string): Promise<void> {
+        const mcpClient = await this.host.getMCPClient();
+        await mcpClient.addTask(task, tag);
+    }
+
+    async expandTask(taskId: string, force: boolean, tag: string): Promise<void> {
+        const mcpClient = await this.host.getMCPClient();
+        await mcpClient.expandTask(taskId, force, tag);
+    }
+}
+
+/**
+ * The task-master command line tool. Only used when the command is installed,
+ * the npx fallback is too slow to try on every operation.
+ */
+export class CLITaskBackend implements TaskBackend {
+    readonly name = 'CLI';
+    readonly capabilities: readonly TaskOperation[] = [
+        'setTaskStatus', 'setSubtaskStatus', 'updateTaskWithPrompt', 'addTask', 'addSubtask', 'removeSubtask', 'deleteTask', 'expandTask'
+    ];
+
+    constructor(private host: TaskBackendHost) {}
+
+    isAvailable(): Promise<boolean> {
+        return this.host.isCLIInstalled();
+    }
+
+    async setTaskStatus(taskId: string, status: TaskStatus, tag: string): Promise<void> {
+        await this.host.executeCLI('set-status', withTag(['--id', taskId.toString(), '--status', this.host.denormalizeStatus(status)], tag));
+    }
+
+    async setSubtaskStatus(parentTaskId: string, subtaskId: string, status: TaskStatus, tag: string): Promise<void> {
+        await this.setTaskStatus(getQualifiedSubtaskId(parentTaskId, subtaskId), status, tag);
+    }
+
+    async updateTaskWithPrompt(taskId: string, prompt: string, tag: string): Promise<void> {
+        await this.host.executeCLI('update-task', withTag(['--id', taskId.toString(), '--prompt', `"${prompt}"`], tag));
+    }
+
+    async addTask(task: NewTask, tag: string): Promise<void> {
+        const args = [
+            '--prompt', `"${task.title}: ${task.description || ''}"`,
+            '--priority', task.priority || 'medium'
+        ];
+        if (task.dependencies && task.dependencies.length > 0) {
+            args.push('--dependencies', task.dependencies.join(','));
+        }
+        await this.host.executeCLI('add-task', withTag(args, tag));
+    }
+
+    async addSubtask(parentTaskId: string, subtask: NewSubtask, tag: string): Promise<void> {
+        const args = [
+            '--parent', parentTaskId.toString(),
+            '--title', `"${subtask.title}"`,
+            '--status', this.host.denormalizeStatus(subtask.status || 'todo')
+        ];
+        if (subtask.description) {
+            args.push('--description', `"${subtask.description}"`);
+        }
+        if (subtask.priority) {
+            args.push('--priority', subtask.priority);
+        }
+        await this.host.executeCLI('add-subtask', withTag(args, tag));
+    }
+
+    async removeSubtask(parentTaskId: string, subtaskId: string, tag: string): Promise<void> {
+        await this.host.executeCLI('remove-subtask', withTag(['--id', getQualifiedSubtaskId(parentTaskId, subtaskId)], tag));
+    }
+
+    async deleteTask(taskId: string, tag: string): Promise<void> {
+        await this.host.executeCLI('remove-task', withTag(['--id', taskId.toString(), '--yes'], tag));
+    }
+
+    async expandTask(taskId: string, force: boolean, tag: string): Promise<void> {
+        const args = ['--id', taskId.toString()];
+        if (force) {
+            args.push('--force');
+        }
+        await this.host.executeCLI('expand', withTag(args, tag));
+    }
+}
+
+/**
+ * Direct edits of .taskmaster/tasks/tasks.json. Cannot run the AI operations (add task from prompt, expand).
+ */
+export class FileTaskBackend implements TaskBackend {
+    readonly name = 'File';
+    readonly capabilities: readonly TaskOperation[] = [
+        'setTaskStatus', 'setSubtaskStatus', 'updateTask', 'addSubtask', 'updateSubtask', 'removeSubtask', 'deleteTask'
+    ];
+
+    constructor(private host: TaskBackendHost) {}
+
+    async isAvailable(): Promise<boolean> {
+        return fs.existsSync(this.host.getTasksPath());
+    }
+
+    async setTaskStatus(taskId: string, status: TaskStatus): Promise<void> {
+        await this.host.modifyTasksFile(file => {
+            // Main tasks take precedence over subtasks with the same ID
+            const target = file.tasks.find(task => task.id.toString() === taskId.toString())
+                || findSubtaskRecursive(file.tasks, taskId);
+            if (!target) {
+                throw new Error(`Task with ID ${taskId} not found.`);
+            }
+
+            target.status = this.host.denormalizeStatus(status);
+            target.updated = new Date().toISOString();
+            log(`Task ${taskId} found and status updated. Writing back to tasks.json.`);
+        });
+    }
+
+    async setSubtaskStatus(parentTaskId: string, subtaskId: string, status: TaskStatus): Promise<void> {
+        await this.host.modifyTasksFile(file => {
+            const parentTask = file.tasks.find(task => task.id.toString() === parentTaskId.toString());
+            if (!parentTask) {
+                throw new Error(`Parent task with ID ${parentTaskId} not found.`);
+            }
+            if (!parentTask.subtasks) {
+                throw new Error(`Parent task ${parentTaskId} has no subtasks.`);
+            }
+
+            const subtask = parentTask.subtasks.find((st: Task) => st.id.toString() === subtaskId.toString());
+            if (!subtask) {
+                throw new Error(`Subtask with ID ${subtaskId} not found in parent task ${parentTaskId}.`);
+            }
+
+            subtask.status = this.host.denormalizeStatus(status);
+            subtask.updated = new Date().toISOString();
+            parentTask.updated = new Date().toISOString();
+            log(`Subtask ${subtaskId} in parent ${parentTaskId} found and status updated. Writing back to tasks.json.`);
+        });
+    }
+
+    async updateTask(taskId: string, updates: Partial<Task>): Promise<void> {
+        await this.host.modifyTasksFile(file => {
+            const task = file.tasks.find(item => item.id.toString() === taskId.toString());
+            if (!task) {
+                throw new Error(`Task with ID ${taskId} not found.`);
+            }
+
+            Object.assign(task, updates);
+            task.updated = new Date().toISOString();
+            log(`Task ${taskId} found and updated. Writing back to tasks.json.`);
+        });
+    }
+
+    async addSubtask(parentTaskId: string, subtask: NewSubtask): Promise<void> {
+        await this.host.modifyTasksFile(file => {
+            const parentTask = findTaskRecursive(file.tasks, parentTaskId);
+            if (!parentTask) {
+                throw new Error(`Parent task with ID ${parentTaskId} not found.`);
+            }
+            if (!parentTask.subtasks) {
+                parentTask.subtasks = [];
+            }
+
+            // Generate new subtask ID (simple integer, not dotted notation)
+            const newSubtaskId = (parentTask.subtasks.length + 1).toString();
+            parentTask.subtasks.push({
+                id: newSubtaskId,
+                ...subtask,
+                status: this.host.normalizeStatus(subtask.status || 'pending'),
+                created: new Date().toISOString(),
+                updated: new Date().toISOString()
+            });
+            log(`Added subtask ${newSubtaskId} to parent ${parentTaskId}.`);
+        });
+    }
+
+    async updateSubtask(parentTaskId: string, subtaskId: string, updates: Partial<Task>): Promise<void> {
+        const fullSubtaskId = getQualifiedSubtaskId(parentTaskId, subtaskId);
+        const tasksJsonPath = this.host.getTasksPath();
+
+        if (fs.existsSync(tasksJsonPath)) {
+            await this.host.modifyTasksFile(file => {
+                const parent = file.tasks.find(task => task.id.toString() === parentTaskId.toString());
+                if (!parent || !this.applySubtaskUpdates(parent, subtaskId, fullSubtaskId, updates)) {
+                    throw new Error(`Subtask ${fullSubtaskId} not found in parent ${parentTaskId}`);
+                }
+            });
+            return;
+        }
+
+        // Fall back to individual task file
+        const taskFilePath = path.join(path.dirname(tasksJsonPath), `${parentTaskId}.json`);
+        if (!fs.existsSync(taskFilePath)) {
+            throw new Error(`Parent task ${parentTaskId} not found`);
+        }
+        const taskData = JSON.parse(fs.readFileSync(taskFilePath, 'utf8'));
+        if (!this.applySubtaskUpdates(taskData, subtaskId, fullSubtaskId, updates)) {
+            throw new Error(`Subtask ${fullSubtaskId} not found in parent ${parentTaskId}`);
+        }
+        writeFileAtomic(taskFilePath, JSON.stringify(taskData, null, 2));
+    }
+
+    async removeSubtask(parentTaskId: string, subtaskId: string): Promise<void> {
+        await this.host.modifyTasksFile(file => {
+            const parentTask = findTaskRecursive(file.tasks, parentTaskId);
+            if (!parentTask || !parentTask.subtasks) {
+                throw new Error(`Parent task ${parentTaskId} not found or has no subtasks.`);
+            }
+
+            const initialLength = parentTask.subtasks.length;
+            parentTask.subtasks = parentTask.subtasks.filter((st: Task) =>
+                st.id.toString() !== subtaskId.toString() &&
+                st.id.toString() !== `${parentTaskId}.${subtaskId}`
+            );
+            if (parentTask.subtasks.length === initialLength) {
+                throw new Error(`Subtask ${subtaskId} not found under parent ${parentTaskId}.`);
+            }
+
+            log(`Subtask ${subtaskId} removed. Writing updates.`);
+            parentTask.updated = new Date().toISOString();
+        });
+    }
+
+    async deleteTask(taskId: string): Promise<void> {
+        await this.host.modifyTasksFile(file => {
+            const filteredTasks = file.tasks.filter(task => task.id.toString() !== taskId.toString());
+            if (filteredTasks.length === file.tasks.length) {
+                throw new Error(`Main task ${taskId} not found.`);
+            }
+
+            log(`Main task ${taskId} deleted. Writing updates.`);
+            file.tasks = filteredTasks;
+        });
+    }
+
+    /**
+     * Merge updates into a subtask of the given parent; returns false when the subtask doesn't exist
+     */
+    private applySubtaskUpdates(parent: any, subtaskId: string, fullSubtaskId: string, updates: Partial<Task>): boolean {
+        const subtaskIndex = (parent.subtasks || []).findIndex((st: any) =>
+            st.id.toString() === fullSubtaskId || st.id.toString() === subtaskId.toString()
+        );
+        if (subtaskIndex === -1) {
+            return false;
+        }
+
+        const updatedSubtask = {
+            ...parent.subtasks[subtaskIndex],
+            ...updates,
+            updated: new Date().toISOString()
+        };
+        if (updates.status) {
+            updatedSubtask.status = this.host.denormalizeStatus(updates.status);
+        }
+        parent.subtasks[subtaskIndex] = updatedSubtask;
+        parent.updated = new Date().toISOString();
+        return true;
+    }
+}
+
+function getQualifiedSubtaskId(parentTaskId: string, subtaskId: string): string {
+    const subId = subtaskId.toString();
+    return subId.includes('.') ? subId : `${parentTaskId}.${subId}`;
+}
+
+function withTag(args: string[], tag: string): string[] {
+    return tag !== 'master' ? [...args, '--tag', tag] : args;
+}
+
+function findTaskRecursive(items: any[], taskId: string): any | undefined {
+    for (const item of items) {
+        if (item.id.toString() === taskId.toString()) {
+            return item;
+        }
+        const found = item.subtasks ? findTaskRecursive(item.subtasks, taskId) : undefined;
+        if (found) {
+            return found;
+        }
+    }
+    return undefined;
+}
+
+function findSubtaskRecursive(items: any[], taskId: string): any | undefined {
+    for (const item of items) {
+        for (const subtask of item.subtasks || []) {
+            if (subtask.id.toString() === taskId.toString()) {
+                return subtask;
+            }
+        }
+        const found = item.subtasks ? findSubtaskRecursive(item.subtasks, taskId) : undefined;
+        if (found) {
+            return found;
+        }
+    }
+    return undefined;
+}
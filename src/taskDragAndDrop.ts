@@ -0,0 +1,136 @@
+import * as vscode from 'vscode';
+import { TaskItem } from './taskProvider';
+import { TaskMasterClient } from './taskMasterClient';
+import { Task, TaskMoveDestination } from './types';
+import { getParentTaskId, getQualifiedTaskId } from './dependencyUtils';
+import { TaskJournalEntry } from './undoJournal';
+import { log } from './logger';
+
+const treeMimeType = 'application/vnd.code.tree.claudetaskmastermainview';
+
+/**
+ * Moves tasks in the main view: dropping on a sibling reorders, dropping on another task makes the
+ * dragged task its subtask (or a sibling of a subtask), dropping on a section or empty space promotes it
+ */
+export class TaskDragAndDropController implements vscode.TreeDragAndDropController<TaskItem> {
+    public readonly dragMimeTypes = [treeMimeType];
+    public readonly dropMimeTypes = [treeMimeType];
+
+    constructor(
+        private readonly taskMasterClient: TaskMasterClient,
+        private readonly onDidMove: (message: string, undoTop: TaskJournalEntry | undefined) => void
+    ) {}
+
+    public handleDrag(source: readonly TaskItem[], dataTransfer: vscode.DataTransfer): void {
+        const taskIds = source
+            .filter(item => item.task)
+            .map(item => getQualifiedTaskId(item.task as Task, item.parentTaskId));
+        if (taskIds.length > 0) {
+            dataTransfer.set(treeMimeType, new vscode.DataTransferItem(taskIds));
+        }
+    }
+
+    public async handleDrop(target: TaskItem | undefined, dataTransfer: vscode.DataTransfer): Promise<void> {
+        const value = dataTransfer.get(treeMimeType)?.value;
+        const taskIds: string[] = Array.isArray(value) ? value.filter((id): id is string => typeof id === 'string') : [];
+        if (taskIds.length === 0) {
+            return;
+        }
+
+        const targetId = target?.task ? getQualifiedTaskId(target.task, target.parentTaskId) : undefined;
+        const movable = taskIds.filter(id => id !== targetId && !(targetId && targetId.startsWith(`${id}.`)));
+        if (movable.length === 0) {
+            return;
+        }
+
+        try {
+            const destination = await this.getDestination(movable[0] as string, targetId);
+            if (!destination) {
+                return;
+            }
+
+            const undoTop = this.taskMasterClient.getUndoJournal().peekUndo();
+            const moves: string[] = [];
+            let previousId: string | undefined;
+            for (const taskId of movable) {
+                // Later tasks follow the first one, in the order they were selected
+                const renamed = await this.taskMasterClient.moveTask(
+                    taskId,
+                    previousId ? { ...withoutSibling(destination), siblingId: previousId, after: true } : destination
+                );
+                previousId = renamed.get(taskId) || taskId;
+                moves.push(previousId === taskId ? taskId : `${taskId} → ${previousId}`);
+                log(`Moved task ${taskId} to ${previousId} (${JSON.stringify(destination)})`);
+            }
+
+            this.onDidMove(moves.some(move => move.includes('→'))
+                ? `已移动任务：${moves.join('，')}`
+                : `已调整任务 ${moves.join('，')} 的顺序`, undoTop);
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            log(`Moving tasks ${movable.join(', ')} failed: ${errorMessage}`);
+            vscode.window.showErrorMessage(`移动任务失败：${errorMessage}`);
+        }
+    }
+
+    /**
+     * Work out where a dropped task goes; asks when a main task is dropped on another main task,
+     * since that can mean either "reorder" or "make it a subtask"
+     */
+    private async getDestination(sourceId: string, targetId?: string): Promise<TaskMoveDestination | undefined> {
+        if (!targetId) {
+            return {};
+        }
+
+        const sourceParentId = sourceId.includes('.') ? getParentTaskId(sourceId) : undefined;
+        const targetParentId = targetId.includes('.') ? getParentTaskId(targetId) : undefined;
+
+        if (sourceParentId === targetParentId) {
+            const reorder = { ...(targetParentId ? { parentId: targetParentId } : {}), siblingId: targetId, after: await this.isBefore(sourceId, targetId) };
+            if (targetParentId) {
+                return reorder;
+            }
+
+            const choice = await vscode.window.showQuickPick([
+                { label: `$(list-ordered) 移动到任务 ${targetId} 的位置`, move: 'reorder' },
+                { label: `$(indent) 作为任务 ${targetId} 的子任务`, move: 'reparent' }
+            ], { placeHolder: `移动任务 ${sourceId}` });
+            if (!choice) {
+                return undefined;
+            }
+            return choice.move === 'reorder' ? reorder : { parentId: targetId };
+        }
+
+        // A subtask target means "next to it", a main task target means "into it"
+        return targetParentId ? { parentId: targetParentId, siblingId: targetId } : { parentId: targetId };
+    }
+
+    /**
+     * Whether the source comes before the target in their list, so taking the target's place means going after it
+     */
+    private async isBefore(sourceId: string, targetId: string): Promise<boolean> {
+        const tasks = await this.taskMasterClient.getTasks();
+        const parentId = sourceId.includes('.') ? getParentTaskId(sourceId) : undefined;
+        const ids = getSiblingIds(tasks, parentId);
+        return ids.indexOf(sourceId) < ids.indexOf(targetId);
+    }
+}
+
+/**
+ * Qualified IDs of a list of siblings, following the parent chain down from the main tasks
+ * @param parentId Qualified ID of the parent, such as "3.1"; undefined for the main tasks
+ */
+function getSiblingIds(tasks: Task[], parentId: string | undefined): string[] {
+    let list: Task[] = tasks;
+    let listParentId: string | undefined;
+    for (const part of parentId ? parentId.split('.') : []) {
+        const id = listParentId ? `${listParentId}.${part}` : part;
+        list = list.find(task => getQualifiedTaskId(task, listParentId) === id)?.subtasks || [];
+        listParentId = id;
+    }
+    return list.map(task => getQualifiedTaskId(task, parentId));
+}
+
+function withoutSibling(destination: TaskMoveDestination): TaskMoveDestination {
+    return destination.parentId !== undefined ? { parentId: destination.parentId } : {};
+}
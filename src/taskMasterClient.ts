@@ -4,7 +4,17 @@ import * as vscode from 'vscode';
 import { exec } from 'child_process';
 import { promisify } from 'util';
 import { log } from './logger';
-import { Task, TaskStatus } from './types';
+import { ProgressSnapshot, RawTask, RecommendationWeights, RenumberResult, TagContextInfo, Task, TaskMoveDestination, TaskRecommendation, TaskStatus, TaskTemplate } from './types';
+import { TaskSnapshot, createTaskSnapshot, findTaskInSnapshot } from './taskSnapshot';
+import { NewSubtask, NewTask, TaskBackend, TaskBackendName, TaskBackendOperations, TaskOperation, TasksFile, createTaskBackends, resolveBackendOrder } from './taskBackends';
+import { getTasksLockPath, withFileLock, writeFileAtomic } from './fileUtils';
+import { RawTaskState, TaskJournalEntry, UndoJournal } from './undoJournal';
+import { recommendNextTask, resolveRecommendationWeights } from './recommendationUtils';
+import { appendRawTasks, findCrossTagDependencies, findRawTask, findRawTaskIdsByTitle, moveRawTask, removeRawTasks, renumberRawTasks, transferRawTasks } from './restructureUtils';
+import { createTaskFromTemplate, loadTaskTemplates } from './templateUtils';
+import { readProgressHistory, recordProgressSnapshot } from './progressHistory';
+import { addActualTime } from './timeTrackingUtils';
+import { parseEstimatedHours } from './criticalPathUtils';
 // Optional import to prevent blocking extension load
 let MCPClientClass: any = null;
 
@@ -19,7 +29,7 @@ async function loadMCPClient() {
     }
     return MCPClientClass;
 }
-import { TagManager } from './tagManager';
+import { TagInfo, TagManager, TagProperties } from './tagManager';
 
 const execAsync = promisify(exec);
 
@@ -33,12 +43,27 @@ export class TaskMasterClient {
     private cliVersion: string | null = null; // Cache CLI version
     private mcpVersion: string | null = null; // Cache MCP version
     private versionCheckTimestamp: number = 0; // Track when version was last checked
+    private snapshot: TaskSnapshot | null = null; // Cached tasks for the current tag, see getSnapshot()
+    private snapshotLoad: { key: string; promise: Promise<TaskSnapshot> } | null = null; // In-flight load shared by concurrent readers
+    private backends: Record<TaskBackendName, TaskBackend>; // Write paths, tried in the configured backendOrder
+    private readonly MAX_WRITE_ATTEMPTS = 3; // Re-reads of tasks.json when it changes during a save
+    private journal = new UndoJournal(); // Undo/redo of task mutations made through this client
 
     constructor(taskmasterPath: string) {
         this.taskmasterPath = taskmasterPath;
         this.tasksPath = path.join(taskmasterPath, 'tasks');
         this.configPath = path.join(taskmasterPath, 'config.json');
         this.tagManager = new TagManager(taskmasterPath);
+        this.backends = createTaskBackends({
+            getTasksPath: () => path.join(this.tasksPath, 'tasks.json'),
+            isMCPServerAvailable: () => this.isMCPServerAvailable(),
+            getMCPClient: () => this.getMCPClient(),
+            isCLIInstalled: () => this.isTaskMasterInstalled(),
+            executeCLI: (command, args) => this.executeTaskMasterCLI(command, args),
+            modifyTasksFile: mutate => this.modifyTasksFile(mutate),
+            normalizeStatus: status => this.normalizeStatus(status),
+            denormalizeStatus: status => this.denormalizeStatus(status)
+        });
         log(`TaskMasterClient initialized for path: ${taskmasterPath}`);
     }
 
@@ -102,6 +127,90 @@ export class TaskMasterClient {
     }
 
     async getTasks(): Promise<Task[]> {
+        const snapshot = await this.getSnapshot();
+        // Callers may sort or filter the array, the frozen task objects stay shared
+        return [...snapshot.tasks];
+    }
+
+    /**
+     * Get the cached task snapshot for the current tag, reloading it when tasks.json,
+     * state.json or the current tag changed since it was built
+     */
+    async getSnapshot(): Promise<TaskSnapshot> {
+        const key = this.getSnapshotKey();
+        if (key && this.snapshot?.key === key) {
+            return this.snapshot;
+        }
+        if (key && this.snapshotLoad?.key === key) {
+            return this.snapshotLoad.promise;
+        }
+
+        const tag = this.tagManager.getCurrentTag();
+        const load = this.readTasks().then(tasks => {
+            const snapshot = createTaskSnapshot(tasks, tag, key);
+            // Only keep the snapshot when the files didn't change while reading
+            if (key && this.getSnapshotKey() === key) {
+                this.snapshot = snapshot;
+            }
+            log(`Built task snapshot for tag '${tag}' with ${snapshot.tasks.length} tasks (cache key: ${key || 'none'}).`);
+            return snapshot;
+        });
+
+        if (!key) {
+            return load;
+        }
+
+        this.snapshotLoad = { key, promise: load };
+        try {
+            return await load;
+        } finally {
+            if (this.snapshotLoad?.promise === load) {
+                this.snapshotLoad = null;
+            }
+        }
+    }
+
+    /**
+     * Get the current tasks with their ID indexes. Reuses the cached snapshot when getTasks()
+     * returned its tasks; otherwise (e.g. getTasks overridden by a subclass) indexes the result.
+     */
+    private async getIndexedTasks(): Promise<TaskSnapshot> {
+        const tasks = await this.getTasks();
+        const snapshot = this.snapshot;
+        if (snapshot && snapshot.tasks.length === tasks.length && tasks.every((task, index) => task === snapshot.tasks[index])) {
+            return snapshot;
+        }
+        return createTaskSnapshot(tasks, this.tagManager.getCurrentTag(), null, false);
+    }
+
+    /**
+     * Drop the cached snapshot so the next read goes back to MCP or the file system
+     */
+    invalidateSnapshot(): void {
+        if (this.snapshot || this.snapshotLoad) {
+            log('Task snapshot invalidated.');
+        }
+        this.snapshot = null;
+        this.snapshotLoad = null;
+    }
+
+    /**
+     * Fingerprint the task sources: current tag plus mtime and size of tasks.json and state.json.
+     * Returns null when tasks.json can't be stat'ed, which disables caching.
+     */
+    private getSnapshotKey(): string | null {
+        try {
+            const tasksStat = fs.statSync(path.join(this.tasksPath, 'tasks.json'));
+            const statePath = path.join(this.taskmasterPath, 'state.json');
+            const stateStat = fs.existsSync(statePath) ? fs.statSync(statePath) : null;
+            const stateKey = stateStat ? `${stateStat.mtimeMs}:${stateStat.size}` : 'none';
+            return `${this.tagManager.getCurrentTag()}|${tasksStat.mtimeMs}:${tasksStat.size}|${stateKey}`;
+        } catch {
+            return null;
+        }
+    }
+
+    private async readTasks(): Promise<Task[]> {
         try {
             // Try MCP client first if available
             if (await this.isMCPServerAvailable()) {
@@ -213,25 +322,7 @@ export class TaskMasterClient {
                 }
                 
                 log(`Parsed ${rawTasks.length} raw tasks from tasks.json.`);
-                
-                // Normalize status values and ensure proper structure
-                const normalizedTasks = rawTasks
-                    .filter((task: any) => task.id !== null && task.id !== undefined) // Filter out tasks without IDs
-                    .map((task: any) => ({
-                        ...task,
-                        id: task.id.toString(), // Ensure ID is string
-                        status: this.normalizeStatus(task.status || 'pending'),
-                        subtasks: task.subtasks ? task.subtasks
-                            .filter((subtask: any) => subtask.id !== null && subtask.id !== undefined) // Filter out subtasks without IDs
-                            .map((subtask: any) => ({
-                                ...subtask,
-                                id: subtask.id.toString(),
-                                status: this.normalizeStatus(subtask.status || 'pending')
-                            })) : []
-                    }));
-                
-                // Process hierarchy for dot-notation task IDs (e.g., 1.2.3)
-                return this.processTaskHierarchy(normalizedTasks);
+                return this.normalizeRawTasks(rawTasks);
             }
             log(`tasks.json not found at ${tasksJsonPath}. Falling back to individual files.`);
 
@@ -294,6 +385,30 @@ export class TaskMasterClient {
         }
     }
 
+    /**
+     * Turn raw tasks from tasks.json into Task objects: string IDs, extension status names, subtasks nested
+     */
+    private normalizeRawTasks(rawTasks: any[]): Task[] {
+        // Normalize status values and ensure proper structure
+        const normalizedTasks = rawTasks
+            .filter((task: any) => task.id !== null && task.id !== undefined) // Filter out tasks without IDs
+            .map((task: any) => ({
+                ...task,
+                id: task.id.toString(), // Ensure ID is string
+                status: this.normalizeStatus(task.status || 'pending'),
+                subtasks: task.subtasks ? task.subtasks
+                    .filter((subtask: any) => subtask.id !== null && subtask.id !== undefined) // Filter out subtasks without IDs
+                    .map((subtask: any) => ({
+                        ...subtask,
+                        id: subtask.id.toString(),
+                        status: this.normalizeStatus(subtask.status || 'pending')
+                    })) : []
+            }));
+
+        // Process hierarchy for dot-notation task IDs (e.g., 1.2.3)
+        return this.processTaskHierarchy(normalizedTasks);
+    }
+
     /**
      * Process task hierarchy to organize tasks with dot notation IDs (1.2.3) into proper parent-child relationships
      * Supports arbitrary nesting levels and properly handles deep hierarchies
@@ -504,125 +619,72 @@ export class TaskMasterClient {
             originalContainer.tasks = tasks;
         }
         
-        fs.writeFileSync(filePath, JSON.stringify(originalContainer, null, 2), 'utf8');
+        writeFileAtomic(filePath, JSON.stringify(originalContainer, null, 2));
+        this.invalidateSnapshot();
     }
 
-    async getTaskDetails(taskId: string, subtaskId?: string): Promise<Task | null> {
-        try {
-            log(`Getting task details for mainTaskId: ${taskId}, subtaskId: ${subtaskId || 'none'}`);
-            const tasks = await this.getTasks();
-            
-            // If we have both mainTaskId and subtaskId, look for the specific subtask
-            if (subtaskId) {
-                log(`Looking for subtask ${subtaskId} within main task ${taskId}`);
-                const mainTask = tasks.find(task => task.id.toString() === taskId.toString());
-                if (mainTask && mainTask.subtasks) {
-                    log(`Main task ${taskId} found with ${mainTask.subtasks.length} subtasks`);
-                    
-                    // Try multiple matching strategies for subtasks
-                    let subtask: Task | undefined;
-                    
-                    // Strategy 1: Exact ID match
-                    subtask = mainTask.subtasks.find(sub => sub.id.toString() === subtaskId.toString());
-                    if (subtask) {
-                        log(`Found subtask using exact ID match: ${subtaskId}`);
-                        return subtask;
-                    }
-                    
-                    // Strategy 2: Match using full dot notation (mainTaskId.subtaskId)
-                    const fullSubtaskId = `${taskId}.${subtaskId}`;
-                    subtask = mainTask.subtasks.find(sub => sub.id.toString() === fullSubtaskId);
-                    if (subtask) {
-                        log(`Found subtask using full dot notation: ${fullSubtaskId}`);
-                        return subtask;
-                    }
-                    
-                    // Strategy 3: For subtasks with dot notation IDs, match the suffix
-                    subtask = mainTask.subtasks.find(sub => {
-                        const subId = sub.id.toString();
-                        if (subId.includes('.')) {
-                            const suffix = subId.split('.').slice(1).join('.');
-                            return suffix === subtaskId.toString();
-                        }
-                        return false;
-                    });
-                    if (subtask) {
-                        log(`Found subtask using suffix match: ${subtask.id}`);
-                        return subtask;
-                    }
-                    
-                    log(`Subtask ${subtaskId} not found in main task ${taskId}. Available subtasks: ${mainTask.subtasks.map(s => s.id).join(', ')}`);
-                } else if (!mainTask) {
-                    log(`Main task ${taskId} not found`);
-                } else {
-                    log(`Main task ${taskId} has no subtasks`);
-                }
-                return null;
+    /**
+     * Read tasks.json, apply a mutation and write the result atomically while holding .taskmaster/tasks.lock.
+     * If another writer (CLI, agent) changed the file after it was read, the mutation is re-applied to the new content.
+     */
+    private async modifyTasksFile(mutate: (file: TasksFile) => void): Promise<void> {
+        const tasksJsonPath = path.join(this.tasksPath, 'tasks.json');
+
+        for (let attempt = 1; attempt <= this.MAX_WRITE_ATTEMPTS; attempt++) {
+            if (!fs.existsSync(tasksJsonPath)) {
+                throw new Error('tasks.json not found');
             }
-            
-            // If no subtaskId, look for the main task or handle dot notation
-            if (taskId.includes('.')) {
-                // Handle dot notation like "1.2" - split into mainTaskId and subtaskId
-                const parts = taskId.split('.');
-                const mainTaskId = parts[0] || '';
-                const subtaskIdFromDot = parts.slice(1).join('.');
-                
-                log(`Dot notation detected: mainTaskId=${mainTaskId}, subtaskId=${subtaskIdFromDot}`);
-                
-                if (mainTaskId) {
-                    const mainTask = tasks.find(task => task.id.toString() === mainTaskId.toString());
-                    if (mainTask && mainTask.subtasks && subtaskIdFromDot) {
-                        // For subtasks, we need to find by the full dotted ID or just the subtask part
-                        const subtask = mainTask.subtasks.find(sub => 
-                            sub.id.toString() === taskId.toString() || 
-                            sub.id.toString() === subtaskIdFromDot.toString()
-                        );
-                        if (subtask) {
-                            log(`Found subtask with dot notation: ${taskId}`);
-                            return subtask;
-                        }
-                    }
+
+            const originalContent = fs.readFileSync(tasksJsonPath, 'utf8');
+            const container = JSON.parse(originalContent);
+            const { tasks, isTaggedFormat, currentTag } = this.extractTasksFromContainer(container);
+            const file: TasksFile = { tasks, isTaggedFormat, currentTag, container, filePath: tasksJsonPath };
+            mutate(file);
+
+            const written = await withFileLock(getTasksLockPath(this.taskmasterPath), () => {
+                if (fs.readFileSync(tasksJsonPath, 'utf8') !== originalContent) {
+                    return false;
                 }
-                log(`Task with dot notation ${taskId} not found`);
-                return null;
-            }
-            
-            // Look for main task with the given ID
-            const mainTask = tasks.find(task => task.id.toString() === taskId.toString());
-            if (mainTask) {
-                log(`Found main task with ID: ${taskId}`);
-                return mainTask;
+                this.writeTasksToContainer(file.tasks, file.isTaggedFormat, file.currentTag, file.container, tasksJsonPath);
+                return true;
+            });
+            if (written) {
+                return;
             }
-            
-            // Legacy fallback: search all subtasks recursively (for backwards compatibility)
-            const findSubtaskById = (searchTasks: Task[]): Task | undefined => {
-                for (const task of searchTasks) {
-                    if (task.subtasks && task.subtasks.length > 0) {
-                        const foundInSubtasks = task.subtasks.find(subtask => 
-                            subtask.id.toString() === taskId.toString()
-                        );
-                        if (foundInSubtasks) {
-                            return foundInSubtasks;
-                        }
-                        // Recursively search deeper levels
-                        const foundDeeper = findSubtaskById(task.subtasks);
-                        if (foundDeeper) {
-                            return foundDeeper;
-                        }
-                    }
-                }
-                return undefined;
-            };
+            log(`tasks.json changed since it was read, re-applying the change (attempt ${attempt})`);
+        }
+
+        throw new Error('tasks.json kept changing while saving, please try again');
+    }
+
+    /**
+     * Raw task list of a tag in a tasks file being modified
+     * @param tag Tag name (default: the file's current tag)
+     * @throws Error when the tag doesn't exist
+     */
+    private getTagTaskList(file: TasksFile, tag?: string): any[] {
+        if (!tag || tag === file.currentTag) {
+            return file.tasks;
+        }
+        const tags = file.container.tags && typeof file.container.tags === 'object' ? file.container.tags : file.container;
+        if (!file.isTaggedFormat || !Array.isArray(tags[tag]?.tasks)) {
+            throw new Error(`Tag ${tag} not found.`);
+        }
+        return tags[tag].tasks;
+    }
 
-            const foundSubtask = findSubtaskById(tasks);
+    async getTaskDetails(taskId: string, subtaskId?: string): Promise<Task | null> {
+        try {
+            log(`Getting task details for mainTaskId: ${taskId}, subtaskId: ${subtaskId || 'none'}`);
+            const snapshot = await this.getIndexedTasks();
+            const task = findTaskInSnapshot(snapshot, taskId, subtaskId);
             
-            if (foundSubtask) {
-                log(`Found subtask with ID: ${taskId} (legacy search)`);
+            if (task) {
+                log(`Found task ${task.id} for lookup ${taskId}${subtaskId ? ` / ${subtaskId}` : ''}`);
             } else {
-                log(`Task with ID: ${taskId} not found.`);
+                log(`Task ${taskId}${subtaskId ? ` / subtask ${subtaskId}` : ''} not found.`);
             }
-            return foundSubtask || null;
-
+            return task;
         } catch (error) {
             const errorMessage = error instanceof Error ? error.message : String(error);
             log(`Error getting task details for ${taskId}: ${errorMessage}`);
@@ -632,241 +694,321 @@ export class TaskMasterClient {
 
     async setTaskStatus(taskId: string, status: TaskStatus): Promise<void> {
         log(`Setting status for task ${taskId} to ${status}`);
-        try {
-            // Try MCP client first if available
-            if (await this.isMCPServerAvailable()) {
-                try {
-                    const currentTag = this.tagManager.getCurrentTag();
-                    log(`Using MCP client to set task status for tag: ${currentTag}`);
-                    const mcpClient = await this.getMCPClient();
-                    await mcpClient.setTaskStatus(taskId, status, currentTag);
-                    return;
-                } catch (error) {
-                    log(`MCP setTaskStatus failed, falling back to file operations: ${error}`);
-                }
-            }
+        await this.recordMutation(`任务 ${taskId} 状态改为 ${status}`, ...this.getJournalTarget(taskId), () =>
+            this.runBackendOperation('setTaskStatus', [taskId, status, this.tagManager.getCurrentTag()])
+        );
+    }
 
-            // Fallback to file operations
-            const tasksJsonPath = path.join(this.tasksPath, 'tasks.json');
-            if (!fs.existsSync(tasksJsonPath)) {
-                throw new Error('tasks.json not found');
-            }
+    async updateTask(taskId: string, updates: Partial<Task>): Promise<void> {
+        log(`Updating task ${taskId} with properties: ${Object.keys(updates).join(', ')}`);
+        await this.recordMutation(`编辑任务 ${taskId}`, taskId, undefined, () =>
+            this.runBackendOperation('updateTask', [taskId, updates])
+        );
+    }
+
+    /**
+     * Set the status of a specific subtask within a parent task
+     * This method ensures we update the correct subtask by requiring both parent and subtask IDs
+     */
+    async setSubtaskStatus(parentTaskId: string, subtaskId: string, status: TaskStatus): Promise<void> {
+        log(`Setting status for subtask ${subtaskId} in parent task ${parentTaskId} to ${status}`);
+        await this.recordMutation(`子任务 ${subtaskId} 状态改为 ${status}`, parentTaskId, subtaskId, () =>
+            this.runBackendOperation('setSubtaskStatus', [parentTaskId, subtaskId, status, this.tagManager.getCurrentTag()])
+        );
+    }
 
-            const tasksData = fs.readFileSync(tasksJsonPath, 'utf8');
-            const tasksContainer = JSON.parse(tasksData);
-            const { tasks, isTaggedFormat, currentTag } = this.extractTasksFromContainer(tasksContainer);
+    /**
+     * Move a task or subtask to another position or parent, rewriting IDs and dependencies (see moveRawTask)
+     * @param taskId Qualified ID of the task to move
+     * @param destination New parent and position
+     * @returns Old to new qualified IDs of the tasks that were renumbered
+     */
+    async moveTask(taskId: string, destination: TaskMoveDestination): Promise<Map<string, string>> {
+        return this.moveTaskWithLabel(`移动任务 ${taskId}`, taskId, destination);
+    }
 
-            let taskUpdated = false;
+    /**
+     * Turn a subtask into a main task placed right after its former parent, keeping all of its fields
+     * @param subtaskId Qualified subtask ID ("3.2")
+     * @returns The new main task ID
+     */
+    async promoteSubtask(subtaskId: string): Promise<string> {
+        const parentId = subtaskId.split('.').slice(0, -1).join('.');
+        if (!parentId) {
+            throw new Error(`${subtaskId} is not a subtask ID`);
+        }
+        const renamed = await this.moveTaskWithLabel(`子任务 ${subtaskId} 提升为任务`, subtaskId, { siblingId: parentId, after: true });
+        return renamed.get(subtaskId) || subtaskId;
+    }
 
-            // First try to update main tasks (to prioritize main tasks over subtasks with same ID)
-            for (const task of tasks) {
-                if (task.id.toString() === taskId.toString()) {
-                    task.status = this.denormalizeStatus(status) as any;
-                    task.updated = new Date().toISOString();
-                    taskUpdated = true;
-                    break;
-                }
-            }
+    /**
+     * Turn a main task into the last subtask of another task, keeping all of its fields
+     * @param taskId Main task ID
+     * @param parentTaskId Main task ID of the new parent
+     * @returns The new qualified subtask ID
+     */
+    async demoteTask(taskId: string, parentTaskId: string): Promise<string> {
+        const renamed = await this.moveTaskWithLabel(`任务 ${taskId} 降级为任务 ${parentTaskId} 的子任务`, taskId, { parentId: parentTaskId });
+        return renamed.get(taskId) || taskId;
+    }
 
-            // If main task not found, search subtasks recursively
-            if (!taskUpdated) {
-                const updateSubtaskRecursive = (items: Task[]) => {
-                    for (const item of items) {
-                        if (item.subtasks) {
-                            for (const subtask of item.subtasks) {
-                                if (subtask.id.toString() === taskId.toString()) {
-                                    subtask.status = this.denormalizeStatus(status) as any;
-                                    subtask.updated = new Date().toISOString();
-                                    taskUpdated = true;
-                                    return;
-                                }
-                            }
-                            if (!taskUpdated) {
-                                updateSubtaskRecursive(item.subtasks);
-                                if (taskUpdated) {
-                                    return;
-                                }
-                            }
-                        }
-                    }
-                };
-                
-                updateSubtaskRecursive(tasks);
-            }
+    private async moveTaskWithLabel(label: string, taskId: string, destination: TaskMoveDestination): Promise<Map<string, string>> {
+        log(`Moving task ${taskId} to ${JSON.stringify(destination)}`);
+        let renamed = new Map<string, string>();
+        await this.recordTagMutation(label, taskId, () => this.modifyTasksFile(file => {
+            renamed = moveRawTask(file.tasks, taskId, destination);
+        }));
+        return renamed;
+    }
 
-            if (taskUpdated) {
-                log(`Task ${taskId} found and status updated. Writing back to tasks.json.`);
-                this.writeTasksToContainer(tasks, isTaggedFormat, currentTag, tasksContainer, tasksJsonPath);
-            } else {
-                log(`Task with ID ${taskId} not found for status update.`);
-                throw new Error(`Task with ID ${taskId} not found.`);
+    /**
+     * Set the status of several tasks and subtasks with a single write to tasks.json
+     * @param taskIds Qualified IDs ("3" or "3.2")
+     * @param status The new status
+     */
+    async setTasksStatus(taskIds: string[], status: TaskStatus): Promise<void> {
+        log(`Setting status of tasks ${taskIds.join(', ')} to ${status}`);
+        await this.recordTagMutation(`${taskIds.length} 个任务状态改为 ${status}`, taskIds.join(', '), () => this.modifyTasksFile(file => {
+            const updated = new Date().toISOString();
+            for (const taskId of taskIds) {
+                const task = findRawTask(file.tasks, taskId);
+                if (!task) {
+                    throw new Error(`Task ${taskId} not found.`);
+                }
+                task.status = this.denormalizeStatus(status);
+                task.updated = updated;
             }
-        } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            log(`Error in setTaskStatus for ${taskId}: ${errorMessage}`);
-            throw error;
-        }
+        }));
     }
 
-    async updateTask(taskId: string, updates: Partial<Task>): Promise<void> {
-        log(`Updating task ${taskId} with properties: ${Object.keys(updates).join(', ')}`);
-        try {
-            // Try MCP client first if available (if it supports generic task updates)
-            if (await this.isMCPServerAvailable()) {
-                try {
-                    const currentTag = this.tagManager.getCurrentTag();
-                    log(`Using MCP client to update task for tag: ${currentTag}`);
-                    // const mcpClient = await this.getMCPClient();
-                    
-                    // For now, MCP client doesn't have a generic updateTask method
-                    // Fall back to file operations
-                    log(`MCP client doesn't support generic task updates, falling back to file operations`);
-                } catch (error) {
-                    log(`MCP updateTask failed, falling back to file operations: ${error}`);
+    /**
+     * Apply the same updates to several tasks and subtasks with a single write to tasks.json
+     * @param taskIds Qualified IDs ("3" or "3.2")
+     * @param updates Properties to set on every task
+     */
+    async updateTasks(taskIds: string[], updates: Partial<Task>): Promise<void> {
+        log(`Updating tasks ${taskIds.join(', ')} with properties: ${Object.keys(updates).join(', ')}`);
+        await this.recordTagMutation(`编辑 ${taskIds.length} 个任务`, taskIds.join(', '), () => this.modifyTasksFile(file => {
+            for (const taskId of taskIds) {
+                const task = findRawTask(file.tasks, taskId);
+                if (!task) {
+                    throw new Error(`Task ${taskId} not found.`);
                 }
+                Object.assign(task, updates);
             }
+        }));
+    }
 
-            // File operations
-            const tasksJsonPath = path.join(this.tasksPath, 'tasks.json');
-            if (!fs.existsSync(tasksJsonPath)) {
-                throw new Error('tasks.json not found');
-            }
+    /**
+     * Delete several tasks and subtasks with a single write to tasks.json
+     * @param taskIds Qualified IDs ("3" or "3.2"); subtasks of deleted tasks may be included
+     * @returns Qualified IDs that were deleted
+     */
+    async deleteTasks(taskIds: string[]): Promise<string[]> {
+        log(`Deleting tasks ${taskIds.join(', ')}`);
+        let removed: string[] = [];
+        await this.recordTagMutation(`删除 ${taskIds.length} 个任务`, taskIds.join(', '), () => this.modifyTasksFile(file => {
+            removed = removeRawTasks(file.tasks, taskIds);
+        }));
+        return removed;
+    }
 
-            const tasksData = fs.readFileSync(tasksJsonPath, 'utf8');
-            const tasksContainer = JSON.parse(tasksData);
-            const { tasks, isTaggedFormat, currentTag } = this.extractTasksFromContainer(tasksContainer);
-
-            let taskUpdated = false;
-
-            // Find and update the main task
-            for (const task of tasks) {
-                if (task.id.toString() === taskId.toString()) {
-                    // Apply all updates to the task
-                    Object.assign(task, updates);
-                    // Always update the timestamp
-                    task.updated = new Date().toISOString();
-                    taskUpdated = true;
-                    break;
-                }
-            }
+    /**
+     * Move tasks and subtasks from the current tag to another tag with a single write (see transferRawTasks).
+     * Not journaled for undo, since the change spans two tags.
+     * @param taskIds Qualified IDs in the current tag
+     * @param targetTag Name of an existing tag
+     * @param keepCrossTagDependencies Leave dependencies between moved and remaining tasks as written instead of dropping them
+     * @returns Qualified IDs in the current tag to qualified IDs in the target tag
+     */
+    async moveTasksToTag(taskIds: string[], targetTag: string, keepCrossTagDependencies = false): Promise<Map<string, string>> {
+        log(`Moving tasks ${taskIds.join(', ')} to tag ${targetTag}`);
+        return this.transferTasksToTag(taskIds, targetTag, { keepCrossTagDependencies });
+    }
 
-            if (taskUpdated) {
-                log(`Task ${taskId} found and updated. Writing back to tasks.json.`);
-                this.writeTasksToContainer(tasks, isTaggedFormat, currentTag, tasksContainer, tasksJsonPath);
-            } else {
-                log(`Task with ID ${taskId} not found for update.`);
-                throw new Error(`Task with ID ${taskId} not found.`);
-            }
-        } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            log(`Error in updateTask for ${taskId}: ${errorMessage}`);
-            throw error;
+    /**
+     * Copy tasks and subtasks from the current tag to another tag, leaving the current tag unchanged
+     * @param taskIds Qualified IDs in the current tag
+     * @param targetTag Name of an existing tag
+     * @param keepCrossTagDependencies Leave dependencies on tasks that aren't copied as written instead of dropping them
+     * @returns Qualified IDs in the current tag to qualified IDs of the copies in the target tag
+     */
+    async copyTasksToTag(taskIds: string[], targetTag: string, keepCrossTagDependencies = false): Promise<Map<string, string>> {
+        log(`Copying tasks ${taskIds.join(', ')} to tag ${targetTag}`);
+        return this.transferTasksToTag(taskIds, targetTag, { copy: true, keepCrossTagDependencies });
+    }
+
+    /**
+     * List the dependencies that moving or copying tasks to another tag would leave pointing across tags
+     * @param taskIds Qualified IDs in the current tag
+     * @param copy Whether the tasks will be copied rather than moved
+     * @returns "taskId → dependency" for each such dependency
+     */
+    async getCrossTagDependencies(taskIds: string[], copy: boolean): Promise<string[]> {
+        const state = this.readRawTagState();
+        return state ? findCrossTagDependencies(state.raw, taskIds, copy) : [];
+    }
+
+    private async transferTasksToTag(
+        taskIds: string[],
+        targetTag: string,
+        options: { copy?: boolean; keepCrossTagDependencies?: boolean }
+    ): Promise<Map<string, string>> {
+        let transferred = new Map<string, string>();
+        await this.modifyTasksFile(file => {
+            if (!file.isTaggedFormat) {
+                throw new Error('tasks.json has no tags to move tasks between');
+            }
+            if (targetTag === file.currentTag) {
+                throw new Error(`Tasks are already in tag ${targetTag}`);
+            }
+            const tags = file.container.tags && typeof file.container.tags === 'object' ? file.container.tags : file.container;
+            const target = tags[targetTag];
+            if (!target || !Array.isArray(target.tasks)) {
+                throw new Error(`Tag ${targetTag} not found.`);
+            }
+            transferred = transferRawTasks(file.tasks, target.tasks, taskIds, options);
+        });
+        return transferred;
+    }
+
+    /**
+     * Work out how renumberTasks would change the current tag's IDs, without writing anything
+     * @returns The IDs that would change and the dependencies that would be dropped
+     */
+    async previewRenumbering(): Promise<RenumberResult> {
+        const state = this.readRawTagState();
+        if (!state) {
+            throw new Error('tasks.json could not be read');
         }
+        return renumberRawTasks(state.raw);
     }
 
     /**
-     * Set the status of a specific subtask within a parent task
-     * This method ensures we update the correct subtask by requiring both parent and subtask IDs
+     * Give the current tag's tasks and subtasks sequential IDs and rewrite every dependency (see renumberRawTasks)
+     * @returns The IDs that changed and the dependencies that were dropped
      */
-    async setSubtaskStatus(parentTaskId: string, subtaskId: string, status: TaskStatus): Promise<void> {
-        log(`Setting status for subtask ${subtaskId} in parent task ${parentTaskId} to ${status}`);
-        try {
-            // Try MCP client first if available
-            if (await this.isMCPServerAvailable()) {
-                try {
-                    const currentTag = this.tagManager.getCurrentTag();
-                    log(`Using MCP client to set subtask status for tag: ${currentTag}`);
-                    // For MCP, we can use the existing setTaskStatus method since MCP handles the context
-                    const mcpClient = await this.getMCPClient();
-                    await mcpClient.setTaskStatus(subtaskId, status, currentTag);
-                    return;
-                } catch (error) {
-                    log(`MCP setSubtaskStatus failed, falling back to file operations: ${error}`);
-                }
-            }
+    async renumberTasks(): Promise<RenumberResult> {
+        log('Renumbering tasks in the current tag');
+        let result: RenumberResult = { renamed: new Map(), droppedDependencies: [] };
+        await this.recordTagMutation('重新编号任务', '*', () => this.modifyTasksFile(file => {
+            result = renumberRawTasks(file.tasks);
+        }));
+        return result;
+    }
 
-            // Fallback to file operations
-            const tasksJsonPath = path.join(this.tasksPath, 'tasks.json');
-            if (!fs.existsSync(tasksJsonPath)) {
-                throw new Error('tasks.json not found');
+    /**
+     * Get the tasks of every tag. The current tag comes from getTasks, the others are read from tasks.json.
+     * @returns Tag names in file order with their tasks; a file without tags gives just the current tag
+     */
+    async getTasksOfAllTags(): Promise<Map<string, Task[]>> {
+        const currentTag = this.tagManager.getCurrentTag();
+        const result = new Map<string, Task[]>();
+        const tasksJsonPath = path.join(this.tasksPath, 'tasks.json');
+        if (this.tagManager.isTaggedFormat() && fs.existsSync(tasksJsonPath)) {
+            const container = JSON.parse(fs.readFileSync(tasksJsonPath, 'utf8'));
+            const tags = container.tags && typeof container.tags === 'object' ? container.tags : container;
+            for (const [tagName, tagData] of Object.entries<any>(tags)) {
+                if (Array.isArray(tagData?.tasks)) {
+                    result.set(tagName, tagName === currentTag ? await this.getTasks() : this.normalizeRawTasks(tagData.tasks));
+                }
             }
+        }
+        if (!result.has(currentTag)) {
+            result.set(currentTag, await this.getTasks());
+        }
+        return result;
+    }
 
-            const tasksData = fs.readFileSync(tasksJsonPath, 'utf8');
-            const tasksContainer = JSON.parse(tasksData);
-            const { tasks, isTaggedFormat, currentTag } = this.extractTasksFromContainer(tasksContainer);
+    /**
+     * Append imported tasks and subtasks to the current tag as one undo step (see appendRawTasks)
+     * @param tasks Tasks from parseTaskImport, not changed
+     * @returns IDs in the imported file to qualified IDs in the tag
+     */
+    async importTasks(tasks: RawTask[]): Promise<Map<string, string>> {
+        log(`Importing ${tasks.length} tasks into the current tag`);
+        let imported = new Map<string, string>();
+        await this.recordTagMutation(`导入 ${tasks.length} 个任务`, '*', () => this.modifyTasksFile(file => {
+            imported = appendRawTasks(file.tasks, JSON.parse(JSON.stringify(tasks)));
+        }));
+        return imported;
+    }
 
-            // Find the parent task
-            const parentTask = tasks.find(task => task.id.toString() === parentTaskId.toString());
-            if (!parentTask) {
-                throw new Error(`Parent task with ID ${parentTaskId} not found.`);
-            }
+    /**
+     * Folder that holds the task templates, .taskmaster/templates
+     */
+    getTemplatesPath(): string {
+        return path.join(this.taskmasterPath, 'templates');
+    }
 
-            // Find the subtask within the parent
-            if (!parentTask.subtasks) {
-                throw new Error(`Parent task ${parentTaskId} has no subtasks.`);
-            }
+    /**
+     * Read the task templates; files that aren't valid templates are logged and left out
+     */
+    getTaskTemplates(): TaskTemplate[] {
+        const { templates, errors } = loadTaskTemplates(this.getTemplatesPath());
+        for (const error of errors) {
+            log(`Skipping task template ${error}`);
+        }
+        return templates;
+    }
 
-            const subtask = parentTask.subtasks.find((st: Task) => st.id.toString() === subtaskId.toString());
-            if (!subtask) {
-                throw new Error(`Subtask with ID ${subtaskId} not found in parent task ${parentTaskId}.`);
-            }
+    /**
+     * Add a task with its subtasks from a template, written straight to tasks.json since no AI is involved
+     * @param values Placeholder values
+     * @param options Tag to add the task to (default: current tag) and dependencies of the new task
+     * @returns ID of the new task
+     */
+    async addTaskFromTemplate(
+        template: TaskTemplate,
+        values: Record<string, string>,
+        options: { tag?: string; dependencies?: string[] } = {}
+    ): Promise<string> {
+        let newId = 0;
+        await this.recordTagMutation(`从模板 ${template.name} 添加任务`, '*', () => this.modifyTasksFile(file => {
+            const tasks = this.getTagTaskList(file, options.tag);
+            newId = Math.max(0, ...tasks.map(task => Number(task.id)).filter(id => Number.isFinite(id))) + 1;
+            const task = createTaskFromTemplate(template, values, newId);
+            task.dependencies = (options.dependencies || []).map(dependency => /^\d+$/.test(dependency) ? Number(dependency) : dependency);
+            tasks.push(task);
+        }), options.tag);
+        log(`Task ${newId} added from template ${template.name} (tag: ${options.tag || this.tagManager.getCurrentTag()})`);
+        return newId.toString();
+    }
 
-            // Update the subtask status
-            subtask.status = this.denormalizeStatus(status) as any;
-            subtask.updated = new Date().toISOString();
-            
-            // Also update the parent task's updated timestamp
-            parentTask.updated = new Date().toISOString();
+    /**
+     * Get the task or subtask to work on next, see recommendNextTask
+     */
+    async getNextTask(): Promise<Task | null> {
+        const recommendation = await this.getNextRecommendation();
+        return recommendation ? recommendation.task : null;
+    }
 
-            log(`Subtask ${subtaskId} in parent ${parentTaskId} found and status updated. Writing back to tasks.json.`);
-            this.writeTasksToContainer(tasks, isTaggedFormat, currentTag, tasksContainer, tasksJsonPath);
+    /**
+     * Get the next task together with its score and the reasons it was picked
+     */
+    async getNextRecommendation(): Promise<TaskRecommendation | null> {
+        try {
+            const snapshot = await this.getIndexedTasks();
+            const recommendation = recommendNextTask([...snapshot.tasks], this.getRecommendationWeights());
+            log(recommendation
+                ? `Next task recommendation: ${recommendation.id} (score ${recommendation.score})`
+                : 'No task is ready to be recommended');
+            return recommendation;
         } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            log(`Error in setSubtaskStatus for subtask ${subtaskId} in parent ${parentTaskId}: ${errorMessage}`);
-            throw error;
+            console.error('Error getting next task:', error);
+            return null;
         }
     }
 
-    async getNextTask(): Promise<Task | null> {
-        try {
-            const tasks = await this.getTasks();
-            
-            // Filter tasks that are not completed and have no pending dependencies
-            const availableTasks = tasks.filter(task => {
-                if (task.status === 'completed') {
-                    return false;
-                }
-                
-                // Check if all dependencies are completed
-                if (task.dependencies && task.dependencies.length > 0) {
-                    const dependencies = task.dependencies.map(depId => 
-                        tasks.find(t => t.id.toString() === depId.toString())
-                    );
-                    
-                    if (dependencies.some(dep => !dep || dep.status !== 'completed')) {
-                        return false;
-                    }
-                }
-                
-                return true;
-            });
-
-            // Sort by priority and return the first one
-            availableTasks.sort((a, b) => {
-                const priorityOrder = { 'critical': 4, 'high': 3, 'medium': 2, 'low': 1 };
-                const aPriority = priorityOrder[a.priority as keyof typeof priorityOrder] || 0;
-                const bPriority = priorityOrder[b.priority as keyof typeof priorityOrder] || 0;
-                return bPriority - aPriority;
-            });
-
-            return availableTasks[0] || null;
-        } catch (error) {
-            console.error('Error getting next task:', error);
-            return null;
-        }
-    }
-
-    async getTasksByStatus(status: Task['status']): Promise<Task[]> {
+    /**
+     * Score weights from the claudeTaskMaster.recommendationWeights setting
+     */
+    getRecommendationWeights(): RecommendationWeights {
+        const config = vscode.workspace.getConfiguration('claudeTaskMaster');
+        return resolveRecommendationWeights(config.get<Partial<RecommendationWeights>>('recommendationWeights'));
+    }
+
+    async getTasksByStatus(status: Task['status']): Promise<Task[]> {
         try {
             const tasks = await this.getTasks();
             return tasks.filter(task => task.status === status);
@@ -1008,6 +1150,80 @@ export class TaskMasterClient {
         };
     }
 
+    /**
+     * Add tracked time to a task's actualTime, written straight to tasks.json as one undo step
+     * @param taskId Qualified ID in the current tag, "3" or "3.1"
+     * @param hours Time to add
+     * @param title Title of the task when timing started. The task is found by title when its ID now belongs
+     * to another task, e.g. after renumbering
+     * @returns The ID the time was recorded on and the new actualTime
+     * @throws Error when the task no longer exists
+     */
+    async recordActualTime(taskId: string, hours: number, title?: string): Promise<{ taskId: string; actualTime: string }> {
+        const hoursPerDay = vscode.workspace.getConfiguration('claudeTaskMaster').get<number>('hoursPerDay', 8);
+        const targetId = title === undefined ? taskId : this.findTaskByTitle(taskId, title);
+        let actualTime = '';
+        await this.recordMutation(`记录任务 ${targetId} 的用时`, ...this.getJournalTarget(targetId), () => this.modifyTasksFile(file => {
+            const task = findRawTask(file.tasks, targetId);
+            if (!task || (title !== undefined && task.title !== title)) {
+                throw new Error(`Task ${taskId} not found`);
+            }
+            if (task.actualTime && parseEstimatedHours(task.actualTime, hoursPerDay) === undefined) {
+                log(`Replacing actualTime "${task.actualTime}" of task ${taskId}, it is not a duration`);
+            }
+            actualTime = addActualTime(task.actualTime, hours, hoursPerDay);
+            task.actualTime = actualTime;
+            task.updated = new Date().toISOString();
+        }));
+        log(`Recorded ${hours.toFixed(2)}h on task ${targetId}, actualTime is now ${actualTime}`);
+        return { taskId: targetId, actualTime };
+    }
+
+    /**
+     * Get the ID of a task in the current tag: the given ID while it still has this title, otherwise the only task with the title
+     * @throws Error when no task, or more than one, has the title
+     */
+    private findTaskByTitle(taskId: string, title: string): string {
+        const tasks = this.readRawTagState()?.raw || [];
+        if (findRawTask(tasks, taskId)?.title === title) {
+            return taskId;
+        }
+        const [match, ...others] = findRawTaskIdsByTitle(tasks, title);
+        if (!match || others.length > 0) {
+            throw new Error(`Task ${taskId} "${title}" not found`);
+        }
+        log(`Task ${taskId} "${title}" is now task ${match}`);
+        return match;
+    }
+
+    /**
+     * Folder that holds the daily progress snapshots, .taskmaster/history
+     */
+    getProgressHistoryPath(): string {
+        return path.join(this.taskmasterPath, 'history');
+    }
+
+    /**
+     * Record today's progress of the current tag (see recordProgressSnapshot in progressHistory)
+     * @returns True when the history changed
+     */
+    async recordProgressSnapshot(): Promise<boolean> {
+        const tag = this.getTagContext().currentTag;
+        const written = recordProgressSnapshot(this.getProgressHistoryPath(), tag, await this.getTaskProgress());
+        if (written) {
+            log(`Recorded progress snapshot for tag ${tag}`);
+        }
+        return written;
+    }
+
+    /**
+     * Read the progress snapshots of a tag
+     * @param tag Tag to read (default: current tag)
+     */
+    getProgressHistory(tag: string = this.getTagContext().currentTag): ProgressSnapshot[] {
+        return readProgressHistory(this.getProgressHistoryPath(), tag);
+    }
+
     getTaskmasterPath(): string {
         return this.taskmasterPath;
     }
@@ -1063,8 +1279,8 @@ export class TaskMasterClient {
     async getSubtasks(parentTaskId: string): Promise<Task[]> {
         log(`Getting subtasks for parent ${parentTaskId}`);
         try {
-            const tasks = await this.getTasks();
-            const parentTask = tasks.find(task => task.id.toString() === parentTaskId.toString());
+            const snapshot = await this.getIndexedTasks();
+            const parentTask = snapshot.tasksById.get(parentTaskId.toString());
             
             if (!parentTask) {
                 throw new Error(`Parent task ${parentTaskId} not found`);
@@ -1088,63 +1304,9 @@ export class TaskMasterClient {
      * @param parentTaskId The ID of the parent task
      * @param subtask The subtask object to add
      */
-    async addSubtask(parentTaskId: string, subtask: Omit<Task, 'id'> & { id?: string }): Promise<void> {
+    async addSubtask(parentTaskId: string, subtask: NewSubtask): Promise<void> {
         log(`Adding subtask to parent ${parentTaskId}`);
-        try {
-            const tasksJsonPath = path.join(this.tasksPath, 'tasks.json');
-            if (!fs.existsSync(tasksJsonPath)) {
-                throw new Error('tasks.json not found');
-            }
-
-                const tasksData = fs.readFileSync(tasksJsonPath, 'utf8');
-            const tasksContainer = JSON.parse(tasksData);
-            const { tasks, isTaggedFormat, currentTag } = this.extractTasksFromContainer(tasksContainer);
-
-            // Find parent task recursively
-            const findParent = (items: Task[]): Task | undefined => {
-                for (const item of items) {
-                    if (item.id.toString() === parentTaskId.toString()) {
-                        return item;
-                    }
-                    if (item.subtasks) {
-                        const found = findParent(item.subtasks);
-                        if (found) {
-                            return found;
-                        }
-                    }
-                }
-                return undefined;
-            };
-
-            const parentTask = findParent(tasks);
-
-            if (parentTask) {
-                if (!parentTask.subtasks) {
-                    parentTask.subtasks = [];
-                }
-                
-                // Generate new subtask ID (simple integer, not dotted notation)
-                const newSubtaskId = (parentTask.subtasks.length + 1).toString();
-                const newSubtask: Task = {
-                    id: newSubtaskId,
-                    ...subtask,
-                    status: this.normalizeStatus(subtask.status || 'pending'),
-                    created: new Date().toISOString(),
-                    updated: new Date().toISOString()
-                };
-
-                parentTask.subtasks.push(newSubtask);
-                log(`Added subtask ${newSubtaskId} to parent ${parentTaskId}.`);
-
-                this.writeTasksToContainer(tasks, isTaggedFormat, currentTag, tasksContainer, tasksJsonPath);
-            } else {
-                throw new Error(`Parent task with ID ${parentTaskId} not found.`);
-            }
-        } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            log(`Error in addSubtask: ${errorMessage}`);
-            throw error;
-        }
+        await this.runBackendOperation('addSubtask', [parentTaskId, subtask, this.tagManager.getCurrentTag()]);
     }
     
     /**
@@ -1155,91 +1317,9 @@ export class TaskMasterClient {
      */
     async updateSubtask(parentTaskId: string, subtaskId: string, updates: Partial<Task>): Promise<void> {
         log(`Updating subtask ${subtaskId} in parent ${parentTaskId}`);
-        try {
-            // Handle both full subtask ID ("1.2") and suffix ("2") formats
-            const fullSubtaskId = subtaskId.includes('.') ? subtaskId : `${parentTaskId}.${subtaskId}`;
-            
-            // Try to update tasks.json first
-            const tasksJsonPath = path.join(this.tasksPath, 'tasks.json');
-            if (fs.existsSync(tasksJsonPath)) {
-                const tasksData = fs.readFileSync(tasksJsonPath, 'utf8');
-                const parsed = JSON.parse(tasksData);
-                const { tasks, isTaggedFormat, currentTag } = this.extractTasksFromContainer(parsed);
-                
-                const parentIndex = tasks.findIndex((task: any) => 
-                    task.id.toString() === parentTaskId.toString()
-                );
-                
-                if (parentIndex !== -1) {
-                    const parent = tasks[parentIndex];
-                    if (parent.subtasks) {
-                        const subtaskIndex = parent.subtasks.findIndex((st: any) => 
-                            st.id.toString() === fullSubtaskId.toString() || st.id.toString() === subtaskId.toString()
-                        );
-                        
-                        if (subtaskIndex !== -1) {
-                            const updatedSubtask = {
-                                ...parent.subtasks[subtaskIndex],
-                                ...updates,
-                                updated: new Date().toISOString()
-                            };
-                            
-                            // Convert status if provided
-                            if (updates.status) {
-                                updatedSubtask.status = this.denormalizeStatus(updates.status as any);
-                            }
-                            
-                            parent.subtasks[subtaskIndex] = updatedSubtask;
-                            parent.updated = new Date().toISOString();
-                            
-                            this.writeTasksToContainer(tasks, isTaggedFormat, currentTag, parsed, tasksJsonPath);
-                            return;
-                        }
-                    }
-                }
-                
-                throw new Error(`Subtask ${fullSubtaskId} not found in parent ${parentTaskId}`);
-            }
-            
-            // Fall back to individual task file
-            const taskFilePath = path.join(this.tasksPath, `${parentTaskId}.json`);
-            if (fs.existsSync(taskFilePath)) {
-                const taskData = JSON.parse(fs.readFileSync(taskFilePath, 'utf8'));
-                
-                if (taskData.subtasks) {
-                    const subtaskIndex = taskData.subtasks.findIndex((st: any) => 
-                        st.id.toString() === fullSubtaskId.toString() || st.id.toString() === subtaskId.toString()
-                    );
-                    
-                    if (subtaskIndex !== -1) {
-                        const updatedSubtask = {
-                            ...taskData.subtasks[subtaskIndex],
-                            ...updates,
-                            updated: new Date().toISOString()
-                        };
-                        
-                        // Convert status if provided
-                        if (updates.status) {
-                            updatedSubtask.status = this.denormalizeStatus(updates.status as any);
-                        }
-                        
-                        taskData.subtasks[subtaskIndex] = updatedSubtask;
-                        taskData.updated = new Date().toISOString();
-                        
-                        fs.writeFileSync(taskFilePath, JSON.stringify(taskData, null, 2));
-                        return;
-                    }
-                }
-                
-                throw new Error(`Subtask ${fullSubtaskId} not found in parent ${parentTaskId}`);
-            } else {
-                throw new Error(`Parent task ${parentTaskId} not found`);
-            }
-        } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            log(`Error updating subtask ${subtaskId} in ${parentTaskId}: ${errorMessage}`);
-            throw error;
-        }
+        await this.recordMutation(`编辑子任务 ${subtaskId}`, parentTaskId, subtaskId, () =>
+            this.runBackendOperation('updateSubtask', [parentTaskId, subtaskId, updates])
+        );
     }
     
     /**
@@ -1249,58 +1329,9 @@ export class TaskMasterClient {
      */
     async removeSubtask(parentTaskId: string, subtaskId: string): Promise<void> {
         log(`Removing subtask ${subtaskId} from parent ${parentTaskId}.`);
-        try {
-            const tasksJsonPath = path.join(this.tasksPath, 'tasks.json');
-            if (!fs.existsSync(tasksJsonPath)) {
-                throw new Error('tasks.json not found');
-            }
-
-            const tasksData = fs.readFileSync(tasksJsonPath, 'utf8');
-            const tasksContainer = JSON.parse(tasksData);
-            const { tasks, isTaggedFormat, currentTag } = this.extractTasksFromContainer(tasksContainer);
-
-            // Find parent task recursively
-            const findParent = (items: Task[]): Task | undefined => {
-                for (const item of items) {
-                    if (item.id.toString() === parentTaskId.toString()) {
-                        return item;
-                    }
-                    if (item.subtasks) {
-                        const found = findParent(item.subtasks);
-                        if (found) {
-                            return found;
-                        }
-                    }
-                }
-                return undefined;
-            };
-
-            const parentTask = findParent(tasks);
-                
-            if (parentTask && parentTask.subtasks) {
-                const initialLength = parentTask.subtasks.length;
-                parentTask.subtasks = parentTask.subtasks.filter(st => 
-                    st.id.toString() !== subtaskId.toString() && 
-                    st.id.toString() !== `${parentTaskId}.${subtaskId}`
-                );
-                        
-                if (parentTask.subtasks.length < initialLength) {
-                    log(`Subtask ${subtaskId} removed. Writing updates.`);
-                    parentTask.updated = new Date().toISOString();
-                    this.writeTasksToContainer(tasks, isTaggedFormat, currentTag, tasksContainer, tasksJsonPath);
-                } else {
-                    log(`Subtask ${subtaskId} not found under parent ${parentTaskId}.`);
-                    throw new Error(`Subtask ${subtaskId} not found under parent ${parentTaskId}.`);
-                }
-            } else {
-                throw new Error(`Parent task ${parentTaskId} not found or has no subtasks.`);
-            }
-
-        } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            log(`Error removing subtask: ${errorMessage}`);
-            throw error;
-        }
+        await this.recordMutation(`删除子任务 ${parentTaskId}.${subtaskId}`, parentTaskId, subtaskId, () =>
+            this.runBackendOperation('removeSubtask', [parentTaskId, subtaskId, this.tagManager.getCurrentTag()])
+        );
     }
 
     /**
@@ -1309,32 +1340,9 @@ export class TaskMasterClient {
      */
     async deleteTask(taskId: string): Promise<void> {
         log(`Deleting main task ${taskId}.`);
-        try {
-            const tasksJsonPath = path.join(this.tasksPath, 'tasks.json');
-            if (!fs.existsSync(tasksJsonPath)) {
-                throw new Error('tasks.json not found');
-            }
-
-            const tasksData = fs.readFileSync(tasksJsonPath, 'utf8');
-            const tasksContainer = JSON.parse(tasksData);
-            const { tasks, isTaggedFormat, currentTag } = this.extractTasksFromContainer(tasksContainer);
-
-            const initialLength = tasks.length;
-            const filteredTasks = tasks.filter(task => task.id.toString() !== taskId.toString());
-                
-            if (filteredTasks.length < initialLength) {
-                log(`Main task ${taskId} deleted. Writing updates.`);
-                this.writeTasksToContainer(filteredTasks, isTaggedFormat, currentTag, tasksContainer, tasksJsonPath);
-            } else {
-                log(`Main task ${taskId} not found.`);
-                throw new Error(`Main task ${taskId} not found.`);
-            }
-
-        } catch (error) {
-            const errorMessage = error instanceof Error ? error.message : String(error);
-            log(`Error deleting main task: ${errorMessage}`);
-            throw error;
-        }
+        await this.recordMutation(`删除任务 ${taskId}`, taskId, undefined, () =>
+            this.runBackendOperation('deleteTask', [taskId, this.tagManager.getCurrentTag()])
+        );
     }
 
     /**
@@ -1467,6 +1475,15 @@ export class TaskMasterClient {
                         : [],
                     subtasks: []
                 };
+                // Estimates, tracked time, filters and search read these, whichever source answered
+                for (const field of ['testStrategy', 'assignee', 'dueDate', 'estimatedTime', 'actualTime'] as const) {
+                    if (task[field]) {
+                        sanitizedTask[field] = String(task[field]);
+                    }
+                }
+                if (Array.isArray(task.tags)) {
+                    sanitizedTask.tags = task.tags.map((tag: any) => String(tag));
+                }
 
                 // Recursively validate and sanitize subtasks
                 if (task.subtasks && Array.isArray(task.subtasks)) {
@@ -1489,10 +1506,255 @@ export class TaskMasterClient {
 
 
 
+    /**
+     * Get the undo/redo journal of mutations made through this client
+     */
+    getUndoJournal(): UndoJournal {
+        return this.journal;
+    }
+
+    /**
+     * Undo the latest recorded mutation by restoring the task as it was before
+     * @returns The undone entry, or null when there is nothing to undo
+     */
+    async undo(): Promise<TaskJournalEntry | null> {
+        return this.journal.undo(entry => this.restoreRawTaskState(entry, entry.before, entry.after));
+    }
+
+    /**
+     * Redo the latest undone mutation
+     * @returns The redone entry, or null when there is nothing to redo
+     */
+    async redo(): Promise<TaskJournalEntry | null> {
+        return this.journal.redo(entry => this.restoreRawTaskState(entry, entry.after, entry.before));
+    }
+
+    /**
+     * Run a mutation and journal the raw task before and after it.
+     * Nothing is recorded when the task can't be found in tasks.json or didn't change.
+     */
+    private async recordMutation<T>(label: string, taskId: string, subtaskId: string | undefined, mutation: () => Promise<T>): Promise<T> {
+        const tag = this.tagManager.getCurrentTag();
+        const before = this.readRawTaskState(taskId, subtaskId);
+        const result = await mutation();
+        const after = this.readRawTaskState(taskId, subtaskId);
+
+        if ((before || after) && JSON.stringify(before) !== JSON.stringify(after)) {
+            const entry: TaskJournalEntry = { label, tag, taskId, before, after };
+            if (subtaskId) {
+                entry.subtaskId = subtaskId;
+            }
+            this.journal.record(entry);
+        }
+        return result;
+    }
+
+    /**
+     * Run a mutation that may renumber tasks and journal the tag's whole task list before and after it
+     * @param tag Tag the mutation changes (default: the current tag)
+     */
+    private async recordTagMutation<T>(label: string, taskId: string, mutation: () => Promise<T>, tag: string = this.tagManager.getCurrentTag()): Promise<T> {
+        const before = this.readRawTagState(tag);
+        const result = await mutation();
+        const after = this.readRawTagState(tag);
+
+        if (before && after && JSON.stringify(before) !== JSON.stringify(after)) {
+            this.journal.record({ label, tag, taskId, wholeTag: true, before, after });
+        }
+        return result;
+    }
+
+    /**
+     * Split an ID passed to setTaskStatus into the journal target: "2.1" is subtask 2.1 of task 2
+     */
+    private getJournalTarget(taskId: string): [string, string | undefined] {
+        const id = taskId.toString();
+        const [parentId] = id.split('.');
+        return id.includes('.') && parentId ? [parentId, id] : [id, undefined];
+    }
+
+    private readRawTaskState(taskId: string, subtaskId?: string): RawTaskState | null {
+        const tasksJsonPath = path.join(this.tasksPath, 'tasks.json');
+        try {
+            if (!fs.existsSync(tasksJsonPath)) {
+                return null;
+            }
+            const { tasks } = this.extractTasksFromContainer(JSON.parse(fs.readFileSync(tasksJsonPath, 'utf8')));
+            const list: any[] | undefined = subtaskId
+                ? tasks.find(task => task.id.toString() === taskId.toString())?.subtasks
+                : tasks;
+            const index = list ? list.findIndex(item => this.matchesJournalTarget(item, taskId, subtaskId)) : -1;
+            return list && index !== -1 ? { raw: JSON.parse(JSON.stringify(list[index])), index } : null;
+        } catch (error) {
+            log(`Could not read task ${taskId} for the undo journal: ${error}`);
+            return null;
+        }
+    }
+
+    /**
+     * @param tag Tag to read (default: the current tag)
+     */
+    private readRawTagState(tag?: string): RawTaskState | null {
+        const tasksJsonPath = path.join(this.tasksPath, 'tasks.json');
+        try {
+            if (!fs.existsSync(tasksJsonPath)) {
+                return null;
+            }
+            const container = JSON.parse(fs.readFileSync(tasksJsonPath, 'utf8'));
+            const { tasks, isTaggedFormat, currentTag } = this.extractTasksFromContainer(container);
+            const list = this.getTagTaskList({ tasks, isTaggedFormat, currentTag, container, filePath: tasksJsonPath }, tag);
+            return { raw: JSON.parse(JSON.stringify(list)), index: 0 };
+        } catch (error) {
+            log(`Could not read the task list for the undo journal: ${error}`);
+            return null;
+        }
+    }
+
+    /**
+     * Put a task or subtask back into tasks.json as recorded, or remove it when the state is null
+     * @param current The state the entry left behind; a whole task list is only replaced while it still matches,
+     * so changes the journal didn't record (tag transfers, merges, the CLI) aren't thrown away
+     */
+    private async restoreRawTaskState(entry: TaskJournalEntry, state: RawTaskState | null, current: RawTaskState | null): Promise<void> {
+        const currentTag = this.tagManager.getCurrentTag();
+        // A whole task list can be put back into any tag, e.g. after adding a task to another tag
+        if (!entry.wholeTag && entry.tag !== currentTag) {
+            throw new Error(`"${entry.label}" was made in tag ${entry.tag}, switch to it first (current tag: ${currentTag})`);
+        }
+
+        await this.modifyTasksFile(file => {
+            if (entry.wholeTag) {
+                if (state) {
+                    const tasks = this.getTagTaskList(file, entry.tag);
+                    if (JSON.stringify(tasks) !== JSON.stringify(current?.raw)) {
+                        throw new Error(`The tasks of tag ${entry.tag} were changed outside the undo history since "${entry.label}"`);
+                    }
+                    tasks.splice(0, tasks.length, ...JSON.parse(JSON.stringify(state.raw)));
+                }
+                return;
+            }
+
+            let list = file.tasks;
+            if (entry.subtaskId) {
+                const parent = file.tasks.find(task => task.id.toString() === entry.taskId);
+                if (!parent) {
+                    throw new Error(`Parent task ${entry.taskId} no longer exists`);
+                }
+                parent.subtasks = parent.subtasks || [];
+                list = parent.subtasks;
+            }
+
+            const index = list.findIndex(item => this.matchesJournalTarget(item, entry.taskId, entry.subtaskId));
+            if (!state) {
+                if (index !== -1) {
+                    list.splice(index, 1);
+                }
+                return;
+            }
+
+            const restored = JSON.parse(JSON.stringify(state.raw));
+            if (index === -1) {
+                list.splice(Math.min(state.index, list.length), 0, restored);
+                return;
+            }
+            // A main task edit must not roll back subtasks added or changed since (e.g. by expand)
+            if (!entry.subtaskId && list[index].subtasks) {
+                restored.subtasks = list[index].subtasks;
+            }
+            list[index] = restored;
+        });
+        this.invalidateSnapshot();
+    }
+
+    private matchesJournalTarget(item: any, taskId: string, subtaskId?: string): boolean {
+        const itemId = item.id.toString();
+        if (!subtaskId) {
+            return itemId === taskId.toString();
+        }
+        const subId = subtaskId.toString();
+        return itemId === subId || `${taskId}.${itemId}` === subId || itemId === `${taskId}.${subId}`;
+    }
+
+    /**
+     * Report each backend with its availability and the operations it supports
+     */
+    async getBackendStatus(): Promise<Array<{ name: TaskBackendName; available: boolean; capabilities: readonly TaskOperation[] }>> {
+        const status = [];
+        for (const name of this.getBackendOrder()) {
+            const backend = this.backends[name];
+            status.push({ name, available: await backend.isAvailable(), capabilities: backend.capabilities });
+        }
+        return status;
+    }
+
+    /**
+     * Backend order from the claudeTaskMaster.backendOrder setting
+     * @param preferCLI Move the CLI right after MCP (used by the *WithCLI entry points)
+     */
+    private getBackendOrder(preferCLI: boolean = false): TaskBackendName[] {
+        const config = vscode.workspace.getConfiguration('claudeTaskMaster');
+        const order = resolveBackendOrder(config.get<string[]>('backendOrder'));
+        if (!preferCLI || !order.includes('CLI')) {
+            return order;
+        }
+        return [...order.filter(name => name === 'MCP'), 'CLI', ...order.filter(name => name !== 'MCP' && name !== 'CLI')];
+    }
+
+    /**
+     * Run a write operation on the first backend that supports it and succeeds.
+     * Each backend is retried backendRetries times (backendRetryDelay ms apart) before moving to the next one.
+     * @returns The name of the backend that performed the operation
+     * @throws The error of the first backend that failed when no backend succeeds
+     */
+    private async runBackendOperation<K extends TaskOperation>(
+        operation: K,
+        args: Parameters<TaskBackendOperations[K]>,
+        preferCLI: boolean = false
+    ): Promise<TaskBackendName> {
+        const config = vscode.workspace.getConfiguration('claudeTaskMaster');
+        const retries = Math.max(0, config.get<number>('backendRetries', 0));
+        const retryDelay = Math.max(0, config.get<number>('backendRetryDelay', 500));
+        const order = this.getBackendOrder(preferCLI);
+        let firstError: unknown = null;
+
+        for (const name of order) {
+            const backend = this.backends[name];
+            const method = backend[operation] as ((...methodArgs: Parameters<TaskBackendOperations[K]>) => Promise<void>) | undefined;
+            if (!backend.capabilities.includes(operation) || !method) {
+                continue;
+            }
+            if (!(await backend.isAvailable())) {
+                log(`${operation}: ${name} backend not available, skipping`);
+                continue;
+            }
+
+            for (let attempt = 1; attempt <= retries + 1; attempt++) {
+                try {
+                    await method.apply(backend, args);
+                    this.invalidateSnapshot();
+                    this.logOperationResult(operation, name, true, attempt > 1 ? `succeeded on attempt ${attempt}` : undefined);
+                    return name;
+                } catch (error) {
+                    const errorMessage = error instanceof Error ? error.message : String(error);
+                    this.logOperationResult(operation, name, false, `attempt ${attempt}/${retries + 1}: ${errorMessage}`);
+                    firstError = firstError || error;
+                    if (attempt <= retries) {
+                        await new Promise(resolve => setTimeout(resolve, retryDelay));
+                    }
+                }
+            }
+        }
+
+        if (firstError) {
+            throw firstError;
+        }
+        throw new Error(`No available backend supports ${operation} (order: ${order.join(', ')})`);
+    }
+
     /**
      * Log operation results with version context
      */
-    private logOperationResult(operation: string, source: 'MCP' | 'CLI' | 'File', success: boolean, details?: string): void {
+    private logOperationResult(operation: string, source: TaskBackendName, success: boolean, details?: string): void {
         const emoji = success ? '✅' : '❌';
         const versionInfo = source === 'MCP' ? this.mcpVersion : 
                            source === 'CLI' ? this.cliVersion : 'N/A';
@@ -1571,164 +1833,81 @@ export class TaskMasterClient {
             const errorMessage = error instanceof Error ? error.message : String(error);
             log(`CLI command failed: ${errorMessage}`);
             throw new Error(`Task Master CLI command failed: ${errorMessage}`);
+        } finally {
+            // The CLI may have rewritten tasks.json within the same mtime tick
+            this.invalidateSnapshot();
         }
     }
 
     /**
-     * Add a new task with CLI fallback
+     * Add a new task. Task creation needs AI, so it only runs on the MCP and CLI backends.
+     * @param useCLI Try the CLI before the other backends
      */
-    async addTask(task: Omit<Task, 'id'>, useCLI: boolean = false, tagContext?: string): Promise<void> {
+    async addTask(task: NewTask, useCLI: boolean = false, tagContext?: string): Promise<void> {
         // Use provided tag context or fall back to current tag
         const targetTag = tagContext || this.tagManager.getCurrentTag();
-        
-        if (!useCLI && await this.isMCPServerAvailable()) {
-            // Try MCP first
-            try {
-                const mcpClient = await this.getMCPClient();
-                await mcpClient.addTask(task, targetTag);
-                log(`Task added via MCP: ${task.title} (tag: ${targetTag})`);
-                return;
-            } catch (error) {
-                log(`MCP addTask failed, falling back to CLI: ${error}`);
-                useCLI = true;
-            }
-        }
-
-        if (useCLI) {
-            const args = [
-                '--prompt', `"${task.title}: ${task.description || ''}"`,
-                '--priority', task.priority || 'medium'
-            ];
-            
-            if (task.dependencies && task.dependencies.length > 0) {
-                args.push('--dependencies', task.dependencies.join(','));
-            }
-            
-            // Add tag parameter if not master tag
-            if (targetTag !== 'master') {
-                args.push('--tag', targetTag);
-            }
-
-            await this.executeTaskMasterCLI('add-task', args);
-            log(`Task added via CLI: ${task.title} (tag: ${targetTag})`);
-        }
+        await this.runBackendOperation('addTask', [task, targetTag], useCLI);
+        log(`Task added: ${task.title} (tag: ${targetTag})`);
     }
 
     /**
-     * Add a subtask with CLI fallback
+     * Add a task by editing tasks.json directly, for when no backend could create it from a prompt
+     * @param tag Tag to add the task to (default: current tag)
+     * @returns ID of the new task
      */
-    async addSubtaskWithCLI(parentTaskId: string, subtask: Omit<Task, 'id'> & { id?: string }): Promise<void> {
-        const useCLI = !(await this.isMCPServerAvailable());
-        
-        if (useCLI) {
-            const currentTag = this.tagManager.getCurrentTag();
-            const args = [
-                '--parent', parentTaskId.toString(),
-                '--title', `"${subtask.title}"`,
-                '--status', this.denormalizeStatus(subtask.status || 'todo')
-            ];
-            
-            if (subtask.description) {
-                args.push('--description', `"${subtask.description}"`);
-            }
-            
-            if (subtask.priority) {
-                args.push('--priority', subtask.priority);
-            }
-            
-            // Add tag parameter if not master tag
-            if (currentTag !== 'master') {
-                args.push('--tag', currentTag);
-            }
+    async addTaskToFile(task: NewTask, tag?: string): Promise<string> {
+        let newId = 0;
+        await this.recordTagMutation(`添加任务 ${task.title}`, '*', () => this.modifyTasksFile(file => {
+            const tasks = this.getTagTaskList(file, tag);
+            newId = Math.max(0, ...tasks.map(existing => Number(existing.id)).filter(id => Number.isFinite(id))) + 1;
+            const now = new Date().toISOString();
+            tasks.push({
+                id: newId,
+                title: task.title,
+                description: task.description || '',
+                status: this.denormalizeStatus(task.status || 'todo'),
+                priority: task.priority || 'medium',
+                dependencies: (task.dependencies || []).map(dependency => /^\d+$/.test(dependency) ? Number(dependency) : dependency),
+                created: now,
+                updated: now
+            });
+        }), tag);
+        log(`Task ${newId} added to tasks.json: ${task.title} (tag: ${tag || this.tagManager.getCurrentTag()})`);
+        return newId.toString();
+    }
 
-            await this.executeTaskMasterCLI('add-subtask', args);
-            log(`Subtask added via CLI: ${subtask.title} to parent ${parentTaskId} (tag: ${currentTag})`);
-        } else {
-            // Fall back to existing method if MCP is available
-            await this.addSubtask(parentTaskId, subtask);
-        }
+    /**
+     * Add a subtask, trying the CLI before editing tasks.json directly
+     */
+    async addSubtaskWithCLI(parentTaskId: string, subtask: NewSubtask): Promise<void> {
+        await this.runBackendOperation('addSubtask', [parentTaskId, subtask, this.tagManager.getCurrentTag()], true);
     }
 
     /**
-     * Set task status with CLI fallback
+     * Set task status, trying the CLI before editing tasks.json directly
      */
     async setTaskStatusWithCLI(taskId: string, status: TaskStatus, tagContext?: string): Promise<void> {
         // Use provided tag context or fall back to current tag
         const targetTag = tagContext || this.tagManager.getCurrentTag();
-        const useCLI = !(await this.isMCPServerAvailable());
-        
-        if (useCLI) {
-            const args = [
-                '--id', taskId.toString(),
-                '--status', this.denormalizeStatus(status)
-            ];
-            
-            // Add tag parameter if not master tag
-            if (targetTag !== 'master') {
-                args.push('--tag', targetTag);
-            }
-
-            await this.executeTaskMasterCLI('set-status', args);
-            log(`Task status updated via CLI: ${taskId} -> ${status} (tag: ${targetTag})`);
-        } else {
-            // Fall back to existing method if MCP is available
-            await this.setTaskStatus(taskId, status);
-        }
+        await this.recordMutation(`任务 ${taskId} 状态改为 ${status}`, ...this.getJournalTarget(taskId), () =>
+            this.runBackendOperation('setTaskStatus', [taskId, status, targetTag], true)
+        );
     }
 
     /**
-     * Expand task with CLI fallback
+     * Expand a task into subtasks with AI (MCP or CLI)
      */
     async expandTaskWithCLI(taskId: string, force: boolean = false, tagContext?: string): Promise<void> {
         // Use provided tag context or fall back to current tag
         const targetTag = tagContext || this.tagManager.getCurrentTag();
-        const useCLI = !(await this.isMCPServerAvailable());
-        
-        if (useCLI) {
-            const args = [
-                '--id', taskId.toString()
-            ];
-            
-            if (force) {
-                args.push('--force');
-            }
-            
-            // Add tag parameter if not master tag
-            if (targetTag !== 'master') {
-                args.push('--tag', targetTag);
-            }
-
-            await this.executeTaskMasterCLI('expand', args);
-            log(`Task expanded via CLI: ${taskId} (tag: ${targetTag})`);
-        } else {
-            // Try MCP expand functionality
-            try {
-                const mcpClient = await this.getMCPClient();
-                await mcpClient.expandTask(taskId, force, targetTag);
-                log(`Task expanded via MCP: ${taskId} (tag: ${targetTag})`);
-            } catch (error) {
-                throw new Error(`MCP server expand functionality failed: ${error}`);
-            }
-        }
+        await this.runBackendOperation('expandTask', [taskId, force, targetTag], true);
     }
 
     /**
-     * Update task with CLI fallback
+     * Update a task from a free-form prompt with AI (MCP or CLI)
      */
     async updateTaskWithCLI(taskId: string, prompt: string): Promise<void> {
-        const useCLI = !(await this.isMCPServerAvailable());
-        
-        if (useCLI) {
-            const args = [
-                '--id', taskId.toString(),
-                '--prompt', `"${prompt}"`
-            ];
-
-            await this.executeTaskMasterCLI('update-task', args);
-            log(`Task updated via CLI: ${taskId}`);
-        } else {
-            throw new Error('MCP server update functionality not implemented yet');
-        }
+        await this.runBackendOperation('updateTaskWithPrompt', [taskId, prompt, this.tagManager.getCurrentTag()], true);
     }
 
     /**
@@ -1816,7 +1995,7 @@ export class TaskMasterClient {
     /**
      * Get tag context information
      */
-    getTagContext(): { currentTag: string; availableTags: string[]; isTaggedFormat: boolean } {
+    getTagContext(): TagContextInfo {
         return this.tagManager.getTagContext();
     }
 
@@ -1829,6 +2008,7 @@ export class TaskMasterClient {
             if (await this.isMCPServerAvailable()) {
                 const mcpClient = await this.getMCPClient();
                 await mcpClient.switchTag(tagName);
+                this.invalidateSnapshot();
             }
             
             // Update local tag manager
@@ -1879,6 +2059,60 @@ export class TaskMasterClient {
         }
     }
 
+    /**
+     * Rename a tag; the current tag follows when it is the one renamed
+     */
+    async renameTag(oldName: string, newName: string): Promise<void> {
+        await this.tagManager.renameTag(oldName, newName);
+        this.invalidateSnapshot();
+    }
+
+    /**
+     * Create a tag holding a copy of another tag's tasks
+     */
+    async duplicateTag(sourceName: string, newName: string): Promise<void> {
+        await this.tagManager.duplicateTag(sourceName, newName);
+        this.invalidateSnapshot();
+    }
+
+    /**
+     * Move every task of one tag into another and delete the emptied tag
+     * @returns Qualified IDs in the source tag to qualified IDs in the target tag
+     */
+    async mergeTags(sourceName: string, targetName: string): Promise<Map<string, string>> {
+        const merged = await this.tagManager.mergeTags(sourceName, targetName);
+        this.invalidateSnapshot();
+        return merged;
+    }
+
+    /**
+     * Save a tag's description, color and archive state to tasks.json
+     */
+    async updateTagProperties(tagName: string, properties: TagProperties): Promise<void> {
+        await this.tagManager.updateTagProperties(tagName, properties);
+    }
+
+    /**
+     * Get information about a tag, including its description and archive state
+     */
+    getTagInfo(tagName: string): TagInfo | null {
+        return this.tagManager.getTagInfo(tagName);
+    }
+
+    /**
+     * Get the color chosen for a tag, undefined when it uses the default color
+     */
+    getTagColor(tagName: string): string | undefined {
+        return this.tagManager.getTagColor(tagName);
+    }
+
+    /**
+     * Check whether a tag name uses only letters, digits, hyphens and underscores (at most 50 characters)
+     */
+    validateTagName(tagName: string): boolean {
+        return this.tagManager.validateTagName(tagName);
+    }
+
     /**
      * Check if the current format is tagged
      */
@@ -1,7 +1,13 @@
 import * as vscode from 'vscode';
 import { TaskMasterClient } from './taskMasterClient';
 import { log } from './logger';
-import { Task } from './types';
+import * as os from 'os';
+import { CriticalPathResult, SavedTaskView, Task, TaskFilter, TaskRecommendation, TaskSearchResult } from './types';
+import { searchTasks, getSearchKey, getMatchTypeLabel } from './searchUtils';
+import { applyTaskFilter, applyTaskPredicate, describeFilter, isFilterActive } from './filterUtils';
+import { compileTaskQuery } from './queryUtils';
+import { computeCriticalPath, formatHours } from './criticalPathUtils';
+import { recommendNextTask } from './recommendationUtils';
 
 export class TaskItem extends vscode.TreeItem {
     constructor(
@@ -253,13 +259,30 @@ export class TaskProvider implements vscode.TreeDataProvider<TaskItem> {
     private availableTags: string[] = ['master'];
     private isTaggedFormat: boolean = false;
     
+    // Active search: query text and the keys of directly matched tasks/subtasks
+    private searchQuery: string | null = null;
+    private searchMatches: Map<string, TaskSearchResult> = new Map();
+    
+    // Active filter, persisted per workspace
+    private filter: TaskFilter = {};
+    private readonly FILTER_STATE_KEY = 'claudeTaskMaster.taskFilter';
+    
+    // Active saved view (named query), persisted per workspace
+    private activeView: SavedTaskView | null = null;
+    private readonly ACTIVE_VIEW_STATE_KEY = 'claudeTaskMaster.activeView';
+    
     // Debouncing for frequent refresh calls
     private refreshTimeout: NodeJS.Timeout | null = null;
     private readonly REFRESH_DEBOUNCE_MS = 300; // 300ms debounce
+    
+    // Latest next-task recommendation, used for the "why this task" tooltip
+    private nextRecommendation: TaskRecommendation | null = null;
 
-    constructor(private taskMasterClient: TaskMasterClient) {
+    constructor(private taskMasterClient: TaskMasterClient, private workspaceState?: vscode.Memento) {
         log('TaskProvider constructed.');
         this.initializeTagContext();
+        this.filter = this.workspaceState?.get<TaskFilter>(this.FILTER_STATE_KEY) || {};
+        this.activeView = this.workspaceState?.get<SavedTaskView>(this.ACTIVE_VIEW_STATE_KEY) || null;
     }
 
     /**
@@ -382,6 +405,89 @@ export class TaskProvider implements vscode.TreeDataProvider<TaskItem> {
         this._onDidChangeTreeData.fire();
     }
 
+    /**
+     * Narrow the tree to tasks matching the query, keeping parents for context
+     */
+    setSearchQuery(query: string): void {
+        const trimmedQuery = query.trim();
+        if (!trimmedQuery) {
+            this.clearSearch();
+            return;
+        }
+        log(`TaskProvider.setSearchQuery called with: '${trimmedQuery}'`);
+        this.searchQuery = trimmedQuery;
+        this.refreshImmediate();
+    }
+
+    /**
+     * Remove the active search and show the full tree again
+     */
+    clearSearch(): void {
+        log('TaskProvider.clearSearch called.');
+        this.searchQuery = null;
+        this.searchMatches.clear();
+        this.refreshImmediate();
+    }
+
+    /**
+     * Get the active search query, or null when the tree is not filtered by search
+     */
+    getSearchQuery(): string | null {
+        return this.searchQuery;
+    }
+
+    /**
+     * Run the active search against the current tasks
+     */
+    async getSearchResults(): Promise<TaskSearchResult[]> {
+        if (!this.searchQuery) {
+            return [];
+        }
+        const tasks = await this.getTasks();
+        return searchTasks(tasks, this.searchQuery);
+    }
+
+    /**
+     * Get the active filter
+     */
+    getFilter(): TaskFilter {
+        return this.filter;
+    }
+
+    /**
+     * Replace the active filter, save it to workspace state and refresh the tree
+     */
+    async setFilter(filter: TaskFilter): Promise<void> {
+        log(`TaskProvider.setFilter called with: ${JSON.stringify(filter)}`);
+        this.filter = filter;
+        await this.workspaceState?.update(this.FILTER_STATE_KEY, isFilterActive(filter) ? filter : undefined);
+        this.refreshImmediate();
+    }
+
+    /**
+     * Remove the active filter
+     */
+    async clearFilter(): Promise<void> {
+        await this.setFilter({});
+    }
+
+    /**
+     * Get the active saved view, or null when the default groupings are shown
+     */
+    getActiveView(): SavedTaskView | null {
+        return this.activeView;
+    }
+
+    /**
+     * Switch to a saved view (or back to the default groupings with null) and remember it per workspace
+     */
+    async setActiveView(view: SavedTaskView | null): Promise<void> {
+        log(`TaskProvider.setActiveView called with: ${view ? `${view.name} (${view.query})` : 'default'}`);
+        this.activeView = view;
+        await this.workspaceState?.update(this.ACTIVE_VIEW_STATE_KEY, view || undefined);
+        this.refreshImmediate();
+    }
+
     // Method to expand all items
     expandAll(): void {
         log('TaskProvider.expandAll called.');
@@ -503,6 +609,15 @@ export class TaskProvider implements vscode.TreeDataProvider<TaskItem> {
                 log(`Filtering to show only completed subtasks: ${subtasksToShow.length}/${element.task.subtasks.length}`);
             }
             
+            // While searching, a parent that only matched through its subtasks shows just those subtasks
+            if (this.searchQuery && !this.searchMatches.has(element.task.id.toString())) {
+                const parentKey = element.task.id.toString();
+                subtasksToShow = subtasksToShow.filter(subtask =>
+                    this.searchMatches.has(getSearchKey(subtask, parentKey))
+                );
+                log(`Search active: showing ${subtasksToShow.length}/${element.task.subtasks.length} matching subtasks`);
+            }
+            
             return subtasksToShow.map(subtask => {
                 let collapsibleState = vscode.TreeItemCollapsibleState.None;
                 if (subtask.subtasks && subtask.subtasks.length > 0) {
@@ -536,6 +651,12 @@ export class TaskProvider implements vscode.TreeDataProvider<TaskItem> {
                     ).length;
                     description += ` ${completed}/${subtask.subtasks.length} ${this.getDropdownIndicator(false)}`;
                 }
+                
+                const searchMatch = this.searchQuery ?
+                    this.searchMatches.get(getSearchKey(subtask, element.task?.id.toString())) : undefined;
+                if (searchMatch) {
+                    description += ` 匹配${getMatchTypeLabel(searchMatch.matchType)}：${searchMatch.matchText}`;
+                }
                 subtaskItem.description = description;
                 
                 return subtaskItem;
@@ -553,6 +674,11 @@ export class TaskProvider implements vscode.TreeDataProvider<TaskItem> {
         if (tasks.length > 0) {
             log(`First task ID type: ${typeof tasks[0]?.id}, value: ${tasks[0]?.id}`);
         }
+        if (isFilterActive(this.filter)) {
+            const filteredTasks = applyTaskFilter(tasks, this.filter);
+            log(`Filter applied: ${filteredTasks.length}/${tasks.length} tasks remain.`);
+            return filteredTasks;
+        }
         return tasks;
     }
 
@@ -572,7 +698,8 @@ export class TaskProvider implements vscode.TreeDataProvider<TaskItem> {
                     vscode.TreeItemCollapsibleState.None
                 );
                 tagItem.description = `${this.availableTags.length} 个标签可用 • 点击切换`;
-                tagItem.iconPath = new vscode.ThemeIcon('tag', new vscode.ThemeColor('charts.purple'));
+                const tagColor = this.taskMasterClient.getTagColor(this.currentTag);
+                tagItem.iconPath = tagColor ? this.getTagColorIcon(tagColor) : new vscode.ThemeIcon('tag', new vscode.ThemeColor('charts.purple'));
                 tagItem.command = {
                     command: 'claudeTaskMaster.switchTag',
                     title: 'Switch Tag',
@@ -581,6 +708,48 @@ export class TaskProvider implements vscode.TreeDataProvider<TaskItem> {
                 items.push(tagItem);
             }
             
+            // Filter chip: shows the active filter, clicking it removes the filter
+            const filterActive = isFilterActive(this.filter);
+            if (filterActive) {
+                const filterItem = new TaskItem(
+                    `🔽 筛选：${describeFilter(this.filter)}`,
+                    vscode.TreeItemCollapsibleState.None
+                );
+                filterItem.description = `${tasks.length} 个任务 • 点击移除`;
+                filterItem.tooltip = '点击移除筛选条件并显示全部任务';
+                filterItem.iconPath = new vscode.ThemeIcon('filter-filled', new vscode.ThemeColor('charts.blue'));
+                filterItem.contextValue = 'filter-chip';
+                filterItem.command = {
+                    command: 'claudeTaskMaster.clearFilter',
+                    title: '清除筛选',
+                    arguments: []
+                };
+                items.push(filterItem);
+            }
+            
+            // Search replaces the regular sections with the matching tasks
+            if (this.searchQuery) {
+                items.push(...this.getSearchRootItems(tasks, this.searchQuery));
+                return items;
+            }
+            
+            // A saved view replaces the default groupings with the tasks matching its query
+            if (this.activeView) {
+                items.push(...this.getViewRootItems(tasks, this.activeView));
+                return items;
+            }
+            
+            if (tasks.length === 0 && filterActive) {
+                const noMatchItem = new TaskItem(
+                    '没有符合筛选条件的任务',
+                    vscode.TreeItemCollapsibleState.None
+                );
+                noMatchItem.description = '调整或移除筛选条件';
+                noMatchItem.iconPath = new vscode.ThemeIcon('info');
+                items.push(noMatchItem);
+                return items;
+            }
+            
             if (tasks.length === 0) {
                 log('getRootItems: No tasks found, showing empty state with quick actions.');
                 
@@ -683,7 +852,7 @@ export class TaskProvider implements vscode.TreeDataProvider<TaskItem> {
 
             // Next task recommendation section header
             log('getRootItems: Getting next task recommendation...');
-            const nextTask = await this.getNextRecommendedTask(tasks);
+            const nextTask = await this.getNextRecommendedTask();
             if (nextTask) {
                 log(`getRootItems: Next task found: ${nextTask.id}`);
                 
@@ -703,6 +872,22 @@ export class TaskProvider implements vscode.TreeDataProvider<TaskItem> {
                 log('getRootItems: No next task found.');
             }
 
+            // Critical path of the remaining work, computed on all tasks of the tag regardless of filters
+            const criticalPath = await this.getCriticalPath();
+            if (criticalPath.path.length > 0) {
+                const criticalHeaderKey = this.getItemKey('category', '关键路径');
+                const criticalIsExpanded = this.isExpanded(criticalHeaderKey);
+                const criticalHeaderItem = new TaskItem(
+                    '⏱️ 关键路径',
+                    criticalIsExpanded ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed,
+                    undefined,
+                    'category'
+                );
+                criticalHeaderItem.iconPath = new vscode.ThemeIcon('flame', new vscode.ThemeColor('charts.red'));
+                criticalHeaderItem.description = `剩余 ${formatHours(criticalPath.totalDuration)} • ${criticalPath.path.length} 个关键任务`;
+                items.push(criticalHeaderItem);
+            }
+
             // Progress overview with visual indicators (using main tasks for primary display)
             log('getRootItems: Getting task progress...');
             const progress = await this.taskMasterClient.getTaskProgress();
@@ -804,6 +989,150 @@ export class TaskProvider implements vscode.TreeDataProvider<TaskItem> {
         return items;
     }
 
+    /**
+     * Build the root items shown while a search is active: a clear-search node followed by
+     * every main task that matched directly or through one of its subtasks
+     */
+    private getSearchRootItems(tasks: Task[], query: string): TaskItem[] {
+        const items: TaskItem[] = [];
+        const results = searchTasks(tasks, query);
+        this.searchMatches = new Map(results.map(result => [getSearchKey(result.task, result.parentTaskId), result]));
+        log(`getSearchRootItems: '${query}' matched ${results.length} items.`);
+
+        const clearItem = new TaskItem(
+            `❌ 清除搜索：“${query}”`,
+            vscode.TreeItemCollapsibleState.None
+        );
+        clearItem.description = `${results.length} 个匹配项`;
+        clearItem.tooltip = '点击清除搜索并显示全部任务';
+        clearItem.iconPath = new vscode.ThemeIcon('clear-all', new vscode.ThemeColor('charts.red'));
+        clearItem.contextValue = 'search-clear';
+        clearItem.command = {
+            command: 'claudeTaskMaster.clearSearch',
+            title: '清除搜索',
+            arguments: []
+        };
+        items.push(clearItem);
+
+        if (results.length === 0) {
+            const noMatchItem = new TaskItem(
+                '没有匹配的任务',
+                vscode.TreeItemCollapsibleState.None
+            );
+            noMatchItem.description = '可搜索标题、描述、实现详情、测试策略、编号或标签';
+            noMatchItem.iconPath = new vscode.ThemeIcon('info');
+            items.push(noMatchItem);
+            return items;
+        }
+
+        for (const task of tasks) {
+            const taskKey = task.id.toString();
+            const taskResult = results.find(result => !result.parentTaskId && getSearchKey(result.task) === taskKey);
+            const subtaskResults = results.filter(result => result.parentTaskId === taskKey);
+            if (!taskResult && subtaskResults.length === 0) {
+                continue;
+            }
+
+            // Parents kept only for context start expanded so the matching subtasks are visible
+            let collapsibleState = vscode.TreeItemCollapsibleState.None;
+            if (subtaskResults.length > 0) {
+                collapsibleState = vscode.TreeItemCollapsibleState.Expanded;
+            } else if (task.subtasks && task.subtasks.length > 0) {
+                const isExpanded = this.isExpanded(this.getItemKey('task', task.id, task.id));
+                collapsibleState = isExpanded ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed;
+            }
+
+            const taskItem = new TaskItem(
+                `${task.id}: ${task.title}`,
+                collapsibleState,
+                task,
+                'task',
+                0,
+                undefined,
+                this.getTagContext()
+            );
+            taskItem.description = taskResult ?
+                `匹配${getMatchTypeLabel(taskResult.matchType)}：${taskResult.matchText}` :
+                `${subtaskResults.length} 个子任务匹配`;
+            items.push(taskItem);
+        }
+
+        return items;
+    }
+
+    /**
+     * Build the root items for a saved view: a header node followed by the matching tasks.
+     * Parents kept only because a subtask matched carry just the matching subtasks.
+     */
+    private getViewRootItems(tasks: Task[], view: SavedTaskView): TaskItem[] {
+        const items: TaskItem[] = [];
+
+        const headerItem = new TaskItem(
+            `👁️ 视图：${view.name}`,
+            vscode.TreeItemCollapsibleState.None
+        );
+        headerItem.description = view.query;
+        headerItem.tooltip = `查询：${view.query}\n点击切换视图`;
+        headerItem.iconPath = new vscode.ThemeIcon('eye', new vscode.ThemeColor('charts.purple'));
+        headerItem.contextValue = 'view-header';
+        headerItem.command = {
+            command: 'claudeTaskMaster.switchView',
+            title: '切换视图',
+            arguments: []
+        };
+        items.push(headerItem);
+
+        let viewTasks: Task[];
+        try {
+            const currentUser = vscode.workspace.getConfiguration('claudeTaskMaster').get<string>('currentUser', '') || os.userInfo().username;
+            viewTasks = applyTaskPredicate(tasks, compileTaskQuery(view.query, { currentUser }));
+        } catch (error) {
+            const errorMessage = error instanceof Error ? error.message : String(error);
+            log(`getViewRootItems: Invalid query for view '${view.name}': ${errorMessage}`);
+            const errorItem = new TaskItem(
+                '视图查询无效',
+                vscode.TreeItemCollapsibleState.None
+            );
+            errorItem.description = errorMessage;
+            errorItem.iconPath = new vscode.ThemeIcon('error');
+            items.push(errorItem);
+            return items;
+        }
+        log(`getViewRootItems: View '${view.name}' matched ${viewTasks.length} tasks.`);
+        headerItem.description = `${view.query} • ${viewTasks.length} 个任务`;
+
+        if (viewTasks.length === 0) {
+            const emptyItem = new TaskItem(
+                '没有符合此视图的任务',
+                vscode.TreeItemCollapsibleState.None
+            );
+            emptyItem.iconPath = new vscode.ThemeIcon('info');
+            items.push(emptyItem);
+            return items;
+        }
+
+        for (const task of viewTasks) {
+            let collapsibleState = vscode.TreeItemCollapsibleState.None;
+            if (task.subtasks && task.subtasks.length > 0) {
+                // A narrowed copy means the task is only shown for its matching subtasks
+                const isContextParent = !tasks.includes(task);
+                const isExpanded = isContextParent || this.isExpanded(this.getItemKey('task', task.id, task.id));
+                collapsibleState = isExpanded ? vscode.TreeItemCollapsibleState.Expanded : vscode.TreeItemCollapsibleState.Collapsed;
+            }
+            items.push(new TaskItem(
+                `${task.id}: ${task.title}`,
+                collapsibleState,
+                task,
+                'task',
+                0,
+                undefined,
+                this.getTagContext()
+            ));
+        }
+
+        return items;
+    }
+
     private async getTasksByCategory(categoryLabel: string): Promise<TaskItem[]> {
         const tasks = await this.getTasks();
         log(`getTasksByCategory called with label: '${categoryLabel}'. Total tasks: ${tasks.length}`);
@@ -846,23 +1175,18 @@ export class TaskProvider implements vscode.TreeDataProvider<TaskItem> {
                 
                 return currentItem;
             });
-        } else if (normalizedLabel.includes('next to work on')) {
+        } else if (normalizedLabel.includes('next to work on') || normalizedLabel.includes('下一步工作')) {
             // Return the next recommended task when section is expanded
-            const nextTask = await this.getNextRecommendedTask(tasks);
+            const nextTask = await this.getNextRecommendedTask();
             if (nextTask) {
-                // Determine if this is a task or subtask by checking if it's actually nested under another task
-                let parentTaskId: string | undefined;
-                let isSubtask = false;
+                const recommendation = this.nextRecommendation?.task === nextTask ? this.nextRecommendation : null;
                 
-                // Find the parent task for this potential subtask
-                const parentTask = tasks.find(task => 
-                    task.subtasks?.some(st => st.id === nextTask.id)
-                );
-                
-                if (parentTask) {
-                    isSubtask = true;
-                    parentTaskId = parentTask.id.toString();
+                // The recommendation knows the parent; otherwise look for a task that contains this subtask
+                let parentTaskId = recommendation?.parentTaskId;
+                if (!recommendation) {
+                    parentTaskId = tasks.find(task => task.subtasks?.includes(nextTask))?.id.toString();
                 }
+                const isSubtask = !!parentTaskId;
                 
                 const taskType = isSubtask ? '子任务' : '任务';
                 
@@ -877,19 +1201,23 @@ export class TaskProvider implements vscode.TreeDataProvider<TaskItem> {
                 );
                 nextTaskItem.iconPath = new vscode.ThemeIcon('arrow-right', new vscode.ThemeColor('charts.orange'));
                 
+                const readiness = nextTask.status === 'in-progress' ? '[进行中]' : '[准备就绪]';
                 if (isSubtask) {
-                    const parentTask = tasks.find(task => 
-                        task.subtasks?.some(st => st.id === nextTask.id)
-                    );
-                    nextTaskItem.description = `[准备就绪] 任务 ${parentTask?.id} 的一部分`;
+                    nextTaskItem.description = `${readiness} 任务 ${parentTaskId} 的一部分`;
                 } else {
-                    nextTaskItem.description = `[准备就绪] 优先级：${nextTask.priority?.toUpperCase() || 'MEDIUM'}`;
+                    nextTaskItem.description = `${readiness} 优先级：${nextTask.priority?.toUpperCase() || 'MEDIUM'}`;
+                }
+                if (recommendation) {
+                    nextTaskItem.description += ` • 得分 ${recommendation.score}`;
+                    nextTaskItem.tooltip = `${nextTaskItem.tooltip}\n\n💡 推荐理由：\n${recommendation.reasons.map(reason => `• ${reason}`).join('\n')}`;
                 }
                 nextTaskItem.contextValue = 'next-task';
                 
                 return [nextTaskItem];
             }
             return [];
+        } else if (normalizedLabel.includes('critical path') || normalizedLabel.includes('关键路径')) {
+            return this.getCriticalPathItems();
         } else if (normalizedLabel.includes('progress overview') || normalizedLabel.includes('进度概览')) {
             // Return progress items for the Progress Overview section
             return this.getProgressItems();
@@ -1130,6 +1458,55 @@ export class TaskProvider implements vscode.TreeDataProvider<TaskItem> {
         return items;
     }
 
+    /**
+     * Critical path of the current tag using the estimate settings
+     */
+    async getCriticalPath(): Promise<CriticalPathResult> {
+        const config = vscode.workspace.getConfiguration('claudeTaskMaster');
+        const tasks = await this.taskMasterClient.getTasks();
+        return computeCriticalPath(tasks, {
+            defaultEstimateHours: config.get<number>('defaultEstimateHours', 4),
+            hoursPerDay: config.get<number>('hoursPerDay', 8)
+        });
+    }
+
+    /**
+     * Tasks on the critical path in order, followed by a link to the full report
+     */
+    private async getCriticalPathItems(): Promise<TaskItem[]> {
+        const criticalPath = await this.getCriticalPath();
+        log(`getCriticalPathItems: ${criticalPath.path.length} tasks on the critical path, ${criticalPath.totalDuration}h remaining.`);
+
+        const items = criticalPath.path.map(entry => {
+            const item = new TaskItem(
+                `${entry.id}: ${entry.task.title}`,
+                vscode.TreeItemCollapsibleState.None,
+                entry.task,
+                'task',
+                0,
+                undefined,
+                this.getTagContext()
+            );
+            item.description = `${formatHours(entry.duration)}${entry.estimated ? '' : '（默认估算）'} • 最早开始 +${formatHours(entry.earliestStart)}`;
+            return item;
+        });
+
+        const reportItem = new TaskItem(
+            '📄 查看关键路径报告',
+            vscode.TreeItemCollapsibleState.None
+        );
+        reportItem.description = '每个任务的最早开始与松弛时间';
+        reportItem.iconPath = new vscode.ThemeIcon('markdown');
+        reportItem.command = {
+            command: 'claudeTaskMaster.showCriticalPath',
+            title: '查看关键路径报告',
+            arguments: []
+        };
+        items.push(reportItem);
+
+        return items;
+    }
+
     private async getProgressItems(): Promise<TaskItem[]> {
         const items: TaskItem[] = [];
         
@@ -1359,124 +1736,28 @@ export class TaskProvider implements vscode.TreeDataProvider<TaskItem> {
         return isExpanded ? '▼' : '▶';
     }
 
-    private async getNextRecommendedTask(tasks: Task[]): Promise<Task | null> {
-        // Collect all available tasks (main tasks and subtasks)
-        const allAvailableItems: Task[] = [];
+    /**
+     * Pick the next task with the shared recommender; the full recommendation is kept for the tooltip.
+     * Uses all tasks, since the tree filter only changes what is shown
+     */
+    private async getNextRecommendedTask(): Promise<Task | null> {
         log('Determining next recommended task.');
-        
-        // Add main tasks that are pending/todo
-        tasks.filter(task => task.status === 'todo' || task.status === 'pending')
-             .forEach(task => allAvailableItems.push(task));
-        
-        // Add subtasks that are pending/todo
-        tasks.forEach(task => {
-            if (task.subtasks) {
-                task.subtasks
-                    .filter(subtask => subtask.status === 'todo' || subtask.status === 'pending')
-                    .forEach(subtask => allAvailableItems.push(subtask));
-            }
-        });
-
-        if (allAvailableItems.length === 0) {
-            log('No available items to recommend.');
+        const tasks = await this.taskMasterClient.getTasks();
+        this.nextRecommendation = recommendNextTask(tasks, this.taskMasterClient.getRecommendationWeights());
+        if (!this.nextRecommendation) {
+            log('No ready items to recommend.');
             return null;
         }
-        log(`${allAvailableItems.length} available items found.`);
-
-        // Find items with no dependencies or all dependencies completed
-        const readyItems = allAvailableItems.filter(item => {
-            if (!item.dependencies || item.dependencies.length === 0) {
-                return true;
-            }
-            
-            // Check if all dependencies are completed
-            return item.dependencies.every(depId => {
-                // Look for dependency in main tasks
-                const depTask = tasks.find(t => t.id.toString() === depId.toString());
-                if (depTask && (depTask.status === 'completed' || depTask.status === 'done')) {
-                    return true;
-                }
-                
-                // Look for dependency in subtasks
-                for (const task of tasks) {
-                    if (task.subtasks) {
-                        const depSubtask = task.subtasks.find(st => st.id.toString() === depId.toString());
-                        if (depSubtask && (depSubtask.status === 'completed' || depSubtask.status === 'done')) {
-                            return true;
-                        }
-                    }
-                }
-                
-                return false;
-            });
-        });
-
-        if (readyItems.length === 0) {
-            log('No items with met dependencies. Recommending first available item.');
-            return allAvailableItems[0] || null; // Return first available if none are ready
-        }
-        log(`${readyItems.length} ready items found.`);
-
-        // Sort by priority and ID, with preference for subtasks of in-progress tasks
-        const priorityOrder = { 'critical': 4, 'high': 3, 'medium': 2, 'low': 1 };
-        readyItems.sort((a, b) => {
-            // Check if either is a subtask of an in-progress task
-            // Ensure IDs are strings before using .includes()
-            const aIdStr = a.id?.toString() || '';
-            const bIdStr = b.id?.toString() || '';
-            const aIsSubtaskOfInProgress = aIdStr.includes('.') && 
-                tasks.some(task => task.status === 'in-progress' && 
-                    task.subtasks?.some(st => st.id === a.id));
-            const bIsSubtaskOfInProgress = bIdStr.includes('.') && 
-                tasks.some(task => task.status === 'in-progress' && 
-                    task.subtasks?.some(st => st.id === b.id));
-            
-            // Prioritize subtasks of in-progress tasks
-            if (aIsSubtaskOfInProgress && !bIsSubtaskOfInProgress) {
-                return -1;
-            }
-            if (!aIsSubtaskOfInProgress && bIsSubtaskOfInProgress) {
-                return 1;
-            }
-            
-            // Then sort by priority (subtasks inherit parent's priority)
-            let aPriority = priorityOrder[a.priority as keyof typeof priorityOrder] || 2;
-            let bPriority = priorityOrder[b.priority as keyof typeof priorityOrder] || 2;
-            
-            // For subtasks, use parent's priority if subtask doesn't have one
-            if (aIdStr.includes('.') && !a.priority) {
-                const parentTask = tasks.find(task => 
-                    task.subtasks?.some(st => st.id === a.id)
-                );
-                if (parentTask?.priority) {
-                    aPriority = priorityOrder[parentTask.priority as keyof typeof priorityOrder] || 2;
-                }
-            }
-            
-            if (bIdStr.includes('.') && !b.priority) {
-                const parentTask = tasks.find(task => 
-                    task.subtasks?.some(st => st.id === b.id)
-                );
-                if (parentTask?.priority) {
-                    bPriority = priorityOrder[parentTask.priority as keyof typeof priorityOrder] || 2;
-                }
-            }
-            
-            if (aPriority !== bPriority) {
-                return bPriority - aPriority; // Higher priority first
-            }
-            
-            // If same priority, sort by ID (assuming numeric)
-            const aId = parseFloat(a.id.toString());
-            const bId = parseFloat(b.id.toString());
-            return aId - bId;
-        });
+        log(`Recommended task is: ${this.nextRecommendation.id} (score ${this.nextRecommendation.score})`);
+        return this.nextRecommendation.task;
+    }
 
-        const recommendedTask = readyItems[0];
-        if (recommendedTask) {
-            log(`Recommended task is: ${recommendedTask.id}`);
-            return recommendedTask;
-        }
-        return null;
+    /**
+     * Tag icon filled with a tag's chosen color; theme icons only take theme colors
+     */
+    private getTagColorIcon(color: string): vscode.Uri {
+        const svg = '<svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 16 16">'
+            + `<path fill="${color}" d="M2 2h6l6 6-6 6-6-6z"/><circle cx="5" cy="5" r="1.2" fill="#fff"/></svg>`;
+        return vscode.Uri.parse(`data:image/svg+xml;utf8,${encodeURIComponent(svg)}`);
     }
 } 
\ No newline at end of file
@@ -0,0 +1,135 @@
+import { Task } from './types';
+
+/**
+ * A subtask together with the main task that contains it
+ */
+export interface IndexedSubtask {
+    task: Task;
+    parent: Task;
+}
+
+/**
+ * Immutable view of the tasks of one tag at one point in time.
+ * Task objects are frozen; callers that need to change a task must go through TaskMasterClient.
+ */
+export interface TaskSnapshot {
+    /** Invalidation key (tag + tasks.json/state.json mtime and size), null when the source can't be fingerprinted */
+    readonly key: string | null;
+    readonly tag: string;
+    readonly createdAt: number;
+    readonly tasks: readonly Task[];
+    /** Main tasks by ID */
+    readonly tasksById: ReadonlyMap<string, Task>;
+    /** Subtasks at any depth by qualified ID ("1.2", "1.2.3") */
+    readonly subtasksById: ReadonlyMap<string, IndexedSubtask>;
+    /** Subtasks by their raw ID, first occurrence wins (legacy lookups without a parent) */
+    readonly subtasksByRawId: ReadonlyMap<string, IndexedSubtask>;
+}
+
+/**
+ * Build a snapshot from processed tasks: freeze them and precompute the ID indexes
+ * @param tasks Normalized main tasks with nested subtasks
+ * @param tag The tag the tasks were read for
+ * @param key The invalidation key, or null when the snapshot must not be reused
+ * @param freeze Whether to freeze the task objects (false when indexing tasks owned by someone else)
+ * @returns The snapshot
+ */
+export function createTaskSnapshot(tasks: Task[], tag: string, key: string | null, freeze: boolean = true): TaskSnapshot {
+    const tasksById = new Map<string, Task>();
+    const subtasksById = new Map<string, IndexedSubtask>();
+    const subtasksByRawId = new Map<string, IndexedSubtask>();
+
+    const indexSubtasks = (parent: Task, qualifiedParentId: string) => {
+        for (const subtask of parent.subtasks || []) {
+            const rawId = subtask.id.toString();
+            const qualifiedId = rawId.includes('.') ? rawId : `${qualifiedParentId}.${rawId}`;
+            const entry: IndexedSubtask = { task: subtask, parent };
+            if (!subtasksById.has(qualifiedId)) {
+                subtasksById.set(qualifiedId, entry);
+            }
+            if (!subtasksByRawId.has(rawId)) {
+                subtasksByRawId.set(rawId, entry);
+            }
+            indexSubtasks(subtask, qualifiedId);
+        }
+    };
+
+    for (const task of tasks) {
+        if (freeze) {
+            deepFreeze(task);
+        }
+        const taskId = task.id.toString();
+        if (!tasksById.has(taskId)) {
+            tasksById.set(taskId, task);
+        }
+        indexSubtasks(task, taskId);
+    }
+
+    return Object.freeze({
+        key,
+        tag,
+        createdAt: Date.now(),
+        tasks: Object.freeze([...tasks]),
+        tasksById,
+        subtasksById,
+        subtasksByRawId
+    });
+}
+
+/**
+ * Look up a task or subtask in a snapshot.
+ * Accepts a main task ID, a dotted subtask ID ("1.2") or a parent ID plus subtask ID.
+ * @param snapshot The snapshot to search
+ * @param taskId Main task ID or dotted subtask ID
+ * @param subtaskId Optional subtask ID within taskId (raw "2" or qualified "1.2")
+ * @returns The task or null when not found
+ */
+export function findTaskInSnapshot(snapshot: TaskSnapshot, taskId: string, subtaskId?: string): Task | null {
+    const mainId = taskId.toString();
+
+    if (subtaskId) {
+        const subId = subtaskId.toString();
+        const qualified = subId.startsWith(`${mainId}.`) ? subId : `${mainId}.${subId}`;
+        const entry = snapshot.subtasksById.get(qualified);
+        if (entry && entry.parent.id.toString() === mainId) {
+            return entry.task;
+        }
+        // Subtasks stored with their own dotted IDs: match the raw ID or the part after the first dot
+        const parent = snapshot.tasksById.get(mainId);
+        return parent?.subtasks?.find(sub => {
+            const rawId = sub.id.toString();
+            return rawId === subId || (rawId.includes('.') && rawId.split('.').slice(1).join('.') === subId);
+        }) || null;
+    }
+
+    const mainTask = snapshot.tasksById.get(mainId);
+    if (mainTask) {
+        return mainTask;
+    }
+
+    if (mainId.includes('.')) {
+        return snapshot.subtasksById.get(mainId)?.task || null;
+    }
+
+    // Legacy fallback: a bare subtask ID without its parent
+    return snapshot.subtasksByRawId.get(mainId)?.task || null;
+}
+
+function deepFreeze(task: Task): void {
+    if (Object.isFrozen(task)) {
+        return;
+    }
+    for (const subtask of task.subtasks || []) {
+        deepFreeze(subtask);
+    }
+    if (task.subtasks) {
+        Object.freeze(task.subtasks);
+    }
+    if (task.dependencies) {
+        Object.freeze(task.dependencies);
+    }
+    if (task.tags) {
+        Object.freeze(task.tags);
+    }
+    Object.freeze(task);
+}
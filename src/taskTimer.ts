@@ -0,0 +1,141 @@
+import * as vscode from 'vscode';
+import { TaskTimerState } from './types';
+import { formatTimerElapsed, getTimerElapsedMs } from './timeTrackingUtils';
+import { log } from './logger';
+
+/**
+ * Timer for the task being worked on, shown in the status bar. Its state lives in workspace state, so a
+ * running timer keeps counting across reloads; the claudeTaskMaster.timerState context key is "running",
+ * "paused" or unset for the timer commands' when clauses.
+ */
+export class TaskTimer {
+    private static readonly STATE_KEY = 'claudeTaskMaster.taskTimer';
+    private readonly statusBarItem: vscode.StatusBarItem;
+    private tickInterval: NodeJS.Timeout | undefined;
+    private state: TaskTimerState | undefined;
+
+    constructor(context: vscode.ExtensionContext, private readonly workspaceState: vscode.Memento) {
+        // Just right of the tag item
+        this.statusBarItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+        context.subscriptions.push(this.statusBarItem, { dispose: () => this.stopTicking() });
+
+        this.state = workspaceState.get<TaskTimerState>(TaskTimer.STATE_KEY);
+        this.update();
+    }
+
+    getState(): TaskTimerState | undefined {
+        return this.state;
+    }
+
+    /**
+     * Start timing a task, replacing any timer that is running; stop that one first to keep its time
+     * @param taskId Qualified ID, "3" or "3.1"
+     */
+    async start(taskId: string, tag: string, title: string): Promise<void> {
+        await this.save({ taskId, tag, title, elapsedMs: 0, runningSince: new Date().toISOString() });
+        log(`Started timer for task ${taskId} in tag ${tag}`);
+    }
+
+    async pause(): Promise<void> {
+        if (!this.state?.runningSince) {
+            return;
+        }
+        const { runningSince, ...paused } = this.state;
+        await this.save({ ...paused, elapsedMs: getTimerElapsedMs(this.state) });
+        log(`Paused timer for task ${paused.taskId}`);
+    }
+
+    async resume(): Promise<void> {
+        if (!this.state || this.state.runningSince) {
+            return;
+        }
+        await this.save({ ...this.state, runningSince: new Date().toISOString() });
+        log(`Resumed timer for task ${this.state.taskId}`);
+    }
+
+    /**
+     * Stop the timer without recording anything
+     * @returns The timer as it was stopped, with all tracked time in elapsedMs
+     */
+    async stop(): Promise<TaskTimerState | undefined> {
+        if (!this.state) {
+            return undefined;
+        }
+        const { runningSince, ...stopped } = this.state;
+        stopped.elapsedMs = getTimerElapsedMs(this.state);
+        await this.save(undefined);
+        log(`Stopped timer for task ${stopped.taskId} after ${formatTimerElapsed(stopped.elapsedMs)}`);
+        return stopped;
+    }
+
+    /**
+     * Stop the timer once its time is recorded. When recording fails, e.g. because the task was deleted,
+     * the user chooses between discarding the time and keeping the timer.
+     * @param record Saves the time; gets the timer with all tracked time in elapsedMs
+     * @returns What record returned, or undefined when nothing was recorded
+     */
+    async stopAndRecord<T>(record: (timer: TaskTimerState) => Promise<T>): Promise<T | undefined> {
+        if (!this.state) {
+            return undefined;
+        }
+        const { runningSince, ...stopped } = this.state;
+        stopped.elapsedMs = getTimerElapsedMs(this.state);
+        try {
+            const result = await record(stopped);
+            await this.stop();
+            return result;
+        } catch (error) {
+            log(`Could not record the time of task ${stopped.taskId}: ${error}`);
+            const choice = await vscode.window.showErrorMessage(
+                `无法记录任务 ${stopped.taskId} 的用时：${error instanceof Error ? error.message : String(error)}`,
+                { modal: true },
+                '放弃用时',
+                '保留计时'
+            );
+            if (choice === '放弃用时') {
+                await this.stop();
+            }
+            return undefined;
+        }
+    }
+
+    private async save(state: TaskTimerState | undefined): Promise<void> {
+        this.state = state;
+        await this.workspaceState.update(TaskTimer.STATE_KEY, state);
+        this.update();
+    }
+
+    private update(): void {
+        const state = this.state;
+        vscode.commands.executeCommand('setContext', 'claudeTaskMaster.timerState', state ? (state.runningSince ? 'running' : 'paused') : undefined);
+        if (!state) {
+            this.stopTicking();
+            this.statusBarItem.hide();
+            return;
+        }
+
+        if (state.runningSince && !this.tickInterval) {
+            this.tickInterval = setInterval(() => this.render(), 1000);
+        } else if (!state.runningSince) {
+            this.stopTicking();
+        }
+        this.statusBarItem.command = state.runningSince ? 'claudeTaskMaster.pauseTimer' : 'claudeTaskMaster.resumeTimer';
+        this.statusBarItem.tooltip = `计时：任务 ${state.taskId} ${state.title}\n标签：${state.tag}\n`
+            + `点击${state.runningSince ? '暂停' : '继续'}计时，"停止计时"会把用时记入 actualTime`;
+        this.render();
+        this.statusBarItem.show();
+    }
+
+    private render(): void {
+        if (this.state) {
+            this.statusBarItem.text = `${this.state.runningSince ? '$(watch)' : '$(debug-pause)'} ${this.state.taskId} ${formatTimerElapsed(getTimerElapsedMs(this.state))}`;
+        }
+    }
+
+    private stopTicking(): void {
+        if (this.tickInterval) {
+            clearInterval(this.tickInterval);
+            this.tickInterval = undefined;
+        }
+    }
+}
@@ -0,0 +1,171 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import { RawTask, TaskPriority, TaskTemplate, TaskTemplateSubtask } from './types';
+
+const placeholderPattern = /\$\{([a-zA-Z0-9_-]+)\}/g;
+
+const priorities: TaskPriority[] = ['low', 'medium', 'high', 'critical'];
+
+// Placeholders filled in without asking
+const builtInPlaceholders: Record<string, () => string> = {
+    'date': () => new Date().toISOString().slice(0, 10)
+};
+
+/**
+ * Read every template in a folder; files that aren't valid templates are reported and skipped
+ * @param templatesDir Usually .taskmaster/templates
+ * @returns Templates sorted by name, and one message per skipped file
+ */
+export function loadTaskTemplates(templatesDir: string): { templates: TaskTemplate[]; errors: string[] } {
+    const templates: TaskTemplate[] = [];
+    const errors: string[] = [];
+    if (!fs.existsSync(templatesDir)) {
+        return { templates, errors };
+    }
+
+    for (const file of fs.readdirSync(templatesDir).filter(name => name.endsWith('.json'))) {
+        try {
+            templates.push(parseTaskTemplate(JSON.parse(fs.readFileSync(path.join(templatesDir, file), 'utf8')), path.basename(file, '.json')));
+        } catch (error) {
+            errors.push(`${file}：${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+    templates.sort((a, b) => a.name.localeCompare(b.name));
+    return { templates, errors };
+}
+
+/**
+ * Check the contents of a template file and keep the fields a template uses
+ * @param data Parsed JSON
+ * @param fallbackName Name to use when the file doesn't set one
+ * @throws Error with a user-facing message when a required field is missing or has the wrong type
+ */
+export function parseTaskTemplate(data: unknown, fallbackName: string): TaskTemplate {
+    if (!isObject(data) || typeof data['title'] !== 'string' || !data['title'].trim()) {
+        throw new Error('模板必须包含 title');
+    }
+    if (data['priority'] !== undefined && !priorities.includes(data['priority'] as TaskPriority)) {
+        throw new Error(`未知的优先级 ${String(data['priority'])}`);
+    }
+    const subtasks = data['subtasks'];
+    if (subtasks !== undefined && !Array.isArray(subtasks)) {
+        throw new Error('subtasks 必须是数组');
+    }
+
+    const template: TaskTemplate = {
+        name: typeof data['name'] === 'string' && data['name'].trim() ? data['name'].trim() : fallbackName,
+        title: data['title'],
+        ...pickText(data),
+        ...(data['priority'] !== undefined ? { priority: data['priority'] as TaskPriority } : {})
+    };
+    if (subtasks && subtasks.length > 0) {
+        template.subtasks = subtasks.map((subtask: unknown, index) => parseTemplateSubtask(subtask, index + 1));
+    }
+    return template;
+}
+
+/**
+ * List the placeholders a template asks for, in the order they first appear; built-in ones like ${date} are left out
+ */
+export function findTemplatePlaceholders(template: TaskTemplate): string[] {
+    const names = new Set<string>();
+    for (const text of getTemplateTexts(template)) {
+        for (const match of text.matchAll(placeholderPattern)) {
+            const name = match[1] as string;
+            if (!(name in builtInPlaceholders)) {
+                names.add(name);
+            }
+        }
+    }
+    return [...names];
+}
+
+/**
+ * Replace ${name} with its value; unknown placeholders are left as written
+ */
+export function fillTemplatePlaceholders(text: string, values: Record<string, string>): string {
+    return text.replace(placeholderPattern, (placeholder, name: string) => {
+        if (Object.prototype.hasOwnProperty.call(values, name)) {
+            return values[name] as string;
+        }
+        const builtIn = builtInPlaceholders[name];
+        return builtIn ? builtIn() : placeholder;
+    });
+}
+
+/**
+ * Build the raw task a template describes, with its subtasks numbered from 1 in template order
+ * @param template Template to use
+ * @param values Placeholder values
+ * @param id ID of the new task
+ * @returns Task ready to add to tasks.json
+ */
+export function createTaskFromTemplate(template: TaskTemplate, values: Record<string, string>, id: number): RawTask {
+    const now = new Date().toISOString();
+    const fill = (text: string) => fillTemplatePlaceholders(text, values);
+    const task: RawTask = {
+        id,
+        title: fill(template.title),
+        description: fill(template.description || ''),
+        status: 'pending',
+        priority: template.priority || 'medium',
+        dependencies: [],
+        ...(template.details ? { details: fill(template.details) } : {}),
+        ...(template.testStrategy ? { testStrategy: fill(template.testStrategy) } : {}),
+        created: now,
+        updated: now
+    };
+    if (template.subtasks) {
+        task.subtasks = template.subtasks.map((subtask, index) => ({
+            id: index + 1,
+            title: fill(subtask.title),
+            description: fill(subtask.description || ''),
+            status: 'pending',
+            dependencies: subtask.dependencies || [],
+            ...(subtask.details ? { details: fill(subtask.details) } : {}),
+            ...(subtask.testStrategy ? { testStrategy: fill(subtask.testStrategy) } : {}),
+            created: now,
+            updated: now
+        }));
+    }
+    return task;
+}
+
+function parseTemplateSubtask(data: unknown, position: number): TaskTemplateSubtask {
+    if (!isObject(data) || typeof data['title'] !== 'string' || !data['title'].trim()) {
+        throw new Error(`第 ${position} 个子任务缺少 title`);
+    }
+    const dependencies = data['dependencies'];
+    if (dependencies !== undefined && (!Array.isArray(dependencies)
+        || !dependencies.every(dependency => Number.isInteger(dependency) && dependency >= 1 && dependency < position))) {
+        throw new Error(`第 ${position} 个子任务的 dependencies 只能引用它之前的子任务编号`);
+    }
+    return {
+        title: data['title'],
+        ...pickText(data),
+        ...(dependencies && dependencies.length > 0 ? { dependencies: dependencies as number[] } : {})
+    };
+}
+
+function pickText(data: Record<string, unknown>): Pick<TaskTemplate, 'description' | 'details' | 'testStrategy'> {
+    const text: Pick<TaskTemplate, 'description' | 'details' | 'testStrategy'> = {};
+    for (const field of ['description', 'details', 'testStrategy'] as const) {
+        const value = data[field];
+        if (typeof value === 'string') {
+            text[field] = value;
+        }
+    }
+    return text;
+}
+
+function getTemplateTexts(template: TaskTemplate): string[] {
+    const texts = [template.title, template.description, template.details, template.testStrategy];
+    for (const subtask of template.subtasks || []) {
+        texts.push(subtask.title, subtask.description, subtask.details, subtask.testStrategy);
+    }
+    return texts.filter((text): text is string => !!text);
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
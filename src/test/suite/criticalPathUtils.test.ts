@@ -0,0 +1,81 @@
+import * as assert from 'assert';
+import { computeCriticalPath, generateCriticalPathReport, parseEstimatedHours } from '../../criticalPathUtils';
+import { Task, TaskStatus } from '../../types';
+
+suite('Critical Path Utils Test Suite', () => {
+    const options = { defaultEstimateHours: 4, hoursPerDay: 8 };
+    const task = (id: string, estimatedTime: string | undefined, dependencies: string[] = [], status: TaskStatus = 'pending'): Task => ({
+        id,
+        title: `Task ${id}`,
+        status,
+        dependencies,
+        ...(estimatedTime ? { estimatedTime } : {})
+    });
+
+    test('Should parse common estimate formats', () => {
+        assert.strictEqual(parseEstimatedHours('3h'), 3);
+        assert.strictEqual(parseEstimatedHours('1.5 days'), 12);
+        assert.strictEqual(parseEstimatedHours('30m'), 0.5);
+        assert.strictEqual(parseEstimatedHours('2-4h'), 3);
+        assert.strictEqual(parseEstimatedHours('1w', 6), 30);
+        assert.strictEqual(parseEstimatedHours('2天'), 16);
+        assert.strictEqual(parseEstimatedHours('5'), 5);
+        assert.strictEqual(parseEstimatedHours('soon'), undefined);
+        assert.strictEqual(parseEstimatedHours(undefined), undefined);
+    });
+
+    test('Should compute earliest start, slack and the critical path', () => {
+        const result = computeCriticalPath([
+            task('1', '2h'),
+            task('2', '6h', ['1']),
+            task('3', '1h', ['1']),
+            task('4', '1h', ['2', '3'])
+        ], options);
+
+        const byId = new Map(result.entries.map(entry => [entry.id, entry]));
+        assert.strictEqual(result.totalDuration, 9);
+        assert.strictEqual(byId.get('3')?.earliestStart, 2);
+        assert.strictEqual(byId.get('3')?.slack, 5);
+        assert.strictEqual(byId.get('4')?.earliestStart, 8);
+        assert.deepStrictEqual(result.path.map(entry => entry.id), ['1', '2', '4']);
+    });
+
+    test('Should treat finished tasks as taking no time', () => {
+        const result = computeCriticalPath([
+            task('1', '8h', [], 'done'),
+            task('2', '2h', ['1']),
+            task('3', undefined, [], 'cancelled')
+        ], options);
+
+        assert.strictEqual(result.totalDuration, 2);
+        assert.deepStrictEqual(result.path.map(entry => entry.id), ['2']);
+    });
+
+    test('Should fall back to subtask estimates and then to the default', () => {
+        const parent: Task = {
+            ...task('1', undefined),
+            subtasks: [task('1', '1h'), task('2', undefined), task('3', '5h', [], 'done')]
+        };
+        const result = computeCriticalPath([parent, task('2', undefined)], options);
+
+        assert.strictEqual(result.entries[0]?.duration, 5);
+        assert.strictEqual(result.entries[0]?.estimated, false);
+        assert.strictEqual(result.entries[1]?.duration, 4);
+    });
+
+    test('Should survive dependency cycles', () => {
+        const result = computeCriticalPath([task('1', '1h', ['2']), task('2', '1h', ['1'])], options);
+
+        assert.strictEqual(result.totalDuration, 2);
+        assert.strictEqual(result.path.length, 2);
+    });
+
+    test('Should render a markdown report', () => {
+        const result = computeCriticalPath([task('1', '2h'), task('2', undefined, ['1'])], options);
+        const report = generateCriticalPathReport(result, { tagLabel: 'master', hoursPerDay: 8 });
+
+        assert.ok(report.startsWith('# 关键路径：master'));
+        assert.ok(report.includes('1. **1** Task 1'));
+        assert.ok(report.includes('| 2 Task 2 | 待办 | 4h* | +2h | +6h | 0h | 🔴 |'));
+    });
+});
@@ -0,0 +1,60 @@
+import * as assert from 'assert';
+import { buildDependencyGraph, generateDependencyGraphHtml } from '../../dependencyGraph';
+import { Task } from '../../types';
+
+suite('Dependency Graph Test Suite', () => {
+    const task = (id: string, dependencies: string[] = [], subtasks: Task[] = []): Task => ({
+        id,
+        title: `Task ${id}`,
+        status: 'pending',
+        dependencies,
+        subtasks
+    });
+
+    const tasks = [
+        task('1'),
+        task('2', ['1'], [task('1'), task('2', ['1'])]),
+        task('3', ['1', '2.2']),
+        task('4', ['9'])
+    ];
+
+    test('Should layer tasks after their deepest dependency', () => {
+        const graph = buildDependencyGraph(tasks, false);
+
+        assert.deepStrictEqual(graph.nodes.map(node => [node.id, node.layer, node.row]), [
+            ['1', 0, 0],
+            ['2', 1, 0],
+            ['3', 2, 0],
+            ['4', 0, 1]
+        ]);
+        assert.strictEqual(graph.layerCount, 3);
+    });
+
+    test('Should draw subtask dependencies on the parent when subtasks are hidden', () => {
+        const graph = buildDependencyGraph(tasks, false);
+
+        assert.deepStrictEqual(graph.edges.map(edge => `${edge.from}>${edge.to}`), ['1>2', '1>3', '2>3']);
+    });
+
+    test('Should include subtasks as nodes when requested', () => {
+        const graph = buildDependencyGraph(tasks, true);
+
+        assert.ok(graph.nodes.some(node => node.id === '2.2' && node.parentId === '2'));
+        assert.ok(graph.edges.some(edge => edge.from === '2.1' && edge.to === '2.2'));
+        assert.ok(graph.edges.some(edge => edge.from === '2.2' && edge.to === '3'));
+    });
+
+    test('Should flag edges that close a cycle', () => {
+        const graph = buildDependencyGraph([task('1', ['2']), task('2', ['1'])], false);
+
+        assert.strictEqual(graph.edges.filter(edge => edge.cyclic).length, 1);
+    });
+
+    test('Should escape task titles and highlight the next task', () => {
+        const graph = buildDependencyGraph([{ ...task('1'), title: '<script>' }], false);
+        const html = generateDependencyGraphHtml(graph, { nextTaskId: '1', includeSubtasks: false, tagLabel: 'master' });
+
+        assert.ok(html.includes('&lt;script&gt;'));
+        assert.ok(html.includes('class="node status-pending next"'));
+    });
+});
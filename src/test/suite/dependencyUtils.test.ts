@@ -0,0 +1,69 @@
+import * as assert from 'assert';
+import { resolveDependency, validateDependencies } from '../../dependencyUtils';
+import { Task } from '../../types';
+
+suite('Dependency Utils Test Suite', () => {
+    const task = (id: string, dependencies: string[] = [], subtasks: Task[] = []): Task => ({
+        id,
+        title: `Task ${id}`,
+        status: 'pending',
+        dependencies,
+        subtasks
+    });
+
+    test('Should accept valid task and subtask dependencies', () => {
+        const tasks = [
+            task('1'),
+            task('2', ['1'], [task('1'), task('2', ['1']), task('3', ['2.1'])]),
+            task('3', ['2.2'])
+        ];
+
+        assert.deepStrictEqual(validateDependencies(tasks), []);
+    });
+
+    test('Should resolve bare subtask dependencies to siblings first', () => {
+        const knownIds = new Set(['1', '2', '2.1']);
+
+        assert.strictEqual(resolveDependency('1', knownIds, '2'), '2.1');
+        assert.strictEqual(resolveDependency('2', knownIds, '2'), '2');
+        assert.strictEqual(resolveDependency('1', knownIds), '1');
+        assert.strictEqual(resolveDependency('9', knownIds, '2'), undefined);
+    });
+
+    test('Should report missing and self dependencies', () => {
+        const issues = validateDependencies([task('1', ['1', '7']), task('2', [], [task('1', ['4'])])]);
+
+        assert.deepStrictEqual(issues.map(issue => [issue.kind, issue.taskId, issue.dependency]), [
+            ['self', '1', '1'],
+            ['missing', '1', '7'],
+            ['missing', '2.1', '4']
+        ]);
+    });
+
+    test('Should report subtasks depending on subtasks of another parent', () => {
+        const issues = validateDependencies([
+            task('1', [], [task('1')]),
+            task('2', [], [task('1', ['1.1'])])
+        ]);
+
+        assert.strictEqual(issues.length, 1);
+        assert.strictEqual(issues[0]?.kind, 'crossParent');
+        assert.strictEqual(issues[0]?.targetId, '1.1');
+    });
+
+    test('Should report each cycle once on its closing edge', () => {
+        const issues = validateDependencies([task('1', ['3']), task('2', ['1']), task('3', ['2']), task('4', ['3'])]);
+
+        assert.strictEqual(issues.length, 1);
+        assert.strictEqual(issues[0]?.kind, 'cycle');
+        assert.strictEqual(issues[0]?.taskId, '2');
+        assert.deepStrictEqual(issues[0]?.cycle, ['1', '3', '2', '1']);
+    });
+
+    test('Should detect cycles through subtasks', () => {
+        const issues = validateDependencies([task('1', ['2.1']), task('2', [], [task('1', ['3'])]), task('3', ['1'])]);
+
+        assert.strictEqual(issues.length, 1);
+        assert.deepStrictEqual(issues[0]?.cycle, ['1', '2.1', '3', '1']);
+    });
+});
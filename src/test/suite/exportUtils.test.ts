@@ -0,0 +1,75 @@
+import * as assert from 'assert';
+import { exportTasks, generateCsvExport, generateHtmlReport, generateJsonExport, generateMarkdownReport } from '../../exportUtils';
+import { parseCsvTasks } from '../../importUtils';
+import { Task, TaskExportSection } from '../../types';
+
+suite('Export Utils Test Suite', () => {
+    const tasks: Task[] = [
+        {
+            id: '1', title: 'Design, review', status: 'completed', priority: 'high', description: 'Sketch "v2"', subtasks: [
+                { id: '1', title: 'Wireframes', status: 'completed' },
+                { id: '2', title: 'Review', status: 'in-progress', dependencies: ['1'] }
+            ]
+        },
+        { id: '2', title: 'Build <api>', status: 'todo', priority: 'medium', assignee: 'ana', dependencies: ['1'] }
+    ];
+    const sections: TaskExportSection[] = [{ tag: 'master', tasks }, { tag: 'empty', tasks: [] }];
+    const exportedAt = new Date('2026-01-05T09:00:00Z');
+
+    test('Should write a Markdown status report with a checklist per tag', () => {
+        const report = generateMarkdownReport(sections, { filterDescription: '优先级：高', exportedAt });
+
+        assert.ok(report.includes('筛选：优先级：高'));
+        assert.ok(report.includes('## 标签：master'));
+        assert.ok(report.includes('完成 2/4（50%）• 进行中 1 • 已阻塞 0'));
+        assert.ok(report.includes('- [x] **1** Design, review — 已完成 · 优先级高'));
+        assert.ok(report.includes('  - [ ] **1.2** Review — 进行中'));
+        assert.ok(report.includes('- [ ] **2** Build <api> — 待办 · 优先级中 · @ana'));
+        assert.ok(report.includes('## 标签：empty\n\n完成 0/0（0%）• 进行中 0 • 已阻塞 0\n\n没有任务。'));
+    });
+
+    test('Should write CSV that can be imported again', () => {
+        const csv = generateCsvExport(sections);
+
+        assert.ok(csv.startsWith('\uFEFFtag,id,title,description,status'));
+        assert.ok(csv.includes('master,1,"Design, review","Sketch ""v2""",completed,high,'));
+        const { tasks: imported, warnings } = parseCsvTasks(csv);
+        assert.deepStrictEqual(warnings, []);
+        assert.deepStrictEqual(imported.map(task => [task.id, task.title, task.status, task.subtasks?.length || 0]), [
+            [1, 'Design, review', 'done', 2],
+            [2, 'Build <api>', 'pending', 0]
+        ]);
+        assert.deepStrictEqual(imported[0]?.subtasks?.[1]?.dependencies, [1]);
+    });
+
+    test('Should keep CSV cells from being read as formulas', () => {
+        const formulas: Task[] = [
+            { id: '1', title: '=HYPERLINK("http://example.com")', status: 'todo', description: '@mention' },
+            { id: '2', title: '-1 day', status: 'todo', details: '+ more' }
+        ];
+        const csv = generateCsvExport([{ tag: 'master', tasks: formulas }]);
+
+        assert.ok(csv.includes('master,1,"\'=HYPERLINK(""http://example.com"")",\'@mention,'));
+        assert.ok(csv.includes('master,2,\'-1 day,'));
+        assert.ok(csv.includes(',\'+ more,'));
+        assert.deepStrictEqual(parseCsvTasks(csv).tasks.map(task => [task.title, task.description, task.details]), [
+            ['=HYPERLINK("http://example.com")', '@mention', undefined],
+            ['-1 day', '', '+ more']
+        ]);
+    });
+
+    test('Should write JSON grouped by tag and a self-contained HTML report', () => {
+        const json = JSON.parse(generateJsonExport(sections, { exportedAt }));
+        assert.strictEqual(json.exportedAt, '2026-01-05T09:00:00.000Z');
+        assert.strictEqual(json.filter, undefined);
+        assert.deepStrictEqual(Object.keys(json.tags), ['master', 'empty']);
+        assert.strictEqual(json.tags.master.tasks[0].subtasks.length, 2);
+
+        const html = generateHtmlReport(sections, { exportedAt });
+        assert.ok(html.includes('--tm-bg-primary: var(--vscode-editor-background, #1e1e1e)'));
+        assert.ok(html.includes('Build &lt;api&gt;'));
+        assert.ok(html.includes('<span class="status-badge status-in-progress">进行中</span>'));
+        assert.ok(!/<script|<link|src="/.test(html));
+        assert.strictEqual(exportTasks('html', sections, { exportedAt }), html);
+    });
+});
@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { isTaskFileArtifact, withFileLock, writeFileAtomic } from '../../fileUtils';
+
+suite('File Utils Test Suite', () => {
+    let tempDir: string;
+    let lockPath: string;
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'file-utils-'));
+        lockPath = path.join(tempDir, 'tasks.lock');
+    });
+
+    teardown(() => {
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    test('Should replace a file without leaving temp files behind', () => {
+        const filePath = path.join(tempDir, 'tasks.json');
+        fs.writeFileSync(filePath, '{"old":true}');
+
+        writeFileAtomic(filePath, '{"new":true}');
+
+        assert.strictEqual(fs.readFileSync(filePath, 'utf8'), '{"new":true}');
+        assert.deepStrictEqual(fs.readdirSync(tempDir), ['tasks.json']);
+    });
+
+    test('Should hold the lock file only while the action runs', async () => {
+        const result = await withFileLock(lockPath, () => {
+            assert.ok(fs.existsSync(lockPath));
+            return 42;
+        });
+
+        assert.strictEqual(result, 42);
+        assert.ok(!fs.existsSync(lockPath));
+    });
+
+    test('Should release the lock when the action throws', async () => {
+        await assert.rejects(() => withFileLock(lockPath, () => {
+            throw new Error('boom');
+        }), /boom/);
+        assert.ok(!fs.existsSync(lockPath));
+    });
+
+    test('Should wait for another holder to release the lock', async () => {
+        fs.writeFileSync(lockPath, '{"pid":1}');
+        setTimeout(() => fs.unlinkSync(lockPath), 120);
+
+        const started = Date.now();
+        await withFileLock(lockPath, () => undefined);
+        assert.ok(Date.now() - started >= 100);
+    });
+
+    test('Should take over a stale lock', async () => {
+        fs.writeFileSync(lockPath, '{"pid":1}');
+        const anHourAgo = new Date(Date.now() - 60 * 60 * 1000);
+        fs.utimesSync(lockPath, anHourAgo, anHourAgo);
+
+        let ran = false;
+        await withFileLock(lockPath, () => {
+            ran = true;
+        });
+        assert.ok(ran);
+    });
+
+    test('Should recognize lock and temp files', () => {
+        assert.ok(isTaskFileArtifact('/p/.taskmaster/tasks.lock'));
+        assert.ok(isTaskFileArtifact('/p/.taskmaster/tasks/tasks.json.123.456.tmp'));
+        assert.ok(!isTaskFileArtifact('/p/.taskmaster/tasks/tasks.json'));
+        assert.ok(isTaskFileArtifact('/p/.taskmaster/history/master.json'));
+    });
+});
@@ -0,0 +1,56 @@
+import * as assert from 'assert';
+import { applyTaskFilter, describeFilter, isFilterActive, matchesFilter } from '../../filterUtils';
+import { Task } from '../../types';
+
+suite('Filter Utils Test Suite', () => {
+    const tasks: Task[] = [
+        {
+            id: '1',
+            title: 'Backend work',
+            status: 'pending',
+            priority: 'high',
+            category: 'backend',
+            assignee: 'alice',
+            subtasks: [
+                { id: '1', title: 'Done part', status: 'done' },
+                { id: '2', title: 'Blocked part', status: 'blocked', tags: ['spike'] }
+            ]
+        },
+        { id: '2', title: 'Frontend work', status: 'in-progress', priority: 'low', category: 'frontend' }
+    ];
+
+    test('Should treat empty lists as inactive', () => {
+        assert.strictEqual(isFilterActive({}), false);
+        assert.strictEqual(isFilterActive({ statuses: [], tags: [] }), false);
+        assert.strictEqual(isFilterActive({ priorities: ['high'] }), true);
+    });
+
+    test('Should match status aliases', () => {
+        assert.strictEqual(matchesFilter({ id: '1', title: 'A', status: 'pending' }, { statuses: ['todo'] }), true);
+        assert.strictEqual(matchesFilter({ id: '1', title: 'A', status: 'completed' }, { statuses: ['done'] }), true);
+        assert.strictEqual(matchesFilter({ id: '1', title: 'A', status: 'blocked' }, { statuses: ['todo'] }), false);
+    });
+
+    test('Should require every active dimension to match', () => {
+        const result = applyTaskFilter(tasks, { priorities: ['high', 'low'], categories: ['frontend'] });
+        assert.deepStrictEqual(result.map(task => task.id), ['2']);
+    });
+
+    test('Should keep parents of matching subtasks with only those subtasks', () => {
+        const result = applyTaskFilter(tasks, { statuses: ['blocked'] });
+        assert.strictEqual(result.length, 1);
+        assert.strictEqual(result[0]?.id, '1');
+        assert.deepStrictEqual(result[0]?.subtasks?.map(subtask => subtask.title), ['Blocked part']);
+        // The original task is left untouched
+        assert.strictEqual(tasks[0]?.subtasks?.length, 2);
+    });
+
+    test('Should let subtasks inherit parent fields', () => {
+        const result = applyTaskFilter(tasks, { assignees: ['alice'], tags: ['spike'] });
+        assert.deepStrictEqual(result[0]?.subtasks?.map(subtask => subtask.id), ['2']);
+    });
+
+    test('Should describe the filter in Chinese', () => {
+        assert.strictEqual(describeFilter({ statuses: ['todo', 'in-progress'], priorities: ['high'] }), '状态：待办, 进行中 • 优先级：高');
+    });
+});
@@ -0,0 +1,38 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { findGitHeadPath, getTagForBranch, parseGitHead } from '../../gitBranchUtils';
+
+suite('Git Branch Utils Test Suite', () => {
+    test('Should read the branch from HEAD and ignore a detached HEAD', () => {
+        assert.strictEqual(parseGitHead('ref: refs/heads/feature/login\n'), 'feature/login');
+        assert.strictEqual(parseGitHead('3f1c2a9d8e7b6a5f4e3d2c1b0a9f8e7d6c5b4a3f\n'), undefined);
+    });
+
+    test('Should map branches to tags', () => {
+        assert.strictEqual(getTagForBranch('main'), 'master');
+        assert.strictEqual(getTagForBranch('feature/login page'), 'feature-login-page');
+        assert.strictEqual(getTagForBranch('release/2.1', { 'release/*': 'release' }), 'release');
+        assert.strictEqual(getTagForBranch('main', { main: 'trunk' }), 'trunk');
+        assert.strictEqual(getTagForBranch('///'), undefined);
+        assert.ok((getTagForBranch('x'.repeat(80)) || '').length <= 50);
+    });
+
+    test('Should find HEAD in a repository and in a worktree', () => {
+        const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'git-branch-'));
+        try {
+            const repo = path.join(tempDir, 'repo');
+            const worktree = path.join(tempDir, 'worktree');
+            fs.mkdirSync(path.join(repo, '.git'), { recursive: true });
+            fs.mkdirSync(worktree);
+            fs.writeFileSync(path.join(worktree, '.git'), 'gitdir: ../repo/.git/worktrees/feature\n');
+
+            assert.strictEqual(findGitHeadPath(repo), path.join(repo, '.git', 'HEAD'));
+            assert.strictEqual(findGitHeadPath(worktree), path.join(repo, '.git', 'worktrees', 'feature', 'HEAD'));
+            assert.strictEqual(findGitHeadPath(tempDir), undefined);
+        } finally {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        }
+    });
+});
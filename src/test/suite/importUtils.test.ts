@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+import { parseCsvTasks, parseMarkdownTasks, parseTaskImport } from '../../importUtils';
+
+suite('Import Utils Test Suite', () => {
+    test('Should read nested Markdown checklists as tasks and subtasks', () => {
+        const { tasks, warnings } = parseMarkdownTasks([
+            '# Release plan',
+            '- [ ] Prepare release',
+            '  Everything before the build',
+            '  - [x] Update changelog',
+            '  - [ ] Bump version',
+            '    - [ ] package.json',
+            '- [x] Announce',
+            '- [ ] ',
+            'Some closing notes'
+        ].join('\n'));
+
+        assert.deepStrictEqual(tasks.map(task => [task.id, task.title, task.status]), [[1, 'Prepare release', 'pending'], [2, 'Announce', 'done']]);
+        assert.strictEqual(tasks[0]?.description, 'Everything before the build');
+        assert.deepStrictEqual(tasks[0]?.subtasks?.map(subtask => [subtask.id, subtask.title, subtask.status]), [
+            [1, 'Update changelog', 'done'],
+            [2, 'Bump version', 'pending']
+        ]);
+        assert.strictEqual(tasks[0]?.subtasks?.[1]?.details, '- [ ] package.json');
+        assert.strictEqual(warnings.length, 1);
+    });
+
+    test('Should read CSV rows with quoted cells, subtask ids and dependencies', () => {
+        const { tasks, warnings } = parseCsvTasks([
+            'id,title,description,priority,status,dependencies',
+            '1,Design,"Sketch, then review",high,todo,',
+            '2,Build,"Uses ""v2"" API",urgent,in progress,1',
+            '2.1,API,,,done,2.2 7',
+            ',Docs,,low,,1;2;42',
+            '9.1,Orphan,,,,',
+            ',,,,,'
+        ].join('\r\n'));
+
+        assert.deepStrictEqual(tasks.map(task => [task.id, task.title, task.priority, task.status]), [
+            [1, 'Design', 'high', 'pending'],
+            [2, 'Build', 'medium', 'in-progress'],
+            [3, 'Docs', 'low', 'pending']
+        ]);
+        assert.strictEqual(tasks[0]?.description, 'Sketch, then review');
+        assert.strictEqual(tasks[1]?.description, 'Uses "v2" API');
+        assert.deepStrictEqual(tasks[1]?.subtasks?.map(subtask => [subtask.id, subtask.status]), [[1, 'done']]);
+        assert.deepStrictEqual(tasks[2]?.dependencies, [1, 2]);
+        assert.deepStrictEqual(tasks[1]?.subtasks?.[0]?.dependencies, []);
+        assert.strictEqual(warnings.length, 5);
+        assert.ok(warnings.includes('任务 3 的依赖 42 不是文件中的任务，已去掉'));
+    });
+
+    test('Should pick the format from the file name and require a title column', () => {
+        assert.strictEqual(parseTaskImport('plan.CSV', '标题;优先级\nWrite docs;high').tasks[0]?.title, 'Write docs');
+        assert.strictEqual(parseTaskImport('plan.md', '- [ ] Write docs').tasks[0]?.title, 'Write docs');
+        assert.throws(() => parseCsvTasks('name,priority\nx,high'), /title/);
+    });
+});
@@ -0,0 +1,27 @@
+import * as assert from 'assert';
+import { getPropertyNode, parseJsonTree } from '../../jsonUtils';
+
+suite('JSON Utils Test Suite', () => {
+    test('Should keep the offset of every value', () => {
+        const text = '{\n  "tasks": [\n    { "id": 1, "dependencies": [2, "3.1"] }\n  ]\n}';
+        const root = parseJsonTree(text);
+
+        const task = getPropertyNode(root, 'tasks')?.children?.[0];
+        const dependencies = getPropertyNode(task, 'dependencies')?.children || [];
+
+        assert.deepStrictEqual(dependencies.map(node => node.value), [2, '3.1']);
+        assert.deepStrictEqual(dependencies.map(node => text.substr(node.offset, node.length)), ['2', '"3.1"']);
+    });
+
+    test('Should parse escapes and literals', () => {
+        const root = parseJsonTree('{"a": "x\\"y", "b": [true, false, null, -1.5e2]}');
+
+        assert.strictEqual(getPropertyNode(root, 'a')?.value, 'x"y');
+        assert.deepStrictEqual(getPropertyNode(root, 'b')?.children?.map(node => node.value), [true, false, null, -150]);
+    });
+
+    test('Should reject invalid JSON', () => {
+        assert.throws(() => parseJsonTree('{"a": 1,}'), /offset/);
+        assert.throws(() => parseJsonTree('[1] 2'), /after JSON value/);
+    });
+});
@@ -0,0 +1,48 @@
+import * as assert from 'assert';
+import { buildKanbanBoard, generateKanbanHtml } from '../../kanbanBoard';
+import { Task } from '../../types';
+
+suite('Kanban Board Test Suite', () => {
+    const tasks: Task[] = [
+        { id: '1', title: 'Setup', status: 'done' },
+        {
+            id: '2', title: 'Build', status: 'in-progress', priority: 'high', dependencies: ['1'], subtasks: [
+                { id: '1', title: 'Parser', status: 'completed' },
+                { id: '2', title: 'Printer', status: 'pending', dependencies: ['1', '3'] }
+            ]
+        },
+        { id: '3', title: 'Release', status: 'pending', dependencies: ['2', '9'] },
+        { id: '4', title: 'Review docs', status: 'review' }
+    ];
+
+    test('Should put each task in the column of its normalized status', () => {
+        const columns = buildKanbanBoard(tasks, false);
+
+        assert.deepStrictEqual(columns.map(column => column.status),
+            ['todo', 'in-progress', 'review', 'blocked', 'completed', 'deferred', 'cancelled']);
+        assert.deepStrictEqual(columns.map(column => column.cards.map(card => card.id)),
+            [['3'], ['2'], ['4'], [], ['1'], [], []]);
+    });
+
+    test('Should report unfinished dependencies and subtask progress', () => {
+        const cards = buildKanbanBoard(tasks, true).flatMap(column => column.cards);
+        const byId = new Map(cards.map(card => [card.id, card]));
+
+        assert.deepStrictEqual(byId.get('2')?.waitingFor, []);
+        assert.strictEqual(byId.get('2')?.subtasksDone, 1);
+        assert.strictEqual(byId.get('2')?.subtasksTotal, 2);
+        assert.deepStrictEqual(byId.get('3')?.waitingFor, ['2', '9']);
+        // A bare dependency on a subtask means a sibling first
+        assert.deepStrictEqual(byId.get('2.2')?.waitingFor, ['3']);
+        assert.strictEqual(byId.get('2.2')?.parentTaskId, '2');
+    });
+
+    test('Should render draggable cards with their task and parent IDs', () => {
+        const html = generateKanbanHtml(buildKanbanBoard(tasks, true), { nextTaskId: '2.2', includeSubtasks: true, tagLabel: '<master>' });
+
+        assert.ok(html.includes('data-id="2.2" data-task-id="2" data-parent-id="2" data-status="todo"'));
+        assert.ok(html.includes('#2.2 · 下一个'));
+        assert.ok(html.includes('⏳ 等待 2, 9'));
+        assert.ok(html.includes('&lt;master&gt;'));
+    });
+});
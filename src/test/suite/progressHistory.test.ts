@@ -0,0 +1,76 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildBurnChart, generateBurnChartHtml, readProgressHistory, recordProgressSnapshot } from '../../progressHistory';
+import { ProgressSnapshot, TaskProgress } from '../../types';
+
+function progress(total: number, completed: number, mainTotal = total, mainCompleted = completed): TaskProgress {
+    const stats = (count: number, done: number) => ({ total: count, completed: done, inProgress: 0, todo: count - done, blocked: 0 });
+    return { ...stats(total, completed), mainTasks: stats(mainTotal, mainCompleted), allItems: stats(total, completed) };
+}
+
+function snapshot(date: string, value: TaskProgress): ProgressSnapshot {
+    return { date, recordedAt: `${date}T12:00:00.000Z`, progress: value };
+}
+
+suite('Progress History Test Suite', () => {
+    test('Should keep one snapshot per day and skip unchanged progress', () => {
+        const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'progress-history-'));
+        const historyDir = path.join(tempDir, 'history');
+        try {
+            assert.strictEqual(recordProgressSnapshot(historyDir, 'master', progress(0, 0)), false);
+            assert.ok(!fs.existsSync(historyDir));
+
+            assert.strictEqual(recordProgressSnapshot(historyDir, 'master', progress(5, 1), new Date(2026, 0, 5, 9)), true);
+            assert.strictEqual(recordProgressSnapshot(historyDir, 'master', progress(5, 2), new Date(2026, 0, 5, 17)), true);
+            assert.strictEqual(recordProgressSnapshot(historyDir, 'master', progress(5, 2), new Date(2026, 0, 6, 9)), false);
+            assert.strictEqual(recordProgressSnapshot(historyDir, 'master', progress(7, 3), new Date(2026, 0, 7, 9)), true);
+
+            const history = readProgressHistory(historyDir, 'master');
+            assert.deepStrictEqual(history.map(entry => [entry.date, entry.progress.allItems.completed]), [
+                ['2026-01-05', 2],
+                ['2026-01-07', 3]
+            ]);
+            assert.deepStrictEqual(readProgressHistory(historyDir, 'feature'), []);
+        } finally {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        }
+    });
+
+    test('Should fill missing days and mark scope changes', () => {
+        const snapshots = [
+            snapshot('2026-01-30', progress(5, 0, 2, 0)),
+            snapshot('2026-02-01', progress(8, 2, 3, 1)),
+            snapshot('2026-02-02', progress(6, 3, 3, 1))
+        ];
+
+        const points = buildBurnChart(snapshots, 'allItems', new Date(2026, 1, 3));
+        assert.deepStrictEqual(points.map(point => [point.date, point.total, point.remaining, point.scopeChange]), [
+            ['2026-01-30', 5, 5, 0],
+            ['2026-01-31', 5, 5, 0],
+            ['2026-02-01', 8, 6, 3],
+            ['2026-02-02', 6, 3, -2],
+            ['2026-02-03', 6, 3, 0]
+        ]);
+        assert.deepStrictEqual(buildBurnChart(snapshots, 'mainTasks', new Date(2026, 1, 2)).map(point => point.remaining), [2, 2, 2, 2]);
+        assert.deepStrictEqual(buildBurnChart([], 'allItems'), []);
+    });
+
+    test('Should draw the chart with scope markers', () => {
+        const points = buildBurnChart([
+            snapshot('2026-01-05', progress(4, 0)),
+            snapshot('2026-01-06', progress(7, 2))
+        ], 'allItems', new Date(2026, 0, 6));
+
+        const burndown = generateBurnChartHtml(points, { tagLabel: '标签：<master>', mode: 'burndown', measure: 'allItems' });
+        assert.ok(burndown.includes('标签：&lt;master&gt;'));
+        assert.ok(burndown.includes('class="line remaining"'));
+        assert.ok(burndown.includes('>+3</text>'));
+        assert.ok(burndown.includes('剩余 5 / 共 7'));
+
+        const burnup = generateBurnChartHtml(points, { tagLabel: 'master', mode: 'burnup', measure: 'allItems' });
+        assert.ok(burnup.includes('class="line scope"') && burnup.includes('class="line completed"'));
+        assert.ok(generateBurnChartHtml(points.slice(0, 1), { tagLabel: 'master', mode: 'burndown', measure: 'allItems' }).includes('历史记录还不足两天'));
+    });
+});
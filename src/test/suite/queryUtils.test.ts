@@ -0,0 +1,74 @@
+import * as assert from 'assert';
+import { compileTaskQuery, parseTaskQuery } from '../../queryUtils';
+import { Task } from '../../types';
+
+suite('Query Utils Test Suite', () => {
+    const now = new Date('2025-01-10T00:00:00Z');
+    const parent: Task = {
+        id: '1',
+        title: 'Payment service',
+        status: 'in-progress',
+        priority: 'critical',
+        assignee: 'alice',
+        subtasks: [{ id: '2', title: 'Refund flow', status: 'pending' }]
+    };
+
+    test('Should parse negation, operators and alternatives', () => {
+        const terms = parseTaskQuery('-tag:spike priority:>=high status:pending,review login');
+        assert.deepStrictEqual(terms, [
+            { field: 'tag', operator: '=', values: ['spike'], negated: true },
+            { field: 'priority', operator: '>=', values: ['high'], negated: false },
+            { field: 'status', operator: '=', values: ['pending', 'review'], negated: false },
+            { field: '', operator: '=', values: ['login'], negated: false }
+        ]);
+    });
+
+    test('Should reject malformed queries', () => {
+        assert.throws(() => parseTaskQuery('color:red'), /不支持的查询字段/);
+        assert.throws(() => parseTaskQuery('priority:urgent'), /无效的优先级/);
+        assert.throws(() => parseTaskQuery('status:>todo'), /不支持比较运算符/);
+        assert.throws(() => parseTaskQuery('due:soon'), /无效的截止日期/);
+        assert.throws(() => parseTaskQuery('has:'), /缺少值/);
+    });
+
+    test('Should match status aliases and priority comparisons', () => {
+        const task: Task = { id: '5', title: 'Task', status: 'pending', priority: 'high' };
+        assert.strictEqual(compileTaskQuery('status:todo priority:>=high')(task), true);
+        assert.strictEqual(compileTaskQuery('priority:>high')(task), false);
+        // Missing priority counts as medium
+        assert.strictEqual(compileTaskQuery('priority:<=medium')({ id: '6', title: 'T', status: 'todo' }), true);
+    });
+
+    test('Should resolve assignee:me and inherit parent fields for subtasks', () => {
+        const predicate = compileTaskQuery('assignee:me priority:critical', { currentUser: 'Alice' });
+        assert.strictEqual(predicate(parent), true);
+        assert.strictEqual(predicate(parent.subtasks![0]!, parent), true);
+        assert.strictEqual(compileTaskQuery('id:1.2')(parent.subtasks![0]!, parent), true);
+    });
+
+    test('Should evaluate relative and absolute due dates', () => {
+        const soon: Task = { id: '7', title: 'Soon', status: 'todo', dueDate: '2025-01-12' };
+        const later: Task = { id: '8', title: 'Later', status: 'todo', dueDate: '2025-02-20' };
+        const late: Task = { id: '9', title: 'Late', status: 'todo', dueDate: '2025-01-01' };
+        const within = compileTaskQuery('due:<7d', { now });
+        assert.strictEqual(within(soon), true);
+        assert.strictEqual(within(later), false);
+        assert.strictEqual(within({ id: '10', title: 'No due', status: 'todo' }), false);
+        assert.strictEqual(compileTaskQuery('due:overdue', { now })(late), true);
+        assert.strictEqual(compileTaskQuery('due:>2025-02-01', { now })(later), true);
+    });
+
+    test('Should apply has: and negated terms', () => {
+        const spike: Task = { id: '11', title: 'Spike', status: 'todo', tags: ['spike'] };
+        assert.strictEqual(compileTaskQuery('has:subtasks')(parent), true);
+        assert.strictEqual(compileTaskQuery('has:subtasks')(spike), false);
+        assert.strictEqual(compileTaskQuery('-tag:spike')(spike), false);
+        assert.strictEqual(compileTaskQuery('-tag:spike')(parent), true);
+    });
+
+    test('Should match free text in title, description and details', () => {
+        assert.strictEqual(compileTaskQuery('payment')(parent), true);
+        assert.strictEqual(compileTaskQuery('"refund flow"')(parent.subtasks![0]!, parent), true);
+        assert.strictEqual(compileTaskQuery('shipping')(parent), false);
+    });
+});
@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import { recommendNextTask, recommendTasks, resolveRecommendationWeights } from '../../recommendationUtils';
+import { Task } from '../../types';
+
+suite('Recommendation Utils Test Suite', () => {
+    const now = new Date('2025-06-01T12:00:00Z');
+
+    test('Should treat done and completed dependencies alike', () => {
+        const tasks: Task[] = [
+            { id: '1', title: 'Done', status: 'done' },
+            { id: '2', title: 'Completed', status: 'completed' },
+            { id: '3', title: 'Ready', status: 'pending', dependencies: ['1', '2'] },
+            { id: '4', title: 'Waiting', status: 'pending', dependencies: ['3'] },
+            { id: '5', title: 'Missing dependency', status: 'pending', dependencies: ['42'] }
+        ];
+
+        assert.deepStrictEqual(recommendTasks(tasks, undefined, now).map(item => item.id), ['3']);
+    });
+
+    test('Should recommend ready subtasks instead of their parent', () => {
+        const tasks: Task[] = [
+            { id: '1', title: 'Setup', status: 'done' },
+            {
+                id: '2', title: 'Parent', status: 'in-progress', dependencies: ['1'], subtasks: [
+                    { id: '1', title: 'First step', status: 'done' },
+                    { id: '2', title: 'Second step', status: 'pending', dependencies: ['1'] },
+                    { id: '3', title: 'Third step', status: 'pending', dependencies: ['2'] }
+                ]
+            }
+        ];
+
+        const recommendation = recommendNextTask(tasks, undefined, now);
+        assert.strictEqual(recommendation?.id, '2.2');
+        assert.strictEqual(recommendation?.parentTaskId, '2');
+        assert.ok(recommendation?.reasons.some(reason => reason.includes('所属任务 2')));
+    });
+
+    test('Should not recommend subtasks of a blocked or unready parent', () => {
+        const tasks: Task[] = [
+            { id: '1', title: 'Pending', status: 'pending' },
+            { id: '2', title: 'Blocked', status: 'blocked', subtasks: [{ id: '1', title: 'Step', status: 'pending' }] },
+            { id: '3', title: 'Waits for 1', status: 'pending', dependencies: ['1'], subtasks: [{ id: '1', title: 'Step', status: 'pending' }] }
+        ];
+
+        assert.deepStrictEqual(recommendTasks(tasks, undefined, now).map(item => item.id), ['1']);
+    });
+
+    test('Should weigh priority, due dates and unblocked work', () => {
+        const tasks: Task[] = [
+            { id: '1', title: 'High priority', status: 'pending', priority: 'high' },
+            { id: '2', title: 'Overdue', status: 'pending', priority: 'low', dueDate: '2025-05-30' },
+            { id: '3', title: 'Unblocks two', status: 'pending', priority: 'medium' },
+            { id: '4', title: 'Needs 3', status: 'pending', dependencies: ['3'] },
+            { id: '5', title: 'Needs 4', status: 'pending', dependencies: ['4'] }
+        ];
+
+        const byId = new Map(recommendTasks(tasks, undefined, now).map(item => [item.id, item]));
+        assert.strictEqual(byId.get('1')?.score, 30);
+        assert.strictEqual(byId.get('2')?.score, 35);
+        assert.strictEqual(byId.get('3')?.score, 28);
+        assert.ok(byId.get('2')?.reasons.some(reason => reason.includes('已逾期 2 天')));
+        assert.ok(byId.get('3')?.reasons.some(reason => reason.includes('解锁 2 个任务')));
+
+        const priorityOnly = resolveRecommendationWeights({ dueDate: 0, unblocks: 0 });
+        assert.strictEqual(recommendNextTask(tasks, priorityOnly, now)?.id, '1');
+    });
+
+    test('Should favor work that is already in progress', () => {
+        const tasks: Task[] = [
+            { id: '1', title: 'Started', status: 'in-progress' },
+            { id: '2', title: 'Not started', status: 'pending' },
+            { id: '3', title: 'Started parent', status: 'in-progress', subtasks: [{ id: '1', title: 'Step', status: 'pending' }] }
+        ];
+
+        const byId = new Map(recommendTasks(tasks, undefined, now).map(item => [item.id, item]));
+        assert.deepStrictEqual([...byId.keys()], ['1', '3.1', '2']);
+        assert.strictEqual(byId.get('1')?.score, 35);
+        assert.ok(byId.get('1')?.reasons.some(reason => reason.includes('已在进行中')));
+        assert.ok(!byId.has('3'));
+    });
+
+    test('Should ignore invalid weights', () => {
+        const weights = resolveRecommendationWeights({ priority: -1, dueDate: Number.NaN, unblocks: 5 });
+
+        assert.deepStrictEqual(weights, { priority: 40, dueDate: 25, unblocks: 5, inProgress: 15 });
+    });
+});
@@ -0,0 +1,195 @@
+import * as assert from 'assert';
+import { appendRawTasks, findCrossTagDependencies, moveRawTask, removeRawTasks, renumberRawTasks, transferRawTasks } from '../../restructureUtils';
+import { RawTask } from '../../types';
+
+suite('Restructure Utils Test Suite', () => {
+    let tasks: RawTask[];
+
+    setup(() => {
+        tasks = [
+            { id: 1, title: 'Setup', dependencies: [] },
+            {
+                id: 2, title: 'Build', dependencies: [1], subtasks: [
+                    { id: 1, title: 'Parser', dependencies: [] },
+                    { id: 2, title: 'Printer', dependencies: [1] }
+                ]
+            },
+            { id: 3, title: 'Docs', dependencies: [2, '2.2'] },
+            { id: 4, title: 'Release', dependencies: [3] }
+        ];
+    });
+
+    test('Should reorder within a list without changing IDs', () => {
+        const renamed = moveRawTask(tasks, '4', { siblingId: '2' });
+
+        assert.strictEqual(renamed.size, 0);
+        assert.deepStrictEqual(tasks.map(task => task.id), [1, 4, 2, 3]);
+        assert.deepStrictEqual(tasks[3]?.dependencies, [2, '2.2']);
+    });
+
+    test('Should make a task a subtask and rewrite references to it', () => {
+        const renamed = moveRawTask(tasks, '3', { parentId: '2', siblingId: '2.2' });
+
+        assert.deepStrictEqual([...renamed], [['3', '2.3']]);
+        assert.deepStrictEqual(tasks.map(task => task.id), [1, 2, 4]);
+        const moved = tasks[1]?.subtasks?.[1];
+        assert.strictEqual(moved?.title, 'Docs');
+        assert.strictEqual(moved?.id, 3);
+        // The dependency on its new parent is dropped, the one that still resolves is kept as written
+        assert.deepStrictEqual(moved?.dependencies, ['2.2']);
+        assert.deepStrictEqual(tasks[2]?.dependencies, ['2.3']);
+    });
+
+    test('Should promote a subtask and keep its sibling dependencies', () => {
+        const renamed = moveRawTask(tasks, '2.2', {});
+
+        assert.deepStrictEqual([...renamed], [['2.2', '5']]);
+        assert.deepStrictEqual(tasks.map(task => task.id), [1, 2, 3, 4, 5]);
+        assert.deepStrictEqual(tasks[4]?.dependencies, ['2.1']);
+        assert.deepStrictEqual(tasks[2]?.dependencies, [2, '5']);
+    });
+
+    test('Should promote a subtask next to its parent and keep all of its fields', () => {
+        const subtask = tasks[1]?.subtasks?.[1];
+        Object.assign(subtask || {}, { details: 'Pretty printing', testStrategy: 'Snapshot tests', parentTaskId: 2 });
+
+        const renamed = moveRawTask(tasks, '2.2', { siblingId: '2', after: true });
+
+        assert.deepStrictEqual([...renamed], [['2.2', '5']]);
+        assert.deepStrictEqual(tasks.map(task => task.id), [1, 2, 5, 3, 4]);
+        assert.strictEqual(tasks[2]?.['details'], 'Pretty printing');
+        assert.strictEqual(tasks[2]?.['testStrategy'], 'Snapshot tests');
+        assert.ok(!('parentTaskId' in (tasks[2] || {})));
+    });
+
+    test('Should not take an ID that siblings use to reach a main task', () => {
+        tasks[1]?.subtasks?.push({ id: 3, title: 'Uses task 4', dependencies: [4] });
+
+        const renamed = moveRawTask(tasks, '1', { parentId: '2' });
+
+        // Subtask 2.4 would capture the bare 4 on 2.3, so task 1 becomes 2.5
+        assert.deepStrictEqual([...renamed], [['1', '2.5']]);
+        assert.deepStrictEqual(tasks[0]?.subtasks?.map(subtask => subtask.id), [1, 2, 3, 5]);
+        assert.deepStrictEqual(tasks[0]?.subtasks?.[2]?.dependencies, [4]);
+        assert.deepStrictEqual(tasks[0]?.dependencies, ['2.5']);
+    });
+
+    test('Should remove tasks and skip subtasks of removed tasks', () => {
+        const removed = removeRawTasks(tasks, ['2.1', '2', '4']);
+
+        assert.deepStrictEqual(removed, ['2', '4']);
+        assert.deepStrictEqual(tasks.map(task => task.id), [1, 3]);
+        // Dependencies on task 2 and its subtasks go with it
+        assert.deepStrictEqual(tasks[1]?.dependencies, []);
+    });
+
+    test('Should drop dependencies on a removed subtask only', () => {
+        removeRawTasks(tasks, ['2.1']);
+
+        assert.deepStrictEqual(tasks[1]?.subtasks?.map(subtask => subtask.id), [2]);
+        assert.deepStrictEqual(tasks[1]?.subtasks?.[0]?.dependencies, []);
+        assert.deepStrictEqual(tasks[2]?.dependencies, [2, '2.2']);
+    });
+
+    test('Should move tasks to another tag and resolve ID collisions', () => {
+        const targetTasks: RawTask[] = [{ id: 1, title: 'Existing' }, { id: 2, title: 'Existing too' }];
+
+        const moved = transferRawTasks(tasks, targetTasks, ['2', '3']);
+
+        assert.deepStrictEqual([...moved], [['2', '3'], ['2.1', '3.1'], ['2.2', '3.2'], ['3', '4']]);
+        assert.deepStrictEqual(targetTasks.map(task => task.id), [1, 2, 3, 4]);
+        // The dependency on task 1 stays behind, the ones between moved tasks follow the new IDs
+        assert.deepStrictEqual(targetTasks[2]?.dependencies, []);
+        assert.deepStrictEqual(targetTasks[2]?.subtasks?.[1]?.dependencies, [1]);
+        assert.deepStrictEqual(targetTasks[3]?.dependencies, [3, '3.2']);
+        assert.deepStrictEqual(tasks.map(task => task.id), [1, 4]);
+        assert.deepStrictEqual(tasks[1]?.dependencies, []);
+    });
+
+    test('Should turn a subtask moved to another tag into a main task', () => {
+        const targetTasks: RawTask[] = [];
+
+        const moved = transferRawTasks(tasks, targetTasks, ['2.2']);
+
+        assert.deepStrictEqual([...moved], [['2.2', '2']]);
+        assert.deepStrictEqual(targetTasks[0]?.dependencies, []);
+        assert.deepStrictEqual(tasks[2]?.dependencies, [2]);
+    });
+
+    test('Should copy tasks to another tag and keep cross-tag dependencies when asked', () => {
+        const targetTasks: RawTask[] = [{ id: 1, title: 'Existing' }, { id: 2, title: 'Existing too' }];
+
+        const copied = transferRawTasks(tasks, targetTasks, ['2'], { copy: true, keepCrossTagDependencies: true });
+
+        assert.deepStrictEqual([...copied], [['2', '3'], ['2.1', '3.1'], ['2.2', '3.2']]);
+        assert.deepStrictEqual(targetTasks[2]?.dependencies, [1]);
+        assert.deepStrictEqual(targetTasks[2]?.subtasks?.[1]?.dependencies, [1]);
+        assert.notStrictEqual(targetTasks[2], tasks[1]);
+        // The source tag is left as it was
+        assert.deepStrictEqual(tasks.map(task => task.id), [1, 2, 3, 4]);
+        assert.deepStrictEqual(tasks[2]?.dependencies, [2, '2.2']);
+    });
+
+    test('Should list the dependencies a transfer would leave pointing across tags', () => {
+        assert.deepStrictEqual(findCrossTagDependencies(tasks, ['2'], false), ['2 → 1', '3 → 2', '3 → 2.2']);
+        assert.deepStrictEqual(findCrossTagDependencies(tasks, ['2'], true), ['2 → 1']);
+        assert.deepStrictEqual(findCrossTagDependencies(tasks, ['2.1', '2.2'], true), []);
+    });
+
+    test('Should renumber tasks and subtasks sequentially and rewrite every dependency', () => {
+        const gappy: RawTask[] = [
+            { id: 3, title: 'Setup', dependencies: [] },
+            {
+                id: 7, title: 'Build', dependencies: [3], subtasks: [
+                    { id: 2, title: 'Parser', dependencies: [] },
+                    { id: 5, title: 'Printer', dependencies: ['7.2', '9'] }
+                ]
+            },
+            { id: '9', title: 'Docs', dependencies: ['7.5', 7] }
+        ];
+
+        const result = renumberRawTasks(gappy);
+
+        assert.deepStrictEqual([...result.renamed], [['3', '1'], ['7', '2'], ['7.2', '2.1'], ['7.5', '2.2'], ['9', '3']]);
+        assert.deepStrictEqual(result.droppedDependencies, []);
+        assert.deepStrictEqual(gappy.map(task => task.id), [1, 2, '3']);
+        assert.deepStrictEqual(gappy[1]?.dependencies, [1]);
+        assert.deepStrictEqual(gappy[1]?.subtasks?.map(subtask => subtask.id), [1, 2]);
+        // A sibling reference becomes bare, a main task reference follows its target
+        assert.deepStrictEqual(gappy[1]?.subtasks?.[1]?.dependencies, ['1', '3']);
+        assert.deepStrictEqual(gappy[2]?.dependencies, ['2.2', 2]);
+    });
+
+    test('Should drop a subtask dependency on a main task that a sibling would shadow after renumbering', () => {
+        const gappy: RawTask[] = [
+            { id: 2, title: 'Setup' },
+            { id: 3, title: 'Build', subtasks: [{ id: 1, title: 'Parser' }, { id: 4, title: 'Printer', dependencies: [2] }] }
+        ];
+
+        const result = renumberRawTasks(gappy);
+
+        assert.deepStrictEqual(result.droppedDependencies, ['3.4 → 2']);
+        assert.deepStrictEqual(gappy[1]?.subtasks?.[1]?.dependencies, []);
+        assert.strictEqual(renumberRawTasks(gappy).renamed.size, 0);
+    });
+
+    test('Should refuse moves that would nest too deep or into the task itself', () => {
+        assert.throws(() => moveRawTask(tasks, '2', { parentId: '1' }), /has subtasks/);
+        assert.throws(() => moveRawTask(tasks, '1', { parentId: '2.1' }), /cannot have subtasks/);
+        assert.throws(() => moveRawTask(tasks, '9', {}), /not found/);
+    });
+
+    test('Should append imported tasks after the highest ID and follow dependencies between them', () => {
+        const imported: RawTask[] = [
+            { id: 1, title: 'Design', dependencies: [] },
+            { id: 2, title: 'Build', dependencies: [1, 3], subtasks: [{ id: 1, title: 'API', dependencies: [] }, { id: 2, title: 'UI', dependencies: [1] }] }
+        ];
+
+        const renamed = appendRawTasks(tasks, imported);
+
+        assert.deepStrictEqual([...renamed], [['1', '5'], ['2', '6'], ['2.1', '6.1'], ['2.2', '6.2']]);
+        assert.deepStrictEqual(tasks.map(task => task.id), [1, 2, 3, 4, 5, 6]);
+        assert.deepStrictEqual(tasks[5]?.dependencies, [5, 3]);
+        assert.deepStrictEqual(tasks[5]?.subtasks?.[1]?.dependencies, [1]);
+    });
+});
@@ -0,0 +1,70 @@
+import * as assert from 'assert';
+import { searchTasks, getSearchKey } from '../../searchUtils';
+import { Task } from '../../types';
+
+suite('Search Utils Test Suite', () => {
+    const tasks: Task[] = [
+        {
+            id: '1',
+            title: 'Set up database',
+            status: 'todo',
+            description: 'Create the schema',
+            tags: ['backend'],
+            subtasks: [
+                { id: '1', title: 'Write migrations', status: 'todo', testStrategy: 'Run against a fresh Postgres instance' },
+                { id: '2', title: 'Seed data', status: 'completed' }
+            ]
+        },
+        {
+            id: '2',
+            title: 'Build UI',
+            status: 'in-progress',
+            details: 'Use the shared component library for forms'
+        }
+    ];
+
+    test('Should return no results for an empty query', () => {
+        assert.deepStrictEqual(searchTasks(tasks, '   '), []);
+    });
+
+    test('Should report the first matching field as matchType', () => {
+        const titleResults = searchTasks(tasks, 'DATABASE');
+        assert.strictEqual(titleResults.length, 1);
+        assert.strictEqual(titleResults[0]?.matchType, 'title');
+        assert.strictEqual(titleResults[0]?.task.id, '1');
+
+        const detailsResults = searchTasks(tasks, 'component library');
+        assert.strictEqual(detailsResults[0]?.matchType, 'details');
+        assert.ok(detailsResults[0]?.matchText.includes('component library'));
+
+        const tagResults = searchTasks(tasks, 'backend');
+        assert.strictEqual(tagResults[0]?.matchType, 'tag');
+        assert.strictEqual(tagResults[0]?.matchText, 'backend');
+    });
+
+    test('Should search subtasks and record their parent', () => {
+        const results = searchTasks(tasks, 'postgres');
+        assert.strictEqual(results.length, 1);
+        assert.strictEqual(results[0]?.matchType, 'testStrategy');
+        assert.strictEqual(results[0]?.parentTaskId, '1');
+        assert.strictEqual(results[0]?.task.title, 'Write migrations');
+    });
+
+    test('Should match IDs exactly, qualifying subtask IDs with their parent', () => {
+        const mainResults = searchTasks(tasks, '2');
+        assert.strictEqual(mainResults.length, 1);
+        assert.strictEqual(mainResults[0]?.matchType, 'id');
+        assert.strictEqual(mainResults[0]?.task.title, 'Build UI');
+
+        const subtaskResults = searchTasks(tasks, '1.2');
+        assert.strictEqual(subtaskResults.length, 1);
+        assert.strictEqual(subtaskResults[0]?.task.title, 'Seed data');
+        assert.strictEqual(subtaskResults[0]?.matchText, '1.2');
+    });
+
+    test('Should keep dotted subtask IDs unchanged in search keys', () => {
+        assert.strictEqual(getSearchKey({ id: '3', title: 'Sub', status: 'todo' }, '1'), '1.3');
+        assert.strictEqual(getSearchKey({ id: '1.3', title: 'Sub', status: 'todo' }, '1'), '1.3');
+        assert.strictEqual(getSearchKey({ id: '4', title: 'Main', status: 'todo' }), '4');
+    });
+});
@@ -0,0 +1,172 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { CLITaskBackend, TaskBackend, TaskBackendHost, TaskBackendName, defaultBackendOrder, resolveBackendOrder } from '../../taskBackends';
+import { TaskMasterClient } from '../../taskMasterClient';
+
+suite('Task Backends Test Suite', () => {
+    test('Should resolve the configured backend order', () => {
+        assert.deepStrictEqual(resolveBackendOrder(['file', 'MCP', 'File', 'bogus']), ['File', 'MCP']);
+        assert.deepStrictEqual(resolveBackendOrder([]), [...defaultBackendOrder]);
+        assert.deepStrictEqual(resolveBackendOrder(undefined), [...defaultBackendOrder]);
+    });
+
+    test('Should pass the tag to every CLI command', async () => {
+        const calls: Array<[string, string[]]> = [];
+        const host = { executeCLI: async (command: string, args: string[]) => { calls.push([command, args]); return ''; } } as unknown as TaskBackendHost;
+        const cli = new CLITaskBackend(host);
+
+        await cli.deleteTask('3', 'feature');
+        await cli.removeSubtask('3', '2', 'feature');
+        await cli.deleteTask('4', 'master');
+
+        assert.deepStrictEqual(calls, [
+            ['remove-task', ['--id', '3', '--yes', '--tag', 'feature']],
+            ['remove-subtask', ['--id', '3.2', '--tag', 'feature']],
+            ['remove-task', ['--id', '4', '--yes']]
+        ]);
+    });
+
+    suite('TaskMasterClient routing', () => {
+        let tempDir: string;
+        let tasksJsonPath: string;
+        let client: TaskMasterClient;
+        let backends: Record<TaskBackendName, TaskBackend>;
+        let sandbox: sinon.SinonSandbox;
+        let settings: { [key: string]: unknown };
+
+        const readStatus = (): string => JSON.parse(fs.readFileSync(tasksJsonPath, 'utf8')).master.tasks[0].status;
+
+        setup(() => {
+            tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'task-backends-'));
+            const taskmasterDir = path.join(tempDir, '.taskmaster');
+            fs.mkdirSync(path.join(taskmasterDir, 'tasks'), { recursive: true });
+            tasksJsonPath = path.join(taskmasterDir, 'tasks', 'tasks.json');
+            fs.writeFileSync(tasksJsonPath, JSON.stringify({
+                master: { tasks: [{ id: 1, title: 'First', status: 'pending' }], metadata: {} }
+            }, null, 2));
+
+            client = new TaskMasterClient(taskmasterDir);
+            backends = (client as any).backends;
+            settings = {};
+            sandbox = sinon.createSandbox();
+            sandbox.stub(vscode.workspace, 'getConfiguration').returns({
+                get: (key: string, defaultValue?: unknown) => key in settings ? settings[key] : defaultValue
+            } as any);
+            sandbox.stub(backends.CLI, 'isAvailable').resolves(false);
+        });
+
+        teardown(() => {
+            sandbox.restore();
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        });
+
+        test('Should report capabilities and availability of each backend', async () => {
+            sandbox.stub(client, 'isMCPServerAvailable').resolves(false);
+
+            const status = await client.getBackendStatus();
+            assert.deepStrictEqual(status.map(backend => backend.name), ['MCP', 'File', 'CLI']);
+            assert.deepStrictEqual(status.map(backend => backend.available), [false, true, false]);
+
+            const file = status.find(backend => backend.name === 'File');
+            assert.ok(file?.capabilities.includes('deleteTask'));
+            assert.ok(!file?.capabilities.includes('expandTask'));
+        });
+
+        test('Should fall back to the file when MCP fails', async () => {
+            sandbox.stub(client, 'isMCPServerAvailable').resolves(true);
+            const mcpStub = sandbox.stub(backends.MCP, 'setTaskStatus').rejects(new Error('connection closed'));
+
+            await client.setTaskStatus('1', 'in-progress');
+
+            assert.ok(mcpStub.calledOnceWith('1', 'in-progress', 'master'));
+            assert.strictEqual(readStatus(), 'in-progress');
+        });
+
+        test('Should keep the optional task fields of tasks read through MCP', async () => {
+            sandbox.stub(client, 'isMCPServerAvailable').resolves(true);
+            sandbox.stub(client as any, 'getMCPClient').resolves({
+                getTasks: async () => [{
+                    id: 1, title: 'API', status: 'pending', estimatedTime: '2h', actualTime: '30m', assignee: 'ana',
+                    dueDate: '2026-03-01', testStrategy: 'Contract tests', tags: ['backend'],
+                    subtasks: [{ id: 1, title: 'Schema', status: 'done', estimatedTime: 3, assignee: 'li' }]
+                }]
+            });
+
+            const [task] = await client.getTasks();
+
+            assert.deepStrictEqual(
+                [task?.estimatedTime, task?.actualTime, task?.assignee, task?.dueDate, task?.testStrategy, task?.tags],
+                ['2h', '30m', 'ana', '2026-03-01', 'Contract tests', ['backend']]
+            );
+            assert.deepStrictEqual([task?.subtasks?.[0]?.estimatedTime, task?.subtasks?.[0]?.assignee], ['3', 'li']);
+        });
+
+        test('Should follow the configured order', async () => {
+            settings['backendOrder'] = ['File', 'MCP'];
+            sandbox.stub(client, 'isMCPServerAvailable').resolves(true);
+            const mcpStub = sandbox.stub(backends.MCP, 'setTaskStatus').resolves();
+
+            await client.setTaskStatus('1', 'completed');
+
+            assert.ok(mcpStub.notCalled);
+            assert.strictEqual(readStatus(), 'done');
+        });
+
+        test('Should retry a backend before falling back', async () => {
+            settings['backendRetries'] = 2;
+            settings['backendRetryDelay'] = 0;
+            sandbox.stub(client, 'isMCPServerAvailable').resolves(true);
+            const mcpStub = sandbox.stub(backends.MCP, 'setTaskStatus');
+            mcpStub.onFirstCall().rejects(new Error('busy'));
+            mcpStub.onSecondCall().resolves();
+
+            await client.setTaskStatus('1', 'completed');
+
+            assert.strictEqual(mcpStub.callCount, 2);
+            assert.strictEqual(readStatus(), 'pending', 'File backend should not have been used');
+        });
+
+        test('Should re-apply a file change when tasks.json changed since it was read', async () => {
+            sandbox.stub(client, 'isMCPServerAvailable').resolves(false);
+            const realReadFileSync = fs.readFileSync;
+            let reads = 0;
+            sandbox.stub(fs, 'readFileSync').callsFake((...args: any[]) => {
+                const content = (realReadFileSync as any).apply(fs, args);
+                if (args[0] === tasksJsonPath && ++reads === 1) {
+                    // Another writer adds a task right after the client read the file
+                    const data = JSON.parse(content);
+                    data.master.tasks.push({ id: 2, title: 'Added by CLI', status: 'pending' });
+                    fs.writeFileSync(tasksJsonPath, JSON.stringify(data, null, 2));
+                }
+                return content;
+            });
+
+            await client.setTaskStatus('1', 'completed');
+
+            const tasks = JSON.parse(fs.readFileSync(tasksJsonPath, 'utf8')).master.tasks;
+            assert.deepStrictEqual(tasks.map((task: any) => [task.id, task.status]), [[1, 'done'], [2, 'pending']]);
+            assert.ok(!fs.existsSync(path.join(tempDir, '.taskmaster', 'tasks.lock')));
+        });
+
+        test('Should add a task to tasks.json directly when no backend can create it', async () => {
+            const newId = await client.addTaskToFile({ title: 'Second', status: 'todo', priority: 'high', dependencies: ['1'] });
+
+            const tasks = JSON.parse(fs.readFileSync(tasksJsonPath, 'utf8')).master.tasks;
+            assert.strictEqual(newId, '2');
+            assert.deepStrictEqual([tasks[1].id, tasks[1].title, tasks[1].status, tasks[1].dependencies], [2, 'Second', 'pending', [1]]);
+            assert.strictEqual(client.getUndoJournal().peekUndo()?.label, '添加任务 Second');
+            await assert.rejects(() => client.addTaskToFile({ title: 'Elsewhere', status: 'todo' }, 'feature'), /Tag feature not found/);
+        });
+
+        test('Should report the first backend error when every backend fails', async () => {
+            sandbox.stub(client, 'isMCPServerAvailable').resolves(false);
+
+            await assert.rejects(() => client.deleteTask('42'), /Main task 42 not found/);
+            await assert.rejects(() => client.expandTaskWithCLI('1'), /No available backend supports expandTask/);
+        });
+    });
+});
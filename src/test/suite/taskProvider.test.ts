@@ -1,5 +1,6 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
+import * as sinon from 'sinon';
 import { TaskProvider, TaskItem } from '../../taskProvider';
 import { TaskMasterClient } from '../../taskMasterClient';
 
@@ -69,6 +70,11 @@ suite('TaskProvider Test Suite', () => {
         taskProvider = new TaskProvider(mockClient);
     });
 
+    teardown(() => {
+        // Undo the fs stubs made by the mock client, so later suites see the real file system
+        sinon.restore();
+    });
+
     test('Should create TaskItem with correct properties', () => {
         const task = {
             id: '1',
@@ -645,4 +651,110 @@ suite('TaskProvider Test Suite', () => {
         assert.strictEqual(completedTasks[0]?.task, mockTasks[0]);
         assert.strictEqual(todoTasks[0]?.task, mockTasks[0]);
     });
-}); 
\ No newline at end of file
+
+    test('Should narrow root items to search matches with a clear-search node', async () => {
+        const mockTasks = [
+            {
+                id: '1',
+                title: 'Parent Task',
+                status: 'todo' as const,
+                subtasks: [
+                    { id: '1', title: 'Write login form', status: 'todo' as const },
+                    { id: '2', title: 'Unrelated subtask', status: 'todo' as const }
+                ]
+            },
+            { id: '2', title: 'Other Task', status: 'todo' as const, details: 'Handles LOGIN tokens' },
+            { id: '3', title: 'No match', status: 'completed' as const }
+        ];
+
+        mockClient.setMockTasks(mockTasks);
+        taskProvider.setSearchQuery('login');
+
+        const rootItems = await taskProvider.getChildren();
+        assert.strictEqual(rootItems[0]?.contextValue, 'search-clear');
+        assert.strictEqual(rootItems[0]?.command?.command, 'claudeTaskMaster.clearSearch');
+
+        const taskIds = rootItems.filter(item => item.task).map(item => item.task?.id);
+        assert.deepStrictEqual(taskIds, ['1', '2']);
+
+        // Parent kept for context only shows the matching subtask
+        const parentItem = rootItems.find(item => item.task?.id === '1');
+        assert.strictEqual(parentItem?.collapsibleState, vscode.TreeItemCollapsibleState.Expanded);
+        const children = await taskProvider.getChildren(parentItem);
+        assert.strictEqual(children.length, 1);
+        assert.strictEqual(children[0]?.task?.title, 'Write login form');
+
+        taskProvider.clearSearch();
+        assert.strictEqual(taskProvider.getSearchQuery(), null);
+        const fullRootItems = await taskProvider.getChildren();
+        assert.ok(!fullRootItems.some(item => item.contextValue === 'search-clear'));
+    });
+
+    test('Should apply a persisted filter and show a removable filter chip', async () => {
+        const stored = new Map<string, any>();
+        const workspaceState = {
+            keys: () => Array.from(stored.keys()),
+            get: (key: string, defaultValue?: any) => stored.has(key) ? stored.get(key) : defaultValue,
+            update: async (key: string, value: any) => { stored.set(key, value); }
+        } as vscode.Memento;
+
+        mockClient.setMockTasks([
+            { id: '1', title: 'High task', status: 'todo' as const, priority: 'high' as const },
+            { id: '2', title: 'Low task', status: 'todo' as const, priority: 'low' as const }
+        ]);
+
+        const filteredProvider = new TaskProvider(mockClient, workspaceState);
+        await filteredProvider.setFilter({ priorities: ['high'] });
+
+        // A new provider restores the filter from workspace state
+        const restoredProvider = new TaskProvider(mockClient, workspaceState);
+        assert.deepStrictEqual(restoredProvider.getFilter(), { priorities: ['high'] });
+
+        const rootItems = await restoredProvider.getChildren();
+        const chip = rootItems.find(item => item.contextValue === 'filter-chip');
+        assert.ok(chip, 'Filter chip should be shown');
+        assert.strictEqual(chip?.command?.command, 'claudeTaskMaster.clearFilter');
+
+        const todoItems = await (restoredProvider as any).getTasksByCategory('待办 (1)');
+        assert.deepStrictEqual(todoItems.map((item: TaskItem) => item.task?.id), ['1']);
+
+        await restoredProvider.clearFilter();
+        assert.strictEqual(stored.get('claudeTaskMaster.taskFilter'), undefined);
+        const unfilteredRootItems = await restoredProvider.getChildren();
+        assert.ok(!unfilteredRootItems.some(item => item.contextValue === 'filter-chip'));
+    });
+
+    test('Should replace the default groupings with a saved view', async () => {
+        mockClient.setMockTasks([
+            {
+                id: '1',
+                title: 'Parent',
+                status: 'in-progress' as const,
+                priority: 'low' as const,
+                subtasks: [
+                    { id: '1', title: 'Urgent subtask', status: 'todo' as const, priority: 'critical' as const },
+                    { id: '2', title: 'Other subtask', status: 'todo' as const }
+                ]
+            },
+            { id: '2', title: 'Critical task', status: 'todo' as const, priority: 'critical' as const }
+        ]);
+
+        await taskProvider.setActiveView({ name: 'Urgent', query: 'priority:critical' });
+        const rootItems = await taskProvider.getChildren();
+        assert.strictEqual(rootItems[0]?.contextValue, 'view-header');
+        assert.deepStrictEqual(rootItems.slice(1).map(item => item.task?.id), ['1', '2']);
+
+        const parentItem = rootItems[1];
+        assert.strictEqual(parentItem?.collapsibleState, vscode.TreeItemCollapsibleState.Expanded);
+        const children = await taskProvider.getChildren(parentItem);
+        assert.deepStrictEqual(children.map(item => item.task?.title), ['Urgent subtask']);
+
+        await taskProvider.setActiveView({ name: 'Broken', query: 'color:red' });
+        const brokenItems = await taskProvider.getChildren();
+        assert.strictEqual(brokenItems[1]?.label, '视图查询无效');
+
+        await taskProvider.setActiveView(null);
+        const defaultItems = await taskProvider.getChildren();
+        assert.ok(!defaultItems.some(item => item.contextValue === 'view-header'));
+    });
+});
@@ -0,0 +1,118 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as sinon from 'sinon';
+import { createTaskSnapshot, findTaskInSnapshot } from '../../taskSnapshot';
+import { TaskMasterClient } from '../../taskMasterClient';
+import { Task } from '../../types';
+
+suite('Task Snapshot Test Suite', () => {
+    const buildTasks = (): Task[] => [
+        {
+            id: '1',
+            title: 'Main',
+            status: 'todo',
+            subtasks: [
+                { id: '1', title: 'Sub 1.1', status: 'todo', subtasks: [{ id: '1', title: 'Sub 1.1.1', status: 'todo' }] },
+                { id: '1.2', title: 'Dotted sub', status: 'todo' }
+            ]
+        },
+        { id: '2', title: 'Second', status: 'completed' }
+    ];
+
+    test('Should index main tasks and subtasks by qualified ID', () => {
+        const snapshot = createTaskSnapshot(buildTasks(), 'master', 'key');
+        assert.strictEqual(snapshot.tasksById.get('2')?.title, 'Second');
+        assert.strictEqual(snapshot.subtasksById.get('1.1')?.task.title, 'Sub 1.1');
+        assert.strictEqual(snapshot.subtasksById.get('1.1.1')?.task.title, 'Sub 1.1.1');
+        assert.strictEqual(snapshot.subtasksById.get('1.2')?.parent.id, '1');
+    });
+
+    test('Should freeze tasks unless asked not to', () => {
+        const frozen = createTaskSnapshot(buildTasks(), 'master', 'key');
+        assert.ok(Object.isFrozen(frozen.tasks[0]));
+        assert.ok(Object.isFrozen(frozen.tasks[0]?.subtasks?.[0]));
+
+        const unfrozen = createTaskSnapshot(buildTasks(), 'master', null, false);
+        assert.ok(!Object.isFrozen(unfrozen.tasks[0]));
+    });
+
+    test('Should find tasks by the lookup forms used in the UI', () => {
+        const snapshot = createTaskSnapshot(buildTasks(), 'master', null);
+        assert.strictEqual(findTaskInSnapshot(snapshot, '1')?.title, 'Main');
+        assert.strictEqual(findTaskInSnapshot(snapshot, '1', '1')?.title, 'Sub 1.1');
+        assert.strictEqual(findTaskInSnapshot(snapshot, '1', '2')?.title, 'Dotted sub');
+        assert.strictEqual(findTaskInSnapshot(snapshot, '1', '1.2')?.title, 'Dotted sub');
+        assert.strictEqual(findTaskInSnapshot(snapshot, '1.1')?.title, 'Sub 1.1');
+        assert.strictEqual(findTaskInSnapshot(snapshot, '1', '9'), null);
+        assert.strictEqual(findTaskInSnapshot(snapshot, '42'), null);
+    });
+
+    suite('TaskMasterClient caching', () => {
+        let tempDir: string;
+        let tasksJsonPath: string;
+        let client: TaskMasterClient;
+        let sandbox: sinon.SinonSandbox;
+
+        const writeTasks = (tasks: object[]) => {
+            fs.writeFileSync(tasksJsonPath, JSON.stringify({ master: { tasks, metadata: {} } }, null, 2));
+        };
+
+        setup(() => {
+            tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'task-snapshot-'));
+            const taskmasterDir = path.join(tempDir, '.taskmaster');
+            fs.mkdirSync(path.join(taskmasterDir, 'tasks'), { recursive: true });
+            tasksJsonPath = path.join(taskmasterDir, 'tasks', 'tasks.json');
+            writeTasks([{ id: 1, title: 'First', status: 'pending', subtasks: [{ id: 1, title: 'Child', status: 'done' }] }]);
+
+            client = new TaskMasterClient(taskmasterDir);
+            sandbox = sinon.createSandbox();
+            sandbox.stub(client, 'isMCPServerAvailable').resolves(false);
+        });
+
+        teardown(() => {
+            sandbox.restore();
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        });
+
+        test('Should reuse the snapshot while tasks.json is unchanged', async () => {
+            const readSpy = sandbox.spy(fs, 'readFileSync');
+            const first = await client.getSnapshot();
+            const readsAfterFirst = readSpy.withArgs(tasksJsonPath).callCount;
+            const second = await client.getSnapshot();
+
+            assert.strictEqual(second, first);
+            assert.strictEqual(readSpy.withArgs(tasksJsonPath).callCount, readsAfterFirst);
+            assert.strictEqual((await client.getTaskDetails('1', '1'))?.title, 'Child');
+        });
+
+        test('Should rebuild the snapshot when tasks.json changes', async () => {
+            const first = await client.getSnapshot();
+            writeTasks([
+                { id: 1, title: 'First', status: 'pending' },
+                { id: 2, title: 'Added later', status: 'pending' }
+            ]);
+            // Guarantee a different fingerprint even on coarse mtime file systems
+            fs.utimesSync(tasksJsonPath, new Date(), new Date(Date.now() + 5000));
+
+            const second = await client.getSnapshot();
+            assert.notStrictEqual(second, first);
+            assert.strictEqual(second.tasks.length, 2);
+        });
+
+        test('Should drop the snapshot after a write through the client', async () => {
+            const first = await client.getSnapshot();
+            await client.setTaskStatus('1', 'in-progress');
+            const second = await client.getSnapshot();
+
+            assert.notStrictEqual(second, first);
+            assert.strictEqual(second.tasksById.get('1')?.status, 'in-progress');
+        });
+
+        test('Should share one load between concurrent readers', async () => {
+            const [a, b] = await Promise.all([client.getSnapshot(), client.getSnapshot()]);
+            assert.strictEqual(a, b);
+        });
+    });
+});
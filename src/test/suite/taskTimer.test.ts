@@ -0,0 +1,87 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as sinon from 'sinon';
+import * as vscode from 'vscode';
+import { TaskTimer } from '../../taskTimer';
+import { TaskMasterClient } from '../../taskMasterClient';
+
+suite('Task Timer Test Suite', () => {
+    let tempDir: string;
+    let tasksJsonPath: string;
+    let client: TaskMasterClient;
+    let context: vscode.ExtensionContext;
+    let timer: TaskTimer;
+    let sandbox: sinon.SinonSandbox;
+
+    const readTasks = (): any[] => JSON.parse(fs.readFileSync(tasksJsonPath, 'utf8')).master.tasks;
+
+    setup(() => {
+        tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'task-timer-'));
+        const taskmasterDir = path.join(tempDir, '.taskmaster');
+        fs.mkdirSync(path.join(taskmasterDir, 'tasks'), { recursive: true });
+        tasksJsonPath = path.join(taskmasterDir, 'tasks', 'tasks.json');
+        fs.writeFileSync(tasksJsonPath, JSON.stringify({
+            master: {
+                tasks: [
+                    { id: 1, title: 'Setup', status: 'done' },
+                    { id: 2, title: 'API', status: 'in-progress' },
+                    { id: 3, title: 'Docs', status: 'pending' }
+                ],
+                metadata: {}
+            }
+        }, null, 2));
+
+        client = new TaskMasterClient(taskmasterDir);
+        sandbox = sinon.createSandbox();
+        sandbox.stub(client, 'isMCPServerAvailable').resolves(false);
+
+        const workspaceState = new Map<string, unknown>();
+        context = { subscriptions: [] } as unknown as vscode.ExtensionContext;
+        timer = new TaskTimer(context, {
+            get: (key: string) => workspaceState.get(key),
+            update: async (key: string, value: unknown) => {
+                workspaceState.set(key, value);
+            }
+        } as unknown as vscode.Memento);
+    });
+
+    teardown(() => {
+        context.subscriptions.forEach(subscription => subscription.dispose());
+        sandbox.restore();
+        fs.rmSync(tempDir, { recursive: true, force: true });
+    });
+
+    const record = () => timer.stopAndRecord(stopped => client.recordActualTime(stopped.taskId, 1, stopped.title));
+
+    test('Should let the time be discarded when the task was deleted', async () => {
+        await timer.start('2', 'master', 'API');
+        await client.deleteTasks(['2']);
+        const showError = sandbox.stub(vscode.window, 'showErrorMessage').resolves('放弃用时' as any);
+
+        assert.strictEqual(await record(), undefined);
+        assert.ok(showError.calledOnce);
+        assert.strictEqual(timer.getState(), undefined);
+        assert.ok(readTasks().every(task => task.actualTime === undefined));
+    });
+
+    test('Should keep the timer when the user chooses to', async () => {
+        await timer.start('2', 'master', 'API');
+        await client.deleteTasks(['2']);
+        sandbox.stub(vscode.window, 'showErrorMessage').resolves('保留计时' as any);
+
+        assert.strictEqual(await record(), undefined);
+        assert.strictEqual(timer.getState()?.taskId, '2');
+    });
+
+    test('Should record time on a task that was renumbered', async () => {
+        await timer.start('3', 'master', 'Docs');
+        await client.deleteTasks(['1']);
+        await client.renumberTasks();
+
+        assert.deepStrictEqual(await record(), { taskId: '2', actualTime: '1h' });
+        assert.strictEqual(timer.getState(), undefined);
+        assert.deepStrictEqual(readTasks().map(task => [task.title, task.actualTime]), [['API', undefined], ['Docs', '1h']]);
+    });
+});
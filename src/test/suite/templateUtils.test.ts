@@ -0,0 +1,58 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createTaskFromTemplate, fillTemplatePlaceholders, findTemplatePlaceholders, loadTaskTemplates } from '../../templateUtils';
+import { TaskTemplate } from '../../types';
+
+suite('Template Utils Test Suite', () => {
+    const release: TaskTemplate = {
+        name: 'release',
+        title: 'Release ${version}',
+        description: 'Ship ${component} ${version} on ${date}',
+        priority: 'high',
+        subtasks: [
+            { title: 'Changelog for ${version}' },
+            { title: 'Publish ${component}', details: 'Run vsce', dependencies: [1] }
+        ]
+    };
+
+    test('Should list placeholders once, leaving out built-in ones', () => {
+        assert.deepStrictEqual(findTemplatePlaceholders(release), ['version', 'component']);
+        assert.strictEqual(fillTemplatePlaceholders('${a}-${b}', { a: '1' }), '1-${b}');
+        assert.match(fillTemplatePlaceholders('${date}', {}), /^\d{4}-\d{2}-\d{2}$/);
+    });
+
+    test('Should create a task with numbered subtasks from a template', () => {
+        const task = createTaskFromTemplate(release, { version: '1.4.0', component: 'extension' }, 7);
+
+        assert.strictEqual(task.id, 7);
+        assert.strictEqual(task.title, 'Release 1.4.0');
+        assert.strictEqual(task.priority, 'high');
+        assert.strictEqual(task.status, 'pending');
+        assert.deepStrictEqual(task.subtasks?.map(subtask => [subtask.id, subtask.title, subtask.dependencies]), [
+            [1, 'Changelog for 1.4.0', []],
+            [2, 'Publish extension', [1]]
+        ]);
+        assert.strictEqual(task.subtasks?.[1]?.details, 'Run vsce');
+    });
+
+    test('Should load templates from a folder and report invalid files', () => {
+        const tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'task-templates-'));
+        try {
+            fs.writeFileSync(path.join(tempDir, 'triage.json'), JSON.stringify({ title: 'Triage ${issue}', subtasks: [{ title: 'Reproduce' }] }));
+            fs.writeFileSync(path.join(tempDir, 'named.json'), JSON.stringify({ name: 'Bug fix', title: 'Fix ${issue}' }));
+            fs.writeFileSync(path.join(tempDir, 'broken.json'), JSON.stringify({ description: 'no title' }));
+            fs.writeFileSync(path.join(tempDir, 'forward.json'), JSON.stringify({ title: 'x', subtasks: [{ title: 'a', dependencies: [2] }, { title: 'b' }] }));
+            fs.writeFileSync(path.join(tempDir, 'notes.txt'), 'ignored');
+
+            const { templates, errors } = loadTaskTemplates(tempDir);
+
+            assert.deepStrictEqual(templates.map(template => template.name), ['Bug fix', 'triage']);
+            assert.strictEqual(errors.length, 2);
+            assert.deepStrictEqual(loadTaskTemplates(path.join(tempDir, 'missing')), { templates: [], errors: [] });
+        } finally {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        }
+    });
+});
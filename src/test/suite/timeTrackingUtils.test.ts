@@ -0,0 +1,51 @@
+import * as assert from 'assert';
+import { addActualTime, buildEstimateReport, formatTimerElapsed, formatTrackedHours, generateEstimateReport, getTimerElapsedMs } from '../../timeTrackingUtils';
+import { Task } from '../../types';
+
+suite('Time Tracking Utils Test Suite', () => {
+    test('Should add the current run of a timer to its tracked time', () => {
+        const now = new Date('2026-03-02T10:30:00Z');
+        assert.strictEqual(getTimerElapsedMs({ taskId: '3', tag: 'master', title: 'API', elapsedMs: 60000 }, now), 60000);
+        assert.strictEqual(getTimerElapsedMs({
+            taskId: '3.1', tag: 'master', title: 'API', elapsedMs: 60000, runningSince: '2026-03-02T10:00:00Z'
+        }, now), 31 * 60000);
+        assert.strictEqual(formatTimerElapsed(3723 * 1000), '1:02:03');
+    });
+
+    test('Should accumulate tracked time into actualTime', () => {
+        assert.strictEqual(formatTrackedHours(0.42), '25m');
+        assert.strictEqual(formatTrackedHours(1.5), '1.5h');
+        assert.strictEqual(addActualTime(undefined, 0.25), '15m');
+        assert.strictEqual(addActualTime('45m', 0.5), '1.25h');
+        assert.strictEqual(addActualTime('1d', 1, 6), '7h');
+        assert.strictEqual(addActualTime('a while', 2), '2h');
+    });
+
+    test('Should compare estimates with actual time', () => {
+        const tasks: Task[] = [
+            { id: '1', title: 'Schema', status: 'done', estimatedTime: '2h', actualTime: '3h', subtasks: [
+                { id: '1', title: 'Tables | views', status: 'done', estimatedTime: '1h', actualTime: '30m' }
+            ] },
+            { id: '2', title: 'API', status: 'in-progress', actualTime: '1.5h' },
+            { id: '3', title: 'Docs', status: 'completed', estimatedTime: '4h' },
+            { id: '4', title: 'Later', status: 'todo' }
+        ];
+
+        const entries = buildEstimateReport(tasks);
+        assert.deepStrictEqual(entries.map(entry => [entry.id, entry.status, entry.estimatedHours, entry.actualHours]), [
+            ['1', 'completed', 2, 3],
+            ['1.1', 'completed', 1, 0.5],
+            ['2', 'in-progress', undefined, 1.5],
+            ['3', 'completed', 4, undefined]
+        ]);
+
+        const report = generateEstimateReport(entries, { tagLabel: 'master' });
+        assert.ok(report.includes('估算合计 3h，实际合计 3.5h，实际/估算 **1.17×**'));
+        assert.ok(report.includes('超出估算 25% 以上：1 个；少于估算 25% 以上：1 个'));
+        assert.ok(report.includes('有实际用时但没有估算：1 个；已完成但没有记录用时：1 个'));
+        assert.ok(report.indexOf('| 1 Schema |') < report.indexOf('| 1.1 Tables \\| views |'));
+        assert.ok(report.includes('+1h | 1.50× |'));
+        assert.ok(report.includes('- **2** API — 实际 1.5h'));
+        assert.ok(generateEstimateReport([], { tagLabel: 'master' }).includes('还没有同时填写了 estimatedTime 和 actualTime 的任务'));
+    });
+});
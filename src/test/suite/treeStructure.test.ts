@@ -1,5 +1,6 @@
 import * as assert from 'assert';
 import * as vscode from 'vscode';
+import * as sinon from 'sinon';
 import { TaskProvider, TaskItem } from '../../taskProvider';
 import { TaskMasterClient } from '../../taskMasterClient';
 
@@ -59,6 +60,11 @@ suite('Tree Structure Test Suite', () => {
         taskProvider = new TaskProvider(mockClient);
     });
 
+    teardown(() => {
+        // Undo the fs stubs made by the mock client, so later suites see the real file system
+        sinon.restore();
+    });
+
     test('Should create proper parent-child relationships', async () => {
         const mockTasks = [
             {
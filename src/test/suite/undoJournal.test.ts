@@ -0,0 +1,189 @@
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as sinon from 'sinon';
+import { TaskJournalEntry, UndoJournal } from '../../undoJournal';
+import { TaskMasterClient } from '../../taskMasterClient';
+
+suite('Undo Journal Test Suite', () => {
+    const entry = (label: string): TaskJournalEntry => ({ label, tag: 'master', taskId: '1', before: null, after: null });
+
+    test('Should move entries between the undo and redo stacks', async () => {
+        const journal = new UndoJournal();
+        journal.record(entry('first'));
+        journal.record(entry('second'));
+
+        const applied: string[] = [];
+        const apply = async (item: TaskJournalEntry) => {
+            applied.push(item.label);
+        };
+
+        assert.strictEqual((await journal.undo(apply))?.label, 'second');
+        assert.strictEqual(journal.peekRedo()?.label, 'second');
+        assert.strictEqual((await journal.redo(apply))?.label, 'second');
+        assert.deepStrictEqual(applied, ['second', 'second']);
+
+        journal.record(entry('third'));
+        assert.strictEqual(journal.peekRedo(), undefined, 'A new change should clear the redo stack');
+    });
+
+    test('Should keep an entry when applying it fails', async () => {
+        const journal = new UndoJournal();
+        journal.record(entry('first'));
+
+        await assert.rejects(() => journal.undo(async () => {
+            throw new Error('locked');
+        }), /locked/);
+        assert.strictEqual(journal.peekUndo()?.label, 'first');
+    });
+
+    test('Should drop the oldest entries beyond the limit', () => {
+        const journal = new UndoJournal(2);
+        journal.record(entry('first'));
+        journal.record(entry('second'));
+        journal.record(entry('third'));
+
+        assert.strictEqual(journal.peekUndo()?.label, 'third');
+    });
+
+    suite('TaskMasterClient undo/redo', () => {
+        let tempDir: string;
+        let tasksJsonPath: string;
+        let client: TaskMasterClient;
+        let sandbox: sinon.SinonSandbox;
+
+        const readTasks = (): any[] => JSON.parse(fs.readFileSync(tasksJsonPath, 'utf8')).master.tasks;
+
+        setup(() => {
+            tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'undo-journal-'));
+            const taskmasterDir = path.join(tempDir, '.taskmaster');
+            fs.mkdirSync(path.join(taskmasterDir, 'tasks'), { recursive: true });
+            tasksJsonPath = path.join(taskmasterDir, 'tasks', 'tasks.json');
+            fs.writeFileSync(tasksJsonPath, JSON.stringify({
+                master: {
+                    tasks: [
+                        { id: 1, title: 'First', status: 'pending', priority: 'low', subtasks: [{ id: 1, title: 'Child', status: 'pending' }] },
+                        { id: 2, title: 'Second', status: 'pending' }
+                    ],
+                    metadata: {}
+                }
+            }, null, 2));
+
+            client = new TaskMasterClient(taskmasterDir);
+            sandbox = sinon.createSandbox();
+            sandbox.stub(client, 'isMCPServerAvailable').resolves(false);
+        });
+
+        teardown(() => {
+            sandbox.restore();
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        });
+
+        test('Should undo and redo a status change', async () => {
+            await client.setTaskStatus('2', 'completed');
+            assert.strictEqual(readTasks()[1].status, 'done');
+
+            const undone = await client.undo();
+            assert.ok(undone?.label.includes('2'));
+            assert.strictEqual(readTasks()[1].status, 'pending');
+
+            await client.redo();
+            assert.strictEqual(readTasks()[1].status, 'done');
+        });
+
+        test('Should restore a deleted task at its original position', async () => {
+            await client.deleteTask('1');
+            assert.deepStrictEqual(readTasks().map(task => task.id), [2]);
+
+            await client.undo();
+            assert.deepStrictEqual(readTasks().map(task => task.id), [1, 2]);
+            assert.strictEqual(readTasks()[0].subtasks[0].title, 'Child');
+        });
+
+        test('Should restore a removed subtask', async () => {
+            await client.removeSubtask('1', '1');
+            assert.strictEqual(readTasks()[0].subtasks.length, 0);
+
+            await client.undo();
+            assert.strictEqual(readTasks()[0].subtasks[0].title, 'Child');
+        });
+
+        test('Should keep later subtask changes when undoing a task edit', async () => {
+            await client.updateTask('1', { priority: 'high' });
+            await client.addSubtask('1', { title: 'Added later', status: 'todo' });
+
+            await client.undo();
+            const task = readTasks()[0];
+            assert.strictEqual(task.priority, 'low');
+            assert.deepStrictEqual(task.subtasks.map((subtask: any) => subtask.title), ['Child', 'Added later']);
+        });
+
+        test('Should undo a move that renumbers tasks', async () => {
+            await client.moveTask('2', { parentId: '1' });
+            assert.deepStrictEqual(readTasks().map(task => task.id), [1]);
+            assert.deepStrictEqual(readTasks()[0].subtasks.map((subtask: any) => subtask.id), [1, 2]);
+
+            const undone = await client.undo();
+            assert.ok(undone?.wholeTag);
+            assert.deepStrictEqual(readTasks().map(task => task.id), [1, 2]);
+            assert.strictEqual(readTasks()[0].subtasks.length, 1);
+        });
+
+        test('Should demote and promote a task as separate undo steps', async () => {
+            assert.strictEqual(await client.demoteTask('2', '1'), '1.2');
+            assert.deepStrictEqual(readTasks()[0].subtasks.map((subtask: any) => subtask.title), ['Child', 'Second']);
+
+            assert.strictEqual(await client.promoteSubtask('1.2'), '2');
+            assert.deepStrictEqual(readTasks().map(task => task.title), ['First', 'Second']);
+
+            const undone = await client.undo();
+            assert.ok(undone?.label.includes('提升'));
+            assert.deepStrictEqual(readTasks().map(task => task.title), ['First']);
+        });
+
+        test('Should undo a bulk status change in one step', async () => {
+            await client.setTasksStatus(['1', '1.1', '2'], 'completed');
+            assert.deepStrictEqual(readTasks().map(task => task.status), ['done', 'done']);
+            assert.strictEqual(readTasks()[0].subtasks[0].status, 'done');
+
+            await client.undo();
+            assert.deepStrictEqual(readTasks().map(task => task.status), ['pending', 'pending']);
+            assert.strictEqual(readTasks()[0].subtasks[0].status, 'pending');
+            assert.strictEqual(client.getUndoJournal().peekUndo(), undefined);
+        });
+
+        test('Should undo a task added to another tag', async () => {
+            const container = JSON.parse(fs.readFileSync(tasksJsonPath, 'utf8'));
+            container.feature = { tasks: [{ id: 1, title: 'Feature work', status: 'pending' }], metadata: {} };
+            fs.writeFileSync(tasksJsonPath, JSON.stringify(container, null, 2));
+            const readFeatureTasks = (): any[] => JSON.parse(fs.readFileSync(tasksJsonPath, 'utf8')).feature.tasks;
+
+            assert.strictEqual(await client.addTaskToFile({ title: 'Added', status: 'todo' }, 'feature'), '2');
+            assert.strictEqual(client.getUndoJournal().peekUndo()?.tag, 'feature');
+
+            await client.undo();
+            assert.deepStrictEqual(readFeatureTasks().map(task => task.title), ['Feature work']);
+            assert.deepStrictEqual(readTasks().map(task => task.id), [1, 2]);
+
+            await client.redo();
+            assert.deepStrictEqual(readFeatureTasks().map(task => task.title), ['Feature work', 'Added']);
+        });
+
+        test('Should refuse to undo a whole-tag change after the tag was changed outside the journal', async () => {
+            await client.setTasksStatus(['1', '2'], 'completed');
+            const container = JSON.parse(fs.readFileSync(tasksJsonPath, 'utf8'));
+            container.master.tasks.push({ id: 3, title: 'Merged in', status: 'pending' });
+            fs.writeFileSync(tasksJsonPath, JSON.stringify(container, null, 2));
+
+            await assert.rejects(() => client.undo(), /changed outside the undo history/);
+            assert.deepStrictEqual(readTasks().map(task => [task.id, task.status]), [[1, 'done'], [2, 'done'], [3, 'pending']]);
+            assert.ok(client.getUndoJournal().peekUndo());
+        });
+
+        test('Should not journal failed mutations', async () => {
+            await assert.rejects(() => client.deleteTask('99'));
+            assert.strictEqual(client.getUndoJournal().peekUndo(), undefined);
+        });
+    });
+});
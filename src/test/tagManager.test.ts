@@ -1,5 +1,9 @@
 import * as assert from 'assert';
-import { TagClass, TagUtils } from '../tagManager';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as sinon from 'sinon';
+import { TagClass, TagManager, TagUtils } from '../tagManager';
 import { Tag, TagMetadata } from '../types';
 
 suite('TagManager Tests', () => {
@@ -333,4 +337,98 @@ suite('TagManager Tests', () => {
             assert.strictEqual(sorted[3]!.name, 'Z Tag');
         });
     });
+
+    suite('TagManager tag operations', () => {
+        let tempDir: string;
+        let tasksJsonPath: string;
+        let tagManager: TagManager;
+
+        const readTags = () => JSON.parse(fs.readFileSync(tasksJsonPath, 'utf8'));
+
+        suiteSetup(() => {
+            // Mock clients in other suites stub fs on sinon's default sandbox and leave it stubbed
+            sinon.restore();
+        });
+
+        setup(() => {
+            tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'tag-manager-'));
+            tasksJsonPath = path.join(tempDir, 'tasks', 'tasks.json');
+            fs.mkdirSync(path.dirname(tasksJsonPath));
+            fs.writeFileSync(tasksJsonPath, JSON.stringify({
+                master: { tasks: [{ id: 1, title: 'Setup' }, { id: 2, title: 'Build', dependencies: [1] }], metadata: { description: 'Main' } },
+                feature: { tasks: [{ id: 1, title: 'Spike' }, { id: 3, title: 'Ship', dependencies: [1] }] }
+            }));
+            fs.writeFileSync(path.join(tempDir, 'state.json'), JSON.stringify({ currentTag: 'feature', migrationCompleted: true }));
+            tagManager = new TagManager(tempDir);
+        });
+
+        teardown(() => {
+            fs.rmSync(tempDir, { recursive: true, force: true });
+        });
+
+        test('should rename a tag in place and follow it in state.json', async () => {
+            await tagManager.renameTag('feature', 'feature-b');
+
+            assert.deepStrictEqual(Object.keys(readTags()), ['master', 'feature-b']);
+            assert.strictEqual(tagManager.getCurrentTag(), 'feature-b');
+            assert.strictEqual(JSON.parse(fs.readFileSync(path.join(tempDir, 'state.json'), 'utf8')).currentTag, 'feature-b');
+        });
+
+        test('should refuse invalid, taken or master tag names', async () => {
+            await assert.rejects(tagManager.renameTag('feature', 'has space'), /Invalid tag name/);
+            await assert.rejects(tagManager.renameTag('feature', 'master'), /already exists/);
+            await assert.rejects(tagManager.renameTag('master', 'main'), /master tag/);
+            await assert.rejects(tagManager.duplicateTag('missing', 'copy'), /does not exist/);
+        });
+
+        test('should duplicate a tag with its tasks', async () => {
+            await tagManager.duplicateTag('master', 'master-copy');
+
+            const tags = readTags();
+            assert.deepStrictEqual(tags['master-copy'].tasks, tags.master.tasks);
+            assert.strictEqual(tags['master-copy'].metadata.description, 'Main');
+            assert.ok(tags['master-copy'].metadata.created);
+        });
+
+        test('should merge a tag into another and renumber colliding IDs', async () => {
+            const merged = await tagManager.mergeTags('feature', 'master');
+
+            const tags = readTags();
+            assert.deepStrictEqual([...merged], [['1', '3'], ['3', '4']]);
+            assert.deepStrictEqual(Object.keys(tags), ['master']);
+            assert.deepStrictEqual(tags.master.tasks.map((task: { id: number }) => task.id), [1, 2, 3, 4]);
+            assert.deepStrictEqual(tags.master.tasks[3].dependencies, [3]);
+            assert.strictEqual(tagManager.getCurrentTag(), 'master');
+        });
+
+        test('should save tag description and color, and clear the color again', async () => {
+            await tagManager.updateTagProperties('master', { description: 'Release work', color: '#00aa55' });
+
+            assert.strictEqual(readTags().master.metadata.description, 'Release work');
+            assert.strictEqual(tagManager.getTagColor('master'), '#00AA55');
+            assert.strictEqual(tagManager.getTagInfo('master')?.color, '#00AA55');
+
+            await tagManager.updateTagProperties('master', { color: '' });
+            assert.strictEqual(tagManager.getTagColor('master'), undefined);
+            await assert.rejects(tagManager.updateTagProperties('master', { color: 'blue' }), /Invalid color/);
+        });
+
+        test('should archive tags other than master and the current tag', async () => {
+            tagManager.setCurrentTag('master');
+            await tagManager.updateTagProperties('feature', { archived: true });
+
+            assert.deepStrictEqual(tagManager.getArchivedTags(), ['feature']);
+            assert.deepStrictEqual(tagManager.getTagContext().archivedTags, ['feature']);
+            assert.strictEqual(tagManager.getTagInfo('feature')?.archived, true);
+            await assert.rejects(tagManager.updateTagProperties('master', { archived: true }), /master tag/);
+
+            await tagManager.updateTagProperties('feature', { archived: false });
+            assert.deepStrictEqual(tagManager.getArchivedTags(), []);
+            assert.strictEqual(readTags().feature.metadata.archived, undefined);
+        });
+
+        test('should not archive the current tag', async () => {
+            await assert.rejects(tagManager.updateTagProperties('feature', { archived: true }), /currently active tag/);
+        });
+    });
 }); 
\ No newline at end of file
@@ -0,0 +1,148 @@
+import { EstimateReportEntry, Task, TaskTimerState } from './types';
+import { formatHours, parseEstimatedHours } from './criticalPathUtils';
+import { getQualifiedTaskId } from './dependencyUtils';
+import { getFilterStatusLabel, normalizeFilterStatus } from './filterUtils';
+import { escapeMarkdown } from './escapeUtils';
+
+// Actual time above or below the estimate by more than this share counts as a miss
+const estimateTolerance = 0.25;
+
+/**
+ * Time tracked by a timer, including the current run
+ * @param now Time to measure up to
+ */
+export function getTimerElapsedMs(timer: TaskTimerState, now: Date = new Date()): number {
+    const running = timer.runningSince ? Math.max(0, now.getTime() - new Date(timer.runningSince).getTime()) : 0;
+    return timer.elapsedMs + running;
+}
+
+/**
+ * Format elapsed time for the status bar, e.g. "0:05:09"
+ */
+export function formatTimerElapsed(ms: number): string {
+    const seconds = Math.floor(ms / 1000);
+    const pad = (value: number) => String(value).padStart(2, '0');
+    return `${Math.floor(seconds / 3600)}:${pad(Math.floor(seconds / 60) % 60)}:${pad(seconds % 60)}`;
+}
+
+/**
+ * Format tracked hours the way estimatedTime is written, so parseEstimatedHours reads it back:
+ * "25m" below an hour, otherwise hours such as "1.5h" or "2.25h"
+ */
+export function formatTrackedHours(hours: number): string {
+    const minutes = Math.round(hours * 60);
+    return minutes < 60 ? `${minutes}m` : `${Math.round(minutes / 60 * 100) / 100}h`;
+}
+
+/**
+ * Add tracked time to an actualTime value
+ * @param actualTime Current actualTime; a value that can't be parsed is replaced
+ * @param hours Time to add
+ * @param hoursPerDay Working hours in a day, for values written in days or weeks
+ * @returns The new actualTime
+ */
+export function addActualTime(actualTime: string | undefined, hours: number, hoursPerDay: number = 8): string {
+    return formatTrackedHours((parseEstimatedHours(actualTime, hoursPerDay) || 0) + hours);
+}
+
+/**
+ * Collect the tasks and subtasks that have an estimate, an actual time, or both
+ * @param tasks Main tasks with nested subtasks
+ * @param hoursPerDay Working hours in a day, for values written in days or weeks
+ * @returns Entries in task order
+ */
+export function buildEstimateReport(tasks: Task[], hoursPerDay: number = 8): EstimateReportEntry[] {
+    const entries: EstimateReportEntry[] = [];
+    const collect = (task: Task, parentTaskId?: string) => {
+        const id = getQualifiedTaskId(task, parentTaskId);
+        const estimatedHours = parseEstimatedHours(task.estimatedTime, hoursPerDay);
+        const actualHours = parseEstimatedHours(task.actualTime, hoursPerDay);
+        if (estimatedHours !== undefined || actualHours !== undefined) {
+            entries.push({
+                id,
+                title: task.title,
+                status: normalizeFilterStatus(task.status),
+                ...(estimatedHours !== undefined ? { estimatedHours } : {}),
+                ...(actualHours !== undefined ? { actualHours } : {})
+            });
+        }
+        (task.subtasks || []).forEach(subtask => collect(subtask, id));
+    };
+    tasks.forEach(task => collect(task));
+    return entries;
+}
+
+/**
+ * Render the estimate-vs-actual comparison as a Markdown report. Tasks with both values are listed by how far
+ * the actual time ran over the estimate; the ratio of their totals is the factor to apply to new estimates.
+ * @param entries Entries from buildEstimateReport
+ * @param options tagLabel heads the report
+ * @returns Markdown text
+ */
+export function generateEstimateReport(entries: EstimateReportEntry[], options: { tagLabel: string }): string {
+    const compared = entries
+        .filter((entry): entry is EstimateReportEntry & { estimatedHours: number; actualHours: number } =>
+            entry.estimatedHours !== undefined && entry.actualHours !== undefined)
+        .sort((a, b) => getRatio(b) - getRatio(a));
+    const actualOnly = entries.filter(entry => entry.estimatedHours === undefined);
+    const untracked = entries.filter(entry => entry.actualHours === undefined && entry.status === 'completed');
+
+    const lines: string[] = [
+        `# 估算与实际用时：${options.tagLabel}`,
+        '',
+        `生成时间：${new Date().toLocaleString()}`,
+        ''
+    ];
+
+    lines.push('## 概览', '');
+    if (compared.length === 0) {
+        lines.push('还没有同时填写了 estimatedTime 和 actualTime 的任务。使用计时器记录用时后，这里会显示对比。', '');
+    } else {
+        const estimated = compared.reduce((sum, entry) => sum + entry.estimatedHours, 0);
+        const actual = compared.reduce((sum, entry) => sum + entry.actualHours, 0);
+        const over = compared.filter(entry => getRatio(entry) > 1 + estimateTolerance).length;
+        const under = compared.filter(entry => getRatio(entry) < 1 - estimateTolerance).length;
+        lines.push(
+            `- 对比任务：${compared.length} 个`,
+            `- 估算合计 ${formatHours(estimated)}，实际合计 ${formatHours(actual)}，实际/估算 **${formatRatio(actual / estimated)}**`,
+            `- 超出估算 ${Math.round(estimateTolerance * 100)}% 以上：${over} 个；少于估算 ${Math.round(estimateTolerance * 100)}% 以上：${under} 个`,
+            ''
+        );
+    }
+    if (actualOnly.length > 0 || untracked.length > 0) {
+        lines.push(`- 有实际用时但没有估算：${actualOnly.length} 个；已完成但没有记录用时：${untracked.length} 个`, '');
+    }
+
+    if (compared.length > 0) {
+        lines.push(
+            '## 对比',
+            '',
+            '| 任务 | 状态 | 估算 | 实际 | 偏差 | 实际/估算 |',
+            '|------|------|------|------|------|-----------|'
+        );
+        for (const entry of compared) {
+            const difference = entry.actualHours - entry.estimatedHours;
+            lines.push(`| ${entry.id} ${escapeMarkdown(entry.title)} | ${getFilterStatusLabel(entry.status)} | ${formatHours(entry.estimatedHours)} | `
+                + `${formatHours(entry.actualHours)} | ${difference >= 0 ? '+' : '−'}${formatHours(Math.abs(difference))} | ${formatRatio(getRatio(entry))} |`);
+        }
+        lines.push('');
+    }
+
+    if (actualOnly.length > 0) {
+        lines.push('## 没有估算', '');
+        for (const entry of actualOnly) {
+            lines.push(`- **${entry.id}** ${escapeMarkdown(entry.title)} — 实际 ${formatHours(entry.actualHours || 0)}`);
+        }
+        lines.push('');
+    }
+
+    return lines.join('\n').trimEnd() + '\n';
+}
+
+function getRatio(entry: { estimatedHours: number; actualHours: number }): number {
+    return entry.estimatedHours > 0 ? entry.actualHours / entry.estimatedHours : Infinity;
+}
+
+function formatRatio(ratio: number): string {
+    return Number.isFinite(ratio) ? `${ratio.toFixed(2)}×` : '—';
+}
@@ -62,6 +62,8 @@ export interface TaskFormData {
     assignee?: string;
     tags?: string[];
     tagContext?: string; // The tag context to create the task in (e.g., 'master', 'feature-branch')
+    template?: TaskTemplate; // Create the task from this template instead of the other fields
+    templateValues?: Record<string, string>; // Placeholder values for the template
 }
 
 export interface SubtaskFormData {
@@ -159,8 +161,208 @@ export interface TaskValidationResult {
 
 export interface TaskSearchResult {
     task: Task;
-    matchType: 'title' | 'description' | 'id' | 'tag';
+    matchType: 'title' | 'description' | 'details' | 'testStrategy' | 'id' | 'tag';
     matchText: string;
+    parentTaskId?: string;  // Set when the matched task is a subtask
+}
+
+// Tree filter state, persisted per workspace. Empty or missing lists mean "no restriction".
+export interface TaskFilter {
+    statuses?: TaskStatus[];
+    priorities?: TaskPriority[];
+    categories?: string[];
+    assignees?: string[];
+    tags?: string[];
+}
+
+// Task query language (e.g. "status:pending priority:>=high -tag:spike")
+export type TaskQueryOperator = '=' | '>=' | '<=' | '>' | '<';
+
+export interface TaskQueryTerm {
+    field: string;       // Empty string for free-text terms
+    operator: TaskQueryOperator;
+    values: string[];    // Comma-separated values are OR-ed
+    negated: boolean;
+}
+
+export interface TaskQueryContext {
+    currentUser?: string;  // Resolves "assignee:me"
+    now?: Date;            // Reference time for relative due dates
+}
+
+export type TaskPredicate = (task: Task, parent?: Task) => boolean;
+
+// Named query saved in settings and shown as a tree view
+export interface SavedTaskView {
+    name: string;
+    query: string;
+}
+
+// Problem found in Task.dependencies; taskId and targetId are qualified ("3" or "3.2")
+export type DependencyIssueKind = 'missing' | 'self' | 'cycle' | 'crossParent';
+
+export interface DependencyIssue {
+    kind: DependencyIssueKind;
+    taskId: string;
+    /** The dependency exactly as written in tasks.json */
+    dependency: string;
+    /** Resolved dependency, unset when it doesn't exist */
+    targetId?: string;
+    /** Task IDs around the cycle, first and last are the same */
+    cycle?: string[];
+    message: string;
+}
+
+// Dependency graph of one tag; edges point from a dependency to the task that needs it
+export interface DependencyGraphNode {
+    id: string;            // Qualified ID ("3" or "3.2")
+    parentId?: string;
+    task: Task;
+    layer: number;         // Longest dependency chain before this node
+    row: number;           // Position within the layer
+}
+
+export interface DependencyGraphEdge {
+    from: string;
+    to: string;
+    cyclic: boolean;       // Closes a dependency cycle
+}
+
+export interface DependencyGraph {
+    nodes: DependencyGraphNode[];
+    edges: DependencyGraphEdge[];
+    layerCount: number;
+}
+
+// Critical path analysis of one tag; times are remaining hours from now
+export interface CriticalPathEntry {
+    id: string;
+    task: Task;
+    duration: number;      // Remaining hours, 0 for completed or cancelled tasks
+    estimated: boolean;    // False when the default estimate was used
+    earliestStart: number;
+    earliestFinish: number;
+    latestStart: number;
+    slack: number;
+    critical: boolean;
+}
+
+export interface CriticalPathResult {
+    entries: CriticalPathEntry[];  // In dependency order
+    path: CriticalPathEntry[];     // Remaining tasks that determine totalDuration, first to last
+    totalDuration: number;
+}
+
+// Weights of the next-task score factors, each factor contributes between 0 and its weight
+export interface RecommendationWeights {
+    priority: number;
+    dueDate: number;
+    unblocks: number;
+    inProgress: number;
+}
+
+export interface TaskRecommendation {
+    task: Task;
+    id: string;            // Qualified ID ("3" or "3.2")
+    parentTaskId?: string;
+    score: number;
+    reasons: string[];     // One line per contributing factor, shown as "why this task"
+}
+
+// Kanban board of one tag; columns hold cards by normalized status
+export interface KanbanCard {
+    id: string;            // Qualified ID ("3" or "3.2")
+    parentTaskId?: string;
+    task: Task;
+    waitingFor: string[];  // Dependencies that aren't done yet, or can't be found
+    subtasksDone: number;
+    subtasksTotal: number;
+}
+
+export interface KanbanColumn {
+    status: TaskStatus;
+    label: string;
+    cards: KanbanCard[];
+}
+
+// Where a moved task goes; without a sibling it is appended to the destination list
+export interface TaskMoveDestination {
+    parentId?: string;     // Qualified ID of the new parent, unset to make it a main task
+    siblingId?: string;    // Qualified ID of a task in the destination list to place it next to
+    after?: boolean;       // Place after siblingId instead of before
+}
+
+// Outcome of renumbering a tag; a dropped dependency is a subtask's reference to a main task that a sibling's new ID would shadow
+export interface RenumberResult {
+    renamed: Map<string, string>;     // Old to new qualified IDs of every task whose ID changed
+    droppedDependencies: string[];    // "taskId → dependency", using the old IDs
+}
+
+// Timer of the task being worked on, kept in workspace state so it survives a reload
+export interface TaskTimerState {
+    taskId: string;          // Qualified ID, "3" or "3.1"
+    tag: string;
+    title: string;
+    elapsedMs: number;       // Time tracked before the current run
+    runningSince?: string;   // ISO time the timer was started or resumed, unset while paused
+}
+
+// A task or subtask in the estimate-vs-actual report
+export interface EstimateReportEntry {
+    id: string;              // Qualified ID
+    title: string;
+    status: TaskStatus;
+    estimatedHours?: number;
+    actualHours?: number;
+}
+
+// Progress of one tag on one day, kept in .taskmaster/history/<tag>.json
+export interface ProgressSnapshot {
+    date: string;          // Local day, YYYY-MM-DD
+    recordedAt: string;    // ISO time of the last update that day
+    progress: TaskProgress;
+}
+
+// One day of a burndown/burnup chart
+export interface BurnChartPoint {
+    date: string;
+    total: number;         // Scope
+    completed: number;
+    remaining: number;
+    scopeChange: number;   // Change of total since the previous point, 0 for the first
+}
+
+// Tasks read from a Markdown checklist or CSV file, with the IDs the file gives them
+export interface TaskImport {
+    tasks: RawTask[];
+    warnings: string[];    // Lines or rows that were skipped or only partly understood
+}
+
+// One tag's tasks in an export; the tasks are already filtered
+export interface TaskExportSection {
+    tag: string;
+    tasks: Task[];
+}
+
+export type TaskExportFormat = 'markdown' | 'csv' | 'json' | 'html';
+
+// Reusable task read from .taskmaster/templates/<name>.json; text fields may contain ${placeholder}
+export interface TaskTemplate {
+    name: string;          // The file's "name", or the file name without .json
+    title: string;
+    description?: string;
+    details?: string;
+    testStrategy?: string;
+    priority?: TaskPriority;
+    subtasks?: TaskTemplateSubtask[];
+}
+
+export interface TaskTemplateSubtask {
+    title: string;
+    description?: string;
+    details?: string;
+    testStrategy?: string;
+    dependencies?: number[];   // Positions (1-based) of earlier subtasks in the same template
 }
 
 // Raw task types (from JSON files before normalization)
@@ -265,6 +467,7 @@ export interface TagContextInfo {
     currentTag: string;
     availableTags: string[];
     isTaggedFormat: boolean;
+    archivedTags?: string[];  // Left out of tag pickers
 }
 
 export interface TagSelectionOptions {
@@ -0,0 +1,90 @@
+/**
+ * A task or subtask as stored in tasks.json, with its position in the containing list
+ */
+export interface RawTaskState {
+    raw: any;
+    index: number;
+}
+
+/**
+ * One recorded mutation. Undo puts `before` back, redo puts `after` back;
+ * a null state means the task didn't exist at that point.
+ */
+export interface TaskJournalEntry {
+    /** Shown in notifications, e.g. "任务 3 状态改为 completed" */
+    label: string;
+    tag: string;
+    /** Main task ID, or the parent ID when subtaskId is set */
+    taskId: string;
+    subtaskId?: string;
+    /** before/after hold the tag's whole task list, for changes that renumber tasks */
+    wholeTag?: boolean;
+    before: RawTaskState | null;
+    after: RawTaskState | null;
+}
+
+/**
+ * Bounded undo/redo stacks of task mutations
+ */
+export class UndoJournal {
+    private undoStack: TaskJournalEntry[] = [];
+    private redoStack: TaskJournalEntry[] = [];
+
+    constructor(private readonly limit: number = 50) {}
+
+    /**
+     * Record a new mutation; this discards everything that could be redone
+     */
+    record(entry: TaskJournalEntry): void {
+        this.undoStack.push(entry);
+        if (this.undoStack.length > this.limit) {
+            this.undoStack.shift();
+        }
+        this.redoStack = [];
+    }
+
+    peekUndo(): TaskJournalEntry | undefined {
+        return this.undoStack[this.undoStack.length - 1];
+    }
+
+    peekRedo(): TaskJournalEntry | undefined {
+        return this.redoStack[this.redoStack.length - 1];
+    }
+
+    /**
+     * Undo the latest entry. The entry only moves to the redo stack when apply succeeds.
+     * @param apply Restores the entry's `before` state
+     * @returns The undone entry, or null when there is nothing to undo
+     */
+    async undo(apply: (entry: TaskJournalEntry) => Promise<void>): Promise<TaskJournalEntry | null> {
+        const entry = this.peekUndo();
+        if (!entry) {
+            return null;
+        }
+        await apply(entry);
+        this.undoStack.pop();
+        this.redoStack.push(entry);
+        return entry;
+    }
+
+    /**
+     * Redo the latest undone entry. The entry only moves back to the undo stack when apply succeeds.
+     * @param apply Restores the entry's `after` state
+     * @returns The redone entry, or null when there is nothing to redo
+     */
+    async redo(apply: (entry: TaskJournalEntry) => Promise<void>): Promise<TaskJournalEntry | null> {
+        const entry = this.peekRedo();
+        if (!entry) {
+            return null;
+        }
+        await apply(entry);
+        this.redoStack.pop();
+        this.undoStack.push(entry);
+        return entry;
+    }
+
+    clear(): void {
+        this.undoStack = [];
+        this.redoStack = [];
+    }
+}